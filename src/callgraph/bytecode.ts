@@ -0,0 +1,377 @@
+// Minimal JVM class-file reader: the constant pool, and for every method the
+// member-referencing instructions of its Code attribute with their source
+// lines (LineNumberTable), plus a hash of the code. Enough to build the
+// callgraph and index field accesses and object instantiations; nothing is
+// verified or interpreted.
+
+import * as crypto from 'crypto';
+
+export type FieldSiteKind = 'getfield' | 'putfield' | 'getstatic' | 'putstatic';
+export type InvokeSiteKind = 'invokevirtual' | 'invokespecial' | 'invokestatic' | 'invokeinterface';
+export type SiteKind = FieldSiteKind | InvokeSiteKind | 'new';
+
+export interface BytecodeSite {
+  kind: SiteKind;
+  /** Binary name of the referenced class ("a.b.Outer$Inner"). */
+  owner: string;
+  /** Field or method name; absent for `new`. */
+  name?: string;
+  /** Field or method descriptor, e.g. "Lnet/minecraft/world/phys/Vec3;" or "(I)V"; absent for `new`. */
+  descriptor?: string;
+  /** Source line from the LineNumberTable, when compiled with one. */
+  line?: number;
+}
+
+export interface MethodCode {
+  name: string;
+  /** JVM method descriptor, e.g. "(IZ)V". */
+  descriptor: string;
+  sites: BytecodeSite[];
+  /**
+   * Hash of the instructions, with constant pool operands replaced by the
+   * member names they refer to: the same code hashes the same in another
+   * build of the jar, wherever its constants and its class ended up.
+   * Absent for methods without code.
+   */
+  codeHash?: string;
+}
+
+export interface ClassFile {
+  /** Binary name, e.g. "net.minecraft.world.entity.Entity". */
+  name: string;
+  methods: MethodCode[];
+}
+
+export class ClassFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClassFormatError';
+  }
+}
+
+const SITE_OPCODES: Record<number, SiteKind> = {
+  0xb2: 'getstatic',
+  0xb3: 'putstatic',
+  0xb4: 'getfield',
+  0xb5: 'putfield',
+  0xb6: 'invokevirtual',
+  0xb7: 'invokespecial',
+  0xb8: 'invokestatic',
+  0xb9: 'invokeinterface',
+  0xbb: 'new',
+};
+
+/**
+ * Operand bytes of each fixed-length opcode; tableswitch, lookupswitch and
+ * wide are sized as they are read.
+ */
+const OPERAND_LENGTHS = (() => {
+  const lengths = new Int8Array(256).fill(0);
+  const set = (from: number, to: number, length: number) => lengths.fill(length, from, to + 1);
+  set(0x10, 0x10, 1);  // bipush
+  set(0x11, 0x11, 2);  // sipush
+  set(0x12, 0x12, 1);  // ldc
+  set(0x13, 0x14, 2);  // ldc_w, ldc2_w
+  set(0x15, 0x19, 1);  // iload..aload
+  set(0x36, 0x3a, 1);  // istore..astore
+  set(0x84, 0x84, 2);  // iinc
+  set(0x99, 0xa8, 2);  // if<cond>, goto, jsr
+  set(0xa9, 0xa9, 1);  // ret
+  set(0xb2, 0xb8, 2);  // field access, invokevirtual/special/static
+  set(0xb9, 0xba, 4);  // invokeinterface, invokedynamic
+  set(0xbb, 0xbb, 2);  // new
+  set(0xbc, 0xbc, 1);  // newarray
+  set(0xbd, 0xbd, 2);  // anewarray
+  set(0xc0, 0xc1, 2);  // checkcast, instanceof
+  set(0xc5, 0xc5, 3);  // multianewarray
+  set(0xc6, 0xc7, 2);  // ifnull, ifnonnull
+  set(0xc8, 0xc9, 4);  // goto_w, jsr_w
+  return lengths;
+})();
+
+/** Opcodes other than the sites whose operand is a constant pool index, left out of code hashes. */
+const POOL_OPCODES = new Set([0x12, 0x13, 0x14, 0xba, 0xbd, 0xc0, 0xc1, 0xc5]);
+
+const TABLESWITCH = 0xaa;
+const LOOKUPSWITCH = 0xab;
+const WIDE = 0xc4;
+const IINC = 0x84;
+/** jsr_w; the opcodes above it are reserved and never appear in class files. */
+const LAST_OPCODE = 0xc9;
+
+type Constant =
+  | { tag: 1; text: string }
+  | { tag: 7; name: number }
+  | { tag: 9 | 10 | 11; owner: number; nameAndType: number }
+  | { tag: 12; name: number; descriptor: number }
+  | null;
+
+export function readClassFile(data: Uint8Array): ClassFile {
+  const reader = new ByteReader(data);
+  if (reader.u4() !== 0xcafebabe) throw new ClassFormatError('Not a class file');
+  reader.skip(4); // minor, major version
+
+  const pool = readConstantPool(reader);
+  const utf8 = (index: number) => {
+    const c = pool[index];
+    if (!c || c.tag !== 1) throw new ClassFormatError(`Constant ${index} is not a Utf8`);
+    return c.text;
+  };
+  const className = (index: number) => {
+    const c = pool[index];
+    if (!c || c.tag !== 7) throw new ClassFormatError(`Constant ${index} is not a Class`);
+    return internalToBinary(utf8(c.name));
+  };
+
+  reader.skip(2); // access flags
+  const name = className(reader.u2());
+  reader.skip(2); // super class
+  reader.skip(reader.u2() * 2); // interfaces
+
+  const fieldCount = reader.u2();
+  for (let i = 0; i < fieldCount; i++) {
+    reader.skip(6);
+    skipAttributes(reader);
+  }
+
+  const methods: MethodCode[] = [];
+  const methodCount = reader.u2();
+  for (let i = 0; i < methodCount; i++) {
+    reader.skip(2); // access flags
+    const method: MethodCode = { name: utf8(reader.u2()), descriptor: utf8(reader.u2()), sites: [] };
+    const attributeCount = reader.u2();
+    for (let a = 0; a < attributeCount; a++) {
+      const attributeName = utf8(reader.u2());
+      const length = reader.u4();
+      const end = reader.offset + length;
+      if (attributeName === 'Code') {
+        Object.assign(method, readCode(reader.slice(length), pool, utf8, className));
+      }
+      reader.offset = end;
+    }
+    methods.push(method);
+  }
+
+  return { name, methods };
+}
+
+function readConstantPool(reader: ByteReader): Constant[] {
+  const count = reader.u2();
+  const pool: Constant[] = [null];
+  for (let i = 1; i < count; i++) {
+    const tag = reader.u1();
+    switch (tag) {
+      case 1: pool.push({ tag, text: reader.utf8(reader.u2()) }); break;
+      case 7: pool.push({ tag, name: reader.u2() }); break;
+      case 9: case 10: case 11: pool.push({ tag, owner: reader.u2(), nameAndType: reader.u2() }); break;
+      case 12: pool.push({ tag, name: reader.u2(), descriptor: reader.u2() }); break;
+      case 3: case 4: case 17: case 18: reader.skip(4); pool.push(null); break;
+      case 5: case 6:
+        // Longs and doubles take two slots.
+        reader.skip(8);
+        pool.push(null, null);
+        i++;
+        break;
+      case 8: case 16: case 19: case 20: reader.skip(2); pool.push(null); break;
+      case 15: reader.skip(3); pool.push(null); break;
+      default: throw new ClassFormatError(`Unknown constant pool tag ${tag} at entry ${i}`);
+    }
+  }
+  return pool;
+}
+
+function readCode(
+  reader: ByteReader,
+  pool: Constant[],
+  utf8: (index: number) => string,
+  className: (index: number) => string
+): { sites: BytecodeSite[]; codeHash: string } {
+  reader.skip(4); // max stack, max locals
+  const codeLength = reader.u4();
+  const code = reader.slice(codeLength);
+  reader.skip(reader.u2() * 8); // exception table
+
+  let lines: number[] = [];
+  const attributeCount = reader.u2();
+  for (let a = 0; a < attributeCount; a++) {
+    const attributeName = utf8(reader.u2());
+    const length = reader.u4();
+    const end = reader.offset + length;
+    if (attributeName === 'LineNumberTable') {
+      // A method can carry several tables; their entries combine.
+      const entries = reader.u2();
+      for (let e = 0; e < entries; e++) lines.push(reader.u2(), reader.u2());
+    }
+    reader.offset = end;
+  }
+  lines = sortPairs(lines);
+
+  const sites: BytecodeSite[] = [];
+  const hash = crypto.createHash('sha1');
+  let pc = 0;
+  while (pc < codeLength) {
+    const opcode = code.data[code.start + pc];
+    const kind = SITE_OPCODES[opcode];
+    const next = nextInstruction(code, pc, opcode);
+    // A switch with high < low or a negative pair count would loop; a cut-off instruction reads past the code.
+    if (next <= pc || next > codeLength) {
+      throw new ClassFormatError(`Instruction at ${pc} ends outside the code (opcode ${opcode})`);
+    }
+    if (kind) {
+      const index = code.u2At(pc + 1);
+      const site = kind === 'new' ? { kind, owner: className(index) } : memberSite(kind, index, pool, utf8, className);
+      const line = lineAt(lines, pc);
+      sites.push(line === undefined ? site : { ...site, line });
+      hash.update(`${opcode}:${site.name ?? ''};`);
+    } else if (POOL_OPCODES.has(opcode)) {
+      hash.update(`${opcode};`);
+    } else {
+      hash.update(code.data.subarray(code.start + pc, code.start + next));
+    }
+    pc = next;
+  }
+  return { sites, codeHash: hash.digest('hex') };
+}
+
+function memberSite(
+  kind: SiteKind,
+  index: number,
+  pool: Constant[],
+  utf8: (index: number) => string,
+  className: (index: number) => string
+): BytecodeSite {
+  const ref = pool[index];
+  const invoke = kind.startsWith('invoke');
+  // invokespecial and invokestatic may name interface methods since Java 8.
+  if (!ref || !('nameAndType' in ref) || (ref.tag === 9) === invoke) {
+    throw new ClassFormatError(`Constant ${index} is not a ${invoke ? 'Methodref' : 'Fieldref'}`);
+  }
+  const nameAndType = pool[ref.nameAndType];
+  if (!nameAndType || nameAndType.tag !== 12) throw new ClassFormatError(`Constant ${ref.nameAndType} is not a NameAndType`);
+  return {
+    kind,
+    owner: className(ref.owner),
+    name: utf8(nameAndType.name),
+    descriptor: utf8(nameAndType.descriptor),
+  };
+}
+
+function nextInstruction(code: ByteReader, pc: number, opcode: number): number {
+  if (opcode > LAST_OPCODE) throw new ClassFormatError(`Unknown opcode ${opcode} at ${pc}`);
+  if (opcode === TABLESWITCH || opcode === LOOKUPSWITCH) {
+    // Operands start at the next multiple of four from the start of the code.
+    const operands = pc + 1 + ((4 - ((pc + 1) % 4)) % 4);
+    if (opcode === TABLESWITCH) {
+      const low = code.s4At(operands + 4);
+      const high = code.s4At(operands + 8);
+      return operands + 12 + (high - low + 1) * 4;
+    }
+    return operands + 8 + code.s4At(operands + 4) * 8;
+  }
+  if (opcode === WIDE) {
+    return pc + (code.data[code.start + pc + 1] === IINC ? 6 : 4);
+  }
+  return pc + 1 + OPERAND_LENGTHS[opcode];
+}
+
+/** Sort flattened [pc, line] pairs by pc. */
+function sortPairs(pairs: number[]): number[] {
+  const entries: Array<[number, number]> = [];
+  for (let i = 0; i < pairs.length; i += 2) entries.push([pairs[i], pairs[i + 1]]);
+  entries.sort((a, b) => a[0] - b[0]);
+  return entries.flat();
+}
+
+/** The line of the last LineNumberTable entry starting at or before `pc`. */
+function lineAt(lines: number[], pc: number): number | undefined {
+  let line: number | undefined;
+  for (let i = 0; i < lines.length && lines[i] <= pc; i += 2) line = lines[i + 1];
+  return line;
+}
+
+function skipAttributes(reader: ByteReader): void {
+  const count = reader.u2();
+  for (let i = 0; i < count; i++) {
+    reader.skip(2);
+    reader.skip(reader.u4());
+  }
+}
+
+/** "net/minecraft/Foo$Bar" -> "net.minecraft.Foo$Bar" */
+export function internalToBinary(name: string): string {
+  return name.replace(/\//g, '.');
+}
+
+class ByteReader {
+  offset: number;
+
+  constructor(readonly data: Uint8Array, readonly start = 0, private readonly end = data.length) {
+    this.offset = start;
+  }
+
+  u1(): number {
+    this.check(1);
+    return this.data[this.offset++];
+  }
+
+  u2(): number {
+    this.check(2);
+    const value = (this.data[this.offset] << 8) | this.data[this.offset + 1];
+    this.offset += 2;
+    return value;
+  }
+
+  u4(): number {
+    this.check(4);
+    const value = this.u4At(this.offset - this.start);
+    this.offset += 4;
+    return value;
+  }
+
+  /** Unsigned 16-bit value at a position relative to `start`. */
+  u2At(position: number): number {
+    this.checkAt(position, 2);
+    const i = this.start + position;
+    return (this.data[i] << 8) | this.data[i + 1];
+  }
+
+  u4At(position: number): number {
+    this.checkAt(position, 4);
+    const i = this.start + position;
+    return ((this.data[i] << 24) | (this.data[i + 1] << 16) | (this.data[i + 2] << 8) | this.data[i + 3]) >>> 0;
+  }
+
+  s4At(position: number): number {
+    return this.u4At(position) | 0;
+  }
+
+  skip(length: number): void {
+    this.check(length);
+    this.offset += length;
+  }
+
+  /** A reader over the next `length` bytes; this one moves past them. */
+  slice(length: number): ByteReader {
+    this.check(length);
+    const slice = new ByteReader(this.data, this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  /** Modified UTF-8 as used by class files; identical to UTF-8 for anything but NUL and supplementary characters. */
+  utf8(length: number): string {
+    this.check(length);
+    const text = Buffer.from(this.data.buffer, this.data.byteOffset + this.offset, length).toString('utf8');
+    this.offset += length;
+    return text;
+  }
+
+  private check(length: number): void {
+    if (this.offset + length > this.end) throw new ClassFormatError('Unexpected end of class file');
+  }
+
+  private checkAt(position: number, length: number): void {
+    const i = this.start + position;
+    if (position < 0 || i + length > this.end) throw new ClassFormatError('Unexpected end of class file');
+  }
+}
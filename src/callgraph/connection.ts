@@ -0,0 +1,335 @@
+// Read-only access to callgraph.db files, one connection per version, kept in
+// an LRU bounded by memory.
+//
+// Two backends:
+//   - node:sqlite (Node >= 22.5, unflagged from 22.13): SQLite reads pages
+//     from disk on demand, so a connection only costs its page cache.
+//   - sql.js: the fallback everywhere else (see sqlite-loader.ts). It has no
+//     file I/O, so the whole database is loaded into memory.
+// MCDEV_CALLGRAPH_BACKEND=sqljs forces the fallback, for building callgraphs
+// too (index.ts). MCDEV_CALLGRAPH_MEMORY_MB (default 1024) bounds what the
+// open connections may hold; the least recently used are closed first. The
+// one just opened is always kept, and so is every connection held through
+// acquireCallgraphDb() until it is released: code that queries across an
+// `await` holds its connection, and the pool may run over budget meanwhile.
+//
+// Every query is timed so `status` can report latency per version.
+
+import * as fs from 'fs';
+import type { SqlValue } from 'sql.js';
+import type { DatabaseSync, StatementSync } from 'node:sqlite';
+import { loadSqlJs } from './sqlite-loader.js';
+
+export type SqlRow = Record<string, SqlValue>;
+export type CallgraphBackend = 'node:sqlite' | 'sql.js';
+
+export interface CallgraphStatement {
+  /** Run the statement with `params` and return every row. */
+  all(params?: SqlValue[]): SqlRow[];
+  free(): void;
+}
+
+export interface CallgraphDb {
+  readonly backend: CallgraphBackend;
+  prepare(sql: string): CallgraphStatement;
+  all(sql: string, params?: SqlValue[]): SqlRow[];
+}
+
+/** A connection eviction leaves open until release(); release it in a `finally`. */
+export interface HeldCallgraphDb extends CallgraphDb {
+  release(): void;
+}
+
+export interface CallgraphDbMetrics {
+  version: string;
+  backend: CallgraphBackend;
+  /** Bytes the connection holds: the whole file for sql.js, at most the page cache for node:sqlite. */
+  memoryBytes: number;
+  fileBytes: number;
+  openMs: number;
+  queries: number;
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface CallgraphPoolMetrics {
+  budgetBytes: number;
+  usedBytes: number;
+  opens: number;
+  evictions: number;
+  open: CallgraphDbMetrics[];
+}
+
+const DEFAULT_MEMORY_MB = 1024;
+/** Page cache per node:sqlite connection. */
+const PAGE_CACHE_BYTES = 64 * 1024 * 1024;
+/** Latencies kept per version for the percentile. */
+const LATENCY_SAMPLES = 500;
+
+interface Connection {
+  backend: CallgraphBackend;
+  memoryBytes: number;
+  prepare(sql: string): { all(params: SqlValue[]): SqlRow[]; free(): void };
+  close(): void;
+}
+
+class PooledDb implements CallgraphDb {
+  queries = 0;
+  totalMs = 0;
+  maxMs = 0;
+  /** Unreleased acquireCallgraphDb() holds. */
+  holds = 0;
+  /** Dropped from the pool while held: closed on the last release. */
+  retired = false;
+  private readonly latencies: number[] = [];
+
+  constructor(
+    readonly version: string,
+    private readonly connection: Connection,
+    readonly mtimeMs: number,
+    readonly fileBytes: number,
+    readonly openMs: number
+  ) {}
+
+  get backend(): CallgraphBackend {
+    return this.connection.backend;
+  }
+
+  get memoryBytes(): number {
+    return this.connection.memoryBytes;
+  }
+
+  prepare(sql: string): CallgraphStatement {
+    const stmt = this.connection.prepare(sql);
+    return {
+      all: (params = []) => this.timed(() => stmt.all(params)),
+      free: () => stmt.free(),
+    };
+  }
+
+  all(sql: string, params: SqlValue[] = []): SqlRow[] {
+    const stmt = this.connection.prepare(sql);
+    try {
+      return this.timed(() => stmt.all(params));
+    } finally {
+      stmt.free();
+    }
+  }
+
+  close(): void {
+    this.connection.close();
+  }
+
+  release(): void {
+    this.holds--;
+    if (this.holds === 0 && this.retired) this.close();
+  }
+
+  metrics(): CallgraphDbMetrics {
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const p95 = sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0;
+    return {
+      version: this.version,
+      backend: this.backend,
+      memoryBytes: this.memoryBytes,
+      fileBytes: this.fileBytes,
+      openMs: this.openMs,
+      queries: this.queries,
+      meanMs: this.queries ? this.totalMs / this.queries : 0,
+      p95Ms: p95,
+      maxMs: this.maxMs,
+    };
+  }
+
+  private timed<T>(run: () => T): T {
+    const start = performance.now();
+    try {
+      return run();
+    } finally {
+      const ms = performance.now() - start;
+      this.queries++;
+      this.totalMs += ms;
+      this.maxMs = Math.max(this.maxMs, ms);
+      this.latencies.push(ms);
+      if (this.latencies.length > LATENCY_SAMPLES) this.latencies.shift();
+    }
+  }
+}
+
+// Map iteration order is insertion order; a hit re-inserts, so the first
+// entry is always the least recently used.
+const pool = new Map<string, PooledDb>();
+let opens = 0;
+let evictions = 0;
+
+/**
+ * The connection for `dbPath`, opening it if needed. A file replaced since it
+ * was opened (the callgraph was rebuilt) is reopened.
+ */
+export async function openCallgraphDb(version: string, dbPath: string): Promise<CallgraphDb> {
+  const stat = fs.statSync(dbPath);
+  const cached = pool.get(version);
+  if (cached && cached.mtimeMs === stat.mtimeMs) {
+    pool.delete(version);
+    pool.set(version, cached);
+    return cached;
+  }
+  if (cached) closeVersion(version);
+
+  const nodeSqlite = await loadNodeSqlite();
+  // Make room before loading: sql.js holds the whole file.
+  evictFor(nodeSqlite ? Math.min(stat.size, PAGE_CACHE_BYTES) : stat.size);
+
+  const start = performance.now();
+  const connection = nodeSqlite
+    ? openNodeSqlite(nodeSqlite, dbPath, stat.size)
+    : await openSqlJs(dbPath);
+  const db = new PooledDb(version, connection, stat.mtimeMs, stat.size, performance.now() - start);
+  pool.set(version, db);
+  opens++;
+  return db;
+}
+
+/**
+ * The connection for `dbPath`, held open until release() however many other
+ * versions are opened meanwhile.
+ */
+export async function acquireCallgraphDb(version: string, dbPath: string): Promise<HeldCallgraphDb> {
+  const db = await openCallgraphDb(version, dbPath) as PooledDb;
+  db.holds++;
+  let released = false;
+  return {
+    backend: db.backend,
+    prepare: sql => db.prepare(sql),
+    all: (sql, params) => db.all(sql, params),
+    release: () => {
+      if (released) return;
+      released = true;
+      db.release();
+    },
+  };
+}
+
+/** Close one version's connection, or every connection; held ones close on their last release. */
+export function closeCallgraphDbs(version?: string): void {
+  if (version !== undefined) {
+    closeVersion(version);
+    return;
+  }
+  for (const key of [...pool.keys()]) closeVersion(key);
+}
+
+export function getCallgraphPoolMetrics(): CallgraphPoolMetrics {
+  const open = [...pool.values()].map(db => db.metrics());
+  return {
+    budgetBytes: memoryBudget(),
+    usedBytes: open.reduce((sum, m) => sum + m.memoryBytes, 0),
+    opens,
+    evictions,
+    open,
+  };
+}
+
+function closeVersion(version: string): void {
+  const db = pool.get(version);
+  if (!db) return;
+  pool.delete(version);
+  if (db.holds > 0) db.retired = true;
+  else db.close();
+}
+
+function evictFor(bytes: number): void {
+  const budget = memoryBudget();
+  let used = [...pool.values()].reduce((sum, db) => sum + db.memoryBytes, 0);
+  for (const [version, db] of pool) {
+    if (used + bytes <= budget) break;
+    if (db.holds > 0) continue;
+    used -= db.memoryBytes;
+    closeVersion(version);
+    evictions++;
+  }
+}
+
+function memoryBudget(): number {
+  const mb = Number(process.env.MCDEV_CALLGRAPH_MEMORY_MB);
+  return (Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_MEMORY_MB) * 1024 * 1024;
+}
+
+export type NodeSqlite = typeof import('node:sqlite');
+let _nodeSqlite: Promise<NodeSqlite | null> | null = null;
+
+/**
+ * node:sqlite, or null where this Node lacks it (or has it behind
+ * --experimental-sqlite) or MCDEV_CALLGRAPH_BACKEND asks for sql.js.
+ */
+export function loadNodeSqlite(): Promise<NodeSqlite | null> {
+  if (/^sql\.?js$/i.test(process.env.MCDEV_CALLGRAPH_BACKEND ?? '')) return Promise.resolve(null);
+  _nodeSqlite ??= import('node:sqlite').catch(() => null);
+  return _nodeSqlite;
+}
+
+function openNodeSqlite({ DatabaseSync }: NodeSqlite, dbPath: string, fileBytes: number): Connection {
+  const db: DatabaseSync = new DatabaseSync(dbPath, { readOnly: true });
+  db.exec(`PRAGMA cache_size = -${PAGE_CACHE_BYTES / 1024}`);
+  return {
+    backend: 'node:sqlite',
+    memoryBytes: Math.min(fileBytes, PAGE_CACHE_BYTES),
+    prepare: sql => {
+      const stmt: StatementSync = db.prepare(sql);
+      return {
+        all: params => stmt.all(...(params as Array<string | number | null | Uint8Array>)) as SqlRow[],
+        // Statements are finalized with the database.
+        free: () => {},
+      };
+    },
+    close: () => db.close(),
+  };
+}
+
+async function openSqlJs(dbPath: string): Promise<Connection> {
+  const SQL = await loadSqlJs();
+  // sql.js reads the whole file into memory; the on-disk format is plain
+  // SQLite so DBs built by any prior driver (better-sqlite3, node:sqlite)
+  // load without migration.
+  const fileBuffer = fs.readFileSync(dbPath);
+  const db = new SQL.Database(fileBuffer);
+  return {
+    backend: 'sql.js',
+    memoryBytes: fileBuffer.length,
+    prepare: sql => {
+      const stmt = db.prepare(sql);
+      return {
+        all: params => {
+          try {
+            stmt.bind(params);
+            const rows: SqlRow[] = [];
+            while (stmt.step()) rows.push(stmt.getAsObject());
+            return rows;
+          } finally {
+            stmt.reset();
+          }
+        },
+        free: () => stmt.free(),
+      };
+    },
+    close: () => db.close(),
+  };
+}
+
+/** "sql.js, 312.4 MB in memory, opened in 840 ms; 12 queries: mean 3.1 ms, p95 9.0 ms, max 12.2 ms" */
+export function describeDbMetrics(metrics: CallgraphDbMetrics): string {
+  const latency = metrics.queries
+    ? `${metrics.queries} queries: mean ${metrics.meanMs.toFixed(1)} ms, p95 ${metrics.p95Ms.toFixed(1)} ms, max ${metrics.maxMs.toFixed(1)} ms`
+    : 'no queries yet';
+  return `${metrics.backend}, ${formatMB(metrics.memoryBytes)} in memory (${formatMB(metrics.fileBytes)} file), opened in ${Math.round(metrics.openMs)} ms; ${latency}`;
+}
+
+/** "640.0 MB of 1024.0 MB (MCDEV_CALLGRAPH_MEMORY_MB), 2 open, 3 opened, 1 evicted" */
+export function describePoolMetrics(metrics: CallgraphPoolMetrics): string {
+  return `${formatMB(metrics.usedBytes)} of ${formatMB(metrics.budgetBytes)} (MCDEV_CALLGRAPH_MEMORY_MB), ${metrics.open.length} open, ${metrics.opens} opened, ${metrics.evictions} evicted`;
+}
+
+export function formatMB(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
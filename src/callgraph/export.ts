@@ -0,0 +1,169 @@
+// Renders callgraph subgraphs (collectCallGraph) as Graphviz DOT, Mermaid
+// flowcharts or GraphML, for design docs. Methods can be collapsed into their
+// classes or packages; edges between the same pair of groups merge, and calls
+// within a group disappear.
+
+import type { MethodSelector } from '../storage/index.js';
+import { parseParamList } from './query.js';
+import {
+  collectCallGraph,
+  findMethodNodes,
+  methodKey,
+  CallDirection,
+  CallGraph,
+  CallGraphOptions,
+  MethodNode,
+} from './traverse.js';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'graphml';
+export type GraphCollapse = 'method' | 'class' | 'package';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'graphml'];
+export const GRAPH_COLLAPSES: GraphCollapse[] = ['method', 'class', 'package'];
+
+export interface GraphExportRequest extends MethodSelector, CallGraphOptions {
+  className: string;
+  methodName: string;
+  direction?: CallDirection | 'both';
+  format?: GraphFormat;
+  collapse?: GraphCollapse;
+}
+
+export interface GraphExport {
+  text: string;
+  /** Nodes and edges after collapsing. */
+  nodeCount: number;
+  edgeCount: number;
+  truncated: boolean;
+}
+
+interface GraphNode {
+  id: string;
+  label: string;
+  /** Fully qualified method, class or package name. */
+  name: string;
+  root: boolean;
+}
+
+interface GraphView {
+  nodes: GraphNode[];
+  edges: Array<[string, string]>;
+}
+
+/** Collect and render the subgraph around a method; null when the method isn't in the callgraph. */
+export async function exportCallGraph(version: string, request: GraphExportRequest): Promise<GraphExport | null> {
+  const roots = await findMethodNodes(version, request.className, request.methodName, request);
+  if (roots.length === 0) return null;
+
+  const graph = await collectCallGraph(version, roots, request.direction ?? 'callees', request);
+  const view = collapseGraph(graph, new Set(roots.map(methodKey)), request.collapse ?? 'method');
+  return {
+    text: renderGraph(view, request.format ?? 'mermaid'),
+    nodeCount: view.nodes.length,
+    edgeCount: view.edges.length,
+    truncated: graph.truncated,
+  };
+}
+
+function collapseGraph(graph: CallGraph, roots: Set<string>, collapse: GraphCollapse): GraphView {
+  const groupOf = new Map<string, GraphNode>();
+  const groups = new Map<string, GraphNode>();
+
+  for (const node of graph.nodes) {
+    const key = methodKey(node);
+    const { name, label } = groupName(node, collapse);
+    let group = groups.get(name);
+    if (!group) {
+      group = { id: `n${groups.size}`, label, name, root: false };
+      groups.set(name, group);
+    }
+    if (roots.has(key)) group.root = true;
+    groupOf.set(key, group);
+  }
+
+  const edges = new Map<string, [string, string]>();
+  for (const { from, to } of graph.edges) {
+    const a = groupOf.get(from)!.id;
+    const b = groupOf.get(to)!.id;
+    if (a === b && collapse !== 'method') continue;
+    edges.set(`${a} ${b}`, [a, b]);
+  }
+
+  return { nodes: [...groups.values()], edges: [...edges.values()] };
+}
+
+function groupName(node: MethodNode, collapse: GraphCollapse): { name: string; label: string } {
+  const dot = node.className.lastIndexOf('.');
+  const simpleClass = node.className.slice(dot + 1).replace(/\$/g, '.');
+  if (collapse === 'package') {
+    const pkg = dot === -1 ? '(default)' : node.className.slice(0, dot);
+    return { name: pkg, label: pkg };
+  }
+  if (collapse === 'class') {
+    return { name: node.className, label: simpleClass };
+  }
+  const params = parseParamList(node.descriptor).map(t => t.slice(t.lastIndexOf('.') + 1).replace(/\$/g, '.'));
+  return {
+    name: methodKey(node),
+    label: `${simpleClass}.${node.methodName}(${params.join(', ')})`,
+  };
+}
+
+function renderGraph(view: GraphView, format: GraphFormat): string {
+  switch (format) {
+    case 'dot': return renderDot(view);
+    case 'graphml': return renderGraphMl(view);
+    default: return renderMermaid(view);
+  }
+}
+
+function renderDot(view: GraphView): string {
+  const quote = (text: string) => `"${text.replace(/[\\"]/g, c => `\\${c}`)}"`;
+  const lines = ['digraph callgraph {', '  rankdir=LR;', '  node [shape=box, fontname="Helvetica"];'];
+  for (const node of view.nodes) {
+    const bold = node.root ? ', penwidth=2' : '';
+    lines.push(`  ${node.id} [label=${quote(node.label)}, tooltip=${quote(node.name)}${bold}];`);
+  }
+  for (const [from, to] of view.edges) lines.push(`  ${from} -> ${to};`);
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function renderMermaid(view: GraphView): string {
+  // Mermaid labels take entity codes; "<init>" would otherwise read as HTML.
+  const escape = (text: string) => text
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+  const lines = ['flowchart LR'];
+  for (const node of view.nodes) lines.push(`  ${node.id}["${escape(node.label)}"]`);
+  for (const [from, to] of view.edges) lines.push(`  ${from} --> ${to}`);
+  const roots = view.nodes.filter(n => n.root).map(n => n.id);
+  if (roots.length) {
+    lines.push('  classDef root stroke-width:3px');
+    lines.push(`  class ${roots.join(',')} root`);
+  }
+  return lines.join('\n');
+}
+
+function renderGraphMl(view: GraphView): string {
+  const escape = (text: string) => text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="root" for="node" attr.name="root" attr.type="boolean"><default>false</default></key>',
+    '  <graph id="callgraph" edgedefault="directed">',
+  ];
+  for (const node of view.nodes) {
+    lines.push(`    <node id="${node.id}">`);
+    lines.push(`      <data key="label">${escape(node.label)}</data>`);
+    lines.push(`      <data key="name">${escape(node.name)}</data>`);
+    if (node.root) lines.push('      <data key="root">true</data>');
+    lines.push('    </node>');
+  }
+  view.edges.forEach(([from, to], i) => lines.push(`    <edge id="e${i}" source="${from}" target="${to}"/>`));
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
@@ -1,11 +1,21 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as readline from 'readline';
 import { spawn } from 'child_process';
+import unzipper from 'unzipper';
+import type { SqlValue } from 'sql.js';
 import { ensureDir, getHomeDir, getMinecraftJarPath } from '../utils/paths.js';
+import { replaceFileAtomic } from '../utils/atomic-write.js';
+import { parseMethodDescriptor } from '../utils/descriptor.js';
 import { getCallgraphDir, getCallgraphDbPath } from './query.js';
+import { ClassFormatError, readClassFile } from './bytecode.js';
+import { formatMB, loadNodeSqlite } from './connection.js';
+import type { NodeSqlite } from './connection.js';
 import { loadSqlJs } from './sqlite-loader.js';
 
 const SPECIAL_SOURCE_VERSION = '1.11.4';
+// Rows buffered before each INSERT transaction; bounds memory outside the database itself.
+const BATCH_SIZE = 10000;
 
 export function getJavaCGDir(): string {
   return path.join(getHomeDir(), 'java-callgraph2');
@@ -156,88 +166,326 @@ export function hasCallgraphDb(version: string): boolean {
   return fs.existsSync(getCallgraphDbPath(version));
 }
 
+export type CallgraphExtractor = 'builtin' | 'javacg';
+
+/**
+ * Build callgraph.db straight from the bytecode of `jarPath`: calls, field
+ * accesses and instantiations in one pass over its class files.
+ */
+export async function buildCallgraphDb(version: string, jarPath: string, progressCb?: ProgressCallback): Promise<number> {
+  if (progressCb) progressCb('index', 0, 'Reading class files...');
+
+  const counts = await writeCallgraphDb(version, db => indexClassFiles(db, jarPath, { calls: true }, progressCb));
+
+  if (progressCb) progressCb('index', 100, `Indexed ${counts.calls} call references, ${counts.fieldAccesses} field accesses and ${counts.instantiations} instantiations.`);
+  return counts.calls;
+}
+
+/**
+ * Build callgraph.db from java-callgraph2's method_call.txt, adding field
+ * accesses and instantiations from the jar. The file runs to millions of
+ * lines, so it is streamed line by line and inserted in fixed-size batches.
+ */
 export async function parseCallgraphAndCreateDb(version: string, callgraphFile: string, progressCb?: ProgressCallback): Promise<number> {
   if (progressCb) progressCb('index', 0, 'Parsing callgraph...');
 
-  const content = fs.readFileSync(callgraphFile, 'utf-8');
-  const lines = content.split('\n');
-  const dbPath = getCallgraphDbPath(version);
-  if (fs.existsSync(dbPath)) fs.unlinkSync(dbPath);
+  const count = await writeCallgraphDb(version, async db => {
+    const calls = await insertMethodCalls(db, callgraphFile, progressCb);
 
-  // sql.js works in-memory; we serialize to disk with db.export() at the end.
-  // The on-disk format is plain SQLite, identical to what better-sqlite3 /
-  // node:sqlite would produce.
-  const SQL = await loadSqlJs();
-  const db = new SQL.Database();
-  db.exec(`CREATE TABLE calls (id INTEGER PRIMARY KEY, caller_class TEXT, caller_method TEXT, caller_desc TEXT, callee_class TEXT, callee_method TEXT, callee_desc TEXT, line_number INTEGER); CREATE INDEX idx_callee ON calls(callee_class, callee_method); CREATE INDEX idx_caller ON calls(caller_class, caller_method);`);
+    // java-callgraph2 only reports invocations; field accesses and `new` sites
+    // come from the same jar's bytecode.
+    const jarPath = getRemappedJarPath(version);
+    if (fs.existsSync(jarPath)) await indexClassFiles(db, jarPath, { calls: false }, progressCb);
+    return calls;
+  });
+
+  if (progressCb) progressCb('index', 100, `Indexed ${count} call references.`);
+  return count;
+}
 
+/** Stream method_call.txt into the calls table; progress (0-60%) follows the bytes read. */
+async function insertMethodCalls(db: CallgraphBuildDb, callgraphFile: string, progressCb?: ProgressCallback): Promise<number> {
+  const totalBytes = fs.statSync(callgraphFile).size;
+  const input = fs.createReadStream(callgraphFile, { encoding: 'utf-8' });
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
   const insert = db.prepare('INSERT INTO calls VALUES (NULL, ?, ?, ?, ?, ?, ?, ?)');
-  // sql.js has no db.transaction() helper; wrap explicitly. Bulk INSERT
-  // without a surrounding transaction is ~1000x slower on SQLite.
-  // sql.js Statement.run takes a single array (not spread args).
-  const insertMany = (items: any[][]) => {
-    db.exec('BEGIN');
-    try {
-      for (const item of items) insert.run(item);
-      db.exec('COMMIT');
-    } catch (e) {
-      db.exec('ROLLBACK');
-      throw e;
-    }
-  };
 
   let count = 0;
+  let reported = 0;
   const batch: any[][] = [];
+  const flush = () => {
+    insertBatch(db, insert, batch);
+    count += batch.length;
+    batch.length = 0;
 
-  // Format: seq	num	caller	callee	line	return_type	...
-  // caller format: class:method(args)
-  // callee format: (TYPE)class:method(args) where TYPE is VIR/STA/SPE
-  for (const line of lines) {
-    if (!line.trim() || line.startsWith('#')) continue;
-    const parts = line.split('\t');
-    if (parts.length < 5) continue;
-
-    const callerRaw = parts[2] || '';
-    const calleeRaw = parts[3] || '';
-    const lineNumber = parts[4] ? parseInt(parts[4], 10) : null;
-
-    // Parse caller: class:method(args)
-    const callerMatch = callerRaw.match(/^(.+):(.+)(\([^)]*\))$/);
-    // Parse callee: (TYPE)class:method(args)
-    const calleeMatch = calleeRaw.match(/^\([A-Z]+\)(.+):(.+)(\([^)]*\))$/);
-
-    if (callerMatch && calleeMatch) {
-      batch.push([
-        callerMatch[1], callerMatch[2], callerMatch[3],
-        calleeMatch[1], calleeMatch[2], calleeMatch[3],
-        lineNumber
-      ]);
-      if (batch.length >= 10000) {
-        insertMany(batch);
-        count += batch.length;
-        batch.length = 0;
-        if (progressCb && count % 100000 === 0) progressCb('index', 50, `Indexed ${count}...`);
+    const progress = totalBytes ? Math.floor((input.bytesRead / totalBytes) * 60) : 60;
+    if (progressCb && progress > reported) {
+      reported = progress;
+      progressCb('index', progress, `Parsed ${formatMB(input.bytesRead)} of ${formatMB(totalBytes)} (${count} calls)...`);
+    }
+  };
+
+  try {
+    // Format: seq	num	caller	callee	line	return_type	...
+    // caller format: class:method(args)
+    // callee format: (TYPE)class:method(args) where TYPE is VIR/STA/SPE
+    for await (const line of lines) {
+      if (!line.trim() || line.startsWith('#')) continue;
+      const parts = line.split('\t');
+      if (parts.length < 5) continue;
+
+      const callerRaw = parts[2] || '';
+      const calleeRaw = parts[3] || '';
+      const lineNumber = parts[4] ? parseInt(parts[4], 10) : null;
+
+      // Parse caller: class:method(args)
+      const callerMatch = callerRaw.match(/^(.+):(.+)(\([^)]*\))$/);
+      // Parse callee: (TYPE)class:method(args)
+      const calleeMatch = calleeRaw.match(/^\([A-Z]+\)(.+):(.+)(\([^)]*\))$/);
+
+      if (callerMatch && calleeMatch) {
+        batch.push([
+          callerMatch[1], callerMatch[2], callerMatch[3],
+          calleeMatch[1], calleeMatch[2], calleeMatch[3],
+          lineNumber
+        ]);
+        if (batch.length >= BATCH_SIZE) flush();
       }
     }
+    if (batch.length > 0) flush();
+  } finally {
+    lines.close();
+    input.destroy();
+    insert.free();
   }
-  if (batch.length > 0) { insertMany(batch); count += batch.length; }
-  insert.free();
-  db.exec('PRAGMA optimize');
+  return count;
+}
 
-  // Serialize in-memory DB to disk. db.export() returns a Uint8Array; wrap
-  // in Buffer so writeFileSync emits a plain binary file (no encoding).
-  const data = db.export();
-  fs.writeFileSync(dbPath, Buffer.from(data));
-  db.close();
+/** A prepared INSERT of the database being built. */
+interface BuildStatement {
+  run(params: SqlValue[]): void;
+  free(): void;
+}
 
-  if (progressCb) progressCb('index', 100, `Indexed ${count} call references.`);
-  return count;
+/**
+ * The callgraph database being built. Through node:sqlite it is a file that
+ * rows go straight into, so memory stays at SQLite's page cache plus one
+ * batch of rows however big the callgraph. sql.js (Node < 22.5, or
+ * MCDEV_CALLGRAPH_BACKEND=sqljs) has no file I/O: the database grows in
+ * memory and is exported at the end, so building there peaks at up to about
+ * four times the size of the finished callgraph.db: the WebAssembly heap it
+ * grew in, plus the export.
+ */
+export interface CallgraphBuildDb {
+  exec(sql: string): void;
+  prepare(sql: string): BuildStatement;
+}
+
+interface BuildConnection extends CallgraphBuildDb {
+  /** Finish the file and close. */
+  save(): void;
+  close(): void;
+}
+
+/**
+ * Have `fill` build the database in a file next to callgraph.db, then rename
+ * it into place, so a crash mid-build leaves the previous database (or none)
+ * rather than a truncated one that hasCallgraphDb() would accept.
+ */
+async function writeCallgraphDb<T>(version: string, fill: (db: CallgraphBuildDb) => Promise<T>): Promise<T> {
+  return replaceFileAtomic(getCallgraphDbPath(version), async tempPath => {
+    const db = await createCallgraphDb(tempPath);
+    try {
+      const result = await fill(db);
+      db.exec('PRAGMA optimize');
+      db.save();
+      return result;
+    } finally {
+      db.close();
+    }
+  });
+}
+
+async function createCallgraphDb(filePath: string): Promise<BuildConnection> {
+  const nodeSqlite = await loadNodeSqlite();
+  const db = nodeSqlite ? openNodeSqliteFile(nodeSqlite, filePath) : await openSqlJsInMemory(filePath);
+  db.exec(`CREATE TABLE calls (id INTEGER PRIMARY KEY, caller_class TEXT, caller_method TEXT, caller_desc TEXT, callee_class TEXT, callee_method TEXT, callee_desc TEXT, line_number INTEGER); CREATE INDEX idx_callee ON calls(callee_class, callee_method); CREATE INDEX idx_caller ON calls(caller_class, caller_method);`);
+  db.exec(`CREATE TABLE field_access (id INTEGER PRIMARY KEY, caller_class TEXT, caller_method TEXT, caller_desc TEXT, field_class TEXT, field_name TEXT, field_type TEXT, is_write INTEGER, is_static INTEGER, line_number INTEGER); CREATE INDEX idx_field ON field_access(field_class, field_name);`);
+  db.exec(`CREATE TABLE instantiations (id INTEGER PRIMARY KEY, caller_class TEXT, caller_method TEXT, caller_desc TEXT, class_name TEXT, line_number INTEGER); CREATE INDEX idx_instantiated ON instantiations(class_name);`);
+  db.exec(`CREATE TABLE method_code (class_name TEXT, method_name TEXT, method_desc TEXT, code_hash TEXT); CREATE INDEX idx_method_code ON method_code(class_name);`);
+  return db;
+}
+
+function openNodeSqliteFile({ DatabaseSync }: NodeSqlite, filePath: string): BuildConnection {
+  const db = new DatabaseSync(filePath);
+  // A temporary file renamed into place when complete: a crash loses it
+  // either way, so there is nothing for a journal or fsync to protect.
+  db.exec('PRAGMA journal_mode = OFF; PRAGMA synchronous = OFF');
+  let open = true;
+  return {
+    exec: sql => db.exec(sql),
+    prepare: sql => {
+      const stmt = db.prepare(sql);
+      return {
+        run: params => { stmt.run(...(params as Array<string | number | null | Uint8Array>)); },
+        // Statements are finalized with the database.
+        free: () => {},
+      };
+    },
+    save: () => {},
+    close: () => {
+      if (open) db.close();
+      open = false;
+    },
+  };
+}
+
+async function openSqlJsInMemory(filePath: string): Promise<BuildConnection> {
+  // The on-disk format db.export() produces is plain SQLite, identical to
+  // what node:sqlite writes.
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  return {
+    exec: sql => { db.exec(sql); },
+    // sql.js Statement.run takes a single array (not spread args).
+    prepare: sql => db.prepare(sql),
+    save: () => fs.writeFileSync(filePath, db.export()),
+    close: () => db.close(),
+  };
+}
+
+// Bulk INSERT without a surrounding transaction is ~1000x slower on SQLite.
+function insertBatch(db: CallgraphBuildDb, insert: BuildStatement, items: any[][]): void {
+  db.exec('BEGIN');
+  try {
+    for (const item of items) insert.run(item);
+    db.exec('COMMIT');
+  } catch (e) {
+    db.exec('ROLLBACK');
+    throw e;
+  }
 }
 
-export async function ensureCallgraph(version: string, progressCb?: ProgressCallback): Promise<void> {
+/** "(IZ)V" -> "(int,boolean)", java-callgraph2's parameter-list form. */
+function paramList(descriptor: string): string {
+  return `(${(parseMethodDescriptor(descriptor)?.paramTypes ?? []).join(',')})`;
+}
+
+/**
+ * Fill the callgraph tables from the class files in `jarPath`: calls (unless
+ * `calls` is false, when they come from java-callgraph2), field_access,
+ * instantiations and the code hash of every method (method_code, for
+ * matching renamed methods across versions). Every site is recorded against
+ * the method containing it, with parameter lists in java-callgraph2's
+ * "(a.b.C,int)" form so the tables join with each other. invokedynamic
+ * (lambdas, method references, string concatenation) is not followed.
+ */
+export async function indexClassFiles(
+  db: CallgraphBuildDb,
+  jarPath: string,
+  options: { calls: boolean },
+  progressCb?: ProgressCallback
+): Promise<{ calls: number; fieldAccesses: number; instantiations: number }> {
+  if (progressCb) progressCb('index', options.calls ? 0 : 60, options.calls ? 'Indexing calls, field accesses and instantiations...' : 'Indexing field accesses and instantiations...');
+
+  const insertCall = db.prepare('INSERT INTO calls VALUES (NULL, ?, ?, ?, ?, ?, ?, ?)');
+  const insertAccess = db.prepare('INSERT INTO field_access VALUES (NULL, ?, ?, ?, ?, ?, ?, ?, ?, ?)');
+  const insertNew = db.prepare('INSERT INTO instantiations VALUES (NULL, ?, ?, ?, ?, ?)');
+  const insertCode = db.prepare('INSERT INTO method_code VALUES (?, ?, ?, ?)');
+  const calls: any[][] = [];
+  const accesses: any[][] = [];
+  const news: any[][] = [];
+  const hashes: any[][] = [];
+  const counts = { calls: 0, fieldAccesses: 0, instantiations: 0 };
+  const flush = () => {
+    insertBatch(db, insertCall, calls);
+    insertBatch(db, insertAccess, accesses);
+    insertBatch(db, insertNew, news);
+    insertBatch(db, insertCode, hashes);
+    counts.calls += calls.length;
+    counts.fieldAccesses += accesses.length;
+    counts.instantiations += news.length;
+    calls.length = 0;
+    accesses.length = 0;
+    news.length = 0;
+    hashes.length = 0;
+  };
+
+  try {
+    const archive = await unzipper.Open.file(jarPath);
+    const entries = archive.files.filter(entry => entry.type === 'File' && entry.path.endsWith('.class'));
+    for (const [i, entry] of entries.entries()) {
+      let classFile;
+      try {
+        classFile = readClassFile(await entry.buffer());
+      } catch (e) {
+        // One unreadable class shouldn't cost the whole index.
+        if (!(e instanceof ClassFormatError)) throw e;
+        if (progressCb) progressCb('index', 60, `Skipping ${entry.path}: ${e.message}`);
+        continue;
+      }
+
+      for (const method of classFile.methods) {
+        const caller = [classFile.name, method.name, paramList(method.descriptor)];
+        if (method.codeHash) hashes.push([...caller, method.codeHash]);
+        for (const site of method.sites) {
+          const line = site.line ?? null;
+          switch (site.kind) {
+            case 'new':
+              news.push([...caller, site.owner, line]);
+              break;
+            case 'invokevirtual':
+            case 'invokespecial':
+            case 'invokestatic':
+            case 'invokeinterface':
+              if (options.calls) calls.push([...caller, site.owner, site.name, paramList(site.descriptor ?? ''), line]);
+              break;
+            default: {
+              const fieldType = parseMethodDescriptor(`(${site.descriptor})`)?.paramTypes[0] ?? site.descriptor;
+              const write = site.kind === 'putfield' || site.kind === 'putstatic' ? 1 : 0;
+              const isStatic = site.kind === 'getstatic' || site.kind === 'putstatic' ? 1 : 0;
+              accesses.push([...caller, site.owner, site.name, fieldType, write, isStatic, line]);
+            }
+          }
+        }
+      }
+      if (calls.length + accesses.length + news.length + hashes.length >= BATCH_SIZE) flush();
+      if (progressCb && options.calls && (i + 1) % 2000 === 0) {
+        progressCb('index', Math.floor(((i + 1) / entries.length) * 100), `Read ${i + 1}/${entries.length} classes...`);
+      }
+    }
+    flush();
+  } finally {
+    insertCall.free();
+    insertAccess.free();
+    insertNew.free();
+    insertCode.free();
+  }
+
+  if (progressCb && !options.calls) progressCb('index', 90, `Indexed ${counts.fieldAccesses} field accesses and ${counts.instantiations} instantiations.`);
+  return counts;
+}
+
+/**
+ * Make sure callgraph.db exists. The built-in extractor reads the remapped
+ * jar directly; `javacg` builds and runs java-callgraph2 instead, which
+ * needs git, a JDK and Gradle.
+ */
+export async function ensureCallgraph(
+  version: string,
+  progressCb?: ProgressCallback,
+  options: { extractor?: CallgraphExtractor } = {}
+): Promise<void> {
   if (hasCallgraphDb(version)) { if (progressCb) progressCb('callgraph', 100, 'Callgraph database ready.'); return; }
-  const callgraphFile = await generateCallgraph(version, progressCb);
-  await parseCallgraphAndCreateDb(version, callgraphFile, progressCb);
+  if (options.extractor === 'javacg') {
+    const callgraphFile = await generateCallgraph(version, progressCb);
+    await parseCallgraphAndCreateDb(version, callgraphFile, progressCb);
+    return;
+  }
+  const remappedJar = await ensureRemappedJar(version, progressCb);
+  await buildCallgraphDb(version, remappedJar, progressCb);
 }
 
-export { openDb, closeDb, findCallers, findCallees, searchMethods, getCallgraphStats } from './query.js';
+export { openDb, acquireDb, closeDb, findCallers, findCallees, searchMethods, getCallgraphStats } from './query.js';
+export { getCallgraphPoolMetrics, describeDbMetrics, describePoolMetrics } from './connection.js';
+export { computeReachability, loadReachability, DEFAULT_ENTRY_POINTS } from './reachability.js';
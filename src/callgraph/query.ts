@@ -1,8 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { Database } from 'sql.js';
+import type { SqlValue } from 'sql.js';
 import { getMinecraftCacheDir } from '../utils/paths.js';
-import { loadSqlJs } from './sqlite-loader.js';
+import { parseMethodDescriptor, typeNameMatches } from '../utils/descriptor.js';
+import type { MethodSelector, Page, PageOptions } from '../storage/index.js';
+import { acquireCallgraphDb, closeCallgraphDbs, openCallgraphDb, CallgraphDb, HeldCallgraphDb } from './connection.js';
 
 export function getCallgraphDir(version: string): string {
   return path.join(getMinecraftCacheDir(version), 'callgraph');
@@ -12,103 +14,252 @@ export function getCallgraphDbPath(version: string): string {
   return path.join(getCallgraphDir(version), 'callgraph.db');
 }
 
-// Cache the open Database keyed by version. sql.js loads the entire DB into
-// memory, so opening multiple versions at once would waste hundreds of MB —
-// we close the previous one whenever a different version is requested.
-let _db: Database | null = null;
-let _dbVersion: string | null = null;
+/**
+ * The callgraph database of `version`, from the connection pool: opened on
+ * first use, kept among the most recently used versions within the memory
+ * budget, and reopened when the file is rebuilt (see connection.ts).
+ */
+export async function openDb(version: string): Promise<CallgraphDb> {
+  const dbPath = getCallgraphDbPath(version);
 
-export async function openDb(version: string): Promise<Database> {
-  if (_db && _dbVersion === version) return _db;
-  if (_db) {
-    _db.close();
-    _db = null;
-    _dbVersion = null;
+  if (!fs.existsSync(dbPath)) {
+    throw new Error('Callgraph database not found. Run `mcdev-mcp callgraph` first.');
   }
 
-  const dbPath = path.join(getCallgraphDir(version), 'callgraph.db');
+  return openCallgraphDb(version, dbPath);
+}
+
+/**
+ * Like openDb, for queries spread across `await`s: the connection stays open
+ * until released, whatever other versions are opened meanwhile.
+ */
+export async function acquireDb(version: string): Promise<HeldCallgraphDb> {
+  const dbPath = getCallgraphDbPath(version);
 
   if (!fs.existsSync(dbPath)) {
     throw new Error('Callgraph database not found. Run `mcdev-mcp callgraph` first.');
   }
 
-  const SQL = await loadSqlJs();
-  // sql.js reads the whole file into memory; the on-disk format is plain
-  // SQLite so DBs built by any prior driver (better-sqlite3, node:sqlite)
-  // load without migration.
-  const fileBuffer = fs.readFileSync(dbPath);
-  _db = new SQL.Database(fileBuffer);
-  _dbVersion = version;
-
-  return _db;
+  return acquireCallgraphDb(version, dbPath);
 }
 
+/** Close the connections of every version. */
 export function closeDb(): void {
-  if (_db) {
-    _db.close();
-    _db = null;
-    _dbVersion = null;
-  }
+  closeCallgraphDbs();
 }
 
 export interface MethodRef {
   className: string;
   methodName: string;
+  /** Parameter list as recorded by the callgraph, e.g. "(net.minecraft.core.BlockPos,int)". */
   descriptor: string;
   fullName: string;
   lineNumber?: number;
+  /** Parameter list of the overload of the queried method this call belongs to. */
+  overload?: string;
+  /** Class the queried method was recorded under, when several were asked for. */
+  target?: string;
+}
+
+/** One overload of the queried method and how many calls it has in the queried direction. */
+export interface OverloadCount {
+  descriptor: string;
+  count: number;
+  /** Whether it satisfies the selector the query was made with. */
+  selected: boolean;
+}
+
+/** A page of call references, ordered by overload; `overloads` lists every overload, selected or not. */
+export interface CallRefs extends Page<MethodRef> {
+  overloads: OverloadCount[];
+}
+
+export interface CallQueryOptions extends MethodSelector, PageOptions {
+  /** Leave out the calls whose other end is `methodName` in one of `classNames`. */
+  exclude?: { classNames: string[]; methodName: string };
 }
 
-export async function findCallers(version: string, className: string, methodName: string): Promise<MethodRef[]> {
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+type CallDirection = 'callers' | 'callees';
+
+/** Columns of the queried method and of the method on the other end of each call. */
+const COLUMNS: Record<CallDirection, { target: string; other: string }> = {
+  callers: { target: 'callee', other: 'caller' },
+  callees: { target: 'caller', other: 'callee' },
+};
+
+/**
+ * Calls to `methodName` recorded against `className`, or against any of
+ * several classes: the callgraph records the receiver's static type, so
+ * calls dispatched along a type hierarchy are spread over its classes.
+ */
+export async function findCallers(
+  version: string,
+  className: string | string[],
+  methodName: string,
+  options: CallQueryOptions = {}
+): Promise<CallRefs> {
+  return findCalls(version, 'callers', className, methodName, options);
+}
+
+export async function findCallees(
+  version: string,
+  className: string,
+  methodName: string,
+  options: CallQueryOptions = {}
+): Promise<CallRefs> {
+  return findCalls(version, 'callees', className, methodName, options);
+}
+
+async function findCalls(
+  version: string,
+  direction: CallDirection,
+  className: string | string[],
+  methodName: string,
+  options: CallQueryOptions
+): Promise<CallRefs> {
   const database = await openDb(version);
+  const { target, other } = COLUMNS[direction];
+  const classNames = typeof className === 'string' ? [className] : className;
+  const classList = classNames.map(() => '?').join(', ');
+  const offset = Math.max(0, Math.floor(options.offset ?? 0));
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(options.limit ?? DEFAULT_LIMIT)));
+  const { exclude } = options;
+  const excluded = exclude ? `AND NOT (${other}_method = ? AND ${other}_class IN (${exclude.classNames.map(() => '?').join(', ')}))` : '';
+  const excludedParams = exclude ? [exclude.methodName, ...exclude.classNames] : [];
 
-  const stmt = database.prepare(`
-    SELECT caller_class, caller_method, caller_desc, line_number
+  const overloads: OverloadCount[] = database.all(`
+    SELECT ${target}_desc AS descriptor, COUNT(*) AS count
     FROM calls
-    WHERE callee_class = ? AND callee_method = ?
-    LIMIT 100
-  `);
-  stmt.bind([className, methodName]);
-
-  const rows: any[] = [];
-  while (stmt.step()) {
-    rows.push(stmt.getAsObject());
-  }
-  stmt.free();
+    WHERE ${target}_class IN (${classList}) AND ${target}_method = ? ${excluded}
+    GROUP BY ${target}_desc
+    ORDER BY ${target}_desc
+  `, [...classNames, methodName, ...excludedParams]).map(row => {
+    const descriptor = (row.descriptor as string | null) ?? '';
+    return { descriptor, count: Number(row.count), selected: matchesParamList(descriptor, options) };
+  });
 
-  return rows.map(row => ({
-    className: row.caller_class,
-    methodName: row.caller_method,
-    descriptor: row.caller_desc || '',
-    fullName: `${row.caller_class}.${row.caller_method}`,
-    lineNumber: row.line_number,
+  const selected = overloads.filter(o => o.selected).map(o => o.descriptor);
+  const total = overloads.filter(o => o.selected).reduce((sum, o) => sum + o.count, 0);
+  if (selected.length === 0) return { items: [], total, offset, overloads };
+
+  const rows = database.all(`
+    SELECT ${other}_class AS class_name, ${other}_method AS method_name, ${other}_desc AS descriptor,
+      ${target}_desc AS overload, ${target}_class AS target, line_number
+    FROM calls
+    WHERE ${target}_class IN (${classList}) AND ${target}_method = ? AND ${target}_desc IN (${selected.map(() => '?').join(', ')}) ${excluded}
+    ORDER BY ${target}_desc, ${other}_class, ${other}_method, ${other}_desc, line_number
+    LIMIT ? OFFSET ?
+  `, [...classNames, methodName, ...selected, ...excludedParams, limit, offset]);
+
+  const items = rows.map(row => ({
+    className: row.class_name as string,
+    methodName: row.method_name as string,
+    descriptor: (row.descriptor as string | null) || '',
+    fullName: `${row.class_name}.${row.method_name}`,
+    lineNumber: (row.line_number as number | null) ?? undefined,
+    overload: (row.overload as string | null) || '',
+    ...(classNames.length > 1 ? { target: row.target as string } : {}),
   }));
+
+  return { items, total, offset, overloads };
 }
 
-export async function findCallees(version: string, className: string, methodName: string): Promise<MethodRef[]> {
+export type FieldAccess = 'read' | 'write';
+
+/**
+ * Whether the database has the field_access and instantiations tables;
+ * callgraphs built before they were added only have calls.
+ */
+export async function hasBytecodeSites(version: string): Promise<boolean> {
   const database = await openDb(version);
+  const rows = database.all(`SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name IN ('field_access', 'instantiations')`, []);
+  return Number(rows[0]?.count) === 2;
+}
 
-  const stmt = database.prepare(`
-    SELECT callee_class, callee_method, callee_desc, line_number
-    FROM calls
-    WHERE caller_class = ? AND caller_method = ?
-    LIMIT 100
-  `);
-  stmt.bind([className, methodName]);
-
-  const rows: any[] = [];
-  while (stmt.step()) {
-    rows.push(stmt.getAsObject());
-  }
-  stmt.free();
+/**
+ * Methods reading or writing `fieldName`, recorded against `className` or
+ * any of several classes: like calls, accesses are recorded under the static
+ * type of the qualifying expression, which may be a subclass of the
+ * declaring one.
+ */
+export async function findFieldAccesses(
+  version: string,
+  className: string | string[],
+  fieldName: string,
+  access: FieldAccess,
+  options: PageOptions = {}
+): Promise<Page<MethodRef>> {
+  return findSites(version, 'field_access', 'field_class', className, 'AND field_name = ? AND is_write = ?', [fieldName, access === 'write' ? 1 : 0], options);
+}
 
-  return rows.map(row => ({
-    className: row.callee_class,
-    methodName: row.callee_method,
-    descriptor: row.callee_desc || '',
-    fullName: `${row.callee_class}.${row.callee_method}`,
-    lineNumber: row.line_number,
+/** Methods constructing `className` (or any of several classes) with `new`. */
+export async function findInstantiations(
+  version: string,
+  className: string | string[],
+  options: PageOptions = {}
+): Promise<Page<MethodRef>> {
+  return findSites(version, 'instantiations', 'class_name', className, '', [], options);
+}
+
+async function findSites(
+  version: string,
+  table: string,
+  classColumn: string,
+  className: string | string[],
+  condition: string,
+  params: SqlValue[],
+  options: PageOptions
+): Promise<Page<MethodRef>> {
+  const database = await openDb(version);
+  const classNames = typeof className === 'string' ? [className] : className;
+  const where = `${classColumn} IN (${classNames.map(() => '?').join(', ')}) ${condition}`;
+  const offset = Math.max(0, Math.floor(options.offset ?? 0));
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(options.limit ?? DEFAULT_LIMIT)));
+
+  const total = Number(database.all(`SELECT COUNT(*) AS count FROM ${table} WHERE ${where}`, [...classNames, ...params])[0]?.count ?? 0);
+  const rows = database.all(`
+    SELECT caller_class, caller_method, caller_desc, ${classColumn} AS target, line_number
+    FROM ${table}
+    WHERE ${where}
+    ORDER BY caller_class, caller_method, caller_desc, line_number
+    LIMIT ? OFFSET ?
+  `, [...classNames, ...params, limit, offset]);
+
+  const items = rows.map(row => ({
+    className: row.caller_class as string,
+    methodName: row.caller_method as string,
+    descriptor: (row.caller_desc as string | null) || '',
+    fullName: `${row.caller_class}.${row.caller_method}`,
+    lineNumber: (row.line_number as number | null) ?? undefined,
+    ...(classNames.length > 1 ? { target: row.target as string } : {}),
   }));
+
+  return { items, total, offset };
+}
+
+/** Split a recorded parameter list, "(java.lang.String,int)", into type names. */
+export function parseParamList(descriptor: string): string[] {
+  return descriptor.replace(/^\(|\)$/g, '').split(',').map(t => t.trim()).filter(Boolean);
+}
+
+/**
+ * Whether a recorded parameter list satisfies `selector`. The callgraph
+ * records no return types, so a descriptor's return type is ignored.
+ */
+export function matchesParamList(descriptor: string, selector: MethodSelector): boolean {
+  let paramTypes = selector.paramTypes;
+  if (selector.descriptor) {
+    const parsed = parseMethodDescriptor(selector.descriptor);
+    if (!parsed) return false;
+    paramTypes = parsed.paramTypes;
+  }
+  if (!paramTypes) return true;
+
+  const recorded = parseParamList(descriptor);
+  return recorded.length === paramTypes.length && paramTypes.every((t, i) => typeNameMatches(t, recorded[i]));
 }
 
 export async function searchMethods(version: string, query: string, limit: number = 50): Promise<MethodRef[]> {
@@ -116,7 +267,7 @@ export async function searchMethods(version: string, query: string, limit: numbe
 
   const pattern = `%${query}%`;
 
-  const stmt = database.prepare(`
+  const rows = database.all(`
     SELECT DISTINCT callee_class as class_name, callee_method as method_name, callee_desc as descriptor
     FROM calls
     WHERE callee_class LIKE ? OR callee_method LIKE ?
@@ -125,42 +276,36 @@ export async function searchMethods(version: string, query: string, limit: numbe
     FROM calls
     WHERE caller_class LIKE ? OR caller_method LIKE ?
     LIMIT ?
-  `);
-  stmt.bind([pattern, pattern, pattern, pattern, limit]);
-
-  const rows: any[] = [];
-  while (stmt.step()) {
-    rows.push(stmt.getAsObject());
-  }
-  stmt.free();
+  `, [pattern, pattern, pattern, pattern, limit]);
 
   return rows.map(row => ({
-    className: row.class_name,
-    methodName: row.method_name,
-    descriptor: row.descriptor || '',
+    className: row.class_name as string,
+    methodName: row.method_name as string,
+    descriptor: (row.descriptor as string | null) || '',
     fullName: `${row.class_name}.${row.method_name}`,
   }));
 }
 
-export async function getCallgraphStats(version: string): Promise<{ totalCalls: number; uniqueCallers: number; uniqueCallees: number } | null> {
+export async function getCallgraphStats(version: string): Promise<{ totalCalls: number; uniqueCallers: number; uniqueCallees: number; fieldAccesses: number | null; instantiations: number | null } | null> {
   const dbPath = path.join(getCallgraphDir(version), 'callgraph.db');
 
   if (!fs.existsSync(dbPath)) {
     return null;
   }
 
-  // sql.js works on every Node version we support, so the older
-  // node:sqlite probe-and-degrade dance is gone — any failure here is a
-  // real error worth surfacing.
+  // Any failure here is a real error worth surfacing. status loops over
+  // every cached version; the pool's memory budget closes the least recently
+  // used ones as it goes.
   const database = await openDb(version);
+  const count = (sql: string) => Number(database.all(sql)[0]?.count ?? 0);
 
-  const totalCalls = (database.exec('SELECT COUNT(*) as count FROM calls')[0]?.values[0]?.[0] as number) ?? 0;
-  const uniqueCallers = (database.exec('SELECT COUNT(DISTINCT caller_class || caller_method) as count FROM calls')[0]?.values[0]?.[0] as number) ?? 0;
-  const uniqueCallees = (database.exec('SELECT COUNT(DISTINCT callee_class || callee_method) as count FROM calls')[0]?.values[0]?.[0] as number) ?? 0;
-
-  // status loops over every cached version — close after stats so we don't
-  // hold N copies of the DB in memory at once.
-  closeDb();
+  const totalCalls = count('SELECT COUNT(*) as count FROM calls');
+  const uniqueCallers = count('SELECT COUNT(DISTINCT caller_class || caller_method) as count FROM calls');
+  const uniqueCallees = count('SELECT COUNT(DISTINCT callee_class || callee_method) as count FROM calls');
+  // null for callgraphs built before field accesses and instantiations were indexed.
+  const sites = await hasBytecodeSites(version);
+  const fieldAccesses = sites ? count('SELECT COUNT(*) as count FROM field_access') : null;
+  const instantiations = sites ? count('SELECT COUNT(*) as count FROM instantiations') : null;
 
-  return { totalCalls, uniqueCallers, uniqueCallees };
+  return { totalCalls, uniqueCallers, uniqueCallees, fieldAccesses, instantiations };
 }
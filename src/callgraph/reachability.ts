@@ -0,0 +1,306 @@
+// Which callgraph methods the client can actually run: those reachable from
+// game entry points (Minecraft.run, Minecraft.tick, GameRenderer.render,
+// packet handlers), as opposed to leftovers nothing in the client calls.
+//
+// The walk follows recorded calls breadth-first and widens each one the way
+// the JVM may dispatch it, using the type hierarchy from the symbol index: a
+// call recorded against A.m also reaches every override of m in A's
+// subtypes, and the inherited m when A doesn't declare one. Two kinds of
+// call the calls table lacks are assumed: a reached method reaches the
+// lambda bodies javac compiled out of it (lambda$<method>$N; invokedynamic
+// is not followed), and a reached member of a class reaches its static
+// initializer. Calls from outside the jar (the JDK, LWJGL, reflection) and
+// method references are not seen; name their targets as entry points.
+//
+// The result is saved per version as reachability.json next to
+// callgraph.db, with the entry points it was computed from. Rebuilding the
+// callgraph makes it stale.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import { getCallgraphDbPath, getCallgraphDir, openDb } from './query.js';
+import { EdgeReader, methodKey } from './traverse.js';
+import type { MethodNode } from './traverse.js';
+import type { ProgressCallback } from './index.js';
+
+/** "Class#method"; `*` in the method name matches any run of characters. */
+export const DEFAULT_ENTRY_POINTS = [
+  'net.minecraft.client.main.Main#main',
+  'net.minecraft.client.Minecraft#run',
+  'net.minecraft.client.Minecraft#tick',
+  'net.minecraft.client.renderer.GameRenderer#render',
+  'net.minecraft.network.protocol.Packet#handle',
+  'net.minecraft.client.multiplayer.ClientPacketListener#handle*',
+];
+
+export type ReachabilityStatus = 'reachable' | 'unreachable' | 'unknown';
+
+export interface ReachabilityReport {
+  entryPoints: string[];
+  /** Entry points that matched no method in the callgraph. */
+  unmatched: string[];
+  /** Methods in the callgraph, and how many of them are reachable. */
+  methods: number;
+  reachable: number;
+}
+
+/** A saved reachability analysis, for annotating and filtering methods. */
+export interface Reachability {
+  entryPoints: string[];
+  computedAt: string;
+  methods: number;
+  reachable: number;
+  /** 'unknown' for methods the callgraph doesn't record. */
+  status(node: MethodNode): ReachabilityStatus;
+}
+
+interface ReachabilityFile {
+  entryPoints: string[];
+  computedAt: string;
+  /** mtime of the callgraph.db it was computed from. */
+  callgraphMtimeMs: number;
+  /** Per class, its methods as "name(params)". */
+  classes: Record<string, { reachable: string[]; unreachable: string[] }>;
+}
+
+export function getReachabilityPath(version: string): string {
+  return path.join(getCallgraphDir(version), 'reachability.json');
+}
+
+/**
+ * Walk the callgraph of `version` from `entryPoints` and save the result.
+ * `supertypes` maps each indexed type to its direct supertypes (see
+ * SourceStore.supertypeMap); types outside it are not dispatched through.
+ */
+export async function computeReachability(
+  version: string,
+  supertypes: Map<string, string[]>,
+  entryPoints: string[] = DEFAULT_ENTRY_POINTS,
+  progressCb?: ProgressCallback
+): Promise<ReachabilityReport> {
+  const callgraphMtimeMs = fs.statSync(getCallgraphDbPath(version)).mtimeMs;
+  const database = await openDb(version);
+  const graph = new MethodIndex(supertypes);
+  for (const row of database.all('SELECT DISTINCT caller_class, caller_method, caller_desc FROM calls')) {
+    graph.add(row.caller_class as string, row.caller_method as string, (row.caller_desc as string | null) ?? '', true);
+  }
+  for (const row of database.all('SELECT DISTINCT callee_class, callee_method, callee_desc FROM calls')) {
+    graph.add(row.callee_class as string, row.callee_method as string, (row.callee_desc as string | null) ?? '', false);
+  }
+
+  const reached = new Set<string>();
+  const queue: MethodNode[] = [];
+  const reach = (node: MethodNode) => {
+    const key = methodKey(node);
+    if (reached.has(key)) return;
+    reached.add(key);
+    queue.push(node);
+  };
+
+  const unmatched: string[] = [];
+  for (const entry of entryPoints) {
+    const matches = graph.match(entry);
+    if (matches.length === 0) unmatched.push(entry);
+    matches.forEach(reach);
+  }
+
+  const reader = new EdgeReader(database);
+  try {
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i];
+      if (graph.hasBody(node)) {
+        for (const edge of reader.edges(node, 'callees')) reach(edge.node);
+      }
+      graph.dispatchTargets(node).forEach(reach);
+      graph.lambdasOf(node).forEach(reach);
+      const clinit = graph.staticInitializer(node.className);
+      if (clinit) reach(clinit);
+
+      if (progressCb && (i + 1) % 10000 === 0) {
+        progressCb('reachability', Math.floor(((i + 1) / graph.size) * 100), `Reached ${i + 1} methods...`);
+      }
+    }
+  } finally {
+    reader.close();
+  }
+
+  const classes: ReachabilityFile['classes'] = {};
+  for (const node of graph.nodes()) {
+    const entry = classes[node.className] ??= { reachable: [], unreachable: [] };
+    entry[reached.has(methodKey(node)) ? 'reachable' : 'unreachable'].push(`${node.methodName}${node.descriptor}`);
+  }
+  saveReachability(version, {
+    entryPoints,
+    computedAt: new Date().toISOString(),
+    callgraphMtimeMs,
+    classes,
+  });
+
+  if (progressCb) progressCb('reachability', 100, `${reached.size} of ${graph.size} methods reachable.`);
+  return { entryPoints, unmatched, methods: graph.size, reachable: reached.size };
+}
+
+function saveReachability(version: string, file: ReachabilityFile): void {
+  writeFileAtomic(getReachabilityPath(version), JSON.stringify(file));
+  loaded.delete(version);
+}
+
+const loaded = new Map<string, { mtimeMs: number; callgraphMtimeMs: number; reachability: Reachability | null }>();
+
+/**
+ * The saved reachability of `version`, or null when none was computed or
+ * the callgraph has been rebuilt since.
+ */
+export function loadReachability(version: string): Reachability | null {
+  const filePath = getReachabilityPath(version);
+  const dbPath = getCallgraphDbPath(version);
+  if (!fs.existsSync(filePath) || !fs.existsSync(dbPath)) return null;
+
+  const mtimeMs = fs.statSync(filePath).mtimeMs;
+  const callgraphMtimeMs = fs.statSync(dbPath).mtimeMs;
+  let cached = loaded.get(version);
+  if (!cached || cached.mtimeMs !== mtimeMs || cached.callgraphMtimeMs !== callgraphMtimeMs) {
+    cached = { mtimeMs, callgraphMtimeMs, reachability: readReachability(filePath, callgraphMtimeMs) };
+    loaded.set(version, cached);
+  }
+  return cached.reachability;
+}
+
+function readReachability(filePath: string, callgraphMtimeMs: number): Reachability | null {
+  const file: ReachabilityFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (file.callgraphMtimeMs !== callgraphMtimeMs) return null;
+
+  const statuses = new Map<string, Map<string, ReachabilityStatus>>();
+  let methods = 0;
+  let reachable = 0;
+  for (const [className, { reachable: live, unreachable: dead }] of Object.entries(file.classes)) {
+    const byMethod = new Map<string, ReachabilityStatus>();
+    for (const method of live) byMethod.set(method, 'reachable');
+    for (const method of dead) byMethod.set(method, 'unreachable');
+    statuses.set(className, byMethod);
+    methods += live.length + dead.length;
+    reachable += live.length;
+  }
+
+  return {
+    entryPoints: file.entryPoints,
+    computedAt: file.computedAt,
+    methods,
+    reachable,
+    status: node => statuses.get(node.className)?.get(`${node.methodName}${node.descriptor}`) ?? 'unknown',
+  };
+}
+
+/** Every method in the callgraph, indexed for dispatch and lambda lookups. */
+class MethodIndex {
+  private readonly byKey = new Map<string, MethodNode>();
+  /** Methods with code, i.e. recorded as callers. */
+  private readonly bodies = new Set<string>();
+  /** "name(params)" to the classes with a body for it. */
+  private readonly implementors = new Map<string, string[]>();
+  /** "Class#enclosing" to the lambda bodies compiled out of that method. */
+  private readonly lambdas = new Map<string, MethodNode[]>();
+  private readonly ancestorCache = new Map<string, Set<string>>();
+
+  constructor(private readonly supertypes: Map<string, string[]>) {}
+
+  get size(): number {
+    return this.byKey.size;
+  }
+
+  nodes(): IterableIterator<MethodNode> {
+    return this.byKey.values();
+  }
+
+  add(className: string, methodName: string, descriptor: string, hasBody: boolean): void {
+    const node = { className, methodName, descriptor };
+    const key = methodKey(node);
+    if (!this.byKey.has(key)) this.byKey.set(key, node);
+    if (!hasBody || this.bodies.has(key)) return;
+
+    this.bodies.add(key);
+    const signature = `${methodName}${descriptor}`;
+    const classes = this.implementors.get(signature);
+    if (classes) classes.push(className);
+    else this.implementors.set(signature, [className]);
+
+    const lambda = methodName.match(/^lambda\$(.+)\$\d+$/);
+    if (lambda) {
+      const enclosing = lambda[1] === 'new' ? '<init>' : lambda[1] === 'static' ? '<clinit>' : lambda[1];
+      const owner = `${className}#${enclosing}`;
+      const list = this.lambdas.get(owner);
+      if (list) list.push(node);
+      else this.lambdas.set(owner, [node]);
+    }
+  }
+
+  hasBody(node: MethodNode): boolean {
+    return this.bodies.has(methodKey(node));
+  }
+
+  /** Methods named by an entry point "Class#method", with `*` as a wildcard in the name. */
+  match(entryPoint: string): MethodNode[] {
+    const hash = entryPoint.lastIndexOf('#');
+    if (hash <= 0) return [];
+    const className = entryPoint.slice(0, hash);
+    const pattern = new RegExp(`^${entryPoint.slice(hash + 1).split('*').map(escapeRegExp).join('.*')}$`);
+    return [...this.byKey.values()].filter(n => n.className === className && pattern.test(n.methodName));
+  }
+
+  /**
+   * Where a call to `node` may land besides `node` itself: overrides in
+   * subtypes, and when the class has no body for it, the nearest body up
+   * each supertype path.
+   */
+  dispatchTargets(node: MethodNode): MethodNode[] {
+    if (node.methodName === '<init>' || node.methodName === '<clinit>') return [];
+    const signature = `${node.methodName}${node.descriptor}`;
+    const targets: MethodNode[] = [];
+
+    for (const className of this.implementors.get(signature) ?? []) {
+      if (className !== node.className && this.ancestors(className).has(node.className)) {
+        targets.push(this.byKey.get(`${className}.${signature}`)!);
+      }
+    }
+
+    if (!this.hasBody(node)) {
+      const visited = new Set<string>();
+      const up = (className: string) => {
+        for (const parent of this.supertypes.get(className) ?? []) {
+          if (visited.has(parent)) continue;
+          visited.add(parent);
+          const key = `${parent}.${signature}`;
+          if (this.bodies.has(key)) targets.push(this.byKey.get(key)!);
+          else up(parent);
+        }
+      };
+      up(node.className);
+    }
+    return targets;
+  }
+
+  lambdasOf(node: MethodNode): MethodNode[] {
+    return this.lambdas.get(`${node.className}#${node.methodName}`) ?? [];
+  }
+
+  staticInitializer(className: string): MethodNode | undefined {
+    return this.byKey.get(`${className}.<clinit>()`);
+  }
+
+  private ancestors(className: string): Set<string> {
+    let ancestors = this.ancestorCache.get(className);
+    if (ancestors) return ancestors;
+    ancestors = new Set();
+    this.ancestorCache.set(className, ancestors);
+    for (const parent of this.supertypes.get(className) ?? []) {
+      ancestors.add(parent);
+      for (const ancestor of this.ancestors(parent)) ancestors.add(ancestor);
+    }
+    return ancestors;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
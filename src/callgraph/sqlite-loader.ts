@@ -10,12 +10,17 @@
 // sql.js is pure JavaScript + WebAssembly: no native bindings, no Electron
 // ABI coupling, no Team ID dance, works on Node 14+ without flags. The
 // trade-offs are async init (WASM has to be instantiated), slightly higher
-// memory use than a native build, and the whole DB is loaded into memory
-// (sql.js doesn't do incremental disk I/O). For our callgraph workload — a
-// few hundred MB queried at MCP-tool granularity — none of that matters.
+// memory use than a native build, and no incremental disk I/O: a database
+// lives wholly in memory, so a callgraph of a few hundred MB costs that much
+// per open version.
 //
 // The on-disk file format is plain SQLite, so existing callgraph.db files
 // from the better-sqlite3 / node:sqlite era load without any migration.
+//
+// That memory cost is why callgraph queries prefer node:sqlite where the
+// runtime has it: it pages from disk, and sql.js remains the fallback. Open
+// connections share the MCDEV_CALLGRAPH_MEMORY_MB budget either way (see
+// connection.ts).
 
 import type initSqlJsType from 'sql.js';
 import type { SqlJsStatic } from 'sql.js';
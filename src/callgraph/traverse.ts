@@ -0,0 +1,423 @@
+// Multi-hop walks over the calls table: call trees that expand callers or
+// callees several levels deep, and the shortest call chains between two
+// methods.
+//
+// Methods are identified by class, name and recorded parameter list, so
+// overloads are separate nodes. Edges are fetched one method at a time
+// through the (caller_class, caller_method) and (callee_class, callee_method)
+// indices; several calls between the same pair of methods collapse into one
+// edge at the first line.
+
+import type { MethodSelector } from '../storage/index.js';
+import type { CallgraphDb, CallgraphStatement } from './connection.js';
+import { openDb, matchesParamList } from './query.js';
+
+export interface MethodNode {
+  className: string;
+  methodName: string;
+  /** Parameter list as recorded by the callgraph, e.g. "(net.minecraft.core.BlockPos,int)". */
+  descriptor: string;
+}
+
+export type CallDirection = 'callers' | 'callees';
+
+export interface CallTreeNode extends MethodNode {
+  /** Line of the call between this node and its parent, in whichever of the two is the caller. */
+  lineNumber?: number;
+  children: CallTreeNode[];
+  /** Children left out by the fan-out limit. */
+  omitted?: number;
+  /** Already on the path from the root; expanding it again would loop. */
+  cycle?: boolean;
+  /** Expanded elsewhere in the tree; its children are listed there. */
+  seen?: boolean;
+}
+
+export interface CallTreeOptions {
+  /** Levels below the roots (default 3). */
+  depth?: number;
+  /** Children listed per node (default 20). */
+  maxChildren?: number;
+  /** Nodes expanded in total before the walk stops (default 500). */
+  maxNodes?: number;
+}
+
+export interface CallTree {
+  /** One root per overload of the method asked about. */
+  roots: CallTreeNode[];
+  /** True when maxNodes cut the walk short. */
+  truncated: boolean;
+}
+
+/** One hop of a call chain; `lineNumber` is the call's line in the previous method. */
+export interface CallStep extends MethodNode {
+  lineNumber?: number;
+}
+
+export interface CallPathOptions {
+  /** Longest chain searched for, in calls (default 8). */
+  maxDepth?: number;
+  /** Chains returned (default 10). */
+  maxPaths?: number;
+  /** Methods visited in total before the search gives up (default 50000). */
+  maxVisited?: number;
+}
+
+export interface CallPaths {
+  /** Shortest chains, each starting at an overload of `from` and ending at one of `to`. */
+  paths: CallStep[][];
+  /** True when maxVisited stopped the search before a chain was found or ruled out. */
+  truncated: boolean;
+}
+
+export interface Edge {
+  node: MethodNode;
+  lineNumber?: number;
+}
+
+const SQL: Record<CallDirection, string> = {
+  callees: `
+    SELECT callee_class AS class_name, callee_method AS method_name, callee_desc AS descriptor, MIN(line_number) AS line
+    FROM calls
+    WHERE caller_class = ? AND caller_method = ? AND caller_desc = ?
+    GROUP BY callee_class, callee_method, callee_desc
+    ORDER BY callee_class, callee_method, callee_desc
+  `,
+  callers: `
+    SELECT caller_class AS class_name, caller_method AS method_name, caller_desc AS descriptor, MIN(line_number) AS line
+    FROM calls
+    WHERE callee_class = ? AND callee_method = ? AND callee_desc = ?
+    GROUP BY caller_class, caller_method, caller_desc
+    ORDER BY caller_class, caller_method, caller_desc
+  `,
+};
+
+/** Edges out of one method, with a prepared statement per direction. */
+export class EdgeReader {
+  private readonly statements = new Map<CallDirection, CallgraphStatement>();
+
+  constructor(private readonly database: CallgraphDb) {}
+
+  edges(node: MethodNode, direction: CallDirection): Edge[] {
+    let stmt = this.statements.get(direction);
+    if (!stmt) {
+      stmt = this.database.prepare(SQL[direction]);
+      this.statements.set(direction, stmt);
+    }
+
+    return stmt.all([node.className, node.methodName, node.descriptor]).map(row => ({
+      node: {
+        className: row.class_name as string,
+        methodName: row.method_name as string,
+        descriptor: (row.descriptor as string | null) ?? '',
+      },
+      lineNumber: (row.line as number | null) ?? undefined,
+    }));
+  }
+
+  close(): void {
+    for (const stmt of this.statements.values()) stmt.free();
+    this.statements.clear();
+  }
+}
+
+export function methodKey(node: MethodNode): string {
+  return `${node.className}.${node.methodName}${node.descriptor}`;
+}
+
+/** The recorded overloads of a method, on either end of a call, that satisfy `selector`. */
+export async function findMethodNodes(
+  version: string,
+  className: string,
+  methodName: string,
+  selector: MethodSelector = {}
+): Promise<MethodNode[]> {
+  const database = await openDb(version);
+  const rows = database.all(`
+    SELECT caller_desc AS descriptor FROM calls WHERE caller_class = ? AND caller_method = ?
+    UNION
+    SELECT callee_desc AS descriptor FROM calls WHERE callee_class = ? AND callee_method = ?
+    ORDER BY descriptor
+  `, [className, methodName, className, methodName]);
+  return rows
+    .map(row => (row.descriptor as string | null) ?? '')
+    .filter(descriptor => matchesParamList(descriptor, selector))
+    .map(descriptor => ({ className, methodName, descriptor }));
+}
+
+/**
+ * Expand callers or callees of `roots` level by level. Every method is
+ * expanded once, at its shallowest occurrence; later occurrences are marked
+ * `seen`, or `cycle` when they call back into their own ancestry.
+ */
+export async function buildCallTree(
+  version: string,
+  roots: MethodNode[],
+  direction: CallDirection,
+  options: CallTreeOptions = {}
+): Promise<CallTree> {
+  const depth = options.depth ?? 3;
+  const maxChildren = options.maxChildren ?? 20;
+  const maxNodes = options.maxNodes ?? 500;
+
+  const reader = new EdgeReader(await openDb(version));
+  const parents = new Map<CallTreeNode, CallTreeNode>();
+  const expanded = new Set<string>();
+  const treeRoots: CallTreeNode[] = roots.map(root => ({ ...root, children: [] }));
+  // Every node placed on a level, expanded or still waiting its turn.
+  const queued = new Set(treeRoots.map(methodKey));
+  let level = treeRoots;
+  let truncated = false;
+
+  try {
+    for (let d = 0; d < depth && level.length > 0 && !truncated; d++) {
+      const next: CallTreeNode[] = [];
+      for (const node of level) {
+        if (expanded.size >= maxNodes) {
+          truncated = true;
+          break;
+        }
+        expanded.add(methodKey(node));
+
+        const edges = reader.edges(node, direction);
+        for (const edge of edges.slice(0, maxChildren)) {
+          const child: CallTreeNode = { ...edge.node, lineNumber: edge.lineNumber, children: [] };
+          parents.set(child, node);
+          node.children.push(child);
+
+          const key = methodKey(child);
+          if (isAncestor(key, node, parents)) {
+            child.cycle = true;
+          } else if (queued.has(key)) {
+            child.seen = true;
+          } else {
+            next.push(child);
+            queued.add(key);
+          }
+        }
+        if (edges.length > maxChildren) node.omitted = edges.length - maxChildren;
+      }
+      level = next;
+    }
+  } finally {
+    reader.close();
+  }
+
+  return { roots: treeRoots, truncated };
+}
+
+function isAncestor(key: string, node: CallTreeNode, parents: Map<CallTreeNode, CallTreeNode>): boolean {
+  for (let n: CallTreeNode | undefined = node; n; n = parents.get(n)) {
+    if (methodKey(n) === key) return true;
+  }
+  return false;
+}
+
+/**
+ * Shortest call chains from any of `from` to any of `to`, by a
+ * bidirectional breadth-first search: callees are expanded forward from
+ * `from` and callers backward from `to`, a level at a time on whichever
+ * side has the smaller frontier, until the two meet.
+ */
+export async function findCallPaths(
+  version: string,
+  from: MethodNode[],
+  to: MethodNode[],
+  options: CallPathOptions = {}
+): Promise<CallPaths> {
+  const maxDepth = options.maxDepth ?? 8;
+  const maxPaths = options.maxPaths ?? 10;
+  const maxVisited = options.maxVisited ?? 50000;
+
+  const reader = new EdgeReader(await openDb(version));
+  const forward = new SearchSide(from);
+  const backward = new SearchSide(to);
+
+  try {
+    let meets = [...forward.depth.keys()].filter(key => backward.depth.has(key));
+    let truncated = false;
+
+    while (meets.length === 0 && forward.level + backward.level < maxDepth) {
+      if (forward.depth.size + backward.depth.size > maxVisited) {
+        truncated = true;
+        break;
+      }
+      const side = forward.frontier.length <= backward.frontier.length ? forward : backward;
+      if (side.frontier.length === 0) break;
+
+      const other = side === forward ? backward : forward;
+      const discovered = side.expand(reader, side === forward ? 'callees' : 'callers');
+      meets = discovered.filter(key => other.depth.has(key));
+    }
+
+    if (meets.length === 0) return { paths: [], truncated };
+
+    // Every meeting node of the final level lies on a chain, but only those
+    // with the shortest combined distance lie on a shortest one.
+    const length = (key: string) => forward.depth.get(key)! + backward.depth.get(key)!;
+    const shortest = Math.min(...meets.map(length));
+
+    const paths: CallStep[][] = [];
+    for (const key of meets.filter(k => length(k) === shortest)) {
+      for (const head of forward.chains(key, maxPaths - paths.length)) {
+        for (const tail of backward.chains(key, maxPaths - paths.length)) {
+          if (paths.length >= maxPaths) break;
+          // The backward chain runs from the target to the meeting node, with
+          // each step's line in the method after it; flip it to run forward.
+          const reversed = tail.slice().reverse();
+          const steps: CallStep[] = [...head];
+          for (let i = 1; i < reversed.length; i++) {
+            steps.push({ ...nodeOf(reversed[i]), lineNumber: reversed[i - 1].lineNumber });
+          }
+          paths.push(steps);
+        }
+      }
+    }
+    return { paths, truncated: false };
+  } finally {
+    reader.close();
+  }
+}
+
+function nodeOf(step: CallStep): MethodNode {
+  return { className: step.className, methodName: step.methodName, descriptor: step.descriptor };
+}
+
+/** One direction of the path search: distances from its start nodes and every shortest-path parent. */
+class SearchSide {
+  readonly depth = new Map<string, number>();
+  private readonly nodes = new Map<string, MethodNode>();
+  /** Nodes one step closer to the start, with the line of the call between them. */
+  private readonly parents = new Map<string, Array<{ key: string; lineNumber?: number }>>();
+  frontier: string[];
+  level = 0;
+
+  constructor(starts: MethodNode[]) {
+    for (const node of starts) {
+      const key = methodKey(node);
+      this.depth.set(key, 0);
+      this.nodes.set(key, node);
+    }
+    this.frontier = [...this.depth.keys()];
+  }
+
+  /** Expand the frontier one level; returns the nodes reached for the first time. */
+  expand(reader: EdgeReader, direction: CallDirection): string[] {
+    this.level++;
+    const discovered: string[] = [];
+    for (const key of this.frontier) {
+      for (const edge of reader.edges(this.nodes.get(key)!, direction)) {
+        const next = methodKey(edge.node);
+        const known = this.depth.get(next);
+        if (known === undefined) {
+          this.depth.set(next, this.level);
+          this.nodes.set(next, edge.node);
+          this.parents.set(next, []);
+          discovered.push(next);
+        } else if (known !== this.level) {
+          continue;
+        }
+        this.parents.get(next)!.push({ key, lineNumber: edge.lineNumber });
+      }
+    }
+    this.frontier = discovered;
+    return discovered;
+  }
+
+  /** Up to `limit` shortest chains from a start node to `key`, start first. */
+  chains(key: string, limit: number): CallStep[][] {
+    if (limit <= 0) return [];
+    const node = this.nodes.get(key)!;
+    const parents = this.parents.get(key);
+    if (!parents) return [[{ ...node }]];
+
+    const chains: CallStep[][] = [];
+    for (const parent of parents) {
+      for (const chain of this.chains(parent.key, limit - chains.length)) {
+        chains.push([...chain, { ...node, lineNumber: parent.lineNumber }]);
+        if (chains.length >= limit) return chains;
+      }
+    }
+    return chains;
+  }
+}
+
+export interface CallGraphOptions {
+  /** Calls followed from the roots (default 2). */
+  depth?: number;
+  /** Packages or classes a method must belong to; empty means any. The roots always belong. */
+  include?: string[];
+  /** Packages or classes whose methods are left out, and not followed. */
+  exclude?: string[];
+  /** Methods collected before the walk stops adding new ones (default 300). */
+  maxNodes?: number;
+}
+
+export interface CallGraph {
+  nodes: MethodNode[];
+  /** Caller to callee, by methodKey; each pair once. */
+  edges: Array<{ from: string; to: string }>;
+  /** True when maxNodes left reachable methods out. */
+  truncated: boolean;
+}
+
+/**
+ * The subgraph reachable from `roots` within `depth` calls, following
+ * callees, callers or both, restricted by the package filters.
+ */
+export async function collectCallGraph(
+  version: string,
+  roots: MethodNode[],
+  direction: CallDirection | 'both',
+  options: CallGraphOptions = {}
+): Promise<CallGraph> {
+  const depth = options.depth ?? 2;
+  const maxNodes = options.maxNodes ?? 300;
+  const include = options.include ?? [];
+  const exclude = options.exclude ?? [];
+  const admitted = (node: MethodNode) =>
+    (include.length === 0 || include.some(p => inPackage(node.className, p)))
+    && !exclude.some(p => inPackage(node.className, p));
+  const directions: CallDirection[] = direction === 'both' ? ['callees', 'callers'] : [direction];
+
+  const reader = new EdgeReader(await openDb(version));
+  const nodes = new Map(roots.map(root => [methodKey(root), root]));
+  const edges = new Map<string, { from: string; to: string }>();
+  let level = [...nodes.values()];
+  let truncated = false;
+
+  try {
+    for (let d = 0; d < depth && level.length > 0; d++) {
+      const next: MethodNode[] = [];
+      for (const node of level) {
+        const key = methodKey(node);
+        for (const dir of directions) {
+          for (const edge of reader.edges(node, dir)) {
+            if (!admitted(edge.node)) continue;
+            const other = methodKey(edge.node);
+            if (!nodes.has(other)) {
+              if (nodes.size >= maxNodes) {
+                truncated = true;
+                continue;
+              }
+              nodes.set(other, edge.node);
+              next.push(edge.node);
+            }
+            const [from, to] = dir === 'callees' ? [key, other] : [other, key];
+            edges.set(`${from} ${to}`, { from, to });
+          }
+        }
+      }
+      level = next;
+    }
+  } finally {
+    reader.close();
+  }
+
+  return { nodes: [...nodes.values()], edges: [...edges.values()], truncated };
+}
+
+/** Whether a binary class name lies in a package (or its subpackages) or is, or is nested in, a class. */
+function inPackage(className: string, prefix: string): boolean {
+  return className === prefix || className.startsWith(`${prefix}.`) || className.startsWith(`${prefix}$`);
+}
@@ -30,7 +30,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Command } from 'commander';
 import { ensureDecompiled } from './decompiler/index.js';
-import { buildIndex, loadIndexManifest } from './indexer/index.js';
+import { buildIndex, isIndexStale, loadIndexManifest, upgradeStaleIndex } from './indexer/index.js';
 import {
   getMinecraftSourceDir,
   ensureHomeDirs,
@@ -43,7 +43,21 @@ import {
   isVersionIndexed,
   getTmpDir
 } from './utils/paths.js';
-import { ensureCallgraph, hasCallgraphDb, getCallgraphStats } from './callgraph/index.js';
+import {
+  ensureCallgraph,
+  hasCallgraphDb,
+  getCallgraphStats,
+  getCallgraphPoolMetrics,
+  describeDbMetrics,
+  describePoolMetrics,
+  computeReachability,
+  loadReachability,
+  DEFAULT_ENTRY_POINTS,
+} from './callgraph/index.js';
+import { exportCallGraph, GRAPH_COLLAPSES, GRAPH_FORMATS } from './callgraph/export.js';
+import { sourceStore } from './storage/index.js';
+import { diffVersions, formatVersionDiff } from './storage/version-diff.js';
+import { matchRenames, getRenamesPath, DEFAULT_MIN_CONFIDENCE } from './storage/renames.js';
 import { startServer } from './index.js';
 
 bootLog('module loaded — all top-level imports resolved');
@@ -108,6 +122,7 @@ program
   .description('Download, decompile, index Minecraft sources, and generate callgraph')
   .requiredOption('-v, --version <version>', 'Minecraft version (e.g., 1.21.11, 26.1)')
   .option('--skip-callgraph', 'Skip callgraph generation', false)
+  .option('--javacg', 'Generate the callgraph with java-callgraph2 (needs git, a JDK and Gradle) instead of the built-in class-file reader', false)
   .action(async (options) => {
     validateVersion(options.version);
     console.log(`Initializing mcdev-mcp for Minecraft ${options.version}...`);
@@ -130,7 +145,7 @@ program
       
       if (!options.skipCallgraph) {
         console.log('\nGenerating callgraph...');
-        await ensureCallgraph(options.version, progressCb);
+        await ensureCallgraph(options.version, progressCb, { extractor: options.javacg ? 'javacg' : 'builtin' });
       }
       
       console.log('\n✓ Initialization complete!');
@@ -153,6 +168,7 @@ program
   .command('callgraph')
   .description('Generate callgraph database for finding method references')
   .requiredOption('-v, --version <version>', 'Minecraft version (e.g., 1.21.11, 26.1)')
+  .option('--javacg', 'Generate the callgraph with java-callgraph2 (needs git, a JDK and Gradle) instead of the built-in class-file reader', false)
   .action(async (options) => {
     validateVersion(options.version);
     console.log(`Generating callgraph for Minecraft ${options.version}...`);
@@ -173,7 +189,7 @@ program
     };
     
     try {
-      await ensureCallgraph(options.version, progressCb);
+      await ensureCallgraph(options.version, progressCb, { extractor: options.javacg ? 'javacg' : 'builtin' });
 
       const stats = await getCallgraphStats(options.version);
       if (stats) {
@@ -181,6 +197,8 @@ program
         console.log(`  Total call references: ${stats.totalCalls}`);
         console.log(`  Unique callers: ${stats.uniqueCallers}`);
         console.log(`  Unique callees: ${stats.uniqueCallees}`);
+        if (stats.fieldAccesses !== null) console.log(`  Field accesses: ${stats.fieldAccesses}`);
+        if (stats.instantiations !== null) console.log(`  Instantiations: ${stats.instantiations}`);
       }
     } catch (error) {
       console.error('Callgraph generation failed:', error);
@@ -188,11 +206,189 @@ program
     }
   });
 
+program
+  .command('graph')
+  .description('Export the callgraph around a method as Graphviz DOT, Mermaid or GraphML')
+  .requiredOption('-v, --version <version>', 'Minecraft version (e.g., 1.21.11, 26.1)')
+  .requiredOption('-c, --class <className>', 'Fully qualified class name of the root method')
+  .requiredOption('-m, --method <methodName>', 'Root method name')
+  .option('--params <types>', 'Comma-separated parameter types of the root overload ("" for none)')
+  .option('--direction <direction>', 'callees, callers or both', 'callees')
+  .option('--depth <depth>', 'Calls to follow from the root', '2')
+  .option('--include <packages>', 'Comma-separated packages or classes to keep')
+  .option('--exclude <packages>', 'Comma-separated packages or classes to leave out')
+  .option('--collapse <level>', 'Merge nodes by method, class or package', 'method')
+  .option('--format <format>', 'dot, mermaid or graphml', 'dot')
+  .option('--max-nodes <count>', 'Stop adding methods after this many', '300')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action(async (options) => {
+    validateVersion(options.version);
+
+    if (!hasCallgraphDb(options.version)) {
+      console.error(`No callgraph for Minecraft ${options.version}. Run 'callgraph -v ${options.version}' first.`);
+      process.exit(1);
+    }
+    if (!['callees', 'callers', 'both'].includes(options.direction)) {
+      console.error(`Unknown direction "${options.direction}": use callees, callers or both.`);
+      process.exit(1);
+    }
+    if (!GRAPH_FORMATS.includes(options.format)) {
+      console.error(`Unknown format "${options.format}": use ${GRAPH_FORMATS.join(', ')}.`);
+      process.exit(1);
+    }
+    if (!GRAPH_COLLAPSES.includes(options.collapse)) {
+      console.error(`Unknown collapse level "${options.collapse}": use ${GRAPH_COLLAPSES.join(', ')}.`);
+      process.exit(1);
+    }
+
+    const list = (value?: string) => value === undefined ? undefined : value.split(',').map(s => s.trim()).filter(Boolean);
+    const result = await exportCallGraph(options.version, {
+      className: options.class,
+      methodName: options.method,
+      paramTypes: list(options.params),
+      direction: options.direction,
+      depth: Math.max(1, parseInt(options.depth, 10) || 1),
+      include: list(options.include),
+      exclude: list(options.exclude),
+      collapse: options.collapse,
+      format: options.format,
+      maxNodes: Math.max(1, parseInt(options.maxNodes, 10) || 1),
+    });
+
+    if (!result) {
+      console.error(`${options.class}#${options.method} does not appear in the callgraph.`);
+      process.exit(1);
+    }
+
+    // Stats go to stderr so stdout stays a clean graph for piping.
+    const summary = `${result.nodeCount} nodes, ${result.edgeCount} edges${result.truncated ? ' (truncated at --max-nodes)' : ''}`;
+    if (options.output) {
+      fs.writeFileSync(options.output, result.text + '\n');
+      console.error(`Wrote ${options.output}: ${summary}`);
+    } else {
+      process.stdout.write(result.text + '\n');
+      console.error(summary);
+    }
+  });
+
+program
+  .command('reachability')
+  .description('Find the methods reachable from game entry points, for mc_find_refs and mc_search to mark or filter the rest as unreachable')
+  .requiredOption('-v, --version <version>', 'Minecraft version (e.g., 1.21.11, 26.1)')
+  .option('-e, --entry <entry>', 'Additional entry point as Class#method, * allowed in the method name (repeatable)', (value: string, list: string[]) => [...list, value], [] as string[])
+  .option('--no-default-entries', `Only use the --entry points, not the defaults (${DEFAULT_ENTRY_POINTS.length} game loop, rendering and packet handling methods)`)
+  .action(async (options) => {
+    validateVersion(options.version);
+
+    if (!hasCallgraphDb(options.version)) {
+      console.error(`No callgraph for Minecraft ${options.version}. Run 'callgraph -v ${options.version}' first.`);
+      process.exit(1);
+    }
+    if (!isVersionIndexed(options.version)) {
+      console.error(`Minecraft ${options.version} not indexed. Run 'init -v ${options.version}' first.`);
+      process.exit(1);
+    }
+
+    const entryPoints: string[] = [...(options.defaultEntries ? DEFAULT_ENTRY_POINTS : []), ...options.entry];
+    if (entryPoints.length === 0) {
+      console.error('No entry points: pass --entry Class#method.');
+      process.exit(1);
+    }
+
+    const progressCb = (stage: string, progress: number, message: string) => {
+      console.log(`[${stage}] ${progress}% - ${message}`);
+    };
+
+    await sourceStore.setVersion(options.version);
+    const report = await computeReachability(options.version, sourceStore.supertypeMap(), entryPoints, progressCb);
+
+    console.log(`\n✓ ${report.reachable} of ${report.methods} methods reachable from ${entryPoints.length} entry point(s)`);
+    for (const entry of report.unmatched) {
+      console.log(`  Warning: ${entry} matched no method in the callgraph`);
+    }
+  });
+
+program
+  .command('diff')
+  .description('Compare the APIs of two indexed versions: classes, supertypes, member signatures and method bodies')
+  .requiredOption('--from <version>', 'Older Minecraft version (e.g., 1.21.10)')
+  .requiredOption('--to <version>', 'Newer Minecraft version (e.g., 1.21.11)')
+  .option('-p, --package <packages>', 'Comma-separated packages or classes to report')
+  .option('-c, --class <className>', 'Show the changes to one class (old or new name)')
+  .option('--details', 'List member changes under each class', false)
+  .option('--no-bodies', 'Skip comparing method bodies')
+  .action(async (options) => {
+    for (const version of [options.from, options.to]) {
+      validateVersion(version);
+      if (!isVersionIndexed(version)) {
+        console.error(`Minecraft ${version} not indexed. Run 'init -v ${version}' first.`);
+        process.exit(1);
+      }
+    }
+
+    // Progress goes to stderr so stdout stays a clean report for piping.
+    const progressCb = (stage: string, progress: number, message: string) => {
+      console.error(`[${stage}] ${progress}% - ${message}`);
+    };
+    await upgradeStaleIndex(options.from, progressCb);
+    await upgradeStaleIndex(options.to, progressCb);
+
+    const packages = options.package ? options.package.split(',').map((s: string) => s.trim()).filter(Boolean) : [];
+    const diff = await diffVersions(options.from, options.to, { packages, bodies: options.bodies, progressCb });
+    console.log(formatVersionDiff(diff, { details: options.details, className: options.class }));
+  });
+
+program
+  .command('renames')
+  .description('Match the classes and members removed between two versions with their likely successors, for mc_search fromVersion')
+  .requiredOption('--from <version>', 'Older Minecraft version (e.g., 1.21.10)')
+  .requiredOption('--to <version>', 'Newer Minecraft version (e.g., 1.21.11)')
+  .option('--min-confidence <confidence>', 'Lowest confidence kept, 0-1', String(DEFAULT_MIN_CONFIDENCE))
+  .option('--show <count>', 'Number of matches to print', '20')
+  .action(async (options) => {
+    for (const version of [options.from, options.to]) {
+      validateVersion(version);
+      if (!isVersionIndexed(version)) {
+        console.error(`Minecraft ${version} not indexed. Run 'init -v ${version}' first.`);
+        process.exit(1);
+      }
+      if (!hasCallgraphDb(version)) {
+        console.log(`Note: no callgraph for ${version}; matching without callers, callees and bytecode. Run 'callgraph -v ${version}' for better matches.`);
+      }
+    }
+    const minConfidence = parseFloat(options.minConfidence);
+    if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+      console.error('--min-confidence must be between 0 and 1.');
+      process.exit(1);
+    }
+
+    const progressCb = (stage: string, progress: number, message: string) => {
+      console.log(`[${stage}] ${progress}% - ${message}`);
+    };
+    await upgradeStaleIndex(options.from, progressCb);
+    await upgradeStaleIndex(options.to, progressCb);
+
+    const report = await matchRenames(options.from, options.to, { minConfidence, progressCb });
+    const classes = report.matches.filter(m => m.kind === 'class').length;
+    console.log(`\n✓ ${classes} of ${report.removed.classes} removed classes and ${report.matches.length - classes} of ${report.removed.members} removed members matched`);
+    console.log(`  Saved to ${getRenamesPath(options.from, options.to)}`);
+
+    const shown = report.matches.slice(0, Math.max(0, parseInt(options.show, 10) || 0));
+    for (const match of shown) {
+      const signals = Object.entries(match.signals).map(([name, value]) => `${name} ${value}`).join(', ');
+      console.log(`  ${match.confidence.toFixed(2)} ${match.kind} ${match.from} -> ${match.to} (${signals})`);
+    }
+    if (shown.length < report.matches.length) console.log(`  ... ${report.matches.length - shown.length} more`);
+  });
+
 program
   .command('rebuild')
   .description('Rebuild the symbol index from cached sources')
   .requiredOption('-v, --version <version>', 'Minecraft version (e.g., 1.21.11, 26.1)')
   .option('--with-callgraph', 'Also rebuild callgraph', false)
+  .option('--javacg', 'Generate the callgraph with java-callgraph2 (needs git, a JDK and Gradle) instead of the built-in class-file reader', false)
+  .option('--full', 'Reparse every file instead of only the changed ones', false)
+  .option('--workers <count>', 'Parser worker threads (default: CPU count - 1, max 8)')
   .action(async (options) => {
     validateVersion(options.version);
     ensureHomeDirs();
@@ -218,11 +414,13 @@ program
       minecraftVersion: minecraftVersion,
       fabricApiVersion: null,
       progressCb,
+      full: options.full,
+      workers: options.workers ? Math.max(1, parseInt(options.workers, 10) || 1) : undefined,
     });
     
     if (options.withCallgraph) {
       console.log('\nRebuilding callgraph...');
-      await ensureCallgraph(minecraftVersion, progressCb);
+      await ensureCallgraph(minecraftVersion, progressCb, { extractor: options.javacg ? 'javacg' : 'builtin' });
     }
     
     console.log('\n✓ Index rebuilt!');
@@ -270,6 +468,7 @@ program
         const stats = await getCallgraphStats(version);
         if (stats) {
           console.log(`    Call refs: ${stats.totalCalls}`);
+          printCallgraphDbMetrics(version, '    ');
         }
       }
 
@@ -277,8 +476,16 @@ program
     }
 
     console.log(`Total: ${cachedVersions.length} version(s) cached`);
+    const pool = getCallgraphPoolMetrics();
+    if (pool.opens > 0) console.log(`Callgraph memory: ${describePoolMetrics(pool)}`);
   });
 
+function printCallgraphDbMetrics(version: string, indent: string): void {
+  const metrics = getCallgraphPoolMetrics().open.find(m => m.version === version);
+  if (metrics) console.log(`${indent}Callgraph DB: ${describeDbMetrics(metrics)}`);
+}
+
+
 async function showVersionStatus(version: string, cachedVersions: string[], indexedVersions: string[]): Promise<void> {
   const isCached = cachedVersions.includes(version);
   const isIndexed = indexedVersions.includes(version);
@@ -294,6 +501,9 @@ async function showVersionStatus(version: string, cachedVersions: string[], inde
     if (manifest) {
       console.log(`  Packages: ${manifest.packages.minecraft.length} Minecraft, ${manifest.packages.fabric.length} Fabric`);
       console.log(`  Generated: ${manifest.generated}`);
+      if (isIndexStale(version)) {
+        console.log(`  Parser: outdated (index will be rebuilt on next use)`);
+      }
     }
 
     if (hasCallgraph) {
@@ -302,6 +512,13 @@ async function showVersionStatus(version: string, cachedVersions: string[], inde
         console.log(`  Call refs: ${stats.totalCalls}`);
         console.log(`  Unique callers: ${stats.uniqueCallers}`);
         console.log(`  Unique callees: ${stats.uniqueCallees}`);
+        console.log(`  Field accesses: ${stats.fieldAccesses ?? 'not indexed (rebuild with clean --callgraph)'}`);
+        console.log(`  Instantiations: ${stats.instantiations ?? 'not indexed (rebuild with clean --callgraph)'}`);
+        const reachability = loadReachability(version);
+        console.log(`  Reachability: ${reachability
+          ? `${reachability.reachable} of ${reachability.methods} methods reachable from ${reachability.entryPoints.length} entry point(s), computed ${reachability.computedAt}`
+          : `not computed or outdated (run 'reachability -v ${version}')`}`);
+        printCallgraphDbMetrics(version, '  ');
       }
     }
   } else if (!isCached) {
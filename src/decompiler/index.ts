@@ -3,6 +3,7 @@ import * as path from 'path';
 import { ensureVineflower, type ProgressCallback } from './tools.js';
 import { downloadClientJar, fetchVersionInfo, downloadMappings } from './download.js';
 import { decompile } from './vineflower.js';
+import { writeLineMap } from './line-map.js';
 import {
   needsRemapping,
   ensureTinyRemapper,
@@ -15,6 +16,7 @@ import {
   getMinecraftSourceDir,
   getMinecraftJarPath,
   getObfuscatedJarPath,
+  getLineMapPath,
   getIndexDir,
   ensureHomeDirs,
   ensureDir,
@@ -76,6 +78,8 @@ export async function ensureDecompiled(
       await downloadClientJar(version, finalJarPath, progressCb);
       await decompile(vineflowerJar, finalJarPath, minecraftDir, progressCb);
     }
+
+    await writeLineMap(getLineMapPath(version), minecraftDir, progressCb);
   }
 
   return { minecraftDir, fabricDir: null, fabricVersion: null };
@@ -0,0 +1,130 @@
+// Bytecode-to-source line map (line-map.json), so call sites reported by the
+// callgraph can be shown at their line in the decompiled sources.
+//
+// The callgraph records the line numbers compiled into the bytecode, which
+// follow Mojang's original sources, not Vineflower's output. With
+// --bytecode-source-mapping and --dump-original-lines, Vineflower ends every
+// file with a comment pairing the two:
+//
+//   // 42 <-> 17 43 <-> 18 45 <-> 20
+//
+// After decompiling, the comment is stripped from each file and the pairs
+// are collected per top-level class. On disk:
+//
+//   { format, classes: { "net.minecraft.Foo": [original, decompiled, ...] } }
+//
+// Nested and anonymous classes share their top-level class's file, and so its
+// entry.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ProgressCallback } from './tools.js';
+import { getLineMapPath } from '../utils/paths.js';
+
+const FORMAT = 1;
+
+const MAPPING_COMMENT = /^\/\/(?: \d+ <-> \d+)+$/;
+
+interface LineMapFile {
+  format: number;
+  classes: Record<string, number[]>;
+}
+
+export interface LineMap {
+  /**
+   * Decompiled line for a bytecode line of `className` (binary name, nested
+   * classes included), or null when the class or line isn't mapped. A line
+   * split across several decompiled lines maps to the first.
+   */
+  sourceLine(className: string, bytecodeLine: number): number | null;
+}
+
+/**
+ * Split Vineflower's trailing line-mapping comment off a decompiled file.
+ * Returns null when the file has none.
+ */
+export function splitLineMapping(content: string): { source: string; pairs: number[] } | null {
+  const trimmed = content.trimEnd();
+  const lastLine = trimmed.lastIndexOf('\n') + 1;
+  const comment = trimmed.slice(lastLine).trim();
+  if (!MAPPING_COMMENT.test(comment)) return null;
+
+  const pairs = comment.slice(2).trim().split(/\s+(?:<->\s+)?/).map(Number);
+  return { source: trimmed.slice(0, lastLine), pairs };
+}
+
+/**
+ * Strip the mapping comment from every decompiled file under `sourceDir`
+ * and write the collected pairs to `mapPath`. Returns the number of classes
+ * mapped.
+ */
+export async function writeLineMap(mapPath: string, sourceDir: string, progressCb?: ProgressCallback): Promise<number> {
+  if (progressCb) progressCb('line-map', 0, 'Recording bytecode line mapping...');
+
+  const files = (fs.readdirSync(sourceDir, { recursive: true }) as string[])
+    .filter(f => f.endsWith('.java'))
+    .sort();
+
+  const classes: Record<string, number[]> = {};
+  for (const file of files) {
+    const filePath = path.join(sourceDir, file);
+    const split = splitLineMapping(await fs.promises.readFile(filePath, 'utf-8'));
+    if (!split) continue;
+
+    await fs.promises.writeFile(filePath, split.source);
+    classes[file.slice(0, -'.java'.length).split(path.sep).join('.')] = split.pairs;
+  }
+
+  const json: LineMapFile = { format: FORMAT, classes };
+  await fs.promises.writeFile(mapPath, JSON.stringify(json));
+
+  const count = Object.keys(classes).length;
+  if (progressCb) progressCb('line-map', 100, `Mapped lines of ${count} classes.`);
+  return count;
+}
+
+export function readLineMap(mapPath: string): LineMap | null {
+  if (!fs.existsSync(mapPath)) return null;
+
+  let json: LineMapFile;
+  try {
+    json = JSON.parse(fs.readFileSync(mapPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+  if (json.format !== FORMAT) return null;
+
+  // Expanded per class on first use; most lookups touch a handful of classes.
+  const expanded = new Map<string, Map<number, number>>();
+
+  return {
+    sourceLine(className, bytecodeLine) {
+      const topLevel = className.split('$')[0];
+      let lines = expanded.get(topLevel);
+      if (!lines) {
+        const pairs = json.classes[topLevel];
+        if (!pairs) return null;
+        lines = new Map();
+        for (let i = 0; i + 1 < pairs.length; i += 2) {
+          const decompiled = lines.get(pairs[i]);
+          if (decompiled === undefined || pairs[i + 1] < decompiled) lines.set(pairs[i], pairs[i + 1]);
+        }
+        expanded.set(topLevel, lines);
+      }
+      return lines.get(bytecodeLine) ?? null;
+    },
+  };
+}
+
+// Like the callgraph database, only the most recently used version is kept.
+let _lineMap: LineMap | null = null;
+let _lineMapVersion: string | null = null;
+
+/** The line map of a version, or null for versions decompiled before it was recorded. */
+export function loadLineMap(version: string): LineMap | null {
+  if (_lineMapVersion !== version) {
+    _lineMap = readLineMap(getLineMapPath(version));
+    _lineMapVersion = version;
+  }
+  return _lineMap;
+}
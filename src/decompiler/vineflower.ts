@@ -20,6 +20,8 @@ export async function decompile(
       '-j=8',
       '--decompile-generics=1',
       '--bytecode-source-mapping=1',
+      // Appends the bytecode/source line pairs to each file; see line-map.ts.
+      '-__dump_original_lines__=1',
       '--remove-synthetic=1',
       '--log-level=error',
       inputJar,
@@ -0,0 +1,262 @@
+// Trigram index over the decompiled sources (grep.idx), used by mc_grep to
+// narrow a search down to the files that can possibly match before running
+// the real regex over them.
+//
+// Every file is lower-cased and its distinct three-character substrings are
+// recorded, so one index serves case-sensitive and case-insensitive
+// searches alike. On disk:
+//
+//   uint32 LE   header length
+//   JSON        { format, files: [relative path, ...], trigrams: { "abc": [offset, bytes] } }
+//   bytes       posting lists: ascending file ids, delta + varint encoded
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+
+const FORMAT = 1;
+
+interface GrepIndexHeader {
+  format: number;
+  files: string[];
+  trigrams: Record<string, [number, number]>;
+}
+
+export interface GrepIndex {
+  /** Source files relative to the source root, '/'-separated, sorted. */
+  files: string[];
+  /**
+   * Ids of the files that contain every trigram of every literal, in
+   * ascending order. Literals shorter than three characters don't narrow
+   * anything; with none usable, every file is a candidate.
+   */
+  candidates(literals: string[]): number[];
+}
+
+export async function writeGrepIndex(indexPath: string, sourceDir: string, files: string[]): Promise<void> {
+  const relative = files
+    .map(f => path.relative(sourceDir, f).split(path.sep).join('/'))
+    .sort();
+
+  const postings = new Map<string, number[]>();
+  for (let id = 0; id < relative.length; id++) {
+    const text = (await fs.promises.readFile(path.join(sourceDir, relative[id]), 'utf-8')).toLowerCase();
+    for (const trigram of trigramsOf(text)) {
+      let list = postings.get(trigram);
+      if (!list) postings.set(trigram, (list = []));
+      list.push(id);
+    }
+  }
+
+  const trigrams: Record<string, [number, number]> = {};
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  for (const [trigram, ids] of postings) {
+    const encoded = encodePostings(ids);
+    trigrams[trigram] = [offset, encoded.length];
+    chunks.push(encoded);
+    offset += encoded.length;
+  }
+
+  const headerJson: GrepIndexHeader = { format: FORMAT, files: relative, trigrams };
+  const header = Buffer.from(JSON.stringify(headerJson));
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(header.length);
+
+  fs.mkdirSync(path.dirname(indexPath), { recursive: true });
+  writeFileAtomic(indexPath, Buffer.concat([length, header, ...chunks]));
+}
+
+/** Load grep.idx, or null when it is missing, truncated or from another format. */
+export function readGrepIndex(indexPath: string): GrepIndex | null {
+  if (!fs.existsSync(indexPath)) return null;
+
+  const data = fs.readFileSync(indexPath);
+  if (data.length < 4) return null;
+  const headerLength = data.readUInt32LE(0);
+  if (data.length < 4 + headerLength) return null;
+  let header: GrepIndexHeader;
+  try {
+    header = JSON.parse(data.subarray(4, 4 + headerLength).toString('utf-8'));
+  } catch {
+    return null;
+  }
+  if (header.format !== FORMAT) return null;
+
+  const postingsStart = 4 + headerLength;
+  const lookup = (trigram: string): number[] => {
+    const entry = header.trigrams[trigram];
+    if (!entry) return [];
+    return decodePostings(data.subarray(postingsStart + entry[0], postingsStart + entry[0] + entry[1]));
+  };
+
+  return {
+    files: header.files,
+    candidates(literals) {
+      const wanted = new Set<string>();
+      for (const literal of literals) {
+        for (const trigram of trigramsOf(literal.toLowerCase())) wanted.add(trigram);
+      }
+      if (wanted.size === 0) return header.files.map((_, id) => id);
+
+      // Intersect shortest-first so the working set only shrinks.
+      const lists = [...wanted].map(lookup).sort((a, b) => a.length - b.length);
+      let result = lists[0];
+      for (const list of lists.slice(1)) {
+        if (result.length === 0) break;
+        const other = new Set(list);
+        result = result.filter(id => other.has(id));
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * Substrings a line must contain for `pattern` to match it, as far as can be
+ * told without a full regex parser: runs of plain characters outside
+ * groups and classes, minus any character made optional by `?`, `*` or
+ * `{0,n}`. A top-level `|` means nothing is required.
+ */
+export function requiredLiterals(pattern: string): string[] {
+  if (hasTopLevelAlternation(pattern)) return [];
+
+  const literals: string[] = [];
+  let run = '';
+  let lastWasLiteral = false;
+  const flush = () => {
+    if (run.length >= 3) literals.push(run);
+    run = '';
+    lastWasLiteral = false;
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+
+    if (c === '\\') {
+      const next = pattern[i + 1] ?? '';
+      if (/[A-Za-z0-9]/.test(next)) {
+        // Character class shorthands, anchors, backreferences and code-point escapes.
+        i = skipEscape(pattern, i);
+        flush();
+      } else {
+        run += next;
+        lastWasLiteral = true;
+        i++;
+      }
+    } else if (c === '[') {
+      i = skipClass(pattern, i);
+      flush();
+    } else if (c === '(') {
+      i = skipGroup(pattern, i);
+      flush();
+    } else if (c === '*' || c === '?') {
+      if (lastWasLiteral) run = run.slice(0, -1);
+      flush();
+    } else if (c === '+') {
+      flush();
+    } else if (c === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i))) {
+      const quantifier = /^\{(\d+)(,\d*)?\}/.exec(pattern.slice(i))!;
+      if (lastWasLiteral && quantifier[1] === '0') run = run.slice(0, -1);
+      flush();
+      i += quantifier[0].length - 1;
+    } else if (c === '.' || c === '^' || c === '$') {
+      flush();
+    } else {
+      run += c;
+      lastWasLiteral = true;
+    }
+  }
+  flush();
+
+  return literals;
+}
+
+function trigramsOf(text: string): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= text.length; i++) {
+    result.add(text.slice(i, i + 3));
+  }
+  return result;
+}
+
+function encodePostings(ids: number[]): Buffer {
+  const bytes: number[] = [];
+  let previous = 0;
+  for (const id of ids) {
+    let delta = id - previous;
+    previous = id;
+    while (delta >= 0x80) {
+      bytes.push((delta & 0x7f) | 0x80);
+      delta >>>= 7;
+    }
+    bytes.push(delta);
+  }
+  return Buffer.from(bytes);
+}
+
+function decodePostings(data: Buffer): number[] {
+  const ids: number[] = [];
+  let previous = 0;
+  let value = 0;
+  let shift = 0;
+  for (const byte of data) {
+    value |= (byte & 0x7f) << shift;
+    if (byte & 0x80) {
+      shift += 7;
+      continue;
+    }
+    previous += value;
+    ids.push(previous);
+    value = 0;
+    shift = 0;
+  }
+  return ids;
+}
+
+function hasTopLevelAlternation(pattern: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') i++;
+    else if (c === '[') i = skipClass(pattern, i);
+    else if (c === '(') depth++;
+    else if (c === ')') depth--;
+    else if (c === '|' && depth === 0) return true;
+  }
+  return false;
+}
+
+/** Index of the last character of the escape starting at `start`. */
+function skipEscape(pattern: string, start: number): number {
+  const kind = pattern[start + 1];
+  const rest = pattern.slice(start + 2);
+  if (kind === 'x') return start + 3;
+  if (kind === 'c') return start + 2;
+  if (kind === 'u') return start + 1 + (rest.startsWith('{') ? rest.indexOf('}') + 1 : 4);
+  if ((kind === 'p' || kind === 'P') && rest.startsWith('{')) return start + 2 + rest.indexOf('}');
+  if (kind === 'k' && rest.startsWith('<')) return start + 2 + rest.indexOf('>');
+  return start + 1;
+}
+
+/** Index of the `]` closing the class opened at `start`. */
+function skipClass(pattern: string, start: number): number {
+  for (let i = start + 1; i < pattern.length; i++) {
+    if (pattern[i] === '\\') i++;
+    else if (pattern[i] === ']') return i;
+  }
+  return pattern.length;
+}
+
+/** Index of the `)` closing the group opened at `start`. */
+function skipGroup(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') i++;
+    else if (c === '[') i = skipClass(pattern, i);
+    else if (c === '(') depth++;
+    else if (c === ')' && --depth === 0) return i;
+  }
+  return pattern.length;
+}
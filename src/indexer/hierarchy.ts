@@ -0,0 +1,159 @@
+import { ClassInfo, ClassKind, NestingKind } from '../utils/types.js';
+
+export type Namespace = 'minecraft' | 'fabric';
+
+export interface TypeNode {
+  kind: ClassKind;
+  abstract: boolean;
+  nesting: NestingKind;
+  super: string | null;
+  interfaces: string[];
+  namespace: Namespace;
+  sourcePath: string;
+}
+
+/**
+ * Inheritance graph over every indexed type, keyed by binary name. Built
+ * by buildIndex and persisted as the symbol database's inheritance table.
+ */
+export interface TypeHierarchy {
+  types: Record<string, TypeNode>;
+  /** Supertype -> direct subtypes, whether by `extends` or `implements`. */
+  subtypes: Record<string, string[]>;
+}
+
+/** Read access to an inheritance graph, in memory or backed by the symbol database. */
+export interface HierarchyGraph {
+  /** Null when the type isn't in the index (JDK and library types). */
+  node(name: string): TypeNode | null;
+  /** Direct subtypes, sorted by name. */
+  subtypes(name: string): string[];
+}
+
+export function hierarchyGraph(hierarchy: TypeHierarchy): HierarchyGraph {
+  return {
+    node: name => hierarchy.types[name] || null,
+    subtypes: name => hierarchy.subtypes[name] || [],
+  };
+}
+
+export interface HierarchyEntry {
+  className: string;
+  depth: number;
+  /** The type this one was reached from on the shortest path from the query root. */
+  via: string;
+  relation: 'extends' | 'implements';
+  /** Null when the type isn't in the index (JDK and library types). */
+  node: TypeNode | null;
+}
+
+export function buildHierarchy(
+  packages: Array<[Namespace, Map<string, Record<string, ClassInfo>>]>
+): TypeHierarchy {
+  const types: Record<string, TypeNode> = {};
+
+  for (const [namespace, pkgs] of packages) {
+    for (const [packageName, classes] of pkgs) {
+      for (const [simpleName, info] of Object.entries(classes)) {
+        const fullName = packageName === 'default' ? simpleName : `${packageName}.${simpleName}`;
+        const modifiers = info.modifiers ?? [];
+        types[fullName] = {
+          kind: info.kind,
+          abstract: info.kind === 'interface' || info.kind === 'annotation' || modifiers.includes('abstract'),
+          nesting: info.nesting ?? 'top-level',
+          super: info.super,
+          interfaces: info.interfaces ?? [],
+          namespace,
+          sourcePath: info.sourcePath,
+        };
+      }
+    }
+  }
+
+  // `new Runnable() { ... }` is recorded with Runnable as its superclass;
+  // now that every type is known, move interface supertypes where they belong.
+  for (const node of Object.values(types)) {
+    if (node.nesting !== 'anonymous' || !node.super) continue;
+    const superNode = types[node.super];
+    if (superNode && superNode.kind === 'interface') {
+      node.interfaces = [node.super];
+      node.super = 'java.lang.Object';
+    }
+  }
+
+  const subtypes: Record<string, string[]> = {};
+  for (const [name, node] of Object.entries(types)) {
+    for (const parent of [node.super, ...node.interfaces]) {
+      if (!parent) continue;
+      (subtypes[parent] ||= []).push(name);
+    }
+  }
+  for (const list of Object.values(subtypes)) list.sort();
+
+  return { types, subtypes };
+}
+
+/** Breadth-first walk of supertypes, each reported once at its shortest depth. */
+export function collectAncestors(
+  hierarchy: TypeHierarchy | HierarchyGraph,
+  className: string,
+  maxDepth = Infinity
+): HierarchyEntry[] {
+  const graph = asGraph(hierarchy);
+  return walk(graph, className, maxDepth, name => {
+    const node = graph.node(name);
+    if (!node) return [];
+    const edges: Array<[string, 'extends' | 'implements']> = [];
+    if (node.super) edges.push([node.super, 'extends']);
+    for (const iface of node.interfaces) {
+      edges.push([iface, node.kind === 'interface' ? 'extends' : 'implements']);
+    }
+    return edges;
+  });
+}
+
+/** Breadth-first walk of subtypes, each reported once at its shortest depth. */
+export function collectDescendants(
+  hierarchy: TypeHierarchy | HierarchyGraph,
+  className: string,
+  maxDepth = Infinity
+): HierarchyEntry[] {
+  const graph = asGraph(hierarchy);
+  return walk(graph, className, maxDepth, name => {
+    return graph.subtypes(name).map(child => {
+      const node = graph.node(child);
+      const relation = node && (node.super === name || node.kind === 'interface') ? 'extends' : 'implements';
+      return [child, relation] as [string, 'extends' | 'implements'];
+    });
+  });
+}
+
+function asGraph(hierarchy: TypeHierarchy | HierarchyGraph): HierarchyGraph {
+  return 'types' in hierarchy ? hierarchyGraph(hierarchy) : hierarchy;
+}
+
+function walk(
+  graph: HierarchyGraph,
+  root: string,
+  maxDepth: number,
+  next: (name: string) => Array<[string, 'extends' | 'implements']>
+): HierarchyEntry[] {
+  const seen = new Set<string>([root]);
+  const results: HierarchyEntry[] = [];
+  let frontier = [root];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const nextFrontier: string[] = [];
+    for (const name of frontier) {
+      for (const [target, relation] of next(name)) {
+        if (seen.has(target)) continue;
+        seen.add(target);
+        results.push({ className: target, depth, via: name, relation, node: graph.node(target) });
+        nextFrontier.push(target);
+      }
+    }
+    frontier = nextFrontier;
+  }
+
+  return results;
+}
@@ -2,10 +2,17 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
 import { PackageIndex, IndexManifest, ClassInfo } from '../utils/types.js';
-import { parseJavaFile, ParsedClass } from './parser.js';
+import { ParsedClass, PARSER_VERSION } from './parser.js';
+import { buildHierarchy, Namespace } from './hierarchy.js';
+import { writeSymbolDb, openSymbolDb, readPreviousBuild, IndexedFile } from './symbol-db.js';
+import { parseFiles, contentHash } from './parse-pool.js';
+import { writeGrepIndex } from './grep-index.js';
 import { 
+  getVersionedIndexDir,
   getVersionedIndexManifestPath,
-  getVersionedPackageIndexPath,
+  getVersionedSymbolDbPath,
+  getVersionedGrepIndexPath,
+  getMinecraftSourceDir,
   ensureVersionedIndexDirs
 } from '../utils/paths.js';
 
@@ -15,14 +22,27 @@ export interface BuildIndexOptions {
   minecraftVersion: string;
   fabricApiVersion?: string | null;
   progressCb?: (stage: string, progress: number, message: string) => void;
+  /** Parser threads; defaults to one less than the CPU count. */
+  workers?: number;
+  /** Reparse every file, even ones unchanged since the last build. */
+  full?: boolean;
 }
 
 export interface IndexBuildResult {
   minecraftPackages: string[];
   fabricPackages: string[];
   totalClasses: number;
+  /** Files parsed in this build. */
+  parsedFiles: number;
+  /** Files whose content hash matched the previous build, reused without parsing. */
+  reusedFiles: number;
 }
 
+/**
+ * Build (or rebuild) the symbol index for a version. A previous symbols.db
+ * written by the same parser over the same set of files is reused: only
+ * files whose content hash changed are parsed again.
+ */
 export async function buildIndex(options: BuildIndexOptions): Promise<IndexBuildResult> {
   const { minecraftSourceDir, fabricApiSourceDir, minecraftVersion, fabricApiVersion, progressCb } = options;
   
@@ -33,51 +53,89 @@ export async function buildIndex(options: BuildIndexOptions): Promise<IndexBuild
   const mcJavaFiles = await findJavaFiles(minecraftSourceDir);
   const fabricJavaFiles = fabricApiSourceDir ? await findJavaFiles(fabricApiSourceDir) : [];
   
-  const totalFiles = mcJavaFiles.length + fabricJavaFiles.length;
-  let processedFiles = 0;
+  // Every top-level type lives in a file named after it, so the file list is
+  // enough for the parser to confirm same-package and wildcard-import names.
+  const knownTypes = [
+    ...mcJavaFiles.map(f => typeNameFromPath(minecraftSourceDir, f)),
+    ...fabricJavaFiles.map(f => typeNameFromPath(fabricApiSourceDir!, f)),
+  ].sort();
+
+  // Name resolution depends on the whole type list, so a file's old parse
+  // is only valid if both the parser and the list are unchanged.
+  const dbPath = getVersionedSymbolDbPath(minecraftVersion);
+  const buildMeta = { parserVersion: String(PARSER_VERSION), typesHash: contentHash(knownTypes.join('\n')) };
+  let previous = options.full ? null : await readPreviousBuild(dbPath);
+  if (previous && (previous.meta.parserVersion !== buildMeta.parserVersion || previous.meta.typesHash !== buildMeta.typesHash)) {
+    previous.close();
+    previous = null;
+  }
+
+  const sources: Array<{ file: string; namespace: Namespace }> = [
+    ...mcJavaFiles.map(file => ({ file, namespace: 'minecraft' as const })),
+    ...fabricJavaFiles.map(file => ({ file, namespace: 'fabric' as const })),
+  ];
+  const totalFiles = sources.length;
   
+  if (progressCb) progressCb('index', 5, `Processing ${totalFiles} files${previous ? ' (reusing unchanged ones)' : ''}...`);
+
+  let lastReported = 0;
+  const outcomes = await parseFiles(
+    sources.map(({ file }) => ({ file, previousHash: previous?.hashes.get(sourcePathOf(file)) })),
+    knownTypes,
+    options.workers,
+    done => {
+      if (!progressCb || done - lastReported < 500) return;
+      lastReported = done;
+      progressCb('index', Math.round(5 + (done / totalFiles) * 80), `Processed ${done}/${totalFiles} files...`);
+    }
+  );
+
   const minecraftPackages = new Map<string, Record<string, ClassInfo>>();
   const fabricPackages = new Map<string, Record<string, ClassInfo>>();
-  
-  if (progressCb) progressCb('index', 5, `Processing ${mcJavaFiles.length} Minecraft files...`);
-  
-  for (const file of mcJavaFiles) {
-    const parsed = parseJavaFile(file);
-    if (parsed) {
-      addToPackageIndex(minecraftPackages, parsed);
-    }
-    processedFiles++;
-    if (progressCb && processedFiles % 500 === 0) {
-      const progress = Math.round(5 + (processedFiles / totalFiles) * 85);
-      progressCb('index', progress, `Processed ${processedFiles}/${totalFiles} files...`);
+  const indexedFiles: IndexedFile[] = [];
+  let reusedFiles = 0;
+
+  outcomes.forEach((outcome, i) => {
+    const { namespace } = sources[i];
+    const packages = namespace === 'minecraft' ? minecraftPackages : fabricPackages;
+    const sourcePath = sourcePathOf(outcome.file);
+
+    if (outcome.unchanged && previous) {
+      for (const { packageName, simpleName, info } of previous.classesIn(sourcePath)) {
+        if (!packages.has(packageName)) packages.set(packageName, {});
+        packages.get(packageName)![simpleName] = info;
+      }
+      reusedFiles++;
+    } else if (!outcome.unchanged) {
+      for (const parsed of outcome.classes) addToPackageIndex(packages, parsed);
     }
-  }
+    indexedFiles.push({ path: sourcePath, namespace, hash: outcome.hash });
+  });
+
+  // Files that were deleted leave the old index too.
+  const filesChanged = reusedFiles < totalFiles || previous?.hashes.size !== totalFiles;
+  previous?.close();
   
-  if (fabricJavaFiles.length > 0) {
-    if (progressCb) progressCb('index', 50, `Processing ${fabricJavaFiles.length} Fabric API files...`);
-  }
+  if (progressCb) progressCb('index', 85, 'Writing symbol database...');
 
-  for (const file of fabricJavaFiles) {
-    const parsed = parseJavaFile(file);
-    if (parsed) {
-      addToPackageIndex(fabricPackages, parsed);
-    }
-    processedFiles++;
-    if (progressCb && processedFiles % 500 === 0) {
-      const progress = Math.round(5 + (processedFiles / totalFiles) * 85);
-      progressCb('index', progress, `Processed ${processedFiles}/${totalFiles} files...`);
-    }
+  const namespaces: Array<[Namespace, Map<string, Record<string, ClassInfo>>]> = [
+    ['minecraft', minecraftPackages],
+    ['fabric', fabricPackages],
+  ];
+  await writeSymbolDb(dbPath, namespaces, buildHierarchy(namespaces), indexedFiles, buildMeta);
+  removeLegacyIndexFiles(minecraftVersion);
+
+  const grepIndexPath = getVersionedGrepIndexPath(minecraftVersion);
+  if (filesChanged || !fs.existsSync(grepIndexPath)) {
+    if (progressCb) progressCb('index', 95, 'Building text search index...');
+    await writeGrepIndex(grepIndexPath, minecraftSourceDir, mcJavaFiles);
   }
   
-  if (progressCb) progressCb('index', 90, 'Writing package indices...');
-  
-  await writePackageIndices('minecraft', minecraftPackages, minecraftVersion);
-  await writePackageIndices('fabric', fabricPackages, minecraftVersion);
-  
   const manifest: IndexManifest = {
     minecraftVersion,
     fabricApiVersion: fabricApiVersion || null,
     generated: new Date().toISOString(),
+    parserVersion: PARSER_VERSION,
     packages: {
       minecraft: Array.from(minecraftPackages.keys()).sort(),
       fabric: Array.from(fabricPackages.keys()).sort(),
@@ -95,15 +153,55 @@ export async function buildIndex(options: BuildIndexOptions): Promise<IndexBuild
     totalClasses += Object.keys(pkg).length;
   }
   
-  if (progressCb) progressCb('index', 100, `Indexed ${totalClasses} classes in ${minecraftPackages.size + fabricPackages.size} packages.`);
+  const parsedFiles = totalFiles - reusedFiles;
+  if (progressCb) {
+    progressCb('index', 100, `Indexed ${totalClasses} classes in ${minecraftPackages.size + fabricPackages.size} packages `
+      + `(${parsedFiles} files parsed, ${reusedFiles} unchanged).`);
+  }
   
   return {
     minecraftPackages: Array.from(minecraftPackages.keys()),
     fabricPackages: Array.from(fabricPackages.keys()),
     totalClasses,
+    parsedFiles,
+    reusedFiles,
   };
 }
 
+/** True when the version's index was written by an older parser (or before parsers were versioned). */
+export function isIndexStale(version: string): boolean {
+  const manifest = loadIndexManifest(version);
+  return manifest !== null && manifest.parserVersion !== PARSER_VERSION;
+}
+
+const upgrades = new Map<string, Promise<void>>();
+
+/**
+ * Rebuild a stale index from the version's cached sources; a no-op for an
+ * up-to-date one, or when the sources are gone and the old index is all
+ * there is. Concurrent callers share a single rebuild.
+ */
+export function upgradeStaleIndex(
+  version: string,
+  progressCb?: BuildIndexOptions['progressCb']
+): Promise<void> {
+  if (!isIndexStale(version) || !fs.existsSync(getMinecraftSourceDir(version))) return Promise.resolve();
+
+  let upgrade = upgrades.get(version);
+  if (!upgrade) {
+    const manifest = loadIndexManifest(version);
+    upgrade = buildIndex({
+      minecraftSourceDir: getMinecraftSourceDir(version),
+      fabricApiSourceDir: null,
+      minecraftVersion: version,
+      fabricApiVersion: manifest?.fabricApiVersion ?? null,
+      progressCb,
+    }).then(() => undefined).finally(() => upgrades.delete(version));
+    upgrades.set(version, upgrade);
+  }
+  return upgrade;
+}
+
 async function findJavaFiles(dir: string): Promise<string[]> {
   if (!fs.existsSync(dir)) return [];
   
@@ -114,6 +212,15 @@ async function findJavaFiles(dir: string): Promise<string[]> {
   });
 }
 
+function typeNameFromPath(rootDir: string, file: string): string {
+  return path.relative(rootDir, file).replace(/\.java$/, '').split(path.sep).join('.');
+}
+
+/** The form the parser records in ClassInfo.sourcePath. */
+function sourcePathOf(file: string): string {
+  return file.replace(/\\/g, '/');
+}
+
 function addToPackageIndex(
   packages: Map<string, Record<string, ClassInfo>>,
   parsed: ParsedClass
@@ -131,25 +238,19 @@ function addToPackageIndex(
     ...parsed.info,
     sourcePath: parsed.info.sourcePath,
   };
+
+  // Nested types are stored under their binary name ("Outer$Inner") in the
+  // same package as the outer class.
+  for (const nested of parsed.nested) {
+    addToPackageIndex(packages, nested);
+  }
 }
 
-async function writePackageIndices(
-  namespace: 'minecraft' | 'fabric',
-  packages: Map<string, Record<string, ClassInfo>>,
-  version: string
-): Promise<void> {
-  for (const [packageName, classes] of packages) {
-    const packageIndex: PackageIndex = {
-      package: packageName,
-      classes,
-    };
-    
-    const indexPath = getVersionedPackageIndexPath(namespace, packageName, version);
-    const dir = path.dirname(indexPath);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    fs.writeFileSync(indexPath, JSON.stringify(packageIndex, null, 2));
+/** Per-package JSON files and hierarchy.json, superseded by symbols.db. */
+function removeLegacyIndexFiles(version: string): void {
+  const indexDir = getVersionedIndexDir(version);
+  for (const entry of ['minecraft', 'fabric', 'hierarchy.json']) {
+    fs.rmSync(path.join(indexDir, entry), { recursive: true, force: true });
   }
 }
 
@@ -164,19 +265,28 @@ export function loadIndexManifest(version?: string): IndexManifest | null {
   }
 }
 
-export function loadPackageIndex(
+export async function loadPackageIndex(
   namespace: 'minecraft' | 'fabric',
   packageName: string,
   version?: string
-): PackageIndex | null {
+): Promise<PackageIndex | null> {
   if (!version) return null;
-  
-  const indexPath = getVersionedPackageIndexPath(namespace, packageName, version);
-  if (!fs.existsSync(indexPath)) return null;
-  
+
+  const db = await openSymbolDb(getVersionedSymbolDbPath(version));
+  if (!db) return null;
+
   try {
-    return JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
-  } catch {
-    return null;
+    const stmt = db.prepare('SELECT simple_name, info FROM types WHERE namespace = ? AND package = ?');
+    stmt.bind([namespace, packageName]);
+    const classes: Record<string, ClassInfo> = {};
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      classes[row.simple_name as string] = JSON.parse(row.info as string);
+    }
+    stmt.free();
+
+    return Object.keys(classes).length ? { package: packageName, classes } : null;
+  } finally {
+    db.close();
   }
 }
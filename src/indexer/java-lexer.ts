@@ -0,0 +1,179 @@
+// Java tokenizer for the declaration parser (java-syntax.ts).
+//
+// Comments and whitespace are dropped; string, text block and char literals
+// come out as single tokens, so nothing inside them can be mistaken for
+// code. `>` is always a token of its own, which lets the parser close
+// nested type arguments ("List<List<T>>") without splitting shift
+// operators; expressions are only ever skipped, never evaluated, so
+// nothing is lost.
+
+export type TokenKind = 'identifier' | 'number' | 'string' | 'char' | 'operator';
+
+export interface Token {
+  kind: TokenKind;
+  /** Source text; keywords are identifiers told apart by text. */
+  text: string;
+  start: number;
+  end: number;
+  /** 1-based line of the first character. */
+  line: number;
+}
+
+export interface TokenStream {
+  tokens: Token[];
+  /** Index of the matching bracket for every `(`, `)`, `[`, `]`, `{`, `}` token; -1 when unbalanced. */
+  pairs: Int32Array;
+}
+
+const MULTI_CHAR_OPERATORS = ['...', '->', '::'];
+
+export function tokenize(content: string): TokenStream {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const countLines = (from: number, to: number) => {
+    for (let j = from; j < to; j++) {
+      if (content.charCodeAt(j) === 10) line++;
+    }
+  };
+
+  while (i < content.length) {
+    const code = content.charCodeAt(i);
+
+    if (code === 10) {
+      line++;
+      i++;
+      continue;
+    }
+    if (code === 32 || code === 9 || code === 13 || code === 12) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const startLine = line;
+    const ch = content[i];
+    const next = content[i + 1];
+
+    if (ch === '/' && next === '/') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 2;
+      countLines(start, i);
+      continue;
+    }
+
+    let kind: TokenKind;
+    if (ch === '"' && content.startsWith('"""', i)) {
+      i += 3;
+      while (i < content.length && !content.startsWith('"""', i)) {
+        i += content[i] === '\\' ? 2 : 1;
+      }
+      i = Math.min(content.length, i + 3);
+      countLines(start, i);
+      kind = 'string';
+    } else if (ch === '"' || ch === '\'') {
+      i++;
+      while (i < content.length && content[i] !== ch && content[i] !== '\n') {
+        i += content[i] === '\\' ? 2 : 1;
+      }
+      if (content[i] === ch) i++;
+      kind = ch === '"' ? 'string' : 'char';
+    } else if (isIdentifierStart(code)) {
+      i++;
+      while (i < content.length && isIdentifierPart(content.charCodeAt(i))) i++;
+      kind = 'identifier';
+    } else if (isDigit(code) || (ch === '.' && isDigit(content.charCodeAt(i + 1)))) {
+      i = skipNumber(content, i);
+      kind = 'number';
+    } else {
+      const op = MULTI_CHAR_OPERATORS.find(o => content.startsWith(o, i));
+      i += op ? op.length : 1;
+      kind = 'operator';
+    }
+
+    tokens.push({ kind, text: content.slice(start, i), start, end: i, line: startLine });
+  }
+
+  return { tokens, pairs: matchBrackets(tokens) };
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set([')', ']', '}']);
+
+function matchBrackets(tokens: Token[]): Int32Array {
+  const pairs = new Int32Array(tokens.length).fill(-1);
+  const open: number[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind !== 'operator') continue;
+    if (OPENERS[token.text]) {
+      open.push(i);
+    } else if (CLOSERS.has(token.text)) {
+      // Pop past mismatched openers so one stray bracket can't unbalance the rest of the file.
+      let depth = open.length - 1;
+      while (depth >= 0 && OPENERS[tokens[open[depth]].text] !== token.text) depth--;
+      if (depth < 0) continue;
+      const opener = open[depth];
+      open.length = depth;
+      pairs[opener] = i;
+      pairs[i] = opener;
+    }
+  }
+
+  return pairs;
+}
+
+function skipNumber(content: string, start: number): number {
+  let i = start;
+  const skip = (pattern: RegExp) => {
+    while (i < content.length && pattern.test(content[i])) i++;
+  };
+
+  if (content[i] === '0' && (content[i + 1] === 'x' || content[i + 1] === 'X')) {
+    i += 2;
+    skip(/[0-9a-fA-F_.]/);
+    if (content[i] === 'p' || content[i] === 'P') {
+      i++;
+      if (content[i] === '+' || content[i] === '-') i++;
+      skip(/[0-9_]/);
+    }
+  } else if (content[i] === '0' && (content[i + 1] === 'b' || content[i + 1] === 'B')) {
+    i += 2;
+    skip(/[01_]/);
+  } else {
+    skip(/[0-9_]/);
+    if (content[i] === '.' && content[i + 1] !== '.') {
+      i++;
+      skip(/[0-9_]/);
+    }
+    if (content[i] === 'e' || content[i] === 'E') {
+      i++;
+      if (content[i] === '+' || content[i] === '-') i++;
+      skip(/[0-9_]/);
+    }
+  }
+  // Type suffix: L, F or D, either case.
+  if (/[lLfFdD]/.test(content[i] ?? '')) i++;
+  return i;
+}
+
+function isDigit(code: number): boolean {
+  return code >= 48 && code <= 57;
+}
+
+function isIdentifierStart(code: number): boolean {
+  return (code >= 97 && code <= 122) || (code >= 65 && code <= 90) || code === 95 || code === 36 ||
+    (code > 127 && /\p{L}/u.test(String.fromCharCode(code)));
+}
+
+function isIdentifierPart(code: number): boolean {
+  return isIdentifierStart(code) || isDigit(code) ||
+    (code > 127 && /[\p{N}\p{Mn}\p{Mc}]/u.test(String.fromCharCode(code)));
+}
@@ -0,0 +1,743 @@
+// Recursive-descent parser for the declaration level of Java source.
+//
+// Produces the package, imports and a tree of type declarations with their
+// fields, methods, constructors, enum constants and record components, each
+// with its modifiers and 1-based line range. Method bodies, initializers and
+// annotation arguments are not parsed into statements: they are skipped as
+// balanced token runs, picking out only the local and anonymous classes
+// declared inside them. A member that fails to parse is skipped up to its
+// `;` or body, so one odd declaration doesn't lose the rest of the file.
+
+import { ClassKind, NestingKind } from '../utils/types.js';
+import { Token, tokenize } from './java-lexer.js';
+
+export interface CompilationUnit {
+  packageName: string;
+  imports: ImportNode[];
+  types: TypeNode[];
+}
+
+export interface ImportNode {
+  /** Dotted name as written, without a trailing ".*". */
+  name: string;
+  static: boolean;
+  onDemand: boolean;
+}
+
+export interface AnnotationNode {
+  /** Annotation type as written, e.g. "Nullable" or "net.fabricmc.api.Environment". */
+  name: string;
+  /** Arguments as written, whitespace collapsed, without the parentheses. */
+  args?: string;
+}
+
+/** The modifiers and annotations in front of a declaration. */
+export interface ModifierList {
+  modifiers: string[];
+  annotations: AnnotationNode[];
+}
+
+export interface TypeParameterNode {
+  name: string;
+  /** Bounds as written, e.g. ["Comparable<T>", "Serializable"]. */
+  bounds: string[];
+}
+
+export interface ParamNode {
+  name: string;
+  /** Type as written, annotations dropped; varargs end in "...". */
+  typeText: string;
+  annotations: AnnotationNode[];
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface FieldNode extends ModifierList {
+  name: string;
+  typeText: string;
+  /** Range of the whole declaration, shared by every variable it declares. */
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface MethodNode extends ModifierList {
+  name: string;
+  typeParameters: TypeParameterNode[];
+  returnTypeText: string;
+  params: ParamNode[];
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface ConstructorNode extends ModifierList {
+  typeParameters: TypeParameterNode[];
+  params: ParamNode[];
+  /** Compact canonical record constructor (no parameter list). */
+  compact: boolean;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface EnumConstantNode {
+  name: string;
+  annotations: AnnotationNode[];
+  /** Constructor arguments as written, whitespace collapsed, without the parentheses. */
+  args?: string;
+  /** The anonymous class of a constant with a body; also listed in the enum's `types`. */
+  body: TypeNode | null;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface TypeNode extends ModifierList {
+  /** Simple name; empty for anonymous classes. */
+  name: string;
+  kind: ClassKind;
+  nesting: NestingKind;
+  typeParameters: TypeParameterNode[];
+  /** Supertypes as written, e.g. "ArrayList<String>". An anonymous class's supertype is its superClass. */
+  superClass: string | null;
+  interfaces: string[];
+  recordComponents: ParamNode[];
+  fields: FieldNode[];
+  methods: MethodNode[];
+  constructors: ConstructorNode[];
+  enumConstants: EnumConstantNode[];
+  /** Types declared inside this one (member, local and anonymous), in source order. */
+  types: TypeNode[];
+  /** From the first annotation or modifier to the closing brace. */
+  lineStart: number;
+  lineEnd: number;
+}
+
+export function parseCompilationUnit(content: string): CompilationUnit {
+  return new JavaParser(content).compilationUnit();
+}
+
+// Listed in the order they are reported in, whatever the order in source.
+const MODIFIERS = [
+  'public', 'protected', 'private', 'static', 'final', 'abstract', 'synchronized', 'volatile',
+  'transient', 'native', 'default', 'strictfp', 'sealed', 'non-sealed',
+];
+
+const PRIMITIVES = new Set(['void', 'boolean', 'byte', 'char', 'short', 'int', 'long', 'float', 'double']);
+
+const RESERVED = new Set([
+  'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+  'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if',
+  'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private',
+  'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this',
+  'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while', 'true', 'false', 'null',
+]);
+
+class ParseError extends Error {}
+
+class JavaParser {
+  private readonly content: string;
+  private readonly tokens: Token[];
+  private readonly pairs: Int32Array;
+  private pos = 0;
+
+  constructor(content: string) {
+    const stream = tokenize(content);
+    this.content = content;
+    this.tokens = stream.tokens;
+    this.pairs = stream.pairs;
+  }
+
+  compilationUnit(): CompilationUnit {
+    let packageName = '';
+    const imports: ImportNode[] = [];
+    const types: TypeNode[] = [];
+
+    while (this.pos < this.tokens.length) {
+      const start = this.pos;
+      try {
+        if (this.accept(';')) continue;
+        if (this.accept('package')) {
+          packageName = this.qualifiedName();
+          this.expect(';');
+          continue;
+        }
+        if (this.accept('import')) {
+          imports.push(this.importDeclaration());
+          continue;
+        }
+
+        const modifiers = this.modifiers();
+        // An annotated package declaration (package-info.java) is picked up next time round.
+        if (this.at('package')) continue;
+        const type = this.typeDeclaration(modifiers, start, 'top-level');
+        if (type) types.push(type);
+        else this.recover(start);
+      } catch (err) {
+        if (!(err instanceof ParseError)) throw err;
+        this.recover(start);
+      }
+    }
+
+    return { packageName, imports, types };
+  }
+
+  // --- Declarations --------------------------------------------------------
+
+  private importDeclaration(): ImportNode {
+    const isStatic = this.accept('static');
+    const parts = [this.identifier()];
+    let onDemand = false;
+    while (this.accept('.')) {
+      if (this.accept('*')) {
+        onDemand = true;
+        break;
+      }
+      parts.push(this.identifier());
+    }
+    this.expect(';');
+    return { name: parts.join('.'), static: isStatic, onDemand };
+  }
+
+  /**
+   * A class, interface, enum, record or annotation type whose modifiers
+   * (starting at token `start`) have already been read; null when the
+   * current token doesn't start one.
+   */
+  private typeDeclaration(modifiers: ModifierList, start: number, nesting: NestingKind): TypeNode | null {
+    let kind: ClassKind;
+    if (this.at('class') || this.at('interface') || this.at('enum')) {
+      kind = this.peek()!.text as ClassKind;
+    } else if (this.at('@') && this.at('interface', 1)) {
+      this.pos++;
+      kind = 'annotation';
+    } else if (this.at('record') && this.isIdentifier(1)) {
+      kind = 'record';
+    } else {
+      return null;
+    }
+    this.pos++;
+
+    const node = typeNode(this.identifier(), kind, nesting, modifiers, this.tokens[start].line);
+    if (this.at('<')) node.typeParameters = this.typeParameters();
+    if (kind === 'record') node.recordComponents = this.parameters();
+
+    while (!this.at('{')) {
+      if (this.accept('extends')) {
+        if (kind === 'interface') node.interfaces = this.typeList();
+        else node.superClass = this.type();
+      } else if (this.accept('implements')) {
+        node.interfaces = this.typeList();
+      } else if (this.accept('permits')) {
+        this.typeList();
+      } else {
+        throw this.error('type body');
+      }
+    }
+
+    this.classBody(node);
+    return node;
+  }
+
+  private classBody(node: TypeNode): void {
+    this.expect('{');
+
+    if (node.kind === 'enum') {
+      const start = this.pos;
+      try {
+        this.enumConstants(node);
+      } catch (err) {
+        if (!(err instanceof ParseError)) throw err;
+        this.recover(start);
+      }
+    }
+
+    while (this.pos < this.tokens.length && !this.at('}')) {
+      const start = this.pos;
+      try {
+        this.member(node);
+      } catch (err) {
+        if (!(err instanceof ParseError)) throw err;
+        this.recover(start);
+      }
+    }
+
+    node.lineEnd = (this.peek() ?? this.tokens[this.tokens.length - 1]).line;
+    this.pos++;
+  }
+
+  private enumConstants(node: TypeNode): void {
+    while (!this.at(';') && !this.at('}')) {
+      const { annotations } = this.modifiers();
+      const nameToken = this.peek()!;
+      const name = this.identifier();
+
+      let args: string | undefined;
+      if (this.at('(')) {
+        const open = this.next();
+        this.scanCode(node, [')']);
+        const close = this.expect(')');
+        args = this.content.slice(open.end, close.start).replace(/\s+/g, ' ').trim();
+      }
+
+      // A constant with a body compiles to an anonymous subclass of the enum.
+      let body: TypeNode | null = null;
+      if (this.at('{')) {
+        body = typeNode('', 'class', 'anonymous', NO_MODIFIERS, this.peek()!.line);
+        body.superClass = node.name;
+        node.types.push(body);
+        this.classBody(body);
+      }
+
+      node.enumConstants.push({
+        name,
+        annotations,
+        ...(args !== undefined ? { args } : {}),
+        body,
+        lineStart: nameToken.line,
+        lineEnd: this.peek(-1)!.line,
+      });
+      if (!this.accept(',')) break;
+    }
+    this.accept(';');
+  }
+
+  private member(owner: TypeNode): void {
+    if (this.accept(';')) return;
+
+    const start = this.pos;
+    const lineStart = this.tokens[start].line;
+
+    // Instance or static initializer.
+    if (this.at('{') || (this.at('static') && this.at('{', 1))) {
+      this.accept('static');
+      this.block(owner);
+      return;
+    }
+
+    const modifiers = this.modifiers();
+    const nested = this.typeDeclaration(modifiers, start, 'member');
+    if (nested) {
+      owner.types.push(nested);
+      return;
+    }
+
+    const typeParameters = this.at('<') ? this.typeParameters() : [];
+
+    if (owner.name && this.at(owner.name) && (this.at('(', 1) || (owner.kind === 'record' && this.at('{', 1)))) {
+      this.pos++;
+      const compact = !this.at('(');
+      const params = compact ? [] : this.parameters();
+      if (this.accept('throws')) this.typeList();
+      owner.constructors.push({ typeParameters, params, ...modifiers, compact, lineStart, lineEnd: this.body(owner) });
+      return;
+    }
+
+    let typeText = this.type();
+    const name = this.identifier();
+
+    if (this.at('(')) {
+      const params = this.parameters();
+      // Old-style array return type: "int foo()[]".
+      typeText += this.dimensions();
+      if (this.accept('throws')) this.typeList();
+      // Annotation type element default value.
+      if (this.accept('default')) this.scanCode(owner, [';']);
+      owner.methods.push({
+        name,
+        typeParameters,
+        returnTypeText: typeText,
+        params,
+        ...modifiers,
+        lineStart,
+        lineEnd: this.body(owner),
+      });
+      return;
+    }
+
+    // "int a = 1, b[];" declares two fields; "b" is an int[].
+    const declarators = [{ name, dims: this.dimensions() }];
+    for (;;) {
+      if (this.accept('=')) this.scanCode(owner, [',', ';']);
+      if (!this.accept(',')) break;
+      declarators.push({ name: this.identifier(), dims: this.dimensions() });
+    }
+    const lineEnd = this.expect(';').line;
+
+    for (const declarator of declarators) {
+      owner.fields.push({ name: declarator.name, typeText: typeText + declarator.dims, ...modifiers, lineStart, lineEnd });
+    }
+  }
+
+  /** A method or constructor body, or the `;` standing in for one. Returns the line it ends on. */
+  private body(owner: TypeNode): number {
+    return this.at('{') ? this.block(owner) : this.expect(';').line;
+  }
+
+  /** Skip a `{ ... }` block, collecting the types declared in it. Returns the line of the `}`. */
+  private block(owner: TypeNode): number {
+    this.expect('{');
+    this.scanCode(owner, ['}']);
+    return this.expect('}').line;
+  }
+
+  /** Parameter or record component list, parentheses included. */
+  private parameters(): ParamNode[] {
+    this.expect('(');
+    const params: ParamNode[] = [];
+
+    while (!this.at(')')) {
+      const lineStart = this.peek()!.line;
+      const { annotations } = this.modifiers();
+      let typeText = this.type();
+      if (this.accept('...')) typeText += '...';
+
+      // Receiver parameter ("Outer this", "Outer Outer.this"): not a real parameter.
+      if (this.accept('this')) {
+        if (!this.accept(',')) break;
+        continue;
+      }
+      if (this.isIdentifier() && this.at('.', 1) && this.at('this', 2)) {
+        this.pos += 3;
+        if (!this.accept(',')) break;
+        continue;
+      }
+
+      const name = this.identifier();
+      typeText += this.dimensions();
+      params.push({ name, typeText, annotations, lineStart, lineEnd: this.peek(-1)!.line });
+      if (!this.accept(',')) break;
+    }
+
+    this.expect(')');
+    return params;
+  }
+
+  // --- Modifiers and annotations -------------------------------------------
+
+  private modifiers(): ModifierList {
+    const found = new Set<string>();
+    const annotations: AnnotationNode[] = [];
+    for (;;) {
+      if (this.at('@') && !this.at('interface', 1)) {
+        annotations.push(this.annotation());
+      } else if (this.at('non') && this.at('-', 1) && this.at('sealed', 2)) {
+        found.add('non-sealed');
+        this.pos += 3;
+      } else if (this.at('sealed') && this.peek(1)?.kind === 'identifier') {
+        found.add('sealed');
+        this.pos++;
+      } else if (this.peek()?.kind === 'identifier' && MODIFIERS.includes(this.peek()!.text) && this.peek()!.text !== 'sealed') {
+        found.add(this.next().text);
+      } else {
+        break;
+      }
+    }
+    return { modifiers: MODIFIERS.filter(m => found.has(m)), annotations };
+  }
+
+  private annotation(): AnnotationNode {
+    this.expect('@');
+    const name = this.qualifiedName();
+    if (!this.at('(')) return { name };
+
+    const open = this.peek()!;
+    this.skipBracketed();
+    const close = this.peek(-1)!;
+    return { name, args: this.content.slice(open.end, close.start).replace(/\s+/g, ' ').trim() };
+  }
+
+  private skipAnnotations(): void {
+    while (this.at('@') && !this.at('interface', 1)) this.annotation();
+  }
+
+  /**
+   * Token index of the modifiers and annotations that end just before
+   * `index`, for a local type whose keyword has already been reached.
+   */
+  private modifiersBefore(index: number): number {
+    let i = index;
+    for (;;) {
+      const prev = this.tokens[i - 1];
+      if (!prev) return i;
+      if (prev.kind === 'identifier' && (prev.text === 'final' || prev.text === 'abstract' || prev.text === 'static' || prev.text === 'strictfp')) {
+        i--;
+        continue;
+      }
+
+      // "@Name", "@a.b.Name" or either with an argument list.
+      let j = i - 1;
+      if (prev.text === ')') {
+        if (this.pairs[j] < 1) return i;
+        j = this.pairs[j] - 1;
+      }
+      while (j >= 2 && this.tokens[j].kind === 'identifier' && this.tokens[j - 1].text === '.') j -= 2;
+      if (j >= 1 && this.tokens[j].kind === 'identifier' && this.tokens[j - 1].text === '@') {
+        i = j - 1;
+        continue;
+      }
+      return i;
+    }
+  }
+
+  // --- Types ---------------------------------------------------------------
+
+  /** A type as written, without annotations: "Map<String, List<BlockPos>>", "int[]". */
+  private type(): string {
+    this.skipAnnotations();
+    const token = this.peek();
+    if (!token || token.kind !== 'identifier' || (RESERVED.has(token.text) && !PRIMITIVES.has(token.text))) {
+      throw this.error('type');
+    }
+    this.pos++;
+
+    let text = token.text;
+    if (this.at('<')) text += this.typeArguments();
+    while (this.at('.') && (this.isIdentifier(1) || this.at('@', 1))) {
+      this.pos++;
+      this.skipAnnotations();
+      text += '.' + this.identifier();
+      if (this.at('<')) text += this.typeArguments();
+    }
+    return text + this.dimensions();
+  }
+
+  private typeArguments(): string {
+    this.expect('<');
+    const args: string[] = [];
+    while (!this.at('>')) {
+      this.skipAnnotations();
+      if (this.accept('?')) {
+        if (this.accept('extends')) args.push(`? extends ${this.type()}`);
+        else if (this.accept('super')) args.push(`? super ${this.type()}`);
+        else args.push('?');
+      } else {
+        args.push(this.type());
+      }
+      if (!this.accept(',')) break;
+    }
+    this.expect('>');
+    return `<${args.join(', ')}>`;
+  }
+
+  private typeParameters(): TypeParameterNode[] {
+    this.expect('<');
+    const params: TypeParameterNode[] = [];
+    do {
+      this.skipAnnotations();
+      const name = this.identifier();
+      const bounds: string[] = [];
+      if (this.accept('extends')) {
+        do {
+          bounds.push(this.type());
+        } while (this.accept('&'));
+      }
+      params.push({ name, bounds });
+    } while (this.accept(','));
+    this.expect('>');
+    return params;
+  }
+
+  private typeList(): string[] {
+    const types = [this.type()];
+    while (this.accept(',')) types.push(this.type());
+    return types;
+  }
+
+  /** Empty "[]" pairs, possibly annotated, as text. */
+  private dimensions(): string {
+    let dims = '';
+    for (;;) {
+      const save = this.pos;
+      this.skipAnnotations();
+      if (this.at('[') && this.at(']', 1)) {
+        this.pos += 2;
+        dims += '[]';
+      } else {
+        this.pos = save;
+        return dims;
+      }
+    }
+  }
+
+  // --- Code ----------------------------------------------------------------
+
+  /**
+   * Skip statements or an expression up to the first of `stops` outside any
+   * brackets (or an unmatched closing bracket), collecting the local and
+   * anonymous classes declared along the way into `owner`.
+   */
+  private scanCode(owner: TypeNode, stops: string[]): void {
+    let depth = 0;
+    while (this.pos < this.tokens.length) {
+      const token = this.tokens[this.pos];
+      const text = token.text;
+
+      if (token.kind === 'operator') {
+        if (depth === 0 && stops.includes(text)) return;
+        // Explicit type arguments ("ImmutableMap.<K, V>builder()"), whose commas aren't separators.
+        if (text === '<' && this.at('.', -1)) {
+          this.typeArguments();
+          continue;
+        }
+        if (text === '(' || text === '[' || text === '{') {
+          depth++;
+        } else if (text === ')' || text === ']' || text === '}') {
+          if (depth === 0) return;
+          depth--;
+        }
+      } else if (token.kind === 'identifier') {
+        if (text === 'new' && !this.at('::', -1)) {
+          this.pos++;
+          this.instanceCreation(owner, token);
+          continue;
+        }
+        if (this.atLocalType()) {
+          const start = this.modifiersBefore(this.pos);
+          this.pos = start;
+          owner.types.push(this.typeDeclaration(this.modifiers(), start, 'local')!);
+          continue;
+        }
+      }
+
+      this.pos++;
+    }
+  }
+
+  /** After `new`: an anonymous class body is parsed as a type, anything else is left to scanCode. */
+  private instanceCreation(owner: TypeNode, newToken: Token): void {
+    if (this.at('<')) this.typeArguments();
+    this.skipAnnotations();
+    if (!this.isIdentifier() && !PRIMITIVES.has(this.peek()?.text ?? '')) return;
+
+    const typeText = this.type();
+    // Array creation: "new int[4]", "new String[] { ... }".
+    if (typeText.endsWith(']') || !this.at('(')) return;
+
+    this.pos++;
+    this.scanCode(owner, [')']);
+    this.expect(')');
+
+    if (this.at('{')) {
+      const anonymous = typeNode('', 'class', 'anonymous', NO_MODIFIERS, newToken.line);
+      anonymous.superClass = typeText;
+      owner.types.push(anonymous);
+      this.classBody(anonymous);
+    }
+  }
+
+  /** At the keyword of a local class, interface, enum or record declaration? */
+  private atLocalType(): boolean {
+    const prev = this.peek(-1)?.text;
+    // "Foo.class" is a class literal.
+    if (prev === '.' || prev === '::') return false;
+
+    const text = this.peek()!.text;
+    if (text === 'class' || text === 'interface' || text === 'enum') return this.isIdentifier(1);
+    if (text === 'record') return this.isIdentifier(1) && (this.at('(', 2) || this.at('<', 2));
+    return false;
+  }
+
+  // --- Token helpers -------------------------------------------------------
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  /** Is the token at `offset` this keyword, identifier or operator? Literals never match. */
+  private at(text: string, offset = 0): boolean {
+    return this.tokens[this.pos + offset]?.text === text;
+  }
+
+  private isIdentifier(offset = 0): boolean {
+    const token = this.tokens[this.pos + offset];
+    return token !== undefined && token.kind === 'identifier' && !RESERVED.has(token.text);
+  }
+
+  private accept(text: string): boolean {
+    if (!this.at(text)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (!token) throw this.error('token');
+    this.pos++;
+    return token;
+  }
+
+  private expect(text: string): Token {
+    if (!this.at(text)) throw this.error(`'${text}'`);
+    return this.next();
+  }
+
+  private identifier(): string {
+    if (!this.isIdentifier()) throw this.error('identifier');
+    return this.next().text;
+  }
+
+  private qualifiedName(): string {
+    const parts = [this.identifier()];
+    while (this.at('.') && this.isIdentifier(1)) {
+      this.pos++;
+      parts.push(this.identifier());
+    }
+    return parts.join('.');
+  }
+
+  /** Move past the bracket pair opening at the current token. */
+  private skipBracketed(): void {
+    const close = this.pairs[this.pos];
+    this.pos = close === -1 ? this.pos + 1 : close + 1;
+  }
+
+  /**
+   * Skip a declaration that didn't parse, from token `from` up to and
+   * including its `;` or `{ ... }` block. Stops before a `}` that closes the
+   * enclosing body.
+   */
+  private recover(from: number): void {
+    this.pos = from;
+    while (this.pos < this.tokens.length) {
+      const text = this.tokens[this.pos].text;
+      if (text === ';') {
+        this.pos++;
+        break;
+      }
+      if (text === '}') break;
+      if (text === '{') {
+        this.skipBracketed();
+        break;
+      }
+      if (text === '(' || text === '[') this.skipBracketed();
+      else this.pos++;
+    }
+    if (this.pos === from) this.pos++;
+  }
+
+  private error(expected: string): ParseError {
+    const token = this.peek();
+    return new ParseError(token ? `Expected ${expected} at line ${token.line}, found '${token.text}'` : `Expected ${expected} at end of file`);
+  }
+}
+
+const NO_MODIFIERS: ModifierList = { modifiers: [], annotations: [] };
+
+function typeNode(name: string, kind: ClassKind, nesting: NestingKind, modifiers: ModifierList, lineStart: number): TypeNode {
+  return {
+    name,
+    kind,
+    nesting,
+    modifiers: modifiers.modifiers,
+    annotations: modifiers.annotations,
+    typeParameters: [],
+    superClass: null,
+    interfaces: [],
+    recordComponents: [],
+    fields: [],
+    methods: [],
+    constructors: [],
+    enumConstants: [],
+    types: [],
+    lineStart,
+    lineEnd: lineStart,
+  };
+}
@@ -0,0 +1,123 @@
+// Parses source files for the index, spread over worker_threads.
+//
+// Each worker reads, hashes and parses its share of the files; a file whose
+// hash matches the one from the previous build comes back as `unchanged`
+// without being parsed, so the caller can reuse what it stored last time.
+// When the compiled worker script isn't available (running from the
+// TypeScript sources, e.g. under jest) or only one worker would run, files
+// are parsed in-process instead.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import { parseJavaTypes, ParsedClass } from './parser.js';
+
+export interface ParseTask {
+  file: string;
+  /** Content hash recorded by the previous build, if any. */
+  previousHash?: string;
+}
+
+export type ParseOutcome =
+  | { file: string; hash: string; unchanged: true }
+  | { file: string; hash: string; unchanged: false; classes: ParsedClass[] };
+
+/** Files handed to a worker per message; small enough to keep every worker busy to the end. */
+const BATCH_SIZE = 64;
+const WORKER_SCRIPT = new URL('./parse-worker.js', import.meta.url);
+
+export function defaultWorkerCount(): number {
+  const cpus = typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+  return Math.max(1, Math.min(8, cpus - 1));
+}
+
+/**
+ * Parse `tasks`, resolving type names against `knownTypes`. Outcomes come
+ * back in task order whatever the worker count. `onProgress` is called
+ * with the number of files finished so far.
+ */
+export async function parseFiles(
+  tasks: ParseTask[],
+  knownTypes: string[],
+  workers = defaultWorkerCount(),
+  onProgress?: (done: number) => void
+): Promise<ParseOutcome[]> {
+  const batches: ParseTask[][] = [];
+  for (let i = 0; i < tasks.length; i += BATCH_SIZE) {
+    batches.push(tasks.slice(i, i + BATCH_SIZE));
+  }
+
+  const poolSize = Math.min(workers, batches.length);
+  if (poolSize <= 1 || !fs.existsSync(fileURLToPath(WORKER_SCRIPT))) {
+    const known = new Set(knownTypes);
+    const lookup = (fqn: string) => known.has(fqn);
+    const outcomes: ParseOutcome[] = [];
+    for (const task of tasks) {
+      outcomes.push(parseTask(task, lookup));
+      if (onProgress && outcomes.length % BATCH_SIZE === 0) onProgress(outcomes.length);
+    }
+    return outcomes;
+  }
+
+  const results: ParseOutcome[][] = new Array(batches.length);
+  let next = 0;
+  let done = 0;
+
+  const runWorker = () => new Promise<void>((resolve, reject) => {
+    const worker = new Worker(WORKER_SCRIPT, { workerData: { knownTypes } });
+    let current = -1;
+
+    const dispatch = () => {
+      if (next >= batches.length) {
+        worker.terminate().then(() => resolve(), reject);
+        return;
+      }
+      current = next++;
+      worker.postMessage(batches[current]);
+    };
+
+    worker.on('message', (outcomes: ParseOutcome[]) => {
+      results[current] = outcomes;
+      done += outcomes.length;
+      onProgress?.(done);
+      dispatch();
+    });
+    worker.on('error', err => {
+      next = batches.length; // stop handing out work to the other workers
+      reject(err);
+    });
+    worker.on('exit', code => {
+      if (code !== 0 && next < batches.length) reject(new Error(`Parse worker exited with code ${code}`));
+    });
+
+    dispatch();
+  });
+
+  await Promise.all(Array.from({ length: poolSize }, runWorker));
+  return results.flat();
+}
+
+/** Read, hash and (unless unchanged) parse one file. Used in-process and by the workers. */
+export function parseTask(task: ParseTask, lookup: (fqn: string) => boolean): ParseOutcome {
+  const content = fs.readFileSync(task.file, 'utf-8');
+  const hash = contentHash(content);
+  if (hash === task.previousHash) {
+    return { file: task.file, hash, unchanged: true };
+  }
+
+  const classes = parseJavaTypes(content, task.file, { lookup });
+  // The source text isn't needed past parsing; don't copy it back across threads.
+  const strip = (parsed: ParsedClass) => {
+    parsed.rawContent = '';
+    parsed.nested.forEach(strip);
+  };
+  classes.forEach(strip);
+
+  return { file: task.file, hash, unchanged: false, classes };
+}
+
+export function contentHash(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
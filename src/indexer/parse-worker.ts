@@ -0,0 +1,12 @@
+// Worker entry for parse-pool.ts: parses each batch of files it is sent and
+// posts the outcomes back in the same order.
+
+import { parentPort, workerData } from 'worker_threads';
+import { parseTask, ParseTask } from './parse-pool.js';
+
+const known = new Set<string>(workerData.knownTypes);
+const lookup = (fqn: string) => known.has(fqn);
+
+parentPort!.on('message', (tasks: ParseTask[]) => {
+  parentPort!.postMessage(tasks.map(task => parseTask(task, lookup)));
+});
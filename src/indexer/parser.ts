@@ -1,242 +1,289 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ClassInfo, FieldInfo, MethodInfo, ClassKind } from '../utils/types.js';
+import {
+  AnnotationInfo,
+  ClassInfo,
+  FieldInfo,
+  MethodInfo,
+  ParamInfo,
+  ConstructorInfo,
+  EnumConstantInfo,
+  RecordComponentInfo,
+} from '../utils/types.js';
+import { ImportTable, TypeLookup, resolveTypeName, toBinaryName } from './type-resolver.js';
+import { AnnotationNode, ImportNode, ParamNode, TypeNode, TypeParameterNode, parseCompilationUnit } from './java-syntax.js';
+
+/**
+ * Stamped into every index. Bump it whenever the parser's output changes,
+ * so indices built by an older parser are detected and rebuilt.
+ */
+export const PARSER_VERSION = 3;
 
 export interface ParsedClass {
   packageName: string;
+  /** Package-relative binary name, e.g. "Outer$Inner" or "Outer$1". */
   className: string;
   fullName: string;
   info: ClassInfo;
   rawContent: string;
+  /** Types declared directly inside this one (member, local and anonymous). */
+  nested: ParsedClass[];
+}
+
+export interface ParseOptions {
+  /**
+   * Known top-level types, used to confirm same-package and on-demand
+   * import candidates. Without it, unimported names are assumed to live in
+   * the file's own package.
+   */
+  lookup?: TypeLookup;
 }
 
-export function parseJavaFile(filePath: string): ParsedClass | null {
+export function parseJavaFile(filePath: string, options: ParseOptions = {}): ParsedClass[] {
   const content = fs.readFileSync(filePath, 'utf-8');
-  return parseJavaContent(content, filePath);
+  return parseJavaTypes(content, filePath, options);
 }
 
-function extractDeclarationBlock(content: string): string | null {
-  const match = content.match(
-    /(?:public|protected|private)?\s*(?:abstract|final|sealed)?\s*(?:class|interface|enum|record)\s+\w+[^{]*\{/s
-  );
-  return match ? match[0] : null;
+/**
+ * Parse the primary top-level type of a file: the one named after the file,
+ * or the first one declared. Nested types hang off `nested`.
+ */
+export function parseJavaContent(content: string, filePath: string, options: ParseOptions = {}): ParsedClass | null {
+  const types = parseJavaTypes(content, filePath, options);
+  if (types.length === 0) return null;
+
+  const baseName = path.basename(filePath.replace(/\\/g, '/'), '.java');
+  return types.find(t => t.className === baseName) || types[0];
 }
 
-function parseDeclaration(block: string): {
-  className: string | null;
-  kind: ClassKind;
-  superClass: string | null;
-  interfaces: string[];
-} {
-  const normalized = block.replace(/\s+/g, ' ').trim();
-
-  const nameMatch = normalized.match(/(?:class|interface|enum|record)\s+(\w+)/);
-  const className = nameMatch ? nameMatch[1] : null;
-
-  let kind: ClassKind = 'class';
-  if (/\binterface\b/.test(normalized)) kind = 'interface';
-  else if (/\benum\b/.test(normalized)) kind = 'enum';
-  else if (/\brecord\b/.test(normalized)) kind = 'record';
-
-  let superClass: string | null = null;
-  let interfaces: string[] = [];
-
-  if (kind === 'interface') {
-    const extendsMatch = normalized.match(/extends\s+([^{]+)/);
-    if (extendsMatch) {
-      interfaces = extendsMatch[1].split(',').map(s => cleanTypeName(s.trim())).filter(s => s);
-    }
-  } else {
-    const extendsMatch = normalized.match(/extends\s+([^\s{<,]+(?:<[^>]+>)?)/);
-    superClass = extendsMatch ? cleanTypeName(extendsMatch[1]) : null;
+/** Parse every top-level type in a file, each with its tree of nested types. */
+export function parseJavaTypes(content: string, filePath: string, options: ParseOptions = {}): ParsedClass[] {
+  const unit = parseCompilationUnit(content);
+  const packageName = unit.packageName;
+
+  const ctx: BuildContext = {
+    packageName,
+    sourcePath: filePath.replace(/\\/g, '/'),
+    content,
+    imports: importTable(unit.imports),
+    lookup: options.lookup,
+    counters: new Map(),
+  };
+  const fileScope: Scope = {
+    nested: [new Map(unit.types.map(t => [t.name, qualify(packageName, t.name)]))],
+    typeVariables: new Map(),
+  };
+  return unit.types.map(type => buildParsedClass(type, type.name, fileScope, ctx));
+}
+
+function importTable(imports: ImportNode[]): ImportTable {
+  const single = new Map<string, string>();
+  const onDemand: string[] = [];
 
-    const implementsMatch = normalized.match(/implements\s+([^{]+)/);
-    if (implementsMatch) {
-      interfaces = implementsMatch[1].split(',').map(s => cleanTypeName(s.trim())).filter(s => s);
+  for (const imp of imports) {
+    if (imp.static) continue;
+    if (imp.onDemand) {
+      onDemand.push(imp.name);
+    } else {
+      single.set(imp.name.slice(imp.name.lastIndexOf('.') + 1), toBinaryName(imp.name));
     }
   }
 
-  return { className, kind, superClass, interfaces };
+  return { single, onDemand };
 }
 
-export function parseJavaContent(content: string, filePath: string): ParsedClass | null {
-  const lines = content.split('\n');
+// --- Building ParsedClass trees --------------------------------------------
+
+interface BuildContext {
+  packageName: string;
+  sourcePath: string;
+  content: string;
+  imports: ImportTable;
+  lookup?: TypeLookup;
+  /** Local and anonymous class counters per enclosing class, for binary names. */
+  counters: Map<string, number>;
+}
+
+/** The part of a TypeScope that changes with nesting depth. */
+interface Scope {
+  nested: Map<string, string>[];
+  typeVariables: Map<string, string>;
+}
+
+type Resolve = (text: string, typeVariables?: Map<string, string>) => string;
+
+function qualify(packageName: string, binaryName: string): string {
+  return packageName ? `${packageName}.${binaryName}` : binaryName;
+}
+
+function buildParsedClass(type: TypeNode, className: string, enclosing: Scope, ctx: BuildContext): ParsedClass {
+  const { packageName } = ctx;
+  const fullName = qualify(packageName, className);
+
+  const childNames = type.types.map(child => binaryName(child, className, ctx.counters));
+  const scope: Scope = {
+    nested: [
+      new Map(type.types.flatMap((child, i) => (child.name ? [[child.name, qualify(packageName, childNames[i])]] : []))),
+      ...enclosing.nested,
+    ],
+    typeVariables: new Map(enclosing.typeVariables),
+  };
+  const resolve: Resolve = (text, typeVariables = scope.typeVariables) => resolveTypeName(text, {
+    packageName,
+    imports: ctx.imports,
+    nested: scope.nested,
+    typeVariables,
+    lookup: ctx.lookup,
+  });
+  declareTypeVariables(type.typeParameters, scope.typeVariables, resolve);
+
+  // Anonymous classes name their supertype in the enclosing scope.
+  const superResolve = type.nesting === 'anonymous' ? (text: string) => resolveTypeName(text, {
+    packageName,
+    imports: ctx.imports,
+    nested: enclosing.nested,
+    typeVariables: enclosing.typeVariables,
+    lookup: ctx.lookup,
+  }) : resolve;
 
-  const packageName = extractPackage(content);
-  const declBlock = extractDeclarationBlock(content);
+  const withTypeVariables = (typeParameters: TypeParameterNode[]) => {
+    if (typeParameters.length === 0) return scope.typeVariables;
+    const typeVariables = new Map(scope.typeVariables);
+    declareTypeVariables(typeParameters, typeVariables, resolve);
+    return typeVariables;
+  };
 
-  if (!declBlock) return null;
+  const fields: FieldInfo[] = type.fields.map(field => ({
+    name: field.name,
+    type: resolve(field.typeText),
+    typeText: field.typeText,
+    modifiers: field.modifiers,
+    ...annotations(field.annotations, resolve),
+    lineStart: field.lineStart,
+    lineEnd: field.lineEnd,
+  }));
 
-  const { className, kind, superClass, interfaces } = parseDeclaration(declBlock);
+  const methods: MethodInfo[] = type.methods.map(method => {
+    const typeVariables = withTypeVariables(method.typeParameters);
+    return {
+      name: method.name,
+      returnType: resolve(method.returnTypeText, typeVariables),
+      returnTypeText: method.returnTypeText,
+      params: params(method.params, text => resolve(text, typeVariables)),
+      modifiers: method.modifiers,
+      ...annotations(method.annotations, resolve),
+      lineStart: method.lineStart,
+      lineEnd: method.lineEnd,
+    };
+  });
 
-  if (!className) return null;
+  const recordComponents: RecordComponentInfo[] | undefined = type.kind === 'record'
+    ? type.recordComponents.map(component => ({
+      ...params([component], resolve)[0],
+      lineStart: component.lineStart,
+      lineEnd: component.lineEnd,
+    }))
+    : undefined;
 
-  const fullName = packageName ? `${packageName}.${className}` : className;
+  const constructors: ConstructorInfo[] = type.constructors.map(ctor => {
+    const typeVariables = withTypeVariables(ctor.typeParameters);
+    return {
+      params: ctor.compact && recordComponents
+        ? recordComponents.map(({ lineStart, lineEnd, ...param }) => param)
+        : params(ctor.params, text => resolve(text, typeVariables)),
+      modifiers: ctor.modifiers,
+      ...annotations(ctor.annotations, resolve),
+      ...(ctor.compact ? { compact: true } : {}),
+      lineStart: ctor.lineStart,
+      lineEnd: ctor.lineEnd,
+    };
+  });
 
-  const fields = extractFields(content, lines);
-  const methods = extractMethods(content, lines);
+  const enumConstants: EnumConstantInfo[] | undefined = type.kind === 'enum'
+    ? type.enumConstants.map(constant => ({
+      name: constant.name,
+      ...annotations(constant.annotations, resolve),
+      ...(constant.args !== undefined ? { args: constant.args } : {}),
+      ...(constant.body ? { bodyClass: qualify(packageName, childNames[type.types.indexOf(constant.body)]) } : {}),
+      lineStart: constant.lineStart,
+      lineEnd: constant.lineEnd,
+    }))
+    : undefined;
 
-  const relativePath = filePath.replace(/\\/g, '/');
+  const nested = type.types.map((child, i) => buildParsedClass(child, childNames[i], scope, ctx));
 
   return {
     packageName,
     className,
     fullName,
     info: {
-      kind,
-      super: superClass,
-      interfaces,
+      kind: type.kind,
+      super: type.superClass ? superResolve(type.superClass) : null,
+      superText: type.superClass,
+      interfaces: type.interfaces.map(i => superResolve(i)),
+      interfacesText: type.interfaces,
       fields,
       methods,
-      sourcePath: relativePath,
+      constructors,
+      enumConstants,
+      recordComponents,
+      sourcePath: ctx.sourcePath,
+      modifiers: type.modifiers,
+      ...annotations(type.annotations, resolve),
+      nesting: type.nesting,
+      outerClass: type.nesting === 'top-level' ? null : qualify(packageName, className.slice(0, className.lastIndexOf('$'))),
+      nestedClasses: nested.map(n => n.fullName),
+      lineStart: type.lineStart,
+      lineEnd: type.lineEnd,
     },
-    rawContent: content,
+    rawContent: ctx.content,
+    nested,
   };
 }
 
-function extractPackage(content: string): string {
-  const match = content.match(/package\s+([\w.]+)\s*;/);
-  return match ? match[1] : '';
-}
-
-function cleanTypeName(type: string): string {
-  return type.replace(/<.*>/, '').replace(/[\[\]]/g, '').replace(/\s+/g, '').trim().split('.')[0] || type;
-}
-
-function extractFields(content: string, lines: string[]): FieldInfo[] {
-  const fields: FieldInfo[] = [];
-  
-  const fieldRegex = /(?:public|protected|private)\s+(?:static\s+)?(?:final\s+)?(\w+(?:<[^>]+>)?(?:\[\])*)\s+(\w+)\s*(?:=|;)/g;
-  
-  let match;
-  while ((match = fieldRegex.exec(content)) !== null) {
-    const fullMatch = match[0];
-    const lineNum = content.substring(0, match.index).split('\n').length;
-    const lineContent = lines[lineNum - 1] || '';
-    
-    if (lineContent.includes('(') || lineContent.includes(')')) continue;
-    
-    const modifiers = extractModifiers(fullMatch);
-    
-    fields.push({
-      name: match[2],
-      type: cleanTypeName(match[1]),
-      modifiers,
-    });
+/** Bind each type variable to the erasure of its first bound. */
+function declareTypeVariables(
+  typeParameters: TypeParameterNode[],
+  typeVariables: Map<string, string>,
+  resolve: Resolve
+): void {
+  for (const param of typeParameters) {
+    const bound = param.bounds[0];
+    typeVariables.set(param.name, bound ? resolve(bound, typeVariables) : 'java.lang.Object');
   }
-  
-  return fields;
 }
 
-function extractMethods(content: string, lines: string[]): MethodInfo[] {
-  const methods: MethodInfo[] = [];
-  
-  const methodRegex = /(?:@[\w.]+(?:\([^)]*\))?\s*)*(?:public|protected|private)?\s*(?:static\s+)?(?:final\s+)?(?:abstract\s+)?(?:synchronized\s+)?(\w+(?:<[^>]+>)?(?:\[\])*)\s+(\w+)\s*\(([^)]*)\)\s*(?:throws\s+[\w.,\s]+)?\s*(?:\{|;)/g;
-  
-  let match;
-  while ((match = methodRegex.exec(content)) !== null) {
-    const returnType = match[1];
-    const methodName = match[2];
-    const paramsStr = match[3];
-    
-    if (returnType === 'class' || methodName === 'if' || methodName === 'while' || methodName === 'for' || methodName === 'switch' || methodName === 'catch') {
-      continue;
-    }
-    
-    if (methodName.match(/^[A-Z]/) && !returnType) {
-      continue;
-    }
-    
-    const lineStart = content.substring(0, match.index).split('\n').length;
-    const lineEnd = findMethodEnd(content, match.index) || lineStart + 10;
-    
-    const modifiers = extractModifiers(match[0]);
-    const params = parseParams(paramsStr);
-    
-    methods.push({
-      name: methodName,
-      returnType: cleanTypeName(returnType),
-      params,
-      modifiers,
-      lineStart,
-      lineEnd,
-    });
-  }
-  
-  return methods;
-}
+/**
+ * JVM binary name relative to the package, following javac's scheme:
+ * members are "Outer$Inner", anonymous classes "Outer$1", local classes
+ * "Outer$1Local", numbered per enclosing class in source order.
+ */
+function binaryName(type: TypeNode, parentName: string, counters: Map<string, number>): string {
+  if (type.nesting === 'member') return `${parentName}$${type.name}`;
 
-function extractModifiers(declaration: string): string[] {
-  const modifiers: string[] = [];
-  const modKeywords = ['public', 'protected', 'private', 'static', 'final', 'abstract', 'synchronized', 'volatile', 'transient', 'native'];
-  
-  for (const mod of modKeywords) {
-    if (new RegExp(`\\b${mod}\\b`).test(declaration)) {
-      modifiers.push(mod);
-    }
-  }
-  
-  return modifiers;
+  const key = `${parentName}$${type.name}`;
+  const index = (counters.get(key) || 0) + 1;
+  counters.set(key, index);
+  return `${parentName}$${index}${type.name}`;
 }
 
-function parseParams(paramsStr: string): { name: string; type: string }[] {
-  if (!paramsStr.trim()) return [];
-  
-  const params: { name: string; type: string }[] = [];
-  const parts = splitParams(paramsStr);
-  
-  for (const part of parts) {
-    const trimmed = part.trim();
-    if (!trimmed) continue;
-    
-    const paramMatch = trimmed.match(/(?:final\s+)?(\w+(?:<[^>]+>)?(?:\[\])*)\s+(\w+)$/);
-    if (paramMatch) {
-      params.push({
-        type: cleanTypeName(paramMatch[1]),
-        name: paramMatch[2],
-      });
-    }
-  }
-  
-  return params;
+function params(nodes: ParamNode[], resolve: (text: string) => string): ParamInfo[] {
+  return nodes.map(param => ({
+    name: param.name,
+    type: resolve(param.typeText),
+    typeText: param.typeText,
+    ...annotations(param.annotations, resolve),
+  }));
 }
 
-function splitParams(paramsStr: string): string[] {
-  const result: string[] = [];
-  let depth = 0;
-  let current = '';
-  
-  for (const char of paramsStr) {
-    if (char === '<' || char === '(') depth++;
-    else if (char === '>' || char === ')') depth--;
-    else if (char === ',' && depth === 0) {
-      result.push(current);
-      current = '';
-      continue;
-    }
-    current += char;
-  }
-  
-  if (current.trim()) result.push(current);
-  
-  return result;
-}
-
-function findMethodEnd(content: string, startIndex: number): number | null {
-  let braceCount = 0;
-  let foundOpen = false;
-  
-  for (let i = startIndex; i < content.length; i++) {
-    if (content[i] === '{') {
-      braceCount++;
-      foundOpen = true;
-    } else if (content[i] === '}') {
-      braceCount--;
-      if (foundOpen && braceCount === 0) {
-        return content.substring(0, i).split('\n').length;
-      }
-    }
-  }
-  
-  return null;
+/** `{ annotations }` with each annotation type resolved, or nothing when there are none. */
+function annotations(nodes: AnnotationNode[], resolve: (text: string) => string): { annotations?: AnnotationInfo[] } {
+  if (nodes.length === 0) return {};
+  return {
+    annotations: nodes.map(node => ({
+      name: node.name,
+      type: resolve(node.name),
+      ...(node.args !== undefined ? { args: node.args } : {}),
+    })),
+  };
 }
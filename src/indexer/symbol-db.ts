@@ -0,0 +1,358 @@
+// The symbol database (symbols.db): one SQLite file per version holding
+// every indexed type, member and inheritance edge, plus a full-text index
+// over member names and signatures.
+//
+// The bundled sql.js build ships FTS3/FTS4 but not FTS5, so the search
+// index is an FTS4 table. `SourceStore.search` finds name candidates with
+// prefix MATCH queries on `name` and on `terms` (the name's words), and
+// scores them in JS (see utils/symbol-match.ts); signature hits come from
+// a MATCH on `signature` and rank below every name match.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Database } from 'sql.js';
+import { loadSqlJs } from '../callgraph/sqlite-loader.js';
+import { AnnotationInfo, ClassInfo, MethodInfo, ConstructorInfo } from '../utils/types.js';
+import { methodDescriptor } from '../utils/descriptor.js';
+import { identifierWords } from '../utils/symbol-match.js';
+import { Namespace, TypeHierarchy } from './hierarchy.js';
+
+const SCHEMA = `
+  CREATE TABLE types (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    package TEXT NOT NULL,
+    simple_name TEXT NOT NULL,
+    namespace TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    nesting TEXT NOT NULL,
+    abstract INTEGER NOT NULL,
+    super TEXT,
+    source_path TEXT NOT NULL,
+    line_start INTEGER,
+    line_end INTEGER,
+    field_count INTEGER NOT NULL,
+    method_count INTEGER NOT NULL,
+    constructor_count INTEGER NOT NULL,
+    annotations TEXT NOT NULL,
+    info TEXT NOT NULL
+  );
+  CREATE INDEX idx_types_package ON types(package);
+  CREATE INDEX idx_types_source ON types(source_path);
+
+  CREATE TABLE methods (
+    id INTEGER PRIMARY KEY,
+    type_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    is_constructor INTEGER NOT NULL,
+    signature TEXT NOT NULL,
+    descriptor TEXT NOT NULL,
+    modifiers TEXT NOT NULL,
+    annotations TEXT NOT NULL,
+    line_start INTEGER,
+    line_end INTEGER
+  );
+  CREATE INDEX idx_methods_type ON methods(type_id, name);
+
+  CREATE TABLE fields (
+    id INTEGER PRIMARY KEY,
+    type_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    modifiers TEXT NOT NULL,
+    annotations TEXT NOT NULL,
+    line_start INTEGER
+  );
+  CREATE INDEX idx_fields_type ON fields(type_id, name);
+
+  CREATE TABLE inheritance (
+    sub TEXT NOT NULL,
+    super TEXT NOT NULL,
+    is_interface INTEGER NOT NULL
+  );
+  CREATE INDEX idx_inheritance_super ON inheritance(super, is_interface);
+  CREATE INDEX idx_inheritance_sub ON inheritance(sub);
+
+  CREATE TABLE files (
+    path TEXT PRIMARY KEY,
+    namespace TEXT NOT NULL,
+    hash TEXT NOT NULL
+  );
+
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE VIRTUAL TABLE search_index USING fts4(
+    name, terms, signature, kind, ref_id, owner_id, package, annotations,
+    notindexed=kind, notindexed=ref_id, notindexed=owner_id, notindexed=package, notindexed=annotations
+  );
+`;
+
+/**
+ * Search index row kinds; `ref_id` points into types, methods or fields
+ * accordingly. `owner_id` is the declaring type (the enclosing type for
+ * nested classes, null for top-level ones). `annotations` holds the
+ * symbol's annotation names, see `annotationKeys`.
+ */
+export type SymbolKind = 'class' | 'method' | 'constructor' | 'field' | 'enumConstant' | 'recordComponent';
+
+/** A parsed source file, recorded so the next build can skip it if its content hash still matches. */
+export interface IndexedFile {
+  /** Path as stored in ClassInfo.sourcePath. */
+  path: string;
+  namespace: Namespace;
+  hash: string;
+}
+
+/** What a rebuild needs from the previous symbols.db to reuse unchanged files. */
+export interface PreviousBuild {
+  meta: Record<string, string>;
+  /** Content hash per file path. */
+  hashes: Map<string, string>;
+  /** Every type declared in `path`, keyed as in the package maps. */
+  classesIn(path: string): Array<{ packageName: string; simpleName: string; info: ClassInfo }>;
+  close(): void;
+}
+
+export async function writeSymbolDb(
+  dbPath: string,
+  packages: Array<[Namespace, Map<string, Record<string, ClassInfo>>]>,
+  hierarchy: TypeHierarchy,
+  files: IndexedFile[] = [],
+  meta: Record<string, string> = {}
+): Promise<void> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA);
+    db.run('BEGIN');
+
+    const insertType = db.prepare(`
+      INSERT INTO types (id, name, package, simple_name, namespace, kind, nesting, abstract, super, source_path,
+        line_start, line_end, field_count, method_count, constructor_count, annotations, info)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertMethod = db.prepare(`
+      INSERT INTO methods (id, type_id, name, is_constructor, signature, descriptor, modifiers, annotations, line_start, line_end)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertField = db.prepare(`
+      INSERT INTO fields (id, type_id, name, kind, signature, modifiers, annotations, line_start)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertEdge = db.prepare('INSERT INTO inheritance (sub, super, is_interface) VALUES (?, ?, ?)');
+    const insertSearch = db.prepare(`
+      INSERT INTO search_index (name, terms, signature, kind, ref_id, owner_id, package, annotations)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    // Ids up front, so a nested class can point at its enclosing type.
+    const typeIds = new Map<string, number>();
+    for (const [, pkgs] of packages) {
+      for (const [packageName, classes] of pkgs) {
+        for (const simpleName of Object.keys(classes)) {
+          typeIds.set(qualify(packageName, simpleName), typeIds.size + 1);
+        }
+      }
+    }
+
+    let methodId = 0;
+    let fieldId = 0;
+
+    for (const [namespace, pkgs] of packages) {
+      for (const [packageName, classes] of pkgs) {
+        for (const [simpleName, info] of Object.entries(classes)) {
+          const fullName = qualify(packageName, simpleName);
+          const typeId = typeIds.get(fullName)!;
+          const node = hierarchy.types[fullName];
+          const constructors = info.constructors ?? [];
+          const displayName = innermostName(simpleName);
+          const enclosing = simpleName.includes('$')
+            ? typeIds.get(fullName.slice(0, fullName.lastIndexOf('$'))) ?? null
+            : null;
+          const index = (
+            kind: SymbolKind,
+            name: string,
+            signature: string,
+            refId: number,
+            ownerId: number | null,
+            annotations: AnnotationInfo[] | undefined
+          ) => {
+            insertSearch.run([name, searchTerms(name), signature, kind, refId, ownerId, packageName, annotationKeys(annotations)]);
+          };
+
+          insertType.run([
+            typeId, fullName, packageName, simpleName, namespace, info.kind, info.nesting ?? 'top-level',
+            node?.abstract ? 1 : 0, node ? node.super : info.super, info.sourcePath,
+            info.lineStart ?? null, info.lineEnd ?? null,
+            info.fields.length, info.methods.length, constructors.length, formatAnnotations(info.annotations),
+            JSON.stringify(info),
+          ]);
+          // Anonymous classes have no name to search for.
+          if (displayName) index('class', displayName, '', typeId, enclosing, info.annotations);
+
+          if (node?.super) insertEdge.run([fullName, node.super, 0]);
+          for (const iface of node?.interfaces ?? []) insertEdge.run([fullName, iface, 1]);
+
+          for (const method of info.methods) {
+            const signature = formatMethodSignature(method);
+            insertMethod.run([
+              ++methodId, typeId, method.name, 0, signature, methodDescriptor(method.params.map(p => p.type), method.returnType),
+              method.modifiers.join(' '), formatAnnotations(method.annotations), method.lineStart, method.lineEnd,
+            ]);
+            index('method', method.name, signature, methodId, typeId, method.annotations);
+          }
+
+          for (const ctor of constructors) {
+            const signature = formatConstructorSignature(displayName, ctor);
+            insertMethod.run([
+              ++methodId, typeId, '<init>', 1, signature, methodDescriptor(ctor.params.map(p => p.type), 'void'),
+              ctor.modifiers.join(' '), formatAnnotations(ctor.annotations), ctor.lineStart, ctor.lineEnd,
+            ]);
+            index('constructor', displayName, signature, methodId, typeId, ctor.annotations);
+          }
+
+          for (const field of info.fields) {
+            const signature = `${field.typeText ?? field.type} ${field.name}`;
+            insertField.run([
+              ++fieldId, typeId, field.name, 'field', signature, field.modifiers.join(' '),
+              formatAnnotations(field.annotations), field.lineStart ?? null,
+            ]);
+            index('field', field.name, signature, fieldId, typeId, field.annotations);
+          }
+
+          for (const constant of info.enumConstants ?? []) {
+            const signature = constant.args !== undefined ? `${constant.name}(${constant.args})` : constant.name;
+            insertField.run([
+              ++fieldId, typeId, constant.name, 'enumConstant', signature, '', formatAnnotations(constant.annotations), constant.lineStart,
+            ]);
+            index('enumConstant', constant.name, signature, fieldId, typeId, constant.annotations);
+          }
+
+          for (const component of info.recordComponents ?? []) {
+            const signature = `${component.typeText ?? component.type} ${component.name}`;
+            insertField.run([
+              ++fieldId, typeId, component.name, 'recordComponent', signature, '', formatAnnotations(component.annotations), component.lineStart,
+            ]);
+            index('recordComponent', component.name, signature, fieldId, typeId, component.annotations);
+          }
+        }
+      }
+    }
+
+    const insertFile = db.prepare('INSERT OR REPLACE INTO files (path, namespace, hash) VALUES (?, ?, ?)');
+    for (const file of files) insertFile.run([file.path, file.namespace, file.hash]);
+    const insertMeta = db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)');
+    for (const [key, value] of Object.entries(meta)) insertMeta.run([key, value]);
+
+    for (const statement of [insertType, insertMethod, insertField, insertEdge, insertSearch, insertFile, insertMeta]) {
+      statement.free();
+    }
+    db.run('COMMIT');
+
+    // Write next to the target and rename so a reader never sees a half-written file.
+    const tempPath = `${dbPath}.tmp`;
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    fs.writeFileSync(tempPath, Buffer.from(db.export()));
+    fs.renameSync(tempPath, dbPath);
+  } finally {
+    db.close();
+  }
+}
+
+export async function openSymbolDb(dbPath: string): Promise<Database | null> {
+  if (!fs.existsSync(dbPath)) return null;
+  const SQL = await loadSqlJs();
+  return new SQL.Database(fs.readFileSync(dbPath));
+}
+
+/**
+ * Open an existing symbols.db for reuse by a rebuild. Null when there is
+ * none, or when it predates file tracking.
+ */
+export async function readPreviousBuild(dbPath: string): Promise<PreviousBuild | null> {
+  const db = await openSymbolDb(dbPath).catch(() => null);
+  if (!db) return null;
+
+  try {
+    const meta: Record<string, string> = {};
+    for (const [key, value] of db.exec('SELECT key, value FROM meta')[0]?.values ?? []) {
+      meta[key as string] = value as string;
+    }
+    const hashes = new Map<string, string>();
+    for (const [path, hash] of db.exec('SELECT path, hash FROM files')[0]?.values ?? []) {
+      hashes.set(path as string, hash as string);
+    }
+
+    const byPath = db.prepare('SELECT package, simple_name, info FROM types WHERE source_path = ?');
+    return {
+      meta,
+      hashes,
+      classesIn(path) {
+        byPath.bind([path]);
+        const classes = [];
+        while (byPath.step()) {
+          const [packageName, simpleName, info] = byPath.get();
+          classes.push({ packageName: packageName as string, simpleName: simpleName as string, info: JSON.parse(info as string) });
+        }
+        byPath.reset();
+        return classes;
+      },
+      close() {
+        byPath.free();
+        db.close();
+      },
+    };
+  } catch {
+    // No files/meta tables: an index from before incremental builds.
+    db.close();
+    return null;
+  }
+}
+
+/** `identifierWords` joined with spaces, as stored in `search_index.terms`. */
+export function searchTerms(name: string): string {
+  return identifierWords(name).join(' ');
+}
+
+function qualify(packageName: string, simpleName: string): string {
+  return packageName === 'default' ? simpleName : `${packageName}.${simpleName}`;
+}
+
+export function formatMethodSignature(method: MethodInfo): string {
+  const params = method.params.map(p => `${p.typeText ?? p.type} ${p.name}`).join(', ');
+  return `${method.returnTypeText ?? method.returnType} ${method.name}(${params})`;
+}
+
+export function formatConstructorSignature(simpleName: string, ctor: ConstructorInfo): string {
+  const params = ctor.params.map(p => `${p.typeText ?? p.type} ${p.name}`).join(', ');
+  return `${simpleName}(${params})`;
+}
+
+/** Annotations as written in source: "@Deprecated @Environment(EnvType.CLIENT)"; empty for none. */
+export function formatAnnotations(annotations: AnnotationInfo[] | undefined): string {
+  return (annotations ?? []).map(a => (a.args !== undefined ? `@${a.name}(${a.args})` : `@${a.name}`)).join(' ');
+}
+
+/**
+ * Space-delimited names an annotation filter can match: each annotation's
+ * simple name and dotted qualified name, e.g. " Environment net.fabricmc.api.Environment ".
+ */
+export function annotationKeys(annotations: AnnotationInfo[] | undefined): string {
+  if (!annotations?.length) return '';
+  const keys = annotations.flatMap(a => {
+    const dotted = a.type.replace(/\$/g, '.');
+    return [dotted.slice(dotted.lastIndexOf('.') + 1), dotted];
+  });
+  return ` ${keys.join(' ')} `;
+}
+
+/** "Outer$Inner" -> "Inner"; local classes drop their javac index ("Outer$1Local" -> "Local"). */
+export function innermostName(binaryName: string): string {
+  const last = binaryName.slice(binaryName.lastIndexOf('$') + 1);
+  return last.replace(/^\d+/, '');
+}
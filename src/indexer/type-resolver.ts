@@ -0,0 +1,134 @@
+// Resolve the type names written in a Java file to fully qualified binary
+// names ("java.util.List", "net.minecraft.world.entity.Entity$RemovalReason"),
+// following the JLS shadowing order: type variables, nested types in scope,
+// single-type imports, same-package types, on-demand imports, java.lang.
+
+/** Returns true for a known fully qualified top-level type name. */
+export type TypeLookup = (fqn: string) => boolean;
+
+export interface ImportTable {
+  /** Simple name -> binary name, from `import a.b.C;`. */
+  single: Map<string, string>;
+  /** Prefixes from `import a.b.*;`. */
+  onDemand: string[];
+}
+
+export interface TypeScope {
+  packageName: string;
+  imports: ImportTable;
+  /** Simple name -> binary name of nested types visible here, innermost scope first. */
+  nested: Map<string, string>[];
+  /** Type variable -> binary name of its erasure. */
+  typeVariables: Map<string, string>;
+  /** Known top-level types. Without it, unknown simple names are assumed to be same-package. */
+  lookup?: TypeLookup;
+}
+
+const PRIMITIVES = new Set(['void', 'boolean', 'byte', 'char', 'short', 'int', 'long', 'float', 'double']);
+
+// java.lang is imported implicitly, so its types never show up in an import
+// list. Only the names that realistically appear in Minecraft sources.
+const JAVA_LANG = new Set([
+  'AbstractMethodError', 'Appendable', 'ArithmeticException', 'ArrayIndexOutOfBoundsException',
+  'ArrayStoreException', 'AssertionError', 'AutoCloseable', 'Boolean', 'Byte', 'CharSequence',
+  'Character', 'Class', 'ClassCastException', 'ClassLoader', 'ClassNotFoundException',
+  'CloneNotSupportedException', 'Cloneable', 'Comparable', 'Deprecated', 'Double', 'Enum', 'Error',
+  'Exception', 'ExceptionInInitializerError', 'Float', 'FunctionalInterface', 'IllegalAccessException',
+  'IllegalArgumentException', 'IllegalMonitorStateException', 'IllegalStateException',
+  'IndexOutOfBoundsException', 'InheritableThreadLocal', 'InstantiationException', 'Integer',
+  'InternalError', 'InterruptedException', 'Iterable', 'LinkageError', 'Long', 'Math', 'Module',
+  'NegativeArraySizeException', 'NoClassDefFoundError', 'NoSuchFieldException', 'NoSuchMethodException',
+  'NullPointerException', 'Number', 'NumberFormatException', 'Object', 'OutOfMemoryError', 'Override',
+  'Package', 'Process', 'ProcessBuilder', 'Readable', 'Record', 'ReflectiveOperationException',
+  'Runnable', 'Runtime', 'RuntimeException', 'SafeVarargs', 'SecurityException', 'Short',
+  'StackOverflowError', 'StackTraceElement', 'StrictMath', 'String', 'StringBuffer', 'StringBuilder',
+  'StringIndexOutOfBoundsException', 'SuppressWarnings', 'System', 'Thread', 'ThreadGroup',
+  'ThreadLocal', 'Throwable', 'TypeNotPresentException', 'UnsupportedOperationException',
+  'VirtualMachineError', 'Void',
+]);
+
+/**
+ * Convert a dotted source name to a binary name, treating every segment
+ * after the first capitalised one as a nested type:
+ * "a.b.Outer.Inner" -> "a.b.Outer$Inner".
+ */
+export function toBinaryName(dotted: string): string {
+  const parts = dotted.split('.');
+  const firstType = parts.findIndex(p => /^[A-Z]/.test(p));
+  if (firstType === -1 || firstType === parts.length - 1) return dotted;
+  return [...parts.slice(0, firstType), parts.slice(firstType).join('$')].join('.');
+}
+
+/** Remove generic arguments, annotations and whitespace: "List<Foo>[]" -> "List[]". */
+export function eraseTypeText(text: string): string {
+  let out = '';
+  let depth = 0;
+  for (const ch of text.replace(/@[\w$.]+(\([^)]*\))?/g, '')) {
+    if (ch === '<') depth++;
+    else if (ch === '>') depth--;
+    else if (depth === 0 && !/\s/.test(ch)) out += ch;
+  }
+  return out;
+}
+
+/** Resolve a type as written in source to its erased binary name, keeping array dimensions. */
+export function resolveTypeName(text: string, scope: TypeScope): string {
+  let erased = eraseTypeText(text);
+  let dims = '';
+  if (erased.endsWith('...')) {
+    erased = erased.slice(0, -3);
+    dims = '[]';
+  }
+  while (erased.endsWith('[]')) {
+    erased = erased.slice(0, -2);
+    dims += '[]';
+  }
+  if (!erased || PRIMITIVES.has(erased) || erased === '?') return erased + dims;
+
+  const parts = erased.split('.');
+  const head = parts[0];
+
+  if (parts.length === 1 && scope.typeVariables.has(head)) {
+    return scope.typeVariables.get(head)! + dims;
+  }
+
+  const resolvedHead = resolveSimpleName(head, scope);
+  if (resolvedHead) {
+    return [resolvedHead, ...parts.slice(1)].join('$') + dims;
+  }
+
+  // Lower-case head: already package-qualified ("java.util.List").
+  if (parts.length > 1 && /^[a-z]/.test(head)) {
+    return toBinaryName(erased) + dims;
+  }
+
+  return erased + dims;
+}
+
+function resolveSimpleName(name: string, scope: TypeScope): string | null {
+  for (const level of scope.nested) {
+    const hit = level.get(name);
+    if (hit) return hit;
+  }
+
+  const imported = scope.imports.single.get(name);
+  if (imported) return imported;
+
+  const samePackage = scope.packageName ? `${scope.packageName}.${name}` : name;
+  if (scope.lookup) {
+    if (scope.lookup(samePackage)) return samePackage;
+
+    for (const prefix of scope.imports.onDemand) {
+      const candidate = `${prefix}.${name}`;
+      if (scope.lookup(candidate)) return candidate;
+    }
+  }
+
+  if (JAVA_LANG.has(name)) return `java.lang.${name}`;
+
+  // Without a symbol table, an unimported name is most likely a sibling in
+  // the same package (decompilers import everything else explicitly).
+  if (!scope.lookup && /^[A-Z]/.test(name)) return samePackage;
+
+  return null;
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import { getMinecraftSourceDir, getVersionedGrepIndexPath } from '../utils/paths.js';
+import { GrepIndex, readGrepIndex, requiredLiterals } from '../indexer/grep-index.js';
+
+export interface GrepOptions {
+  pattern: string;
+  /** Treat `pattern` as plain text rather than a regular expression. */
+  literal?: boolean;
+  ignoreCase?: boolean;
+  /** Only files in this package or its subpackages. */
+  packagePath?: string;
+  /** Only files whose path under the source root matches this glob ("net/minecraft/client/**"). */
+  glob?: string;
+  /** Lines of context around each match (default 2, max 10). */
+  context?: number;
+  /** Matches to skip, for continuing a previous search. */
+  offset?: number;
+  /** Maximum matches to return (default 50, max 500). */
+  limit?: number;
+}
+
+export interface GrepLine {
+  line: number;
+  text: string;
+  /** False for context lines. */
+  match: boolean;
+}
+
+export interface GrepFileHit {
+  /** Path relative to the source root, '/'-separated. */
+  file: string;
+  className: string;
+  /** Matching lines and their context, in order, overlapping windows merged. */
+  lines: GrepLine[];
+}
+
+export interface GrepResult {
+  files: GrepFileHit[];
+  matchCount: number;
+  offset: number;
+  /** Offset to pass to continue, or null when this page holds the last match. */
+  nextOffset: number | null;
+  filesScanned: number;
+  /** False when the version has no grep.idx and every file was read. */
+  indexed: boolean;
+}
+
+const DEFAULT_CONTEXT = 2;
+const MAX_CONTEXT = 10;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const MAX_LINE_LENGTH = 400;
+
+// Keep one version's index in memory; it is reloaded when a rebuild
+// replaces the file.
+let cached: { version: string; mtime: number; index: GrepIndex | null } | null = null;
+
+function loadIndex(version: string): GrepIndex | null {
+  const indexPath = getVersionedGrepIndexPath(version);
+  const mtime = fs.existsSync(indexPath) ? fs.statSync(indexPath).mtimeMs : 0;
+  if (cached?.version !== version || cached.mtime !== mtime) {
+    cached = { version, mtime, index: readGrepIndex(indexPath) };
+  }
+  return cached.index;
+}
+
+/**
+ * Search the decompiled Minecraft sources line by line. The trigram index
+ * picks the candidate files; the regex is then run over each of them in
+ * path order, so paging with `offset` is deterministic. Throws on an
+ * invalid regex.
+ */
+export async function grepSources(version: string, options: GrepOptions): Promise<GrepResult> {
+  const sourceDir = getMinecraftSourceDir(version);
+  const regex = buildRegex(options);
+  const context = clamp(options.context ?? DEFAULT_CONTEXT, 0, MAX_CONTEXT);
+  const offset = Math.max(0, Math.floor(options.offset ?? 0));
+  const limit = clamp(options.limit ?? DEFAULT_LIMIT, 1, MAX_LIMIT);
+
+  const index = loadIndex(version);
+  let files: string[];
+  if (index) {
+    const literals = options.literal ? [options.pattern] : requiredLiterals(options.pattern);
+    files = index.candidates(literals).map(id => index.files[id]);
+  } else {
+    files = (await glob('**/*.java', { cwd: sourceDir, posix: true, nodir: true })).sort();
+  }
+
+  if (options.packagePath) {
+    const prefix = `${options.packagePath.replace(/\./g, '/')}/`;
+    files = files.filter(f => f.startsWith(prefix));
+  }
+  if (options.glob) {
+    const allowed = new Set(await glob(options.glob, { cwd: sourceDir, posix: true, nodir: true }));
+    files = files.filter(f => allowed.has(f));
+  }
+
+  const hits: GrepFileHit[] = [];
+  let seen = 0;
+  let matchCount = 0;
+  let nextOffset: number | null = null;
+  let filesScanned = 0;
+
+  for (const file of files) {
+    const content = await fs.promises.readFile(path.join(sourceDir, file), 'utf-8').catch(() => null);
+    filesScanned++;
+    if (content === null) continue;
+
+    const lines = content.split(/\r?\n/);
+    const matched: number[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      if (!regex.test(lines[i])) continue;
+      if (seen++ < offset) continue;
+      if (matchCount === limit) {
+        nextOffset = offset + limit;
+        break;
+      }
+      matched.push(i);
+      matchCount++;
+    }
+
+    if (matched.length > 0) hits.push(fileHit(file, lines, matched, context));
+    if (nextOffset !== null) break;
+  }
+
+  return { files: hits, matchCount, offset, nextOffset, filesScanned, indexed: index !== null };
+}
+
+function buildRegex(options: GrepOptions): RegExp {
+  const source = options.literal ? options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : options.pattern;
+  return new RegExp(source, options.ignoreCase ? 'i' : '');
+}
+
+function fileHit(file: string, lines: string[], matched: number[], context: number): GrepFileHit {
+  const matchedSet = new Set(matched);
+  const shown = new Set<number>();
+  for (const i of matched) {
+    for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) {
+      shown.add(j);
+    }
+  }
+
+  return {
+    file,
+    className: file.replace(/\.java$/, '').replace(/\//g, '.'),
+    lines: [...shown].sort((a, b) => a - b).map(i => ({
+      line: i + 1,
+      text: lines[i].length > MAX_LINE_LENGTH ? `${lines[i].slice(0, MAX_LINE_LENGTH)}…` : lines[i],
+      match: matchedSet.has(i),
+    })),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.floor(value)));
+}
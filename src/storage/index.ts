@@ -1 +1,4 @@
 export { SourceStore, sourceStore } from './source-store.js';
+export type { MethodFilter, MethodIdentity, MethodSelector, Page, PageOptions } from './source-store.js';
+export { grepSources } from './grep.js';
+export type { GrepOptions, GrepResult, GrepFileHit, GrepLine } from './grep.js';
@@ -0,0 +1,541 @@
+// Rename and move detection between two indexed versions. The diff
+// (version-diff.ts) shows a renamed class or method as one removal and one
+// addition; this pairs removed symbols with added ones and scores each pair
+// on four signals between 0 and 1:
+//
+// - body: overlap of the token trigrams of the two bodies (class
+//   declarations, for classes), with the symbol's own name blanked out
+// - signature: erased types, parameter count and static-ness; for classes,
+//   kind, supertypes and the shapes of their members. Types are mapped
+//   through the classes already paired
+// - neighborhood: overlap of callers and callees (fields: the methods that
+//   access them; classes: the classes they call and are called from)
+// - bytecode: equal code hashes (classes: the share of method code hashes
+//   in common)
+//
+// The last two come from the callgraphs and drop out when either version
+// has none, or one built before code hashes were recorded. Confidence is
+// the weighted mean of the signals available. Pairs are taken best first,
+// each symbol once, and kept when confident enough and backed by more than
+// the signature. Classes are paired first, then the members of every pair
+// of classes (same name, moved or renamed) among themselves.
+//
+// The result is saved in the new version's index directory per old version
+// (renames/<from>.json) and is stale once either symbol index is rebuilt.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { hasCallgraphDb } from '../callgraph/index.js';
+import { acquireDb } from '../callgraph/query.js';
+import type { HeldCallgraphDb } from '../callgraph/connection.js';
+import { innermostName } from '../indexer/symbol-db.js';
+import { writeFileAtomic } from '../utils/atomic-write.js';
+import { getVersionedIndexDir, getVersionedSymbolDbPath } from '../utils/paths.js';
+import type { ClassInfo } from '../utils/types.js';
+import { IndexSnapshot, classPart, membersOf, pairMoves } from './version-diff.js';
+import type { Member, MemberKind } from './version-diff.js';
+
+export type RenameKind = 'class' | MemberKind;
+
+export interface RenameSignals {
+  body?: number;
+  signature: number;
+  neighborhood?: number;
+  bytecode?: number;
+}
+
+export interface RenameMatch {
+  kind: RenameKind;
+  /** Binary class name, or "Class#key" for members: "a.b.C#tick(int)", "a.b.C#<init>()", "a.b.C#health". */
+  from: string;
+  to: string;
+  /** Weighted mean of the signals, 0-1. */
+  confidence: number;
+  signals: RenameSignals;
+}
+
+export interface RenameReport {
+  from: string;
+  to: string;
+  computedAt: string;
+  /** Classes and members removed from `from`: the symbols a successor was looked for. */
+  removed: { classes: number; members: number };
+  /** Best first. */
+  matches: RenameMatch[];
+}
+
+export interface RenameOptions {
+  /** Lowest confidence kept; default 0.5. */
+  minConfidence?: number;
+  progressCb?: (stage: string, progress: number, message: string) => void;
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+const WEIGHTS: Required<RenameSignals> = { body: 0.4, signature: 0.2, neighborhood: 0.25, bytecode: 0.15 };
+/** A pair needs one signal besides the signature at least this strong. */
+const MIN_EVIDENCE = 0.3;
+/** Trigrams in more classes than this say nothing about which class is which. */
+const MAX_TRIGRAM_CLASSES = 25;
+/** Renamed-class candidates scored in full per added class, by trigram overlap. */
+const CLASS_CANDIDATES = 10;
+
+interface RenameFile extends RenameReport {
+  /** mtimes of the two symbols.db the matches were computed from. */
+  symbolsMtimeMs: { from: number; to: number };
+}
+
+export function getRenamesPath(from: string, to: string): string {
+  return path.join(getVersionedIndexDir(to), 'renames', `${from}.json`);
+}
+
+/** Pair the symbols removed between `from` and `to` with their likely successors, and save the result. */
+export async function matchRenames(from: string, to: string, options: RenameOptions = {}): Promise<RenameReport> {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const symbolsMtimeMs = {
+    from: fs.statSync(getVersionedSymbolDbPath(from)).mtimeMs,
+    to: fs.statSync(getVersionedSymbolDbPath(to)).mtimeMs,
+  };
+
+  // Both callgraphs are held until the end: opening one must not evict the other.
+  const sides: Side[] = [];
+  try {
+    for (const version of [from, to]) {
+      const side: Side = { index: await IndexSnapshot.open(version), graph: null };
+      sides.push(side);
+      side.graph = await CallgraphSide.open(version);
+    }
+    const [before, after] = sides;
+    const { matches, removed } = pairSymbols(before.index, after.index, new Scorer(before, after), minConfidence, options.progressCb);
+
+    const report: RenameReport = { from, to, computedAt: new Date().toISOString(), removed, matches };
+    saveRenames({ ...report, symbolsMtimeMs });
+    if (options.progressCb) options.progressCb('renames', 100, `${matches.length} likely renames and moves.`);
+    return report;
+  } finally {
+    for (const side of sides) {
+      side.graph?.release();
+      side.index.close();
+    }
+  }
+}
+
+function pairSymbols(
+  before: IndexSnapshot,
+  after: IndexSnapshot,
+  scorer: Scorer,
+  minConfidence: number,
+  progressCb: RenameOptions['progressCb']
+): { matches: RenameMatch[]; removed: RenameReport['removed'] } {
+  const removed = [...before.types.keys()].filter(name => !after.types.has(name));
+  const added = [...after.types.keys()].filter(name => !before.types.has(name));
+  const matches: RenameMatch[] = [];
+
+  // Moves are certain from the names alone; scoring them still shows how much they changed.
+  const moves = pairMoves(removed, added);
+  for (const [newName, oldName] of moves) scorer.classes.set(oldName, newName);
+  for (const [newName, oldName] of moves) matches.push({ kind: 'class', from: oldName, to: newName, ...scorer.scoreClasses(oldName, newName) });
+
+  if (progressCb) progressCb('renames', 10, 'Pairing renamed classes...');
+  const classPairs = scorer.classCandidates(
+    removed.filter(name => !scorer.classes.has(name)),
+    added.filter(name => !moves.has(name))
+  );
+  for (const match of pickBest(classPairs, minConfidence)) {
+    scorer.classes.set(match.from, match.to);
+    matches.push(match);
+  }
+
+  // Members of classes whose source changed, and of every moved or renamed class.
+  const classPairsToCompare: Array<[string, string]> = [
+    ...[...after.types.keys()].filter(name => before.types.has(name) && before.hash(name) !== after.hash(name)).map(name => [name, name] as [string, string]),
+    ...scorer.classes,
+  ];
+  let removedMembers = 0;
+  for (let i = 0; i < classPairsToCompare.length; i++) {
+    const [oldName, newName] = classPairsToCompare[i];
+    const { candidates, removed: gone } = scorer.memberCandidates(oldName, newName);
+    removedMembers += gone;
+    matches.push(...pickBest(candidates, minConfidence));
+    if (progressCb && (i + 1) % 500 === 0) {
+      progressCb('renames', 10 + Math.floor(((i + 1) / classPairsToCompare.length) * 90), `Compared members of ${i + 1} of ${classPairsToCompare.length} classes...`);
+    }
+  }
+  for (const oldName of removed) {
+    if (!scorer.classes.has(oldName)) removedMembers += membersOf(oldName, before.info(oldName)).size;
+  }
+
+  matches.sort((a, b) => b.confidence - a.confidence || (a.from < b.from ? -1 : 1));
+  return { matches, removed: { classes: removed.length, members: removedMembers } };
+}
+
+function saveRenames(file: RenameFile): void {
+  const filePath = getRenamesPath(file.from, file.to);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileAtomic(filePath, JSON.stringify(file));
+}
+
+/** Saved matches, looked up by the old name. */
+export class Renames {
+  private readonly byClass = new Map<string, RenameMatch>();
+  private readonly byMember = new Map<string, RenameMatch>();
+
+  constructor(readonly report: RenameReport) {
+    for (const match of report.matches) {
+      (match.kind === 'class' ? this.byClass : this.byMember).set(match.from, match);
+    }
+  }
+
+  /** Where a class removed from the old version went, if anywhere. */
+  classMatch(className: string): RenameMatch | undefined {
+    return this.byClass.get(className);
+  }
+
+  /** The likely successor of a removed member, by its key ("tick(int)", "<init>()", "health"). */
+  memberMatch(className: string, key: string): RenameMatch | undefined {
+    return this.byMember.get(`${className}#${key}`);
+  }
+}
+
+const loaded = new Map<string, { mtimeMs: number; symbolsMtimeMs: RenameFile['symbolsMtimeMs']; renames: Renames }>();
+
+/** The saved matches from `from` to `to`, or null when none were computed or either index was rebuilt since. */
+export function loadRenames(from: string, to: string): Renames | null {
+  const filePath = getRenamesPath(from, to);
+  if (!fs.existsSync(filePath)) return null;
+
+  const mtimeMs = fs.statSync(filePath).mtimeMs;
+  let cached = loaded.get(filePath);
+  if (!cached || cached.mtimeMs !== mtimeMs) {
+    const { symbolsMtimeMs, ...report }: RenameFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    cached = { mtimeMs, symbolsMtimeMs, renames: new Renames(report) };
+    loaded.set(filePath, cached);
+  }
+
+  const symbolsMtime = (version: string) => {
+    const dbPath = getVersionedSymbolDbPath(version);
+    return fs.existsSync(dbPath) ? fs.statSync(dbPath).mtimeMs : 0;
+  };
+  const stale = symbolsMtime(from) !== cached.symbolsMtimeMs.from || symbolsMtime(to) !== cached.symbolsMtimeMs.to;
+  return stale ? null : cached.renames;
+}
+
+/** A match per symbol, best first, among candidates confident enough and backed by more than their signatures. */
+function pickBest(candidates: RenameMatch[], minConfidence: number): RenameMatch[] {
+  const taken = new Set<string>();
+  const picked: RenameMatch[] = [];
+  const ranked = candidates
+    .filter(c => c.confidence >= minConfidence && evidence(c.signals) >= MIN_EVIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+  for (const match of ranked) {
+    if (taken.has(`-${match.from}`) || taken.has(`+${match.to}`)) continue;
+    taken.add(`-${match.from}`);
+    taken.add(`+${match.to}`);
+    picked.push(match);
+  }
+  return picked;
+}
+
+function evidence(signals: RenameSignals): number {
+  return Math.max(signals.body ?? 0, signals.neighborhood ?? 0, signals.bytecode ?? 0);
+}
+
+/** Weighted mean of the signals present. */
+function score(signals: RenameSignals): { confidence: number; signals: RenameSignals } {
+  let total = 0;
+  let weight = 0;
+  const rounded: RenameSignals = { signature: 0 };
+  for (const name of Object.keys(WEIGHTS) as Array<keyof RenameSignals>) {
+    const value = signals[name];
+    if (value === undefined) continue;
+    total += value * WEIGHTS[name];
+    weight += WEIGHTS[name];
+    rounded[name] = round(value);
+  }
+  return { confidence: round(weight ? total / weight : 0), signals: rounded };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Items made unique by occurrence ("x", "x#2"), so sets compare as multisets. */
+function multiset(items: Iterable<string>): Set<string> {
+  const seen = new Map<string, number>();
+  const set = new Set<string>();
+  for (const item of items) {
+    const n = (seen.get(item) ?? 0) + 1;
+    seen.set(item, n);
+    set.add(n === 1 ? item : `${item}#${n}`);
+  }
+  return set;
+}
+
+/** Bodies shorter than this (an empty method, a plain getter) look alike whatever they belong to. */
+const MIN_BODY_TOKENS = 8;
+const SELF = '\u0000self';
+
+/** Hashed token trigrams, with `self` (the symbol's own name) blanked out. */
+function trigrams(tokens: string[], self: string): Set<number> {
+  const texts = tokens.map(t => (t === self ? SELF : t));
+  const set = new Set<number>();
+  if (texts.length > 0 && texts.length < 3) set.add(fnv1a(texts.join('\u0001')));
+  for (let i = 0; i + 2 < texts.length; i++) set.add(fnv1a(`${texts[i]}\u0001${texts[i + 1]}\u0001${texts[i + 2]}`));
+  return set;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return hash >>> 0;
+}
+
+/** One version's callgraph, for the neighborhood and bytecode signals. */
+class CallgraphSide {
+  private readonly hashes = new Map<string, Map<string, string>>();
+
+  private constructor(private readonly db: HeldCallgraphDb, private readonly hasCodeHashes: boolean) {}
+
+  /** The callgraph of `version`, held open until release(); null when it has none. */
+  static async open(version: string): Promise<CallgraphSide | null> {
+    if (!hasCallgraphDb(version)) return null;
+    const db = await acquireDb(version);
+    try {
+      const hasCodeHashes = db.all(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'method_code'`).length > 0;
+      return new CallgraphSide(db, hasCodeHashes);
+    } catch (e) {
+      db.release();
+      throw e;
+    }
+  }
+
+  release(): void {
+    this.db.release();
+  }
+
+  /** [class, method] of what a method calls and is called by, or of the methods accessing a field. */
+  neighbors(className: string, member: Member): Array<[string, string]> {
+    const pairs = (rows: Array<Record<string, unknown>>, cls: string, method: string) =>
+      rows.map(r => [r[cls] as string, r[method] as string] as [string, string]);
+    if (!member.code) {
+      return pairs(this.db.all(
+        'SELECT DISTINCT caller_class, caller_method FROM field_access WHERE field_class = ? AND field_name = ?',
+        [className, member.name]
+      ), 'caller_class', 'caller_method');
+    }
+    const params = [className, member.name, `(${member.params.join(',')})`];
+    return [
+      ...pairs(this.db.all(
+        'SELECT DISTINCT callee_class, callee_method FROM calls WHERE caller_class = ? AND caller_method = ? AND caller_desc = ?', params
+      ), 'callee_class', 'callee_method'),
+      ...pairs(this.db.all(
+        'SELECT DISTINCT caller_class, caller_method FROM calls WHERE callee_class = ? AND callee_method = ? AND callee_desc = ?', params
+      ), 'caller_class', 'caller_method'),
+    ];
+  }
+
+  /** Classes whose methods the class calls or that call its methods. */
+  classNeighbors(className: string): string[] {
+    return [
+      ...this.db.all('SELECT DISTINCT callee_class AS name FROM calls WHERE caller_class = ?', [className]),
+      ...this.db.all('SELECT DISTINCT caller_class AS name FROM calls WHERE callee_class = ?', [className]),
+    ].map(r => r.name as string).filter(name => name !== className);
+  }
+
+  /** Code hashes of the class's methods by "name(params)"; null for a callgraph without them. */
+  codeHashes(className: string): Map<string, string> | null {
+    if (!this.hasCodeHashes) return null;
+    let hashes = this.hashes.get(className);
+    if (!hashes) {
+      hashes = new Map();
+      for (const row of this.db.all('SELECT method_name, method_desc, code_hash FROM method_code WHERE class_name = ?', [className])) {
+        hashes.set(`${row.method_name}${row.method_desc}`, row.code_hash as string);
+      }
+      this.hashes.set(className, hashes);
+    }
+    return hashes;
+  }
+}
+
+interface Side {
+  index: IndexSnapshot;
+  graph: CallgraphSide | null;
+}
+
+/** Scores pairs of old and new symbols. */
+class Scorer {
+  /** Old class name to new, for the classes paired so far; types and neighbors are compared through it. */
+  readonly classes = new Map<string, string>();
+  private readonly classTrigrams = new Map<string, Set<number>>();
+
+  constructor(private readonly before: Side, private readonly after: Side) {}
+
+  scoreClasses(oldName: string, newName: string): { confidence: number; signals: RenameSignals } {
+    const oldInfo = this.before.index.info(oldName);
+    const newInfo = this.after.index.info(newName);
+    const oldTrigrams = this.trigramsOf(this.before.index, oldName, oldInfo);
+    const newTrigrams = this.trigramsOf(this.after.index, newName, newInfo);
+
+    const shapes = (className: string, info: ClassInfo, map: (type: string) => string) => multiset(
+      [...membersOf(className, info).values()].map(m => `${m.kind} ${m.modifiers.includes('static')} ${map(m.type)}(${m.params.map(map).join(',')})`)
+    );
+    const signals: RenameSignals = {
+      signature: (
+        (oldInfo.kind === newInfo.kind ? 1 : 0)
+        + jaccard(new Set(this.before.index.supertypes(oldName).map(this.mapType)), new Set(this.after.index.supertypes(newName)))
+        + jaccard(shapes(oldName, oldInfo, this.mapType), shapes(newName, newInfo, t => t))
+      ) / 3,
+    };
+    if (oldTrigrams && newTrigrams) signals.body = jaccard(oldTrigrams, newTrigrams);
+
+    const { graph: oldGraph } = this.before;
+    const { graph: newGraph } = this.after;
+    if (oldGraph && newGraph) {
+      const oldNeighbors = new Set(oldGraph.classNeighbors(oldName).map(this.mapType));
+      const newNeighbors = new Set(newGraph.classNeighbors(newName));
+      if (oldNeighbors.size || newNeighbors.size) signals.neighborhood = jaccard(oldNeighbors, newNeighbors);
+
+      const oldHashes = oldGraph.codeHashes(oldName);
+      const newHashes = newGraph.codeHashes(newName);
+      if (oldHashes?.size && newHashes?.size) signals.bytecode = jaccard(multiset(oldHashes.values()), multiset(newHashes.values()));
+    }
+    return score(signals);
+  }
+
+  /**
+   * Renamed-class candidates: for each added class, the removed classes
+   * sharing the most distinctive trigrams with it, scored in full.
+   */
+  classCandidates(removed: string[], added: string[]): RenameMatch[] {
+    const oldSets = new Map(removed.map(name => [name, this.trigramsOf(this.before.index, name)] as const));
+    const newSets = new Map(added.map(name => [name, this.trigramsOf(this.after.index, name)] as const));
+
+    const classCount = new Map<number, number>();
+    for (const set of [...oldSets.values(), ...newSets.values()]) {
+      for (const trigram of set ?? []) classCount.set(trigram, (classCount.get(trigram) ?? 0) + 1);
+    }
+    const holders = new Map<number, string[]>();
+    for (const [name, set] of oldSets) {
+      for (const trigram of set ?? []) {
+        if (classCount.get(trigram)! > MAX_TRIGRAM_CLASSES) continue;
+        const list = holders.get(trigram);
+        if (list) list.push(name);
+        else holders.set(trigram, [name]);
+      }
+    }
+
+    const candidates: RenameMatch[] = [];
+    for (const [newName, set] of newSets) {
+      const shared = new Map<string, number>();
+      for (const trigram of set ?? []) {
+        for (const oldName of holders.get(trigram) ?? []) shared.set(oldName, (shared.get(oldName) ?? 0) + 1);
+      }
+      const best = [...shared].sort((a, b) => b[1] - a[1]).slice(0, CLASS_CANDIDATES);
+      for (const [oldName] of best) {
+        candidates.push({ kind: 'class', from: oldName, to: newName, ...this.scoreClasses(oldName, newName) });
+      }
+    }
+    return candidates;
+  }
+
+  /** Every pairing of a member gone from the old class with one new in the new class, of the same kind. */
+  memberCandidates(oldName: string, newName: string): { candidates: RenameMatch[]; removed: number } {
+    const oldMembers = membersOf(oldName, this.before.index.info(oldName));
+    const newMembers = membersOf(newName, this.after.index.info(newName));
+    const gone = [...oldMembers].filter(([id]) => !newMembers.has(id)).map(([, m]) => m);
+    const fresh = [...newMembers].filter(([id]) => !oldMembers.has(id)).map(([, m]) => m);
+
+    const candidates: RenameMatch[] = [];
+    const oldFeatures = new Map<Member, MemberFeatures>();
+    const newFeatures = new Map<Member, MemberFeatures>();
+    for (const before of gone) {
+      for (const after of fresh) {
+        if (before.kind !== after.kind) continue;
+        const a = oldFeatures.get(before) ?? this.features(this.before, oldName, before, this.mapType);
+        const b = newFeatures.get(after) ?? this.features(this.after, newName, after, t => t);
+        oldFeatures.set(before, a);
+        newFeatures.set(after, b);
+        candidates.push({
+          kind: before.kind,
+          from: `${oldName}#${before.key}`,
+          to: `${newName}#${after.key}`,
+          ...score(this.compareMembers(before, a, after, b)),
+        });
+      }
+    }
+    return { candidates, removed: gone.length };
+  }
+
+  private compareMembers(before: Member, a: MemberFeatures, after: Member, b: MemberFeatures): RenameSignals {
+    const isStatic = (m: Member) => m.modifiers.includes('static');
+    const parts = [isStatic(before) === isStatic(after) ? 1 : 0];
+    if (before.kind === 'method' || before.kind === 'field' || before.kind === 'recordComponent') {
+      parts.push(this.mapType(before.type) === after.type ? 1 : 0);
+    }
+    if (before.code) {
+      const same = before.params.filter((p, i) => this.mapType(p) === after.params[i]).length;
+      parts.push(before.params.length === after.params.length ? (before.params.length ? same / before.params.length : 1) : 0);
+    } else if (before.kind === 'field') {
+      const isFinal = (m: Member) => m.modifiers.includes('final');
+      parts.push(isFinal(before) === isFinal(after) ? 1 : 0);
+    }
+    const signals: RenameSignals = { signature: parts.reduce((x, y) => x + y, 0) / parts.length };
+
+    // Tiny bodies and their bytecode look alike whatever they belong to.
+    const telling = (a.bodySize ?? 0) >= MIN_BODY_TOKENS || (b.bodySize ?? 0) >= MIN_BODY_TOKENS;
+    if (a.body && b.body && telling) signals.body = jaccard(a.body, b.body);
+    if (a.codeHash && b.codeHash && telling) signals.bytecode = a.codeHash === b.codeHash ? 1 : 0;
+    if (a.neighbors && b.neighbors && (a.neighbors.size || b.neighbors.size)) signals.neighborhood = jaccard(a.neighbors, b.neighbors);
+    return signals;
+  }
+
+  private features(side: Side, className: string, member: Member, map: (type: string) => string): MemberFeatures {
+    const features: MemberFeatures = {};
+    if (member.code) {
+      const tokens = side.index.bodyTokens(className, member);
+      if (tokens) {
+        features.body = trigrams(tokens, member.name);
+        features.bodySize = tokens.length;
+      }
+      features.codeHash = side.graph?.codeHashes(className)?.get(`${member.name}(${member.params.join(',')})`);
+    }
+    if (side.graph) {
+      features.neighbors = new Set(side.graph.neighbors(className, member).map(([cls, method]) => `${map(cls)}.${method}`));
+    }
+    return features;
+  }
+
+  private trigramsOf(index: IndexSnapshot, className: string, info?: ClassInfo): Set<number> | null {
+    const key = `${index.version}:${className}`;
+    let set = this.classTrigrams.get(key);
+    if (!set) {
+      const tokens = index.lineTokens(className, info ?? index.info(className));
+      if (!tokens) return null;
+      set = trigrams(tokens, innermostName(classPart(className)));
+      this.classTrigrams.set(key, set);
+    }
+    return set;
+  }
+
+  /** A type of the old version as it is called in the new one. */
+  private readonly mapType = (type: string): string => {
+    const dims = type.match(/(\[\])*$/)![0];
+    const base = dims ? type.slice(0, -dims.length) : type;
+    return (this.classes.get(base) ?? base) + dims;
+  };
+}
+
+interface MemberFeatures {
+  body?: Set<number>;
+  bodySize?: number;
+  codeHash?: string;
+  /** "Class.method" of callers and callees (accessors, for fields), old classes mapped to new. */
+  neighbors?: Set<string>;
+}
@@ -1,25 +1,109 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { 
-  getMinecraftSourceDir, 
+import type { Database, SqlValue } from 'sql.js';
+import {
+  getMinecraftSourceDir,
   getFabricApiCacheDir,
   getVersionedIndexManifestPath,
-  getVersionedPackageIndexPath,
+  getVersionedSymbolDbPath,
   isVersionIndexed
 } from '../utils/paths.js';
-import { SearchResult, PackageIndex, ClassInfo, MethodInfo, IndexManifest } from '../utils/types.js';
+import { SearchResult, ClassInfo, MethodInfo, IndexManifest, ClassKind, NestingKind } from '../utils/types.js';
+import { parseMethodDescriptor, typeNameMatches } from '../utils/descriptor.js';
+import { openSymbolDb, innermostName } from '../indexer/symbol-db.js';
+import { parseSearchQuery, queryWords, scoreName, SCORE_EXACT } from '../utils/symbol-match.js';
+import {
+  collectAncestors,
+  collectDescendants,
+  HierarchyEntry,
+  HierarchyGraph,
+  Namespace,
+  TypeNode,
+} from '../indexer/hierarchy.js';
+
+/** Picks one overload of a method; with neither field set, every overload matches. */
+export interface MethodSelector {
+  /** Parameter types in order, as simple, source or binary names ("BlockPos", "int[]"). */
+  paramTypes?: string[];
+  /** JVM descriptor, e.g. "(Lnet/minecraft/core/BlockPos;I)Z"; the return type may be left off. */
+  descriptor?: string;
+}
+
+/** A method or constructor ("<init>") as the index records it, for filtering search hits. */
+export interface MethodIdentity {
+  className: string;
+  name: string;
+  /** Erased JVM descriptor, e.g. "(Lnet/minecraft/core/BlockPos;I)Z". */
+  descriptor: string;
+}
+
+export type MethodFilter = (method: MethodIdentity) => boolean;
+
+export interface PageOptions {
+  offset?: number;
+  limit?: number;
+}
+
+/** One page of a larger result; `total` counts every match, not just this page. */
+export interface Page<T> {
+  items: T[];
+  total: number;
+  offset: number;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+type SearchType = 'class' | 'method' | 'field' | 'constructor';
+
+const SEARCH_KINDS: Record<SearchType, string[]> = {
+  class: ['class'],
+  method: ['method'],
+  field: ['field', 'enumConstant', 'recordComponent'],
+  constructor: ['constructor'],
+};
+
+/** Rank of a hit found only through its signature (e.g. a parameter type), below every name match. */
+const SIGNATURE_SCORE = 0.2;
+/** Names scored per loose CamelHump or typo lookup in `search`. */
+const FUZZY_CANDIDATES = 2000;
+
+type Row = Record<string, SqlValue>;
 
 export class SourceStore {
   private version: string | null = null;
   private manifest: IndexManifest | null = null;
-  private packageCache: Map<string, PackageIndex> = new Map();
+  private db: Database | null = null;
+  /** mtime of the open symbols.db, so a rebuild by the CLI is picked up. */
+  private dbMtime = 0;
+  private opening: Promise<void> | null = null;
+
+  /**
+   * Switch to a version and open its symbol database. Resolves once queries
+   * can run; calling it again for the current version is cheap.
+   */
+  setVersion(version: string): Promise<void> {
+    const dbPath = getVersionedSymbolDbPath(version);
+    const mtime = fs.existsSync(dbPath) ? fs.statSync(dbPath).mtimeMs : 0;
 
-  setVersion(version: string): void {
-    if (this.version !== version) {
+    if (this.version !== version || (this.dbMtime !== mtime && !this.opening)) {
+      this.close();
       this.version = version;
-      this.manifest = null;
-      this.packageCache.clear();
+      this.dbMtime = mtime;
+      this.opening = openSymbolDb(dbPath).then(db => {
+        if (this.version === version) {
+          this.db = db;
+          this.opening = null;
+        } else {
+          db?.close();
+        }
+      }, err => {
+        if (this.version === version) this.opening = null;
+        throw err;
+      });
     }
+
+    return this.opening ?? Promise.resolve();
   }
 
   getVersion(): string | null {
@@ -30,14 +114,21 @@ export class SourceStore {
     if (!this.version) return false;
     return isVersionIndexed(this.version);
   }
-  
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+    this.opening = null;
+    this.manifest = null;
+  }
+
   private getManifest(): IndexManifest | null {
     if (!this.version) return null;
-    
+
     if (!this.manifest) {
       const manifestPath = getVersionedIndexManifestPath(this.version);
       if (!fs.existsSync(manifestPath)) return null;
-      
+
       try {
         this.manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
       } catch {
@@ -46,308 +137,494 @@ export class SourceStore {
     }
     return this.manifest;
   }
-  
+
   getMinecraftVersion(): string | null {
     return this.getManifest()?.minecraftVersion || null;
   }
-  
+
   getFabricApiVersion(): string | null {
     return this.getManifest()?.fabricApiVersion || null;
   }
-  
-  listClasses(packagePath: string): { className: string; simpleName: string; sourcePath: string }[] {
-    const manifest = this.getManifest();
-    if (!manifest) return [];
-    
-    const results: { className: string; simpleName: string; sourcePath: string }[] = [];
-    const packageLower = packagePath.toLowerCase();
-    
-    const namespaces: Array<'minecraft' | 'fabric'> = ['minecraft', 'fabric'];
-    
-    for (const namespace of namespaces) {
-      const packages = namespace === 'minecraft' ? manifest.packages.minecraft : manifest.packages.fabric;
-      
-      for (const packageName of packages) {
-        if (packageName.toLowerCase() === packageLower || packageName.toLowerCase().startsWith(packageLower + '.')) {
-          const pkgIndex = this.getPackage(namespace, packageName);
-          if (!pkgIndex) continue;
-          
-          for (const [simpleName, classInfo] of Object.entries(pkgIndex.classes)) {
-            results.push({
-              className: `${packageName}.${simpleName}`,
-              simpleName,
-              sourcePath: this.resolveSourcePath(classInfo.sourcePath, namespace),
-            });
-          }
-        }
-      }
-    }
-    
-    return results;
+
+  listClasses(
+    packagePath: string,
+    page: PageOptions = {}
+  ): Page<{ className: string; simpleName: string; sourcePath: string }> {
+    const { offset, limit } = pageBounds(page);
+    const pattern = escapeLike(packagePath);
+
+    // Anonymous and local classes are reachable through their outer
+    // class; listing them would bury the named types. LIKE is
+    // case-insensitive, matching the package and every subpackage.
+    const where = `(package LIKE ? ESCAPE '\\' OR package LIKE ? ESCAPE '\\') AND nesting IN ('top-level', 'member')`;
+    const params = [pattern, `${pattern}.%`];
+
+    const total = this.count(`SELECT COUNT(*) FROM types WHERE ${where}`, params);
+    const items = this.queryAll(
+      `SELECT name, simple_name, source_path, namespace FROM types WHERE ${where} ORDER BY name LIMIT ? OFFSET ?`,
+      [...params, limit, offset]
+    ).map(row => ({
+      className: row.name as string,
+      simpleName: row.simple_name as string,
+      sourcePath: this.resolveSourcePath(row.source_path as string, row.namespace as Namespace),
+    }));
+
+    return { items, total, offset };
   }
-  
+
   listPackages(namespace?: 'minecraft' | 'fabric'): string[] {
     const manifest = this.getManifest();
     if (!manifest) return [];
-    
+
     if (namespace) {
       return namespace === 'minecraft' ? manifest.packages.minecraft : manifest.packages.fabric;
     }
-    
+
     return [...manifest.packages.minecraft, ...manifest.packages.fabric];
   }
-  
+
   findHierarchy(
     className: string,
-    direction: 'subclasses' | 'implementors'
-  ): { className: string; sourcePath: string }[] {
-    const manifest = this.getManifest();
-    if (!manifest) return [];
-    
-    const results: { className: string; sourcePath: string }[] = [];
-    
-    const namespaces: Array<'minecraft' | 'fabric'> = ['minecraft', 'fabric'];
-    
-    for (const namespace of namespaces) {
-      const packages = namespace === 'minecraft' ? manifest.packages.minecraft : manifest.packages.fabric;
-      
-      for (const packageName of packages) {
-        const pkgIndex = this.getPackage(namespace, packageName);
-        if (!pkgIndex) continue;
-        
-        for (const [simpleName, classInfo] of Object.entries(pkgIndex.classes)) {
-          const fullName = `${packageName}.${simpleName}`;
-          
-          if (direction === 'subclasses') {
-            if (classInfo.super === className) {
-              results.push({
-                className: fullName,
-                sourcePath: this.resolveSourcePath(classInfo.sourcePath, namespace),
-              });
-            }
-          } else if (direction === 'implementors') {
-            if (classInfo.interfaces && classInfo.interfaces.includes(className)) {
-              results.push({
-                className: fullName,
-                sourcePath: this.resolveSourcePath(classInfo.sourcePath, namespace),
-              });
-            }
-          }
-        }
-      }
+    direction: 'subclasses' | 'implementors',
+    page: PageOptions = {}
+  ): Page<{ className: string; sourcePath: string }> {
+    const { offset, limit } = pageBounds(page);
+
+    // Supertypes are stored as binary names; accept "Outer.Inner" too.
+    const target = this.resolveClass(className)?.binaryName ?? className;
+    const params = [target, direction === 'subclasses' ? 0 : 1];
+
+    const total = this.count('SELECT COUNT(*) FROM inheritance WHERE super = ? AND is_interface = ?', params);
+    const items = this.queryAll(`
+      SELECT i.sub, t.source_path, t.namespace
+      FROM inheritance i JOIN types t ON t.name = i.sub
+      WHERE i.super = ? AND i.is_interface = ?
+      ORDER BY i.sub LIMIT ? OFFSET ?
+    `, [...params, limit, offset]).map(row => ({
+      className: row.sub as string,
+      sourcePath: this.resolveSourcePath(row.source_path as string, row.namespace as Namespace),
+    }));
+
+    return { items, total, offset };
+  }
+
+  /**
+   * Transitive supertypes or subtypes of a class, nearest first. Each type
+   * is reported once, reached through its shortest path from `className`.
+   */
+  findTypeHierarchy(
+    className: string,
+    direction: 'ancestors' | 'descendants',
+    maxDepth?: number
+  ): { root: string; entries: HierarchyEntry[] } | null {
+    if (!this.db) return null;
+
+    const root = this.resolveClass(className)?.binaryName ?? className;
+    const graph = this.hierarchyGraph();
+    const entries = direction === 'ancestors'
+      ? collectAncestors(graph, root, maxDepth)
+      : collectDescendants(graph, root, maxDepth);
+
+    return { root, entries };
+  }
+
+  /** The inheritance table as a graph; every step of a walk is an indexed lookup. */
+  private hierarchyGraph(): HierarchyGraph {
+    return {
+      node: name => {
+        const row = this.queryOne(
+          'SELECT kind, abstract, nesting, super, namespace, source_path FROM types WHERE name = ?',
+          [name]
+        );
+        if (!row) return null;
+        const node: TypeNode = {
+          kind: row.kind as ClassKind,
+          abstract: row.abstract === 1,
+          nesting: row.nesting as NestingKind,
+          super: row.super as string | null,
+          interfaces: this.interfacesOf(name),
+          namespace: row.namespace as Namespace,
+          sourcePath: row.source_path as string,
+        };
+        return node;
+      },
+      subtypes: name => this.queryAll('SELECT sub FROM inheritance WHERE super = ? ORDER BY sub', [name])
+        .map(row => row.sub as string),
+    };
+  }
+
+  /** Direct supertypes of every indexed type, superclass first, for whole-graph walks. */
+  supertypeMap(): Map<string, string[]> {
+    const map = new Map<string, string[]>();
+    for (const row of this.queryAll('SELECT sub, super FROM inheritance ORDER BY sub, is_interface, rowid')) {
+      const list = map.get(row.sub as string);
+      if (list) list.push(row.super as string);
+      else map.set(row.sub as string, [row.super as string]);
     }
-    
-    return results;
+    return map;
   }
-  
-  search(query: string, type?: 'class' | 'method' | 'field'): SearchResult[] {
-    const manifest = this.getManifest();
-    if (!manifest) return [];
-    
-    const results: SearchResult[] = [];
-    const queryLower = query.toLowerCase();
-    
-    for (const packageName of manifest.packages.minecraft) {
-      const pkgIndex = this.getPackage('minecraft', packageName);
-      if (!pkgIndex) continue;
-      
-      this.searchInPackage(pkgIndex, packageName, queryLower, type, 'minecraft', results);
+
+  private interfacesOf(name: string): string[] {
+    return this.queryAll('SELECT super FROM inheritance WHERE sub = ? AND is_interface = 1 ORDER BY rowid', [name])
+      .map(row => row.super as string);
+  }
+
+  /**
+   * Ranked symbol search. The query is a name, a CamelHump abbreviation
+   * ("CPL", "getBlkState") or a near miss, optionally narrowed with
+   * `owner:<type>` and `pkg:<package>`; see `scoreName` for the ranking.
+   * Symbols whose signature mentions the name rank after every name match.
+   * `field` also covers enum constants and record components; constructors
+   * are found by their class name, and are included unfiltered only when
+   * the query names the class exactly. With `methodFilter`, only the
+   * methods and constructors it accepts are kept.
+   */
+  search(query: string, type?: SearchType, page: PageOptions = {}, methodFilter?: MethodFilter): Page<SearchResult> {
+    const { offset, limit } = pageBounds(page);
+    const { text, owner, pkg, annotations } = parseSearchQuery(query);
+    const needle = text.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (!this.db || (!needle && !owner && !pkg && !annotations)) return { items: [], total: 0, offset };
+
+    const filters: string[] = [];
+    const params: SqlValue[] = [];
+    if (type) {
+      filters.push(`kind IN (${SEARCH_KINDS[type].map(() => '?').join(', ')})`);
+      params.push(...SEARCH_KINDS[type]);
     }
-    
-    for (const packageName of manifest.packages.fabric) {
-      const pkgIndex = this.getPackage('fabric', packageName);
-      if (!pkgIndex) continue;
-      
-      this.searchInPackage(pkgIndex, packageName, queryLower, type, 'fabric', results);
+    if (owner) {
+      const dotted = escapeLike(owner.replace(/\$/g, '.'));
+      filters.push(`owner_id IN (
+        SELECT id FROM types WHERE replace(name, '$', '.') LIKE ? ESCAPE '\\' OR replace(name, '$', '.') LIKE ? ESCAPE '\\'
+      )`);
+      params.push(dotted, `%.${dotted}`);
     }
-    
-    return results.slice(0, 50);
-  }
-  
-  private searchInPackage(
-    pkgIndex: PackageIndex,
-    packageName: string,
-    queryLower: string,
-    type: 'class' | 'method' | 'field' | undefined,
-    namespace: 'minecraft' | 'fabric',
-    results: SearchResult[]
-  ): void {
-    for (const [className, classInfo] of Object.entries(pkgIndex.classes)) {
-      const fullName = `${packageName}.${className}`;
-
-      if (!type || type === 'class') {
-        if (className.toLowerCase().includes(queryLower)) {
-          results.push({
-            type: 'class',
-            className: fullName,
-            name: className,
-            sourcePath: this.resolveSourcePath(classInfo.sourcePath, namespace),
-            kind: classInfo.kind,
-            superClass: classInfo.super,
-            interfaces: classInfo.interfaces,
-            fieldCount: classInfo.fields.length,
-            methodCount: classInfo.methods.length,
-          });
-        }
+    if (pkg) {
+      filters.push(`(package = ? OR package LIKE ? ESCAPE '\\')`);
+      params.push(pkg, `${escapeLike(pkg)}.%`);
+    }
+    for (const annotation of annotations ?? []) {
+      filters.push(`annotations LIKE ? ESCAPE '\\'`);
+      params.push(`% ${escapeLike(annotation.replace(/\$/g, '.'))} %`);
+    }
+
+    const hits = new Map<number, { kind: string; refId: number; name: string; score: number }>();
+    const keep = (row: Row, score: number) => {
+      const name = row.name as string;
+      // An unfiltered search only lists constructors for an exact class name.
+      if (!type && needle && row.kind === 'constructor' && name.toLowerCase() !== needle) return;
+      hits.set(row.rowid as number, { kind: row.kind as string, refId: row.ref_id as number, name, score });
+    };
+
+    if (!needle) {
+      const where = filters.length ? `WHERE ${filters.join(' AND ')}` : '';
+      for (const row of this.queryAll(`SELECT rowid, name, kind, ref_id FROM search_index ${where}`, params)) {
+        keep(row, SCORE_EXACT);
       }
+    } else {
+      // Candidates come from the full-text index: names starting with the
+      // query, and names with a word starting with each query word, are all
+      // scored. Looser CamelHumps (one letter per query word) and typos (the
+      // first two letters right, or swapped) are only tried on the
+      // FUZZY_CANDIDATES names closest to the query's length.
+      const words = queryWords(text);
+      const lookups = [`name:${needle}*`, words.map(w => `terms:${w}*`).join(' ')];
+      const fuzzyLookups: string[] = [];
+      if (words.some(w => w.length > 1)) fuzzyLookups.push(words.map(w => `terms:${w[0]}*`).join(' '));
+      if (needle.length >= 4) fuzzyLookups.push(`name:${needle.slice(0, 2)}*`, `name:${needle[1]}${needle[0]}*`);
 
-      if (!type || type === 'field') {
-        for (const field of classInfo.fields) {
-          if (field.name.toLowerCase().includes(queryLower)) {
-            results.push({
-              type: 'field',
-              className: fullName,
-              name: field.name,
-              signature: `${field.type} ${field.name}`,
-              sourcePath: this.resolveSourcePath(classInfo.sourcePath, namespace),
-              modifiers: field.modifiers,
-            });
-          }
-        }
+      const candidates = new Map<number, Row>();
+      const lookup = (match: string, suffix = '', suffixParams: SqlValue[] = []) => {
+        const rows = this.queryAll(
+          `SELECT rowid, name, terms, kind, ref_id FROM search_index WHERE ${['search_index MATCH ?', ...filters].join(' AND ')}${suffix}`,
+          [match, ...params, ...suffixParams]
+        );
+        for (const row of rows) candidates.set(row.rowid as number, row);
+      };
+      for (const match of lookups) lookup(match);
+      for (const match of fuzzyLookups) {
+        lookup(match, ' ORDER BY abs(length(name) - ?) LIMIT ?', [needle.length, FUZZY_CANDIDATES]);
+      }
+      for (const row of candidates.values()) {
+        const score = scoreName(text, row.name as string, (row.terms as string).split(' '));
+        if (score > 0) keep(row, score);
       }
 
-      if (!type || type === 'method') {
-        for (const method of classInfo.methods) {
-          if (method.name.toLowerCase().includes(queryLower)) {
-            results.push({
-              type: 'method',
-              className: fullName,
-              name: method.name,
-              signature: this.formatMethodSignature(method),
-              sourcePath: this.resolveSourcePath(classInfo.sourcePath, namespace),
-              lineStart: method.lineStart,
-              modifiers: method.modifiers,
-            });
-          }
-        }
+      const signatureRows = this.queryAll(
+        `SELECT rowid, name, kind, ref_id FROM search_index WHERE ${['search_index MATCH ?', ...filters].join(' AND ')}`,
+        [`signature:${needle}*`, ...params]
+      );
+      for (const row of signatureRows) {
+        if (!hits.has(row.rowid as number)) keep(row, SIGNATURE_SCORE);
       }
     }
+
+    let ranked = [...hits.values()].sort((a, b) =>
+      b.score - a.score || a.name.length - b.name.length || a.name.localeCompare(b.name) || a.refId - b.refId
+    );
+    if (methodFilter) {
+      const methods = this.methodIdentities(ranked.filter(h => h.kind === 'method' || h.kind === 'constructor').map(h => h.refId));
+      ranked = ranked.filter(h => (h.kind === 'method' || h.kind === 'constructor') && methodFilter(methods.get(h.refId)!));
+    }
+
+    const items = ranked
+      .slice(offset, offset + limit)
+      .map((hit): SearchResult | null => {
+        const result = this.hydrateSearchResult(hit.kind, hit.refId);
+        return result && { ...result, score: Math.round(hit.score * 100) / 100 };
+      })
+      .filter((r): r is SearchResult => r !== null);
+
+    return { items, total: ranked.length, offset };
   }
-  
-  getClass(className: string): { info: ClassInfo; source: string; sourcePath: string } | null {
-    const manifest = this.getManifest();
-    if (!manifest) return null;
-    
-    const { packageName, simpleClassName, namespace } = this.parseClassName(className);
-    
-    const pkgIndex = this.getPackage(namespace, packageName);
-    if (!pkgIndex) return null;
-    
-    const classInfo = pkgIndex.classes[simpleClassName];
-    if (!classInfo) return null;
-    
+
+  /** Owner, name and descriptor of methods by id, a chunk of ids per query. */
+  private methodIdentities(ids: number[]): Map<number, MethodIdentity> {
+    const identities = new Map<number, MethodIdentity>();
+    for (let i = 0; i < ids.length; i += 500) {
+      const chunk = ids.slice(i, i + 500);
+      const rows = this.queryAll(`
+        SELECT m.id, m.name, m.descriptor, t.name AS owner
+        FROM methods m JOIN types t ON t.id = m.type_id
+        WHERE m.id IN (${chunk.map(() => '?').join(', ')})
+      `, chunk);
+      for (const row of rows) {
+        identities.set(row.id as number, {
+          className: row.owner as string,
+          name: row.name as string,
+          descriptor: row.descriptor as string,
+        });
+      }
+    }
+    return identities;
+  }
+
+  private hydrateSearchResult(kind: string, refId: number): SearchResult | null {
+    if (kind === 'class') {
+      const row = this.queryOne(`
+        SELECT name, simple_name, kind, super, source_path, namespace, field_count, method_count, constructor_count, annotations
+        FROM types WHERE id = ?
+      `, [refId]);
+      if (!row) return null;
+      return {
+        type: 'class',
+        className: row.name as string,
+        name: row.simple_name as string,
+        sourcePath: this.resolveSourcePath(row.source_path as string, row.namespace as Namespace),
+        kind: row.kind as ClassKind,
+        superClass: row.super as string | null,
+        interfaces: this.interfacesOf(row.name as string),
+        fieldCount: row.field_count as number,
+        methodCount: row.method_count as number,
+        constructorCount: row.constructor_count as number,
+        ...(row.annotations ? { annotations: row.annotations as string } : {}),
+      };
+    }
+
+    const table = kind === 'method' || kind === 'constructor' ? 'methods' : 'fields';
+    const row = this.queryOne(`
+      SELECT m.name, m.signature, ${table === 'methods' ? 'm.descriptor' : 'NULL AS descriptor'}, m.modifiers, m.annotations, m.line_start,
+        t.name AS owner, t.simple_name, t.source_path, t.namespace
+      FROM ${table} m JOIN types t ON t.id = m.type_id
+      WHERE m.id = ?
+    `, [refId]);
+    if (!row) return null;
+
+    const modifiers = (row.modifiers as string).split(' ').filter(Boolean);
+    return {
+      type: kind as SearchResult['type'],
+      className: row.owner as string,
+      name: kind === 'constructor' ? innermostName(row.simple_name as string) : row.name as string,
+      signature: row.signature as string,
+      sourcePath: this.resolveSourcePath(row.source_path as string, row.namespace as Namespace),
+      lineStart: (row.line_start as number | null) ?? undefined,
+      modifiers: kind === 'enumConstant' || kind === 'recordComponent' ? undefined : modifiers,
+      ...(row.descriptor ? { descriptor: row.descriptor as string } : {}),
+      ...(row.annotations ? { annotations: row.annotations as string } : {}),
+    };
+  }
+
+  getClass(className: string): { info: ClassInfo; source: string; sourcePath: string; binaryName: string } | null {
+    const resolved = this.resolveClass(className);
+    if (!resolved) return null;
+
+    const { info: classInfo, namespace } = resolved;
     const sourcePath = this.resolveSourcePath(classInfo.sourcePath, namespace);
     const source = this.readSource(sourcePath);
-    
+
     if (!source) return null;
-    
-    return { info: classInfo, source, sourcePath };
+
+    return { info: classInfo, source, sourcePath, binaryName: resolved.binaryName };
+  }
+
+  /** Index entry for a class, without reading its source. Accepts the same names as getClass. */
+  getClassInfo(className: string): { info: ClassInfo; binaryName: string } | null {
+    const resolved = this.resolveClass(className);
+    return resolved && { info: resolved.info, binaryName: resolved.binaryName };
+  }
+
+  /**
+   * Look up a class by fully qualified name. Nested types resolve from
+   * either their source form ("a.b.Outer.Inner") or their binary form
+   * ("a.b.Outer$Inner"): the package boundary is found by trying each
+   * dot from the right.
+   */
+  private resolveClass(className: string): {
+    info: ClassInfo;
+    namespace: Namespace;
+    binaryName: string;
+  } | null {
+    const parts = className.split('.');
+
+    for (let i = parts.length - 1; i >= 1; i--) {
+      const binaryName = `${parts.slice(0, i).join('.')}.${parts.slice(i).join('$')}`;
+      const row = this.queryOne('SELECT info, namespace FROM types WHERE name = ?', [binaryName]);
+      if (row) {
+        return { info: JSON.parse(row.info as string), namespace: row.namespace as Namespace, binaryName };
+      }
+    }
+
+    return null;
   }
-  
+
+  /**
+   * Every overload of `methodName` plus the ones that satisfy `selector`
+   * (all of them when no selector is given), each with its source. Pass
+   * "<init>" or the class's simple name for constructors. Returns null only
+   * when the class itself is unknown.
+   */
   getMethod(
     className: string,
     methodName: string,
-    signatureHint?: string
-  ): { method: MethodInfo; source: string; classInfo: ClassInfo; sourcePath: string } | null {
+    selector: MethodSelector = {}
+  ): {
+    matches: Array<{ method: MethodInfo; source: string }>;
+    overloads: MethodInfo[];
+    classInfo: ClassInfo;
+    sourcePath: string;
+    binaryName: string;
+  } | null {
     const classResult = this.getClass(className);
     if (!classResult) return null;
-    
-    const { info, source, sourcePath } = classResult;
-    
-    let method = info.methods.find(m => m.name === methodName);
-    
-    if (!method) {
-      method = info.methods.find(m => 
-        m.name.toLowerCase() === methodName.toLowerCase()
-      );
+
+    const { info, source, sourcePath, binaryName } = classResult;
+
+    let overloads = info.methods.filter(m => m.name === methodName);
+    if (overloads.length === 0) {
+      overloads = info.methods.filter(m => m.name.toLowerCase() === methodName.toLowerCase());
     }
-    
-    if (!method) return null;
-    
-    const methodSource = this.extractMethodSource(source, method);
-    
-    return { 
-      method, 
-      source: methodSource, 
-      classInfo: info, 
-      sourcePath 
-    };
-  }
-  
-  private parseClassName(fullName: string): { packageName: string; simpleClassName: string; namespace: 'minecraft' | 'fabric' } {
-    const parts = fullName.split('.');
-    
-    if (fullName.startsWith('net.fabricmc')) {
-      const className = parts.pop() || '';
-      return {
-        packageName: parts.join('.'),
-        simpleClassName: className,
-        namespace: 'fabric',
-      };
+    if (overloads.length === 0 && (methodName === '<init>' || methodName === innermostName(binaryName))) {
+      overloads = (info.constructors ?? []).map(c => ({
+        name: '<init>',
+        returnType: 'void',
+        params: c.params,
+        modifiers: c.modifiers,
+        lineStart: c.lineStart,
+        lineEnd: c.lineEnd,
+      }));
     }
-    
-    const className = parts.pop() || '';
-    return {
-      packageName: parts.join('.'),
-      simpleClassName: className,
-      namespace: 'minecraft',
-    };
+
+    const matches = overloads
+      .filter(m => matchesSelector(m, selector))
+      .map(method => ({ method, source: this.extractMethodSource(source, method) }));
+
+    return { matches, overloads, classInfo: info, sourcePath, binaryName };
   }
-  
-  private getPackage(namespace: 'minecraft' | 'fabric', packageName: string): PackageIndex | null {
-    if (!this.version) return null;
-    
-    const cacheKey = `${namespace}:${packageName}`;
-    
-    if (!this.packageCache.has(cacheKey)) {
-      const indexPath = getVersionedPackageIndexPath(namespace, packageName, this.version);
-      if (fs.existsSync(indexPath)) {
-        try {
-          const pkg = JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
-          this.packageCache.set(cacheKey, pkg);
-        } catch {
-          return null;
-        }
-      }
+
+  /** Whether the class itself declares an overload of `methodName` that satisfies `selector`. */
+  declaresMethod(className: string, methodName: string, selector: MethodSelector = {}): boolean {
+    const info = this.resolveClass(className)?.info;
+    return !!info?.methods.some(m => m.name === methodName && matchesSelector(m, selector));
+  }
+
+  /** Whether the class itself declares `fieldName`: as a field, enum constant or record component. */
+  declaresField(className: string, fieldName: string): boolean {
+    const info = this.resolveClass(className)?.info;
+    if (!info) return false;
+    return info.fields.some(f => f.name === fieldName)
+      || !!info.enumConstants?.some(c => c.name === fieldName)
+      || !!info.recordComponents?.some(c => c.name === fieldName);
+  }
+
+  private queryAll(sql: string, params: SqlValue[] = []): Row[] {
+    if (!this.db) return [];
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: Row[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject());
+      return rows;
+    } finally {
+      stmt.free();
     }
-    
-    return this.packageCache.get(cacheKey) || null;
   }
-  
-  private resolveSourcePath(storedPath: string, namespace: 'minecraft' | 'fabric'): string {
+
+  private queryOne(sql: string, params: SqlValue[] = []): Row | null {
+    return this.queryAll(sql, params)[0] ?? null;
+  }
+
+  private count(sql: string, params: SqlValue[] = []): number {
+    const row = this.queryOne(sql, params);
+    return row ? Number(Object.values(row)[0]) : 0;
+  }
+
+  private resolveSourcePath(storedPath: string, namespace: Namespace): string {
     if (path.isAbsolute(storedPath)) {
       return storedPath;
     }
-    
+
     if (!this.version) return storedPath;
-    
+
     const manifest = this.getManifest();
     if (!manifest) return storedPath;
-    
+
     if (namespace === 'fabric' && manifest.fabricApiVersion) {
       return path.join(getFabricApiCacheDir(manifest.fabricApiVersion), storedPath);
     }
-    
+
     return path.join(getMinecraftSourceDir(this.version), storedPath);
   }
-  
+
   private readSource(sourcePath: string): string | null {
     if (!fs.existsSync(sourcePath)) return null;
     return fs.readFileSync(sourcePath, 'utf-8');
   }
-  
-  private formatMethodSignature(method: MethodInfo): string {
-    const params = method.params.map(p => `${p.type} ${p.name}`).join(', ');
-    return `${method.returnType} ${method.name}(${params})`;
-  }
-  
+
   private extractMethodSource(source: string, method: MethodInfo): string {
     const lines = source.split('\n');
     const startLine = Math.max(0, method.lineStart - 3);
     const endLine = Math.min(lines.length, method.lineEnd + 3);
-    
+
     return lines.slice(startLine, endLine).join('\n');
   }
 }
 
+function matchesSelector(method: MethodInfo, selector: MethodSelector): boolean {
+  let paramTypes = selector.paramTypes;
+  let returnType: string | null = null;
+
+  if (selector.descriptor) {
+    const parsed = parseMethodDescriptor(selector.descriptor);
+    if (!parsed) return false;
+    paramTypes = parsed.paramTypes;
+    returnType = parsed.returnType;
+  }
+
+  if (paramTypes) {
+    if (paramTypes.length !== method.params.length) return false;
+    if (!paramTypes.every((t, i) => typeNameMatches(t, method.params[i].type))) return false;
+  }
+  return !returnType || typeNameMatches(returnType, method.returnType);
+}
+
+function pageBounds(page: PageOptions): { offset: number; limit: number } {
+  return {
+    offset: Math.max(0, Math.floor(page.offset ?? 0)),
+    limit: Math.min(MAX_LIMIT, Math.max(1, Math.floor(page.limit ?? DEFAULT_LIMIT))),
+  };
+}
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, c => `\\${c}`);
+}
+
 export const sourceStore = new SourceStore();
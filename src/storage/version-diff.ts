@@ -0,0 +1,620 @@
+// API diff between two indexed versions, from their symbol databases.
+//
+// Classes are matched by binary name; one removed from a package and added
+// under the same simple name elsewhere, with no other class of that name
+// coming or going, counts as moved. A class whose source file has the same
+// content hash in both versions is unchanged without being loaded. The rest
+// are compared member by member: methods and constructors by name and
+// erased parameter types, fields, enum constants and record components by
+// name. A member in both versions has a changed signature when its
+// modifiers or erased type differ, and a changed body when the tokens
+// between its braces differ; comments, whitespace and line numbers don't
+// count, so code that only moved within the file is not reported.
+//
+// Local and anonymous classes are left out: their code is part of the body
+// of the method declaring them, and their numbering shifts between builds.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Database } from 'sql.js';
+import { formatConstructorSignature, formatMethodSignature, innermostName, openSymbolDb } from '../indexer/symbol-db.js';
+import { tokenize } from '../indexer/java-lexer.js';
+import type { Token, TokenStream } from '../indexer/java-lexer.js';
+import type { Namespace } from '../indexer/hierarchy.js';
+import type { ClassInfo, ClassKind, IndexManifest } from '../utils/types.js';
+import {
+  getFabricApiCacheDir,
+  getMinecraftSourceDir,
+  getVersionedIndexManifestPath,
+  getVersionedSymbolDbPath,
+} from '../utils/paths.js';
+
+export type ClassChange = 'added' | 'removed' | 'moved' | 'changed';
+export type MemberKind = 'method' | 'constructor' | 'field' | 'enumConstant' | 'recordComponent';
+/** "signature": modifiers or erased types changed; "body": same signature, different code. */
+export type MemberChange = 'added' | 'removed' | 'signature' | 'body';
+
+export interface MemberDiff {
+  kind: MemberKind;
+  change: MemberChange;
+  /** "name(params)" with erased parameter types for methods and constructors ("<init>(...)"), the name otherwise. */
+  key: string;
+  /** Declarations as written, in the old and new version; absent on the side the member doesn't exist. */
+  from?: string;
+  to?: string;
+  /** Lines in the new version, or the old one for removed members. */
+  lineStart?: number;
+  lineEnd?: number;
+}
+
+export interface ClassDiff {
+  /** Binary name in the new version (the old one for removed classes). */
+  className: string;
+  change: ClassChange;
+  /** Binary name in the old version, for moved classes. */
+  movedFrom?: string;
+  kind?: { from: ClassKind; to: ClassKind };
+  /** Direct supertypes (superclass and interfaces) gained and lost. */
+  supertypes: { added: string[]; removed: string[] };
+  /** Member changes; empty for added and removed classes. */
+  members: MemberDiff[];
+}
+
+export interface VersionDiff {
+  from: string;
+  to: string;
+  /** Package filter the diff was computed with; empty for all. */
+  packages: string[];
+  /** Sorted by class name. */
+  classes: ClassDiff[];
+  /** Classes in both versions with nothing to report. */
+  unchanged: number;
+  /** Whether method bodies were compared. */
+  bodies: boolean;
+  /** Classes whose bodies could not be compared because a source file is missing. */
+  missingSources: string[];
+}
+
+export interface VersionDiffOptions {
+  /** Packages (or classes) to report, with everything nested in them; moves count when either end is inside. */
+  packages?: string[];
+  /** Compare method bodies (needs both versions' sources); default true. */
+  bodies?: boolean;
+  progressCb?: (stage: string, progress: number, message: string) => void;
+}
+
+/** Compare the symbol indices of two versions; both must be indexed. */
+export async function diffVersions(from: string, to: string, options: VersionDiffOptions = {}): Promise<VersionDiff> {
+  const packages = options.packages ?? [];
+  const bodies = options.bodies ?? true;
+  const inScope = (name: string) => packages.length === 0 || packages.some(p => isWithin(name, p));
+
+  const before = await IndexSnapshot.open(from);
+  try {
+    const after = await IndexSnapshot.open(to);
+    try {
+      const removed = [...before.types.keys()].filter(name => !after.types.has(name));
+      const added = [...after.types.keys()].filter(name => !before.types.has(name));
+      const moves = pairMoves(removed, added);
+      const movedAway = new Set(moves.values());
+      const noChange = { added: [], removed: [] };
+
+      const classes: ClassDiff[] = [];
+      const missingSources = new Set<string>();
+      const comparison = new ClassComparison(before, after, bodies, missingSources);
+
+      for (const name of removed) {
+        if (!movedAway.has(name) && inScope(name)) classes.push({ className: name, change: 'removed', supertypes: noChange, members: [] });
+      }
+      for (const name of added) {
+        const origin = moves.get(name);
+        if (origin && (inScope(name) || inScope(origin))) classes.push(comparison.compare(origin, name));
+        else if (!origin && inScope(name)) classes.push({ className: name, change: 'added', supertypes: noChange, members: [] });
+      }
+
+      const common = [...after.types.keys()].filter(name => before.types.has(name) && inScope(name)).sort();
+      let unchanged = 0;
+      for (let i = 0; i < common.length; i++) {
+        const name = common[i];
+        const diff = before.hash(name) === after.hash(name) ? null : comparison.compare(name, name);
+        if (diff && (diff.kind || diff.supertypes.added.length || diff.supertypes.removed.length || diff.members.length)) {
+          classes.push(diff);
+        } else {
+          unchanged++;
+        }
+        if (options.progressCb && (i + 1) % 1000 === 0) {
+          options.progressCb('diff', Math.floor(((i + 1) / common.length) * 100), `Compared ${i + 1} of ${common.length} classes...`);
+        }
+      }
+
+      classes.sort((a, b) => compareNames(a.className, b.className));
+      return { from, to, packages, classes, unchanged, bodies, missingSources: [...missingSources].sort() };
+    } finally {
+      after.close();
+    }
+  } finally {
+    before.close();
+  }
+}
+
+/** Whether `className` is `scope` or lies in it: a package prefix, or an enclosing class. */
+function isWithin(className: string, scope: string): boolean {
+  return className === scope || className.startsWith(`${scope}.`) || className.startsWith(`${scope}$`);
+}
+
+/** Binary name without the package: "Outer$Inner". */
+export function classPart(className: string): string {
+  return className.slice(className.lastIndexOf('.') + 1);
+}
+
+/** New name to old name, for classes that are the only ones of their simple name to go and come. */
+export function pairMoves(removed: string[], added: string[]): Map<string, string> {
+  const group = (names: string[]) => {
+    const bySimpleName = new Map<string, string[]>();
+    for (const name of names) {
+      const list = bySimpleName.get(classPart(name));
+      if (list) list.push(name);
+      else bySimpleName.set(classPart(name), [name]);
+    }
+    return bySimpleName;
+  };
+
+  const gone = group(removed);
+  const moves = new Map<string, string>();
+  for (const [simple, names] of group(added)) {
+    const origins = gone.get(simple);
+    if (names.length === 1 && origins?.length === 1) moves.set(names[0], origins[0]);
+  }
+  return moves;
+}
+
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Declaration lines, 1-based and inclusive; absent in indices built before they were recorded. */
+export interface LineRange {
+  lineStart?: number;
+  lineEnd?: number;
+}
+
+/** A member reduced to what the diff compares. */
+export interface Member extends LineRange {
+  kind: MemberKind;
+  key: string;
+  name: string;
+  /** Erased return or field type; "" for constructors and enum constants. */
+  type: string;
+  /** Erased parameter types of methods and constructors. */
+  params: string[];
+  modifiers: string[];
+  /** Modifiers and erased type; a difference is a signature change. */
+  shape: string;
+  declaration: string;
+  /** Methods and constructors, whose bodies are compared. */
+  code: boolean;
+}
+
+/** The members of a class, keyed by kind and key ("method:tick()"). */
+export function membersOf(className: string, info: ClassInfo): Map<string, Member> {
+  const members = new Map<string, Member>();
+  const add = (member: Member) => members.set(`${member.kind}:${member.key}`, member);
+  const declare = (modifiers: string[], rest: string) => [...modifiers, rest].join(' ');
+
+  for (const method of info.methods) {
+    add({
+      kind: 'method',
+      key: `${method.name}(${method.params.map(p => p.type).join(',')})`,
+      name: method.name,
+      type: method.returnType,
+      params: method.params.map(p => p.type),
+      modifiers: method.modifiers,
+      shape: `${method.modifiers.join(' ')} ${method.returnType}`,
+      declaration: declare(method.modifiers, formatMethodSignature(method)),
+      lineStart: method.lineStart,
+      lineEnd: method.lineEnd,
+      code: true,
+    });
+  }
+  const simpleName = innermostName(classPart(className));
+  for (const ctor of info.constructors ?? []) {
+    add({
+      kind: 'constructor',
+      key: `<init>(${ctor.params.map(p => p.type).join(',')})`,
+      name: '<init>',
+      type: '',
+      params: ctor.params.map(p => p.type),
+      modifiers: ctor.modifiers,
+      shape: ctor.modifiers.join(' '),
+      declaration: declare(ctor.modifiers, formatConstructorSignature(simpleName, ctor)),
+      lineStart: ctor.lineStart,
+      lineEnd: ctor.lineEnd,
+      code: true,
+    });
+  }
+  for (const field of info.fields) {
+    add({
+      kind: 'field',
+      key: field.name,
+      name: field.name,
+      type: field.type,
+      params: [],
+      modifiers: field.modifiers,
+      shape: `${field.modifiers.join(' ')} ${field.type}`,
+      declaration: declare(field.modifiers, `${field.typeText ?? field.type} ${field.name}`),
+      lineStart: field.lineStart,
+      lineEnd: field.lineEnd,
+      code: false,
+    });
+  }
+  for (const constant of info.enumConstants ?? []) {
+    add({
+      kind: 'enumConstant',
+      key: constant.name,
+      name: constant.name,
+      type: '',
+      params: [],
+      modifiers: [],
+      shape: '',
+      declaration: constant.args !== undefined ? `${constant.name}(${constant.args})` : constant.name,
+      lineStart: constant.lineStart,
+      lineEnd: constant.lineEnd,
+      code: false,
+    });
+  }
+  for (const component of info.recordComponents ?? []) {
+    add({
+      kind: 'recordComponent',
+      key: component.name,
+      name: component.name,
+      type: component.type,
+      params: [],
+      modifiers: [],
+      shape: component.type,
+      declaration: `${component.typeText ?? component.type} ${component.name}`,
+      lineStart: component.lineStart,
+      lineEnd: component.lineEnd,
+      code: false,
+    });
+  }
+  return members;
+}
+
+/** Compares one class across the two versions, member by member. */
+class ClassComparison {
+  constructor(
+    private readonly before: IndexSnapshot,
+    private readonly after: IndexSnapshot,
+    private readonly bodies: boolean,
+    private readonly missingSources: Set<string>
+  ) {}
+
+  compare(oldName: string, newName: string): ClassDiff {
+    const oldInfo = this.before.info(oldName);
+    const newInfo = this.after.info(newName);
+    const oldSupers = this.before.supertypes(oldName);
+    const newSupers = this.after.supertypes(newName);
+
+    const diff: ClassDiff = {
+      className: newName,
+      change: oldName === newName ? 'changed' : 'moved',
+      supertypes: {
+        added: newSupers.filter(s => !oldSupers.includes(s)),
+        removed: oldSupers.filter(s => !newSupers.includes(s)),
+      },
+      members: [],
+    };
+    if (oldName !== newName) diff.movedFrom = oldName;
+    if (oldInfo.kind !== newInfo.kind) diff.kind = { from: oldInfo.kind, to: newInfo.kind };
+
+    const oldMembers = membersOf(oldName, oldInfo);
+    const newMembers = membersOf(newName, newInfo);
+    const sameSource = this.before.hash(oldName) === this.after.hash(newName);
+
+    for (const [id, member] of newMembers) {
+      const previous = oldMembers.get(id);
+      const lines = { lineStart: member.lineStart, lineEnd: member.lineEnd };
+      if (!previous) {
+        diff.members.push({ kind: member.kind, change: 'added', key: member.key, to: member.declaration, ...lines });
+      } else if (previous.shape !== member.shape) {
+        diff.members.push({ kind: member.kind, change: 'signature', key: member.key, from: previous.declaration, to: member.declaration, ...lines });
+      } else if (member.code && this.bodies && !sameSource && this.bodyChanged(oldName, previous, newName, member)) {
+        diff.members.push({ kind: member.kind, change: 'body', key: member.key, from: previous.declaration, to: member.declaration, ...lines });
+      }
+    }
+    for (const [id, member] of oldMembers) {
+      if (!newMembers.has(id)) {
+        diff.members.push({
+          kind: member.kind, change: 'removed', key: member.key, from: member.declaration,
+          lineStart: member.lineStart, lineEnd: member.lineEnd,
+        });
+      }
+    }
+    return diff;
+  }
+
+  private bodyChanged(oldName: string, previous: Member, newName: string, member: Member): boolean {
+    const oldHash = this.before.bodyHash(oldName, previous);
+    const newHash = this.after.bodyHash(newName, member);
+    if (oldHash === null || newHash === null) {
+      this.missingSources.add(newName);
+      return false;
+    }
+    return oldHash !== newHash;
+  }
+}
+
+/** One version's symbol database, plus its source files for body hashes. */
+export class IndexSnapshot {
+  /** Binary name to source file, for every top-level and member type. */
+  readonly types = new Map<string, { sourcePath: string; namespace: Namespace }>();
+  private readonly hashes = new Map<string, string>();
+  private readonly manifest: IndexManifest | null;
+  /** The last file tokenized; nested classes follow their outer class, so one is enough. */
+  private source: { path: string; stream: TokenStream | null } | null = null;
+
+  private constructor(readonly version: string, private readonly db: Database) {
+    for (const [name, sourcePath, namespace] of db.exec(`SELECT name, source_path, namespace FROM types WHERE nesting IN ('top-level', 'member')`)[0]?.values ?? []) {
+      this.types.set(name as string, { sourcePath: sourcePath as string, namespace: namespace as Namespace });
+    }
+    for (const [filePath, hash] of db.exec('SELECT path, hash FROM files')[0]?.values ?? []) {
+      this.hashes.set(filePath as string, hash as string);
+    }
+    const manifestPath = getVersionedIndexManifestPath(version);
+    this.manifest = fs.existsSync(manifestPath) ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) : null;
+  }
+
+  static async open(version: string): Promise<IndexSnapshot> {
+    const db = await openSymbolDb(getVersionedSymbolDbPath(version));
+    if (!db) throw new Error(`Minecraft ${version} is not indexed`);
+    return new IndexSnapshot(version, db);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /** Content hash of the class's source file. */
+  hash(className: string): string | undefined {
+    const type = this.types.get(className);
+    return type && this.hashes.get(type.sourcePath);
+  }
+
+  info(className: string): ClassInfo {
+    const stmt = this.db.prepare('SELECT info FROM types WHERE name = ?');
+    try {
+      stmt.bind([className]);
+      stmt.step();
+      return JSON.parse(stmt.get()[0] as string);
+    } finally {
+      stmt.free();
+    }
+  }
+
+  /** Direct supertypes from the inheritance table, sorted. */
+  supertypes(className: string): string[] {
+    const result = this.db.exec('SELECT super FROM inheritance WHERE sub = ?', [className]);
+    return (result[0]?.values ?? []).map(row => row[0] as string).sort();
+  }
+
+  /**
+   * Hash of the tokens from a method's opening brace to its closing one;
+   * "" for one without a body, null when the source file is gone.
+   */
+  bodyHash(className: string, member: LineRange): string | null {
+    const tokens = this.bodyTokens(className, member);
+    if (!tokens?.length) return tokens && '';
+
+    const hash = crypto.createHash('sha1');
+    for (const token of tokens) hash.update(token).update('\0');
+    return hash.digest('hex');
+  }
+
+  /** Token texts of a method body, braces included; empty for one without a body, null when the source file is gone. */
+  bodyTokens(className: string, member: LineRange): string[] | null {
+    const stream = this.tokens(className);
+    if (!stream) return null;
+    if (member.lineStart === undefined || member.lineEnd === undefined) return [];
+
+    // The body's brace follows the parameter list or throws clause; braces
+    // after "(", "=" or "," open annotation array arguments.
+    const { tokens, pairs } = stream;
+    for (let i = firstTokenOnLine(tokens, member.lineStart); i < tokens.length && tokens[i].line <= member.lineEnd; i++) {
+      if (tokens[i].text !== '{' || tokens[i].kind !== 'operator') continue;
+      const previous = tokens[i - 1]?.text;
+      if (previous === '(' || previous === '=' || previous === ',') continue;
+      return pairs[i] < 0 ? [] : tokens.slice(i, pairs[i] + 1).map(t => t.text);
+    }
+    return [];
+  }
+
+  /** Token texts on the given lines, e.g. a whole class declaration; null when the source file is gone. */
+  lineTokens(className: string, range: LineRange): string[] | null {
+    const stream = this.tokens(className);
+    if (!stream) return null;
+    if (range.lineStart === undefined || range.lineEnd === undefined) return [];
+
+    const texts: string[] = [];
+    const { tokens } = stream;
+    for (let i = firstTokenOnLine(tokens, range.lineStart); i < tokens.length && tokens[i].line <= range.lineEnd; i++) {
+      texts.push(tokens[i].text);
+    }
+    return texts;
+  }
+
+  private tokens(className: string): TokenStream | null {
+    const type = this.types.get(className);
+    if (!type) return null;
+    const file = this.resolveSourcePath(type.sourcePath, type.namespace);
+    if (this.source?.path !== file) {
+      this.source = { path: file, stream: fs.existsSync(file) ? tokenize(fs.readFileSync(file, 'utf-8')) : null };
+    }
+    return this.source.stream;
+  }
+
+  /** Same resolution as SourceStore: relative paths are under the version's (or Fabric API's) source cache. */
+  private resolveSourcePath(storedPath: string, namespace: Namespace): string {
+    if (path.isAbsolute(storedPath)) return storedPath;
+    if (namespace === 'fabric' && this.manifest?.fabricApiVersion) {
+      return path.join(getFabricApiCacheDir(this.manifest.fabricApiVersion), storedPath);
+    }
+    return path.join(getMinecraftSourceDir(this.version), storedPath);
+  }
+}
+
+/** Index of the first token on or after `line`. */
+function firstTokenOnLine(tokens: Token[], line: number): number {
+  let lo = 0;
+  let hi = tokens.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (tokens[mid].line < line) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export interface VersionDiffFormatOptions {
+  /** Member changes under each class instead of one line per class. */
+  details?: boolean;
+  /** Only this class, by its old or new name (binary or dotted); implies details. */
+  className?: string;
+  offset?: number;
+  /** Classes to list; default all. */
+  limit?: number;
+}
+
+const CLASS_MARKS: Record<ClassChange, string> = { added: '+', removed: '-', moved: '>', changed: '~' };
+const MEMBER_MARKS: Record<MemberChange, string> = { added: '+', removed: '-', signature: '~', body: '*' };
+const MEMBER_GROUPS: Array<[string, MemberKind[]]> = [
+  ['methods', ['method']],
+  ['constructors', ['constructor']],
+  ['fields', ['field', 'enumConstant', 'recordComponent']],
+];
+
+/** Counts of changed classes and members, then the classes, each on one line or with its members. */
+export function formatVersionDiff(diff: VersionDiff, options: VersionDiffFormatOptions = {}): string {
+  const scope = diff.packages.length ? ` (${diff.packages.join(', ')})` : '';
+  const lines = [`Minecraft ${diff.from} → ${diff.to}${scope}`];
+
+  let classes = diff.classes;
+  if (options.className) {
+    const wanted = options.className.replace(/\$/g, '.');
+    const named = (name?: string) => name !== undefined && name.replace(/\$/g, '.') === wanted;
+    classes = classes.filter(c => named(c.className) || named(c.movedFrom));
+    if (classes.length === 0) {
+      lines.push(`No changes to ${options.className}, or no such class in either version.`);
+      return lines.join('\n');
+    }
+  } else {
+    lines.push(...formatCounts(diff));
+    if (!options.details) lines.push(...formatPackages(diff.classes));
+  }
+
+  const offset = Math.max(0, options.offset ?? 0);
+  const page = classes.slice(offset, options.limit === undefined ? undefined : offset + options.limit);
+  const last = offset + page.length;
+  lines.push('');
+  if (page.length === 0) {
+    lines.push(`No classes at offset ${offset} (total: ${classes.length})`);
+  } else if (offset > 0 || last < classes.length) {
+    lines.push(`Showing classes ${offset + 1}-${last} of ${classes.length}${last < classes.length ? ` (pass offset=${last} for more)` : ''}:`);
+  }
+
+  const details = options.details || !!options.className;
+  for (const change of page) {
+    if (details) lines.push('', ...formatClassDetails(change));
+    else lines.push(formatClassLine(change));
+  }
+
+  if (page.length > 0) {
+    lines.push('', `+ added, - removed, > moved, ~ changed${details ? ' (signature), * body changed' : ''}`);
+  }
+  return lines.join('\n');
+}
+
+function formatCounts(diff: VersionDiff): string[] {
+  const classCounts = (['added', 'removed', 'moved', 'changed'] as ClassChange[])
+    .map(change => `${diff.classes.filter(c => c.change === change).length} ${change}`);
+  const lines = [`Classes: ${classCounts.join(', ')}, ${diff.unchanged} unchanged`];
+
+  const members = diff.classes.flatMap(c => c.members);
+  for (const [label, kinds] of MEMBER_GROUPS) {
+    const count = (change: MemberChange) => members.filter(m => m.change === change && kinds.includes(m.kind)).length;
+    const parts = [`${count('added')} added`, `${count('removed')} removed`, `${count('signature')} changed signature`];
+    if (label !== 'fields') parts.push(`${count('body')} changed body`);
+    lines.push(`${label[0].toUpperCase()}${label.slice(1)}: ${parts.join(', ')}`);
+  }
+
+  if (!diff.bodies) {
+    lines.push('Method bodies were not compared.');
+  } else if (diff.missingSources.length) {
+    lines.push(`Method bodies of ${diff.missingSources.length} class(es) not compared: their source files are missing.`);
+  }
+  return lines;
+}
+
+/** The packages with the most changed classes. */
+function formatPackages(classes: ClassDiff[], shown = 20): string[] {
+  const byPackage = new Map<string, Map<ClassChange, number>>();
+  for (const change of classes) {
+    const pkg = change.className.slice(0, Math.max(0, change.className.lastIndexOf('.'))) || '(default)';
+    const counts = byPackage.get(pkg) ?? new Map<ClassChange, number>();
+    counts.set(change.change, (counts.get(change.change) ?? 0) + 1);
+    byPackage.set(pkg, counts);
+  }
+  if (byPackage.size <= 1) return [];
+
+  const total = (counts: Map<ClassChange, number>) => [...counts.values()].reduce((a, b) => a + b, 0);
+  const ranked = [...byPackage].sort((a, b) => total(b[1]) - total(a[1]) || compareNames(a[0], b[0]));
+  const lines = ['', 'Packages with the most changed classes:'];
+  for (const [pkg, counts] of ranked.slice(0, shown)) {
+    lines.push(`  ${pkg}: ${[...counts].map(([change, n]) => `${n} ${change}`).join(', ')}`);
+  }
+  if (ranked.length > shown) lines.push(`  ... and ${ranked.length - shown} more packages`);
+  return lines;
+}
+
+function classHeading(change: ClassDiff): string {
+  return `${CLASS_MARKS[change.change]} ${change.className}${change.movedFrom ? ` (from ${change.movedFrom})` : ''}`;
+}
+
+function formatClassLine(change: ClassDiff): string {
+  const head = classHeading(change);
+  const parts: string[] = [];
+  if (change.kind) parts.push(`${change.kind.from} → ${change.kind.to}`);
+  for (const [label, kinds] of MEMBER_GROUPS) {
+    const members = change.members.filter(m => kinds.includes(m.kind));
+    if (members.length === 0) continue;
+    const marks = (['added', 'removed', 'signature'] as MemberChange[])
+      .map(c => [c, members.filter(m => m.change === c).length] as const)
+      .filter(([, n]) => n > 0)
+      .map(([c, n]) => `${MEMBER_MARKS[c]}${n}`);
+    const bodies = members.filter(m => m.change === 'body').length;
+    if (bodies) marks.push(`${bodies} ${bodies === 1 ? 'body' : 'bodies'}`);
+    parts.push(`${label} ${marks.join(' ')}`);
+  }
+  const { added, removed } = change.supertypes;
+  if (added.length || removed.length) parts.push(`supertypes ${[...added.map(s => `+${s}`), ...removed.map(s => `-${s}`)].join(' ')}`);
+  return parts.length ? `${head}: ${parts.join('; ')}` : head;
+}
+
+function formatClassDetails(change: ClassDiff): string[] {
+  const lines = [classHeading(change)];
+  if (change.kind) lines.push(`    kind: ${change.kind.from} → ${change.kind.to}`);
+  for (const s of change.supertypes.added) lines.push(`    + extends/implements ${s}`);
+  for (const s of change.supertypes.removed) lines.push(`    - extends/implements ${s}`);
+
+  const order: MemberChange[] = ['added', 'removed', 'signature', 'body'];
+  const members = [...change.members].sort((a, b) => order.indexOf(a.change) - order.indexOf(b.change) || compareNames(a.key, b.key));
+  for (const member of members) {
+    const where = member.lineStart ? ` (line${member.lineEnd && member.lineEnd !== member.lineStart ? `s ${member.lineStart}-${member.lineEnd}` : ` ${member.lineStart}`})` : '';
+    const kind = member.kind === 'enumConstant' ? 'enum constant' : member.kind === 'recordComponent' ? 'record component' : member.kind;
+    const declaration = member.change === 'signature'
+      ? `${member.from} → ${member.to}`
+      : member.change === 'body' ? `${member.to} body` : member.to ?? member.from;
+    lines.push(`    ${MEMBER_MARKS[member.change]} ${kind} ${declaration}${where}`);
+  }
+  return lines;
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseParamList } from '../../callgraph/query.js';
+import { LineMap, loadLineMap } from '../../decompiler/line-map.js';
+import { getMinecraftSourceDir } from '../../utils/paths.js';
+
+const SNIPPET_LENGTH = 120;
+
+export function simpleName(className: string): string {
+  return className.slice(className.lastIndexOf('.') + 1).replace(/\$/g, '.');
+}
+
+/** "(net.minecraft.core.BlockPos,int)" -> "(BlockPos, int)" */
+export function displayParams(descriptor: string): string {
+  return `(${parseParamList(descriptor).map(simpleName).join(', ')})`;
+}
+
+/** Translates callgraph line numbers into decompiled source lines and reads the calling line. */
+export class CallSites {
+  private readonly lineMap: LineMap | null;
+  private readonly sourceDir: string;
+  private readonly files = new Map<string, string[] | null>();
+
+  constructor(private readonly version: string) {
+    this.lineMap = loadLineMap(version);
+    this.sourceDir = getMinecraftSourceDir(version);
+  }
+
+  get mapped(): boolean {
+    return this.lineMap !== null;
+  }
+
+  /** Paragraph explaining unmapped line numbers, or "" when they are mapped. */
+  get note(): string {
+    if (this.mapped) return '';
+    return `\n\nLine numbers are bytecode lines: ${this.version} was decompiled before line mapping was recorded. Run \`mcdev-mcp clean --cache -v ${this.version}\` and \`init\` again to map them to the decompiled source.`;
+  }
+
+  /** " (line N: snippet)" for a call at `bytecodeLine` in `className`, or "" without a line number. */
+  describe(className: string, bytecodeLine: number | undefined): string {
+    if (!bytecodeLine) return '';
+    if (!this.lineMap) return ` (bytecode line ${bytecodeLine})`;
+
+    const line = this.lineMap.sourceLine(className, bytecodeLine);
+    if (line === null) return ` (bytecode line ${bytecodeLine})`;
+
+    const snippet = this.sourceLines(className)?.[line - 1]?.trim();
+    if (!snippet) return ` (line ${line})`;
+    const shortened = snippet.length > SNIPPET_LENGTH ? `${snippet.slice(0, SNIPPET_LENGTH - 3)}...` : snippet;
+    return ` (line ${line}: ${shortened})`;
+  }
+
+  private sourceLines(className: string): string[] | null {
+    const topLevel = className.split('$')[0];
+    let lines = this.files.get(topLevel);
+    if (lines === undefined) {
+      const filePath = path.join(this.sourceDir, ...topLevel.split('.')) + '.java';
+      lines = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8').split('\n') : null;
+      this.files.set(topLevel, lines);
+    }
+    return lines;
+  }
+}
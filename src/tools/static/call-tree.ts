@@ -0,0 +1,257 @@
+import { hasCallgraphDb } from '../../callgraph/index.js';
+import {
+  buildCallTree,
+  findCallPaths,
+  findMethodNodes,
+  methodKey,
+  CallDirection,
+  CallTreeNode,
+  MethodNode,
+} from '../../callgraph/traverse.js';
+import { getEffectiveVersion } from './helpers.js';
+import { CallSites, displayParams } from './call-sites.js';
+
+const MAX_TREE_DEPTH = 6;
+const MAX_CHILDREN = 100;
+const MAX_PATH_DEPTH = 12;
+const MAX_PATHS = 20;
+
+export const mcCallTreeTool = {
+  name: 'mc_call_tree',
+  description: `Follow the callgraph several calls deep from one method.
+
+Tree mode (the default) expands callers or callees level by level, up to
+"depth" levels (default 3, max ${MAX_TREE_DEPTH}) and "maxChildren" per method
+(default 20, max ${MAX_CHILDREN}). Each method is expanded once: repeats are
+marked [see above] or [see below], wherever that expansion is printed;
+calls back into a method's own ancestry are marked [cycle].
+
+Path mode, selected by giving targetClassName and targetMethodName, returns
+the shortest call chains from the method to the target, e.g. how
+Minecraft.tick eventually reaches ClientLevel.addEntity. Chains of up to
+"maxDepth" calls (default 8, max ${MAX_PATH_DEPTH}) are searched; at most
+"maxPaths" (default 5, max ${MAX_PATHS}) are returned.
+
+Overloads are told apart with paramTypes/descriptor (and
+targetParamTypes/targetDescriptor); without them every overload is used.
+Calls are recorded under the receiver's static type, so dispatch to
+overrides is not followed.`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      className: {
+        type: 'string',
+        description: 'Fully qualified class name of the starting method (e.g., "net.minecraft.client.Minecraft")',
+      },
+      methodName: {
+        type: 'string',
+        description: 'Name of the starting method (e.g., "tick")',
+      },
+      paramTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional: parameter types of the starting overload, as simple or fully qualified names',
+      },
+      descriptor: {
+        type: 'string',
+        description: 'Optional: JVM method descriptor of the starting overload (e.g., "(Z)V")',
+      },
+      direction: {
+        type: 'string',
+        enum: ['callers', 'callees'],
+        description: 'Tree mode: expand callers or callees (default callees)',
+      },
+      depth: {
+        type: 'number',
+        description: `Tree mode: levels to expand (default 3, max ${MAX_TREE_DEPTH})`,
+      },
+      maxChildren: {
+        type: 'number',
+        description: `Tree mode: calls listed per method (default 20, max ${MAX_CHILDREN})`,
+      },
+      targetClassName: {
+        type: 'string',
+        description: 'Path mode: fully qualified class name of the method to reach',
+      },
+      targetMethodName: {
+        type: 'string',
+        description: 'Path mode: name of the method to reach',
+      },
+      targetParamTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Path mode, optional: parameter types of the target overload',
+      },
+      targetDescriptor: {
+        type: 'string',
+        description: 'Path mode, optional: JVM method descriptor of the target overload',
+      },
+      maxDepth: {
+        type: 'number',
+        description: `Path mode: longest chain searched for, in calls (default 8, max ${MAX_PATH_DEPTH})`,
+      },
+      maxPaths: {
+        type: 'number',
+        description: `Path mode: chains returned (default 5, max ${MAX_PATHS})`,
+      },
+      version: {
+        type: 'string',
+        description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
+      },
+    },
+    required: ['className', 'methodName'],
+  },
+
+  handler: async (args: {
+    className: string;
+    methodName: string;
+    paramTypes?: string[];
+    descriptor?: string;
+    direction?: CallDirection;
+    depth?: number;
+    maxChildren?: number;
+    targetClassName?: string;
+    targetMethodName?: string;
+    targetParamTypes?: string[];
+    targetDescriptor?: string;
+    maxDepth?: number;
+    maxPaths?: number;
+    version?: string;
+  }) => {
+    const { version, error } = getEffectiveVersion(args.version);
+    if (error) {
+      return { content: [{ type: 'text' as const, text: error }] };
+    }
+
+    if (!hasCallgraphDb(version)) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Version ${version} does not have callgraph data.
+
+STOP and ask the USER to run this command in their terminal:
+  node dist/cli.js callgraph -v ${version}
+
+Or for full reinitialization:
+  node dist/cli.js init -v ${version}`,
+        }],
+      };
+    }
+
+    const from = await findMethodNodes(version, args.className, args.methodName, {
+      paramTypes: args.paramTypes,
+      descriptor: args.descriptor,
+    });
+    if (from.length === 0) {
+      return { content: [{ type: 'text' as const, text: notInCallgraph(args.className, args.methodName) }] };
+    }
+
+    const sites = new CallSites(version);
+
+    if (args.targetClassName || args.targetMethodName) {
+      if (!args.targetClassName || !args.targetMethodName) {
+        return {
+          content: [{ type: 'text' as const, text: 'Path mode needs both targetClassName and targetMethodName.' }],
+        };
+      }
+      const to = await findMethodNodes(version, args.targetClassName, args.targetMethodName, {
+        paramTypes: args.targetParamTypes,
+        descriptor: args.targetDescriptor,
+      });
+      if (to.length === 0) {
+        return { content: [{ type: 'text' as const, text: notInCallgraph(args.targetClassName, args.targetMethodName) }] };
+      }
+
+      const maxDepth = clamp(args.maxDepth, 8, MAX_PATH_DEPTH);
+      const { paths, truncated } = await findCallPaths(version, from, to, {
+        maxDepth,
+        maxPaths: clamp(args.maxPaths, 5, MAX_PATHS),
+      });
+
+      const route = `${args.className}#${args.methodName} to ${args.targetClassName}#${args.targetMethodName}`;
+      if (paths.length === 0) {
+        const reason = truncated
+          ? 'the search reached its limit of visited methods before finding one'
+          : `none exists within ${maxDepth} calls`;
+        return { content: [{ type: 'text' as const, text: `No call chain from ${route}: ${reason}.` }] };
+      }
+
+      const blocks = paths.map((path, i) => {
+        const lines = path.map((step, j) => j === 0
+          ? describeMethod(step)
+          : `  -> ${describeMethod(step)}${sites.describe(path[j - 1].className, step.lineNumber)}`);
+        return `${i + 1}.\n${lines.join('\n')}`;
+      });
+      const calls = paths[0].length - 1;
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `${paths.length} shortest call chain(s) from ${route}, ${calls} call(s) each:\n\n${blocks.join('\n\n')}${sites.note}`,
+        }],
+      };
+    }
+
+    const direction = args.direction ?? 'callees';
+    const tree = await buildCallTree(version, from, direction, {
+      depth: clamp(args.depth, 3, MAX_TREE_DEPTH),
+      maxChildren: clamp(args.maxChildren, 20, MAX_CHILDREN),
+    });
+
+    const lines: string[] = [];
+    const printed = new Set<string>();
+    for (const root of tree.roots) {
+      renderTree(root, null, 0, direction, sites, lines, printed);
+    }
+    const limit = tree.truncated ? '\n\n(Stopped after expanding the node limit; narrow the start or lower depth.)' : '';
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `${direction === 'callees' ? 'Callees' : 'Callers'} of ${args.className}#${args.methodName}:\n${lines.join('\n')}${limit}${sites.note}`,
+      }],
+    };
+  },
+};
+
+/**
+ * Print `node` and its subtree, depth first. The tree expands each method at
+ * its shallowest occurrence, which need not be the first printed, so
+ * `printed` tracks the expansions already printed for the repeat markers.
+ */
+function renderTree(
+  node: CallTreeNode,
+  parent: CallTreeNode | null,
+  depth: number,
+  direction: CallDirection,
+  sites: CallSites,
+  lines: string[],
+  printed: Set<string>
+): void {
+  const indent = '  '.repeat(depth);
+  let line = `${indent}${depth > 0 ? (direction === 'callees' ? '-> ' : '<- ') : ''}${describeMethod(node)}`;
+  if (parent) {
+    // A callee is called from its parent; a caller makes the call itself.
+    line += sites.describe(direction === 'callees' ? parent.className : node.className, node.lineNumber);
+  }
+  if (node.cycle) line += ' [cycle]';
+  if (node.seen) line += printed.has(methodKey(node)) ? ' [see above]' : ' [see below]';
+  else if (!node.cycle) printed.add(methodKey(node));
+  lines.push(line);
+
+  for (const child of node.children) {
+    renderTree(child, node, depth + 1, direction, sites, lines, printed);
+  }
+  if (node.omitted) lines.push(`${indent}  ... ${node.omitted} more`);
+}
+
+function describeMethod(node: MethodNode): string {
+  return `${node.className}.${node.methodName}${displayParams(node.descriptor)}`;
+}
+
+function notInCallgraph(className: string, methodName: string): string {
+  return `${className}#${methodName} does not appear in the callgraph (check the name and parameter types; the callgraph uses binary names such as "a.b.Outer$Inner").`;
+}
+
+function clamp(value: number | undefined, fallback: number, max: number): number {
+  return Math.min(max, Math.max(1, Math.floor(value ?? fallback)));
+}
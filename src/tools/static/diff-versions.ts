@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import { upgradeStaleIndex } from '../../indexer/index.js';
+import { diffVersions, formatVersionDiff } from '../../storage/version-diff.js';
+import type { VersionDiff } from '../../storage/version-diff.js';
+import { getVersionedSymbolDbPath } from '../../utils/paths.js';
+import { getEffectiveVersion } from './helpers.js';
+
+/** The last diff computed, so paging and switching modes don't redo it; keyed by versions, filter and database mtimes. */
+let lastDiff: { key: string; diff: VersionDiff } | null = null;
+
+export const mcDiffVersionsTool = {
+  name: 'mc_diff_versions',
+  description: `Compare the APIs of two indexed Minecraft versions.
+
+Reports classes added, removed and moved to another package, changed
+supertypes, methods/constructors/fields added, removed or with a changed
+signature (modifiers or erased types), and methods whose body changed
+(compared as source tokens, so formatting and comments don't count).
+Methods and constructors are matched by name and erased parameter types.
+
+Modes:
+- summary (default): change counts, the packages with the most changes, and
+  one line per class ("~ net.minecraft.world.entity.Entity: methods +2 -1 ~1 3 bodies")
+- details: every member change under each class, with line numbers in the
+  new version
+Pass className to see one class in detail (old or new name).
+
+Narrow big diffs with packages (e.g. ["net.minecraft.world.entity"]).
+Classes are paged with offset/limit.`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      from: {
+        type: 'string',
+        description: 'Older version (e.g., "1.21.10")',
+      },
+      to: {
+        type: 'string',
+        description: 'Optional: newer version (e.g., "1.21.11"). If not provided, uses the active version set by mc_version.',
+      },
+      packages: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional: only report classes in these packages (or classes), e.g. ["net.minecraft.world.entity"]',
+      },
+      className: {
+        type: 'string',
+        description: 'Optional: show the changes to this class only, in detail',
+      },
+      mode: {
+        type: 'string',
+        enum: ['summary', 'details'],
+        description: 'Optional: "summary" (default) for one line per class, "details" for member changes',
+      },
+      bodies: {
+        type: 'boolean',
+        description: 'Optional: compare method bodies (default true; false is faster)',
+      },
+      offset: {
+        type: 'number',
+        description: 'Optional: number of classes to skip, for paging (default 0)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Optional: maximum number of classes to list (default 100 in summary mode, 20 in details mode, max 500)',
+      },
+    },
+    required: ['from'],
+  },
+
+  handler: async (args: {
+    from: string;
+    to?: string;
+    packages?: string[];
+    className?: string;
+    mode?: 'summary' | 'details';
+    bodies?: boolean;
+    offset?: number;
+    limit?: number;
+  }) => {
+    const from = getEffectiveVersion(args.from);
+    const to = getEffectiveVersion(args.to);
+    const error = from.error ?? to.error;
+    if (error) {
+      return { content: [{ type: 'text' as const, text: error }] };
+    }
+    if (from.version === to.version) {
+      return { content: [{ type: 'text' as const, text: `Both versions are ${from.version}; pass two different versions.` }] };
+    }
+
+    const progressCb = (stage: string, progress: number, message: string) => {
+      console.error(`[mcdev-mcp ${stage}] ${progress}% - ${message}`);
+    };
+    await upgradeStaleIndex(from.version, progressCb);
+    await upgradeStaleIndex(to.version, progressCb);
+
+    const packages = args.packages ?? [];
+    const bodies = args.bodies ?? true;
+    const key = JSON.stringify([
+      from.version, to.version, packages, bodies,
+      fs.statSync(getVersionedSymbolDbPath(from.version)).mtimeMs,
+      fs.statSync(getVersionedSymbolDbPath(to.version)).mtimeMs,
+    ]);
+    if (lastDiff?.key !== key) {
+      lastDiff = { key, diff: await diffVersions(from.version, to.version, { packages, bodies, progressCb }) };
+    }
+
+    const details = args.mode === 'details';
+    const limit = Math.min(500, Math.max(1, Math.floor(args.limit ?? (details ? 20 : 100))));
+    return {
+      content: [{
+        type: 'text' as const,
+        text: formatVersionDiff(lastDiff.diff, { details, className: args.className, offset: args.offset, limit }),
+      }],
+    };
+  },
+};
@@ -0,0 +1,145 @@
+import { hasCallgraphDb } from '../../callgraph/index.js';
+import { exportCallGraph, GraphCollapse, GraphFormat } from '../../callgraph/export.js';
+import { getEffectiveVersion } from './helpers.js';
+
+const MAX_DEPTH = 5;
+const MAX_NODES = 1000;
+
+const FENCES: Record<GraphFormat, string> = { dot: 'dot', mermaid: 'mermaid', graphml: 'xml' };
+
+export const mcExportGraphTool = {
+  name: 'mc_export_graph',
+  description: `Export the callgraph around a method as Graphviz DOT, Mermaid flowchart text or GraphML, e.g. to document a rendering or networking flow.
+
+Starting from the method, calls are followed "depth" levels (default 2, max ${MAX_DEPTH})
+towards its callees, callers or both. "include"/"exclude" keep or drop
+packages (or classes) along with everything only reachable through them;
+"collapse" merges the nodes into their classes or packages.`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      className: {
+        type: 'string',
+        description: 'Fully qualified class name of the root method (e.g., "net.minecraft.client.renderer.GameRenderer")',
+      },
+      methodName: {
+        type: 'string',
+        description: 'Root method name (e.g., "render")',
+      },
+      paramTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional: parameter types of the root overload, as simple or fully qualified names',
+      },
+      descriptor: {
+        type: 'string',
+        description: 'Optional: JVM method descriptor of the root overload',
+      },
+      direction: {
+        type: 'string',
+        enum: ['callees', 'callers', 'both'],
+        description: 'Calls to follow (default callees)',
+      },
+      depth: {
+        type: 'number',
+        description: `Levels to follow from the root (default 2, max ${MAX_DEPTH})`,
+      },
+      include: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional: only keep methods in these packages or classes (e.g., ["net.minecraft.client.renderer"])',
+      },
+      exclude: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional: leave out methods in these packages or classes (e.g., ["java", "com.mojang.blaze3d"])',
+      },
+      collapse: {
+        type: 'string',
+        enum: ['method', 'class', 'package'],
+        description: 'Merge nodes by method (default), class or package',
+      },
+      format: {
+        type: 'string',
+        enum: ['mermaid', 'dot', 'graphml'],
+        description: 'Output format (default mermaid)',
+      },
+      maxNodes: {
+        type: 'number',
+        description: `Optional: stop adding methods after this many (default 200, max ${MAX_NODES})`,
+      },
+      version: {
+        type: 'string',
+        description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
+      },
+    },
+    required: ['className', 'methodName'],
+  },
+
+  handler: async (args: {
+    className: string;
+    methodName: string;
+    paramTypes?: string[];
+    descriptor?: string;
+    direction?: 'callees' | 'callers' | 'both';
+    depth?: number;
+    include?: string[];
+    exclude?: string[];
+    collapse?: GraphCollapse;
+    format?: GraphFormat;
+    maxNodes?: number;
+    version?: string;
+  }) => {
+    const { version, error } = getEffectiveVersion(args.version);
+    if (error) {
+      return { content: [{ type: 'text' as const, text: error }] };
+    }
+
+    if (!hasCallgraphDb(version)) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Version ${version} does not have callgraph data.
+
+STOP and ask the USER to run this command in their terminal:
+  node dist/cli.js callgraph -v ${version}
+
+Or for full reinitialization:
+  node dist/cli.js init -v ${version}`,
+        }],
+      };
+    }
+
+    const format = args.format ?? 'mermaid';
+    const result = await exportCallGraph(version, {
+      className: args.className,
+      methodName: args.methodName,
+      paramTypes: args.paramTypes,
+      descriptor: args.descriptor,
+      direction: args.direction,
+      depth: Math.min(MAX_DEPTH, Math.max(1, Math.floor(args.depth ?? 2))),
+      include: args.include,
+      exclude: args.exclude,
+      collapse: args.collapse,
+      format,
+      maxNodes: Math.min(MAX_NODES, Math.max(1, Math.floor(args.maxNodes ?? 200))),
+    });
+
+    if (!result) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `${args.className}#${args.methodName} does not appear in the callgraph (check the name and parameter types; the callgraph uses binary names such as "a.b.Outer$Inner").`,
+        }],
+      };
+    }
+
+    const truncated = result.truncated ? ' (stopped at maxNodes; narrow it with include/exclude or a lower depth)' : '';
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `${result.nodeCount} nodes, ${result.edgeCount} edges${truncated}:\n\n\`\`\`${FENCES[format]}\n${result.text}\n\`\`\``,
+      }],
+    };
+  },
+};
@@ -1,9 +1,27 @@
 import { sourceStore } from '../../storage/index.js';
-import { getEffectiveVersion, ensureSourceStoreVersion } from './helpers.js';
+import { getEffectiveVersion, ensureSourceStoreVersion, pageSummary } from './helpers.js';
+import type { HierarchyEntry, TypeNode } from '../../indexer/hierarchy.js';
+
+type Direction = 'subclasses' | 'implementors' | 'ancestors' | 'descendants';
+type Filter = 'all' | 'abstract' | 'concrete';
+
+const LIST_LIMIT = 200;
+const TREE_LIMIT = 300;
 
 export const mcFindHierarchyTool = {
   name: 'mc_find_hierarchy',
-  description: 'Find classes that extend (subclasses) or implement (implementors) a given class or interface. Useful for understanding class inheritance relationships.',
+  description: `Explore class inheritance.
+
+Directions:
+- "subclasses": classes that directly extend this class
+- "implementors": classes that directly implement this interface
+- "ancestors": every superclass and interface, transitively (e.g. all ancestors of ServerPlayer)
+- "descendants": every type that ultimately extends or implements this one
+  (e.g. every concrete Entity subclass, everything implementing ItemLike)
+
+For ancestors/descendants, "maxDepth" limits how many levels to walk,
+"filter" keeps only abstract (abstract classes + interfaces) or concrete types,
+and format="tree" renders the hierarchy as an indented tree.`,
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -13,8 +31,30 @@ export const mcFindHierarchyTool = {
       },
       direction: {
         type: 'string',
-        enum: ['subclasses', 'implementors'],
-        description: 'subclasses = classes that extend this class, implementors = classes that implement this interface',
+        enum: ['subclasses', 'implementors', 'ancestors', 'descendants'],
+        description: 'subclasses/implementors = direct children only; ancestors/descendants = transitive walk up/down the hierarchy',
+      },
+      maxDepth: {
+        type: 'number',
+        description: 'Optional: maximum number of levels to walk for ancestors/descendants (default: unlimited)',
+      },
+      filter: {
+        type: 'string',
+        enum: ['all', 'abstract', 'concrete'],
+        description: 'Optional: keep only abstract types (abstract classes and interfaces) or only concrete ones. Default "all".',
+      },
+      format: {
+        type: 'string',
+        enum: ['list', 'tree'],
+        description: 'Optional: "list" (default) or "tree" for an indented hierarchy view',
+      },
+      includeAnonymous: {
+        type: 'boolean',
+        description: 'Optional: include anonymous and local classes (default false)',
+      },
+      offset: {
+        type: 'number',
+        description: 'Optional: number of results to skip in list format, for paging (default 0)',
       },
       version: {
         type: 'string',
@@ -24,17 +64,30 @@ export const mcFindHierarchyTool = {
     required: ['className', 'direction'],
   },
 
-  handler: async (args: { className: string; direction: 'subclasses' | 'implementors'; version?: string }) => {
+  handler: async (args: {
+    className: string;
+    direction: Direction;
+    maxDepth?: number;
+    filter?: Filter;
+    format?: 'list' | 'tree';
+    includeAnonymous?: boolean;
+    offset?: number;
+    version?: string;
+  }) => {
     const { version, error } = getEffectiveVersion(args.version);
     if (error) {
       return { content: [{ type: 'text' as const, text: error }] };
     }
 
-    ensureSourceStoreVersion(version);
+    await ensureSourceStoreVersion(version);
+
+    if (args.direction === 'ancestors' || args.direction === 'descendants') {
+      return findTransitive(args.className, args.direction, args);
+    }
 
-    const results = sourceStore.findHierarchy(args.className, args.direction);
+    const page = sourceStore.findHierarchy(args.className, args.direction, { offset: args.offset, limit: LIST_LIMIT });
 
-    if (results.length === 0) {
+    if (page.total === 0) {
       return {
         content: [{
           type: 'text' as const,
@@ -43,20 +96,118 @@ export const mcFindHierarchyTool = {
       };
     }
 
-    const output = results
-      .slice(0, 200)
-      .map(r => r.className)
-      .join('\n');
-
-    const summary = results.length > 200
-      ? `\n... and ${results.length - 200} more (total: ${results.length})`
-      : `\nTotal: ${results.length} ${args.direction}`;
+    const output = page.items.map(r => r.className).join('\n');
 
     return {
       content: [{
         type: 'text' as const,
-        text: `${args.direction === 'subclasses' ? 'Subclasses' : 'Implementors'} of ${args.className}:\n${output}${summary}`,
+        text: `${args.direction === 'subclasses' ? 'Subclasses' : 'Implementors'} of ${args.className}:\n${output}\n${pageSummary(page, args.direction)}`,
       }],
     };
   },
 };
+
+function findTransitive(
+  className: string,
+  direction: 'ancestors' | 'descendants',
+  args: { maxDepth?: number; filter?: Filter; format?: 'list' | 'tree'; includeAnonymous?: boolean }
+) {
+  const result = sourceStore.findTypeHierarchy(className, direction, args.maxDepth);
+  const filter = args.filter ?? 'all';
+
+  const visible = (result?.entries ?? []).filter(e =>
+    args.includeAnonymous || !e.node || (e.node.nesting !== 'anonymous' && e.node.nesting !== 'local')
+  );
+  const matching = visible.filter(e => matchesFilter(e.node, filter));
+
+  if (!result || matching.length === 0) {
+    const qualifier = filter === 'all' ? '' : ` ${filter}`;
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `No${qualifier} ${direction} found for ${className}`,
+      }],
+    };
+  }
+
+  const title = `${direction === 'ancestors' ? 'Ancestors' : 'Descendants'} of ${result.root}`
+    + (filter === 'all' ? '' : ` (${filter} only)`)
+    + (args.maxDepth ? `, max depth ${args.maxDepth}` : '');
+
+  const body = args.format === 'tree'
+    ? renderTree(result.root, visible, new Set(matching.map(e => e.className)))
+    : renderList(matching);
+
+  return {
+    content: [{
+      type: 'text' as const,
+      text: `${title}:\n${body}\nTotal: ${matching.length} ${direction}`,
+    }],
+  };
+}
+
+function matchesFilter(node: TypeNode | null, filter: Filter): boolean {
+  if (filter === 'all') return true;
+  // Types outside the index (JDK, libraries) can't be classified.
+  if (!node) return false;
+  return filter === 'abstract' ? node.abstract : !node.abstract;
+}
+
+function describeType(entry: HierarchyEntry): string {
+  const node = entry.node;
+  if (!node) return 'external';
+  return node.abstract && node.kind === 'class' ? 'abstract class' : node.kind;
+}
+
+function renderList(entries: HierarchyEntry[]): string {
+  const lines = entries
+    .slice(0, LIST_LIMIT)
+    .map(e => `${e.className} [${describeType(e)}, depth ${e.depth}]`);
+  if (entries.length > LIST_LIMIT) {
+    lines.push(`... and ${entries.length - LIST_LIMIT} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render the shortest-path tree rooted at the query class. Branches with no
+ * type matching the filter are pruned; matching types are marked with `*`
+ * when a filter is active.
+ */
+function renderTree(root: string, entries: HierarchyEntry[], matching: Set<string>): string {
+  const children = new Map<string, HierarchyEntry[]>();
+  for (const entry of entries) {
+    const list = children.get(entry.via) || [];
+    list.push(entry);
+    children.set(entry.via, list);
+  }
+
+  const keep = new Map<string, boolean>();
+  const shouldKeep = (name: string): boolean => {
+    const cached = keep.get(name);
+    if (cached !== undefined) return cached;
+    const result = matching.has(name) || (children.get(name) || []).some(c => shouldKeep(c.className));
+    keep.set(name, result);
+    return result;
+  };
+
+  const filtered = matching.size !== entries.length;
+  const lines = [root];
+  const render = (name: string, prefix: string) => {
+    const kids = (children.get(name) || []).filter(c => shouldKeep(c.className));
+    kids.forEach((child, i) => {
+      if (lines.length > TREE_LIMIT) return;
+      const last = i === kids.length - 1;
+      const mark = filtered && matching.has(child.className) ? '* ' : '';
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${mark}${child.className} [${child.relation}, ${describeType(child)}]`);
+      render(child.className, prefix + (last ? '    ' : '│   '));
+    });
+  };
+  render(root, '');
+
+  if (lines.length > TREE_LIMIT) {
+    lines.length = TREE_LIMIT;
+    lines.push('... (tree truncated; narrow it with maxDepth or filter)');
+  }
+  return lines.join('\n');
+}
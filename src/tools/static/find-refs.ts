@@ -1,10 +1,40 @@
-import { findCallers, findCallees } from '../../callgraph/query.js';
+import { findCallers, findCallees, findFieldAccesses, findInstantiations, hasBytecodeSites } from '../../callgraph/query.js';
+import type { MethodRef } from '../../callgraph/query.js';
 import { hasCallgraphDb } from '../../callgraph/index.js';
-import { getEffectiveVersion } from './helpers.js';
+import { sourceStore } from '../../storage/index.js';
+import type { MethodSelector, Page } from '../../storage/index.js';
+import { getEffectiveVersion, ensureSourceStoreVersion, pageSummary } from './helpers.js';
+import { CallSites, displayParams, simpleName } from './call-sites.js';
+import { ReachabilityMarks } from './reachability-marks.js';
 
 export const mcFindRefsTool = {
   name: 'mc_find_refs',
-  description: 'Find callers (who calls this method) or callees (what this method calls) using the callgraph database. Useful for understanding code dependencies.',
+  description: `Find callers (who calls this method) or callees (what this method calls) using the callgraph database. Useful for understanding code dependencies.
+
+Results are grouped by overload of the method asked about, with a count per
+overload. Narrow them to one overload (e.g. of Level.setBlock) with
+"paramTypes" (["BlockPos", "BlockState", "int"]) or a JVM "descriptor"
+("(Lnet/minecraft/core/BlockPos;Lnet/minecraft/world/level/block/state/BlockState;I)Z";
+the callgraph records no return types, so the return type is ignored).
+Each call site is reported at its line in the decompiled source (as shown by
+mc_get_method) with the calling line. Results are paged with offset/limit.
+
+The callgraph records each call under the receiver's static type, so
+"entity.hurt(...)" on an Entity is not a call to LivingEntity.hurt. With
+dispatch=true, callers also include calls through supertypes that declare
+or inherit the method and calls on subtypes, each labelled with how it matched:
+direct, via supertype, via override (the subtype overrides the method) or
+via subtype (it inherits it).
+
+Fields and constructions are found the same way: "readers" and "writers"
+list the methods reading or assigning "fieldName" (e.g. Entity.noPhysics),
+including accesses through subclasses that inherit the field;
+"instantiations" lists the methods constructing className with \`new\`.
+Each site is reported at its line like a call.
+
+Once \`mcdev-mcp reachability\` has been run for the version, methods that
+cannot be reached from the game's entry points (Minecraft.run/tick,
+GameRenderer.render, packet handlers) are marked [unreachable].`,
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -14,22 +44,58 @@ export const mcFindRefsTool = {
       },
       methodName: {
         type: 'string',
-        description: 'Method name to find references for',
+        description: 'Method name to find references for (callers/callees)',
+      },
+      fieldName: {
+        type: 'string',
+        description: 'Field name to find accesses of (readers/writers)',
       },
       direction: {
         type: 'string',
-        enum: ['callers', 'callees'],
-        description: 'callers = who calls this method, callees = what this method calls',
+        enum: ['callers', 'callees', 'readers', 'writers', 'instantiations'],
+        description: 'callers = who calls this method, callees = what this method calls, readers/writers = who reads/assigns this field, instantiations = who constructs this class',
+      },
+      paramTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional: parameter types of the overload, in order, as simple or fully qualified names (e.g., ["BlockPos", "int"]). Use [] for the no-argument overload.',
+      },
+      descriptor: {
+        type: 'string',
+        description: 'Optional: JVM method descriptor of the overload (e.g., "(DDD)V"); the return type may be omitted ("(DDD)")',
+      },
+      dispatch: {
+        type: 'boolean',
+        description: 'Optional (callers only): also find calls through supertypes and on subtypes/overrides, using the type hierarchy from the symbol index (default false)',
+      },
+      offset: {
+        type: 'number',
+        description: 'Optional: number of results to skip, for paging (default 0)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Optional: maximum number of results to return (default 100, max 500)',
       },
       version: {
         type: 'string',
         description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
       },
     },
-    required: ['className', 'methodName', 'direction'],
+    required: ['className', 'direction'],
   },
 
-  handler: async (args: { className: string; methodName: string; direction: 'callers' | 'callees'; version?: string }) => {
+  handler: async (args: {
+    className: string;
+    methodName?: string;
+    fieldName?: string;
+    direction: 'callers' | 'callees' | 'readers' | 'writers' | 'instantiations';
+    paramTypes?: string[];
+    descriptor?: string;
+    dispatch?: boolean;
+    offset?: number;
+    limit?: number;
+    version?: string;
+  }) => {
     const { version, error } = getEffectiveVersion(args.version);
     if (error) {
       return { content: [{ type: 'text' as const, text: error }] };
@@ -50,33 +116,182 @@ Or for full reinitialization:
       };
     }
 
-    const results = args.direction === 'callers'
-      ? await findCallers(version, args.className, args.methodName)
-      : await findCallees(version, args.className, args.methodName);
+    if (args.direction !== 'callers' && args.direction !== 'callees') {
+      return findSiteRefs(version, args.direction, args.className, args.fieldName, args);
+    }
+    if (!args.methodName) {
+      return { content: [{ type: 'text' as const, text: `methodName is required for ${args.direction}.` }] };
+    }
+    const methodName = args.methodName;
+
+    const selector = { paramTypes: args.paramTypes, descriptor: args.descriptor };
+    const options = { ...selector, offset: args.offset, limit: args.limit };
+
+    let matches: Map<string, string> | null = null;
+    if (args.dispatch && args.direction === 'callers') {
+      await ensureSourceStoreVersion(version);
+      matches = dispatchTargets(args.className, methodName, selector);
+    }
 
-    if (results.length === 0) {
+    const page = args.direction === 'callers'
+      ? await findCallers(version, matches ? [...matches.keys()] : args.className, methodName, options)
+      : await findCallees(version, args.className, methodName, options);
+
+    if (page.overloads.length === 0) {
       return {
         content: [{
           type: 'text' as const,
-          text: `No ${args.direction} found for ${args.className}#${args.methodName}`,
+          text: `No ${args.direction} found for ${args.className}#${methodName}`,
         }],
       };
     }
 
-    const output = results
-      .slice(0, 100)
-      .map(r => `${r.fullName}${r.lineNumber ? ` (line ${r.lineNumber})` : ''}`)
-      .join('\n');
+    if (page.total === 0) {
+      const known = page.overloads.map(o => `  ${methodName}${displayParams(o.descriptor)} (${o.count} ${args.direction})`);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `No overload of ${args.className}#${methodName} with ${args.direction} matches the given parameter types. Overloads with ${args.direction}:\n${known.join('\n')}`,
+        }],
+      };
+    }
 
-    const summary = results.length > 100
-      ? `\n... and ${results.length - 100} more`
-      : '';
+    const selected = page.overloads.filter(o => o.selected);
+    const counts = new Map(selected.map(o => [o.descriptor, o.count]));
+    const sites = new CallSites(version);
+    const marks = new ReachabilityMarks(version);
+    const lines: string[] = [];
+    let overload: string | undefined;
+    for (const r of page.items) {
+      if (selected.length > 1 && r.overload !== overload) {
+        overload = r.overload;
+        if (lines.length) lines.push('');
+        lines.push(`// ${methodName}${displayParams(overload ?? '')}: ${counts.get(overload ?? '') ?? 0} ${args.direction}`);
+      }
+      // A caller's call site is in the caller; a callee's is in the method asked about.
+      const site = sites.describe(args.direction === 'callers' ? r.className : args.className, r.lineNumber);
+      const match = matches ? ` [${matches.get(r.target ?? '') ?? 'direct'}]` : '';
+      lines.push(`${r.fullName}${displayParams(r.descriptor)}${site}${match}${marks.mark(marks.status(r))}`);
+    }
 
+    const overloadNote = selected.length > 1 ? ` across ${selected.length} overloads` : '';
     return {
       content: [{
         type: 'text' as const,
-        text: `Found ${results.length} ${args.direction}:\n${output}${summary}`,
+        text: `${pageSummary(page, args.direction)}${overloadNote}:\n${lines.join('\n')}${sites.note}${marks.note}`,
       }],
     };
   },
 };
+
+/**
+ * The classes whose recorded calls to `methodName` may dispatch to the one
+ * in `className`, each with how it matches: supertypes that declare the
+ * method or inherit it (javac records the receiver's static type, which
+ * need not declare what it calls), and every subtype, whether it overrides
+ * the method or inherits it. Types outside the index (JDK and library
+ * supertypes) are not followed.
+ */
+function dispatchTargets(className: string, methodName: string, selector: MethodSelector): Map<string, string> {
+  const ancestors = sourceStore.findTypeHierarchy(className, 'ancestors');
+  if (!ancestors) return new Map([[className, 'direct']]);
+
+  const nodes = new Map(ancestors.entries.map(e => [e.className, e.node]));
+  const hasMethod = new Map<string, boolean>();
+  const declaresOrInherits = (type: string): boolean => {
+    let has = hasMethod.get(type);
+    if (has === undefined) {
+      hasMethod.set(type, false);
+      const node = nodes.get(type);
+      has = sourceStore.declaresMethod(type, methodName, selector)
+        || (!!node && [node.super, ...node.interfaces].some(s => !!s && nodes.has(s) && declaresOrInherits(s)));
+      hasMethod.set(type, has);
+    }
+    return has;
+  };
+
+  const matches = new Map([[ancestors.root, 'direct']]);
+  for (const { className: ancestor } of ancestors.entries) {
+    if (declaresOrInherits(ancestor)) matches.set(ancestor, `via supertype ${simpleName(ancestor)}`);
+  }
+  for (const { className: descendant } of sourceStore.findTypeHierarchy(ancestors.root, 'descendants')?.entries ?? []) {
+    const how = sourceStore.declaresMethod(descendant, methodName, selector) ? 'via override in' : 'via subtype';
+    matches.set(descendant, `${how} ${simpleName(descendant)}`);
+  }
+  return matches;
+}
+
+/** Readers or writers of a field, or instantiations of a class. */
+async function findSiteRefs(
+  version: string,
+  direction: 'readers' | 'writers' | 'instantiations',
+  className: string,
+  fieldName: string | undefined,
+  paging: { offset?: number; limit?: number }
+) {
+  if (!(await hasBytecodeSites(version))) {
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `The callgraph of ${version} was built before field accesses and instantiations were indexed.
+
+STOP and ask the USER to rebuild it by running these commands in their terminal:
+  node dist/cli.js clean --callgraph -v ${version}
+  node dist/cli.js callgraph -v ${version}`,
+      }],
+    };
+  }
+
+  let page: Page<MethodRef>;
+  let matches: Map<string, string> | null = null;
+  let subject = className;
+  if (direction === 'instantiations') {
+    page = await findInstantiations(version, className, paging);
+  } else {
+    if (!fieldName) {
+      return { content: [{ type: 'text' as const, text: `fieldName is required for ${direction}.` }] };
+    }
+    await ensureSourceStoreVersion(version);
+    matches = fieldTargets(className, fieldName);
+    subject = `${className}#${fieldName}`;
+    page = await findFieldAccesses(version, [...matches.keys()], fieldName, direction === 'writers' ? 'write' : 'read', paging);
+  }
+
+  if (page.total === 0) {
+    return { content: [{ type: 'text' as const, text: `No ${direction} found for ${subject}` }] };
+  }
+
+  const sites = new CallSites(version);
+  const marks = new ReachabilityMarks(version);
+  const lines = page.items.map(r => {
+    const via = r.target && matches?.get(r.target) !== 'direct' ? ` [${matches?.get(r.target)}]` : '';
+    return `${r.fullName}${displayParams(r.descriptor)}${sites.describe(r.className, r.lineNumber)}${via}${marks.mark(marks.status(r))}`;
+  });
+  return {
+    content: [{
+      type: 'text' as const,
+      text: `${pageSummary(page, direction)} of ${subject}:\n${lines.join('\n')}${sites.note}${marks.note}`,
+    }],
+  };
+}
+
+/**
+ * The classes accesses to `className.fieldName` may be recorded under: the
+ * class itself and its subtypes, except those declaring a field of the same
+ * name (which hides it) and their own subtypes.
+ */
+function fieldTargets(className: string, fieldName: string): Map<string, string> {
+  const descendants = sourceStore.findTypeHierarchy(className, 'descendants');
+  if (!descendants) return new Map([[className, 'direct']]);
+
+  const matches = new Map([[descendants.root, 'direct']]);
+  const hidden = new Set<string>();
+  for (const { className: descendant, via } of descendants.entries) {
+    if (hidden.has(via) || sourceStore.declaresField(descendant, fieldName)) {
+      hidden.add(descendant);
+      continue;
+    }
+    matches.set(descendant, `via subtype ${simpleName(descendant)}`);
+  }
+  return matches;
+}
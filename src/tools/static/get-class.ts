@@ -1,21 +1,47 @@
 import { sourceStore } from '../../storage/index.js';
 import { getEffectiveVersion, ensureSourceStoreVersion } from './helpers.js';
-import { ClassInfo, FieldInfo, MethodInfo } from '../../utils/types.js';
+import { formatAnnotations } from '../../indexer/symbol-db.js';
+import {
+  AnnotationInfo,
+  ClassInfo,
+  ConstructorInfo,
+  EnumConstantInfo,
+  FieldInfo,
+  MethodInfo,
+  ParamInfo,
+  RecordComponentInfo,
+} from '../../utils/types.js';
 
-type View = 'summary' | 'methods' | 'fields' | 'full';
+type View = 'summary' | 'methods' | 'fields' | 'outline' | 'lines' | 'full';
+
+const DEFAULT_LINES = 200;
+const MAX_LINES = 500;
+/** Nested types deeper than this are listed but not expanded in the outline. */
+const MAX_OUTLINE_DEPTH = 4;
 
 export const mcGetClassTool = {
   name: 'mc_get_class',
   description: `Get info about a Minecraft or Fabric API class.
 
+Nested types are addressed as "Outer.Inner" or by binary name "Outer$Inner"
+(anonymous classes: "Outer$1").
+
 Use the "view" parameter to control the response size:
-- "summary" (default): hierarchy + counts + one-line method/field signatures.
+- "summary" (default): hierarchy + counts + one-line signatures for enum
+  constants, record components, fields, constructors and methods.
   Always fits in the response budget; pick this first.
-- "methods": hierarchy + every method signature (no bodies, no fields).
-- "fields": hierarchy + every field declaration (no methods).
+- "methods": hierarchy + every constructor and method signature (no bodies, no fields).
+- "fields": hierarchy + enum constants, record components and every field
+  declaration (no methods).
+- "outline": every member and nested type in source order with its line
+  range, nested types indented under their enclosing type.
+- "lines": source lines startLine..endLine (inclusive, 1-based, numbered;
+  at most ${MAX_LINES} per call, default ${DEFAULT_LINES}). The reply names the next
+  startLine, so a 5000-line class can be paged through deterministically.
+  Line numbers are those of the source file, as shown by "outline".
 - "full": full decompiled source. Big classes (e.g. ClientPacketListener)
-  may exceed the response budget — start with "summary" and only ask for
-  "full" when you need the implementation.`,
+  may exceed the response budget — start with "summary" or "outline" and
+  read the parts you need with "lines" or mc_get_method.`,
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -25,9 +51,17 @@ Use the "view" parameter to control the response size:
       },
       view: {
         type: 'string',
-        enum: ['summary', 'methods', 'fields', 'full'],
+        enum: ['summary', 'methods', 'fields', 'outline', 'lines', 'full'],
         description: 'How much to return. Default "summary".',
       },
+      startLine: {
+        type: 'number',
+        description: 'For view "lines": first line to return (default: the first line of the class)',
+      },
+      endLine: {
+        type: 'number',
+        description: `For view "lines": last line to return, inclusive (default: startLine + ${DEFAULT_LINES - 1})`,
+      },
       version: {
         type: 'string',
         description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
@@ -36,13 +70,13 @@ Use the "view" parameter to control the response size:
     required: ['className'],
   },
 
-  handler: async (args: { className: string; view?: View; version?: string }) => {
+  handler: async (args: { className: string; view?: View; startLine?: number; endLine?: number; version?: string }) => {
     const { version, error } = getEffectiveVersion(args.version);
     if (error) {
       return { content: [{ type: 'text' as const, text: error }] };
     }
 
-    ensureSourceStoreVersion(version);
+    await ensureSourceStoreVersion(version);
 
     const result = sourceStore.getClass(args.className);
 
@@ -55,24 +89,40 @@ Use the "view" parameter to control the response size:
       };
     }
 
-    const { info, source } = result;
+    const { info, source, binaryName } = result;
     const view: View = args.view ?? 'summary';
+    const simpleName = binaryName.slice(Math.max(binaryName.lastIndexOf('.'), binaryName.lastIndexOf('$')) + 1);
 
-    const header = renderHeader(args.className, info);
+    const header = renderHeader(binaryName, info);
     let body: string;
     switch (view) {
       case 'full':
-        body = source;
+        // Nested types share their outer class's file; return just their slice.
+        body = info.outerClass && info.lineStart && info.lineEnd
+          ? source.split('\n').slice(info.lineStart - 1, info.lineEnd).join('\n')
+          : source;
+        break;
+      case 'outline':
+        body = `// Outline (lines ${info.lineStart ?? '?'}-${info.lineEnd ?? '?'}):\n${renderOutline(binaryName, info).join('\n')}\n`;
+        break;
+      case 'lines':
+        // A nested type defaults to its own slice of the shared file.
+        body = args.startLine === undefined && info.outerClass && info.lineStart
+          ? renderLines(source, info.lineStart, args.endLine ?? Math.min(info.lineEnd ?? Infinity, info.lineStart + DEFAULT_LINES - 1))
+          : renderLines(source, args.startLine ?? 1, args.endLine);
         break;
       case 'methods':
-        body = renderMethods(info.methods);
+        body = renderConstructors(simpleName, info.constructors) + renderMethods(info.methods);
         break;
       case 'fields':
-        body = renderFields(info.fields);
+        body = renderEnumConstants(info.enumConstants) + renderRecordComponents(info.recordComponents)
+          + renderFields(info.fields);
         break;
       case 'summary':
       default:
-        body = renderFields(info.fields) + '\n' + renderMethods(info.methods);
+        body = renderEnumConstants(info.enumConstants) + renderRecordComponents(info.recordComponents)
+          + renderFields(info.fields) + '\n'
+          + renderConstructors(simpleName, info.constructors) + renderMethods(info.methods);
         break;
     }
 
@@ -87,9 +137,15 @@ Use the "view" parameter to control the response size:
 
 function renderHeader(className: string, info: ClassInfo): string {
   let header = `// ${info.kind} ${className}\n`;
+  if (info.annotations?.length) header += `// Annotations: ${formatAnnotations(info.annotations)}\n`;
   if (info.super) header += `// Extends: ${info.super}\n`;
   if (info.interfaces?.length) header += `// Implements: ${info.interfaces.join(', ')}\n`;
-  header += `// Fields: ${info.fields.length}, Methods: ${info.methods.length}\n\n`;
+  if (info.outerClass) header += `// Enclosing: ${info.outerClass} (${info.nesting})\n`;
+  if (info.nestedClasses?.length) header += `// Nested: ${info.nestedClasses.map(n => n.slice(n.lastIndexOf('.') + 1)).join(', ')}\n`;
+  const counts = [`Fields: ${info.fields.length}`, `Methods: ${info.methods.length}`];
+  if (info.constructors?.length) counts.push(`Constructors: ${info.constructors.length}`);
+  if (info.enumConstants?.length) counts.push(`Enum constants: ${info.enumConstants.length}`);
+  header += `// ${counts.join(', ')}\n\n`;
   return header;
 }
 
@@ -97,7 +153,7 @@ function renderFields(fields: FieldInfo[]): string {
   if (!fields.length) return '// (no fields)\n';
   const lines = fields.map(f => {
     const mods = f.modifiers.length ? f.modifiers.join(' ') + ' ' : '';
-    return `${mods}${f.type} ${f.name};`;
+    return `${annotated(f.annotations)}${mods}${f.typeText ?? f.type} ${f.name};`;
   });
   return '// Fields:\n' + lines.join('\n') + '\n';
 }
@@ -106,8 +162,140 @@ function renderMethods(methods: MethodInfo[]): string {
   if (!methods.length) return '// (no methods)\n';
   const lines = methods.map(m => {
     const mods = m.modifiers.length ? m.modifiers.join(' ') + ' ' : '';
-    const params = m.params.map(p => `${p.type} ${p.name}`).join(', ');
-    return `${mods}${m.returnType} ${m.name}(${params});`;
+    return `${annotated(m.annotations)}${mods}${m.returnTypeText ?? m.returnType} ${m.name}(${renderParams(m.params)});`;
   });
   return '// Methods:\n' + lines.join('\n') + '\n';
 }
+
+function renderEnumConstants(constants: EnumConstantInfo[] | undefined): string {
+  if (!constants?.length) return '';
+  const lines = constants.map(c => {
+    const args = c.args !== undefined ? `(${c.args})` : '';
+    const body = c.bodyClass ? ` { ... }  // ${c.bodyClass.slice(c.bodyClass.lastIndexOf('.') + 1)}` : '';
+    return `${annotated(c.annotations)}${c.name}${args},${body}`;
+  });
+  return '// Enum constants:\n' + lines.join('\n') + '\n\n';
+}
+
+function renderRecordComponents(components: RecordComponentInfo[] | undefined): string {
+  if (!components?.length) return '';
+  const lines = components.map(c => `${annotated(c.annotations)}${c.typeText ?? c.type} ${c.name}`);
+  return '// Record components:\n' + lines.join(',\n') + '\n\n';
+}
+
+function renderConstructors(simpleName: string, constructors: ConstructorInfo[] | undefined): string {
+  if (!constructors?.length) return '';
+  const lines = constructors.map(c => {
+    const mods = annotated(c.annotations) + (c.modifiers.length ? c.modifiers.join(' ') + ' ' : '');
+    if (c.compact) return `${mods}${simpleName} { ... }  // compact canonical constructor`;
+    return `${mods}${simpleName}(${renderParams(c.params)});`;
+  });
+  return '// Constructors:\n' + lines.join('\n') + '\n\n';
+}
+
+function renderParams(params: ParamInfo[]): string {
+  return params.map(p => `${annotated(p.annotations)}${p.typeText ?? p.type} ${p.name}`).join(', ');
+}
+
+/** Annotations followed by a space, or nothing. */
+function annotated(annotations: AnnotationInfo[] | undefined): string {
+  return annotations?.length ? `${formatAnnotations(annotations)} ` : '';
+}
+
+interface OutlineEntry {
+  start: number;
+  end: number;
+  row: (depth: number) => string;
+  children: (depth: number) => string[];
+}
+
+/**
+ * Members and nested types of a class in source order. Local and anonymous
+ * classes go under the member whose body declares them.
+ */
+function renderOutline(binaryName: string, info: ClassInfo, depth = 0): string[] {
+  const simpleName = binaryName.slice(Math.max(binaryName.lastIndexOf('.'), binaryName.lastIndexOf('$')) + 1);
+  const entries: OutlineEntry[] = [];
+  const local: OutlineEntry[] = [];
+  const add = (
+    start: number | undefined,
+    end: number | undefined,
+    kind: string,
+    text: string,
+    children: (depth: number) => string[] = () => [],
+    into = entries
+  ) => {
+    const range = start !== undefined ? `${start}-${end ?? start}` : '?';
+    into.push({
+      start: start ?? Number.MAX_SAFE_INTEGER,
+      end: end ?? start ?? Number.MAX_SAFE_INTEGER,
+      row: d => `${'  '.repeat(d)}${range.padEnd(11)} ${kind.padEnd(9)} ${text}`,
+      children,
+    });
+  };
+  const mods = (modifiers: string[] | undefined) => (modifiers?.length ? modifiers.join(' ') + ' ' : '');
+  const params = (list: ParamInfo[]) => list.map(p => `${p.typeText ?? p.type} ${p.name}`).join(', ');
+
+  for (const c of info.enumConstants ?? []) {
+    add(c.lineStart, c.lineEnd, 'constant', c.args !== undefined ? `${c.name}(${truncate(c.args, 60)})` : c.name);
+  }
+  for (const c of info.recordComponents ?? []) {
+    add(c.lineStart, c.lineEnd, 'component', `${c.typeText ?? c.type} ${c.name}`);
+  }
+  for (const f of info.fields) {
+    add(f.lineStart, f.lineEnd, 'field', `${mods(f.modifiers)}${f.typeText ?? f.type} ${f.name}`);
+  }
+  for (const c of info.constructors ?? []) {
+    add(c.lineStart, c.lineEnd, 'ctor', `${mods(c.modifiers)}${simpleName}(${c.compact ? '' : params(c.params)})`);
+  }
+  for (const m of info.methods) {
+    add(m.lineStart, m.lineEnd, 'method', `${mods(m.modifiers)}${m.returnTypeText ?? m.returnType} ${m.name}(${params(m.params)})`);
+  }
+  for (const nestedName of info.nestedClasses ?? []) {
+    const nested = sourceStore.getClassInfo(nestedName);
+    if (!nested) continue;
+    const label = nestedName.slice(nestedName.lastIndexOf('$') + 1);
+    const nesting = nested.info.nesting ?? 'member';
+    const children = (d: number) => (d < MAX_OUTLINE_DEPTH ? renderOutline(nested.binaryName, nested.info, d) : []);
+    add(nested.info.lineStart, nested.info.lineEnd, nested.info.kind, `${mods(nested.info.modifiers)}${label} (${nesting})`,
+      children, nesting === 'local' || nesting === 'anonymous' ? local : entries);
+  }
+
+  for (const cls of local) {
+    const owner = entries.find(e => e.start <= cls.start && cls.end <= e.end);
+    if (owner) {
+      const ownChildren = owner.children;
+      owner.children = d => [...ownChildren(d), cls.row(d), ...cls.children(d + 1)];
+    } else {
+      entries.push(cls);
+    }
+  }
+
+  return entries
+    .sort((a, b) => a.start - b.start)
+    .flatMap(e => [e.row(depth), ...e.children(depth + 1)]);
+}
+
+function renderLines(source: string, startLine: number, endLine: number | undefined): string {
+  const lines = source.split('\n');
+  const total = lines.length;
+  const start = Math.min(total, Math.max(1, Math.floor(startLine)));
+  const wanted = Math.max(start, Math.floor(endLine ?? start + DEFAULT_LINES - 1));
+  const end = Math.min(total, wanted, start + MAX_LINES - 1);
+
+  const width = String(end).length;
+  const body = lines
+    .slice(start - 1, end)
+    .map((text, i) => `${String(start + i).padStart(width)}| ${text}`)
+    .join('\n');
+
+  const footer = end < total
+    ? `// Lines ${start}-${end} of ${total}${end < wanted ? ` (capped at ${MAX_LINES} lines)` : ''}; next: startLine=${end + 1}`
+    : `// Lines ${start}-${end} of ${total} (end of file)`;
+
+  return `${body}\n${footer}\n`;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
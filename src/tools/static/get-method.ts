@@ -1,9 +1,19 @@
 import { sourceStore } from '../../storage/index.js';
 import { getEffectiveVersion, ensureSourceStoreVersion } from './helpers.js';
+import { methodDescriptor } from '../../utils/descriptor.js';
+import { formatAnnotations } from '../../indexer/symbol-db.js';
+import { MethodInfo } from '../../utils/types.js';
 
 export const mcGetMethodTool = {
   name: 'mc_get_method',
-  description: 'Get the source code for a specific method in a class, with surrounding context. Useful for understanding method implementation details.',
+  description: `Get the source code for a specific method in a class, with surrounding context. Useful for understanding method implementation details.
+
+Overloaded methods (e.g. Level.setBlock) are told apart with "paramTypes"
+(["BlockPos", "BlockState", "int"]) or a JVM "descriptor"
+("(Lnet/minecraft/core/BlockPos;Lnet/minecraft/world/level/block/state/BlockState;I)Z").
+When several overloads match, their signatures and line ranges are listed
+instead; pass allOverloads=true to get every matching body in one call.
+Use "<init>" or the class's simple name for constructors.`,
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -15,6 +25,19 @@ export const mcGetMethodTool = {
         type: 'string',
         description: 'Method name (e.g., "tick", "render", "onUse")',
       },
+      paramTypes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Optional: parameter types in order, as simple or fully qualified names (e.g., ["BlockPos", "int"]). Use [] for the no-argument overload.',
+      },
+      descriptor: {
+        type: 'string',
+        description: 'Optional: JVM method descriptor (e.g., "(DDD)V"); the return type may be omitted ("(DDD)")',
+      },
+      allOverloads: {
+        type: 'boolean',
+        description: 'Optional: return the bodies of every matching overload instead of listing them (default false)',
+      },
       version: {
         type: 'string',
         description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
@@ -23,17 +46,27 @@ export const mcGetMethodTool = {
     required: ['className', 'methodName'],
   },
 
-  handler: async (args: { className: string; methodName: string; version?: string }) => {
+  handler: async (args: {
+    className: string;
+    methodName: string;
+    paramTypes?: string[];
+    descriptor?: string;
+    allOverloads?: boolean;
+    version?: string;
+  }) => {
     const { version, error } = getEffectiveVersion(args.version);
     if (error) {
       return { content: [{ type: 'text' as const, text: error }] };
     }
 
-    ensureSourceStoreVersion(version);
+    await ensureSourceStoreVersion(version);
 
-    const result = sourceStore.getMethod(args.className, args.methodName);
+    const result = sourceStore.getMethod(args.className, args.methodName, {
+      paramTypes: args.paramTypes,
+      descriptor: args.descriptor,
+    });
 
-    if (!result) {
+    if (!result || result.overloads.length === 0) {
       return {
         content: [{
           type: 'text' as const,
@@ -42,22 +75,74 @@ export const mcGetMethodTool = {
       };
     }
 
-    const { method, source, classInfo } = result;
+    const { matches, overloads, classInfo, binaryName } = result;
+    const simpleName = binaryName.slice(Math.max(binaryName.lastIndexOf('.'), binaryName.lastIndexOf('$')) + 1);
+    const displayName = overloads[0].name === '<init>' ? simpleName : overloads[0].name;
 
-    let header = `// Method: ${args.className}#${method.name}\n`;
-    header += `// Signature: ${method.returnType} ${method.name}(${method.params.map(p => `${p.type} ${p.name}`).join(', ')})\n`;
-    header += `// Modifiers: ${method.modifiers.join(' ')}\n`;
-    header += `// Lines: ${method.lineStart}-${method.lineEnd}\n\n`;
+    if (matches.length === 0) {
+      const wanted = args.descriptor ?? `(${(args.paramTypes ?? []).join(', ')})`;
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `No overload of ${binaryName}#${displayName} matches ${wanted}. Available overloads:\n`
+            + renderOverloadList(overloads, displayName),
+        }],
+      };
+    }
 
+    if (matches.length > 1 && !args.allOverloads) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `${binaryName}#${displayName} has ${matches.length} overloads. `
+            + `Pass "paramTypes" or "descriptor" to pick one, or allOverloads=true for every body:\n`
+            + renderOverloadList(matches.map(m => m.method), displayName),
+        }],
+      };
+    }
+
+    const blocks = matches.map(({ method, source }) => {
+      let header = `// Method: ${binaryName}#${displayName}\n`;
+      header += `// Signature: ${formatSignature(method, displayName)}\n`;
+      header += `// Descriptor: ${describe(method)}\n`;
+      header += `// Modifiers: ${method.modifiers.join(' ')}\n`;
+      if (method.annotations?.length) header += `// Annotations: ${formatAnnotations(method.annotations)}\n`;
+      header += `// Lines: ${method.lineStart}-${method.lineEnd}\n\n`;
+      return header + source;
+    });
+
+    let preamble = '';
     if (classInfo.super) {
-      header += `// Class extends: ${classInfo.super}\n\n`;
+      preamble += `// Class extends: ${classInfo.super}\n`;
+    }
+    if (matches.length === 1 && overloads.length > 1) {
+      preamble += `// ${overloads.length - 1} other overload(s) of ${displayName}; pass "paramTypes" or "descriptor" to pick another\n`;
     }
 
     return {
       content: [{
         type: 'text' as const,
-        text: header + source,
+        text: (preamble ? preamble + '\n' : '') + blocks.join('\n\n'),
       }],
     };
   },
 };
+
+function formatSignature(method: MethodInfo, displayName: string): string {
+  const params = method.params.map(p => `${p.typeText ?? p.type} ${p.name}`).join(', ');
+  const returnType = method.name === '<init>' ? '' : `${method.returnTypeText ?? method.returnType} `;
+  return `${returnType}${displayName}(${params})`;
+}
+
+function describe(method: MethodInfo): string {
+  return methodDescriptor(method.params.map(p => p.type), method.returnType);
+}
+
+function renderOverloadList(methods: MethodInfo[], displayName: string): string {
+  return methods
+    .map(m => {
+      const mods = m.modifiers.length ? m.modifiers.join(' ') + ' ' : '';
+      return `  ${mods}${formatSignature(m, displayName)}  ${describe(m)}  (lines ${m.lineStart}-${m.lineEnd})`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,127 @@
+import { grepSources, GrepResult } from '../../storage/index.js';
+import { getEffectiveVersion } from './helpers.js';
+
+export const mcGrepTool = {
+  name: 'mc_grep',
+  description: `Search the text of the decompiled Minecraft sources with a regular expression or literal string.
+
+Finds what symbol search can't: string literals ("textures/gui/sprites"),
+translation keys, or expressions like getGameRules().getBoolean(.
+Lines are matched one at a time, with JavaScript regex syntax. Each match
+comes with its file, class, line number and surrounding context lines.
+
+Scope with packagePath ("net.minecraft.client", includes subpackages) or a
+glob over paths under the source root ("net/minecraft/world/level/**/*Block.java").
+Results are capped at limit matches; when more exist, pass the reported
+offset to continue.`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Regular expression (or literal text with literal=true) to search for',
+      },
+      literal: {
+        type: 'boolean',
+        description: 'Optional: treat pattern as plain text instead of a regex (default false)',
+      },
+      ignoreCase: {
+        type: 'boolean',
+        description: 'Optional: case-insensitive matching (default false)',
+      },
+      packagePath: {
+        type: 'string',
+        description: 'Optional: only search this package and its subpackages (e.g., "net.minecraft.client.renderer")',
+      },
+      glob: {
+        type: 'string',
+        description: 'Optional: only search files whose path under the source root matches this glob (e.g., "net/minecraft/**/*Screen.java")',
+      },
+      context: {
+        type: 'number',
+        description: 'Optional: lines of context before and after each match (default 2, max 10)',
+      },
+      offset: {
+        type: 'number',
+        description: 'Optional: number of matches to skip, to continue a previous search (default 0)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Optional: maximum number of matches to return (default 50, max 500)',
+      },
+      version: {
+        type: 'string',
+        description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
+      },
+    },
+    required: ['pattern'],
+  },
+
+  handler: async (args: {
+    pattern: string;
+    literal?: boolean;
+    ignoreCase?: boolean;
+    packagePath?: string;
+    glob?: string;
+    context?: number;
+    offset?: number;
+    limit?: number;
+    version?: string;
+  }) => {
+    const { version, error } = getEffectiveVersion(args.version);
+    if (error) {
+      return { content: [{ type: 'text' as const, text: error }] };
+    }
+
+    let result: GrepResult;
+    try {
+      result = await grepSources(version, args);
+    } catch (err) {
+      return { content: [{ type: 'text' as const, text: err instanceof Error ? err.message : String(err) }] };
+    }
+
+    const notice = result.indexed
+      ? ''
+      : `\n\n(No grep index for ${version}; every file was scanned. Ask the USER to run \`node dist/cli.js rebuild -v ${version}\` to build one.)`;
+
+    if (result.matchCount === 0) {
+      const where = result.offset > 0 ? ` past offset ${result.offset}` : '';
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `No matches for ${describePattern(args)}${where}${notice}`,
+        }],
+      };
+    }
+
+    const blocks = result.files.map(hit => {
+      const lines: string[] = [`${hit.file} (${hit.className})`];
+      let previous = 0;
+      for (const line of hit.lines) {
+        if (previous && line.line > previous + 1) lines.push('  --');
+        lines.push(`  ${line.line}${line.match ? ':' : '-'} ${line.text}`);
+        previous = line.line;
+      }
+      return lines.join('\n');
+    });
+
+    const first = result.offset + 1;
+    const last = result.offset + result.matchCount;
+    const more = result.nextOffset !== null
+      ? `\n\nMore matches available: pass offset=${result.nextOffset} to continue.`
+      : '';
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `Matches ${first}-${last} for ${describePattern(args)} in ${result.files.length} file(s):\n\n`
+          + blocks.join('\n\n') + more + notice,
+      }],
+    };
+  },
+};
+
+function describePattern(args: { pattern: string; literal?: boolean; ignoreCase?: boolean }): string {
+  const shown = args.literal ? JSON.stringify(args.pattern) : `/${args.pattern}/${args.ignoreCase ? 'i' : ''}`;
+  return args.literal && args.ignoreCase ? `${shown} (ignoring case)` : shown;
+}
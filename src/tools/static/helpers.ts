@@ -1,5 +1,7 @@
 import { versionManager } from '../../version-manager.js';
 import { sourceStore } from '../../storage/index.js';
+import type { Page, SourceStore } from '../../storage/index.js';
+import { upgradeStaleIndex } from '../../indexer/index.js';
 import {
   isVersionIndexed,
   getMinecraftSourceDir
@@ -40,8 +42,27 @@ To see available versions, call mc_version with action="list".`
   return { version: activeVersion };
 }
 
-export function ensureSourceStoreVersion(version: string): void {
-  if (!sourceStore.getVersion() || sourceStore.getVersion() !== version) {
-    sourceStore.setVersion(version);
+/** "Showing 51-100 of 340 results (pass offset=100 for more)" */
+export function pageSummary(page: Page<unknown>, noun: string): string {
+  if (page.items.length === 0) {
+    return `No ${noun} at offset ${page.offset} (total: ${page.total})`;
   }
+  const last = page.offset + page.items.length;
+  if (page.offset === 0 && last >= page.total) {
+    return `Total: ${page.total} ${noun}`;
+  }
+  const more = last < page.total ? ` (pass offset=${last} for more)` : '';
+  return `Showing ${page.offset + 1}-${last} of ${page.total} ${noun}${more}`;
+}
+
+/**
+ * Point the source store (or `store`, for a second version) at `version`,
+ * first rebuilding its index if an older parser wrote it. Progress goes to
+ * stderr; stdout carries the MCP protocol.
+ */
+export async function ensureSourceStoreVersion(version: string, store: SourceStore = sourceStore): Promise<void> {
+  await upgradeStaleIndex(version, (stage, progress, message) => {
+    console.error(`[mcdev-mcp ${stage}] ${progress}% - ${message}`);
+  });
+  await store.setVersion(version);
 }
@@ -6,6 +6,11 @@ export { mcListClassesTool } from './list-classes.js';
 export { mcListPackagesTool } from './list-packages.js';
 export { mcFindHierarchyTool } from './find-hierarchy.js';
 export { mcFindRefsTool } from './find-refs.js';
+export { mcCallTreeTool } from './call-tree.js';
+export { mcExportGraphTool } from './export-graph.js';
+export { mcGrepTool } from './grep.js';
+export { mcPacketFlowTool } from './packet-flow.js';
+export { mcDiffVersionsTool } from './diff-versions.js';
 
 import { mcVersionTool } from './version.js';
 import { mcSearchTool } from './search-source.js';
@@ -15,13 +20,23 @@ import { mcListClassesTool } from './list-classes.js';
 import { mcListPackagesTool } from './list-packages.js';
 import { mcFindHierarchyTool } from './find-hierarchy.js';
 import { mcFindRefsTool } from './find-refs.js';
+import { mcCallTreeTool } from './call-tree.js';
+import { mcExportGraphTool } from './export-graph.js';
+import { mcGrepTool } from './grep.js';
+import { mcPacketFlowTool } from './packet-flow.js';
+import { mcDiffVersionsTool } from './diff-versions.js';
 
 export const staticTools = [
   mcVersionTool,
   mcSearchTool,
+  mcGrepTool,
   mcGetClassTool,
   mcGetMethodTool,
   mcFindRefsTool,
+  mcCallTreeTool,
+  mcExportGraphTool,
+  mcPacketFlowTool,
+  mcDiffVersionsTool,
   mcListClassesTool,
   mcListPackagesTool,
   mcFindHierarchyTool,
@@ -1,5 +1,5 @@
 import { sourceStore } from '../../storage/index.js';
-import { getEffectiveVersion, ensureSourceStoreVersion } from './helpers.js';
+import { getEffectiveVersion, ensureSourceStoreVersion, pageSummary } from './helpers.js';
 
 export const mcListClassesTool = {
   name: 'mc_list_classes',
@@ -11,6 +11,14 @@ export const mcListClassesTool = {
         type: 'string',
         description: 'Package path to list classes from (e.g., "net.minecraft.client", "net.minecraft.world.entity"). Matches exact package and all subpackages.',
       },
+      offset: {
+        type: 'number',
+        description: 'Optional: number of results to skip, for paging (default 0)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Optional: maximum number of results to return (default 200, max 500)',
+      },
       version: {
         type: 'string',
         description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
@@ -19,17 +27,17 @@ export const mcListClassesTool = {
     required: ['packagePath'],
   },
 
-  handler: async (args: { packagePath: string; version?: string }) => {
+  handler: async (args: { packagePath: string; offset?: number; limit?: number; version?: string }) => {
     const { version, error } = getEffectiveVersion(args.version);
     if (error) {
       return { content: [{ type: 'text' as const, text: error }] };
     }
 
-    ensureSourceStoreVersion(version);
+    await ensureSourceStoreVersion(version);
 
-    const results = sourceStore.listClasses(args.packagePath);
+    const page = sourceStore.listClasses(args.packagePath, { offset: args.offset, limit: args.limit ?? 200 });
 
-    if (results.length === 0) {
+    if (page.total === 0) {
       return {
         content: [{
           type: 'text' as const,
@@ -38,14 +46,10 @@ export const mcListClassesTool = {
       };
     }
 
-    const summary = results.length > 200
-      ? `\n... and ${results.length - 200} more (total: ${results.length})`
-      : `\nTotal: ${results.length} class(es)`;
-
     return {
       content: [{
         type: 'text' as const,
-        text: `Classes under "${args.packagePath}":\n${results.slice(0, 200).map(r => r.className).join('\n')}${summary}`,
+        text: `Classes under "${args.packagePath}":\n${page.items.map(r => r.className).join('\n')}\n${pageSummary(page, 'class(es)')}`,
       }],
     };
   },
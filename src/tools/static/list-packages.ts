@@ -26,7 +26,7 @@ export const mcListPackagesTool = {
       return { content: [{ type: 'text' as const, text: error }] };
     }
 
-    ensureSourceStoreVersion(version);
+    await ensureSourceStoreVersion(version);
 
     const results = sourceStore.listPackages(args.namespace);
 
@@ -0,0 +1,249 @@
+import { findCallees, findCallers } from '../../callgraph/query.js';
+import type { CallRefs } from '../../callgraph/query.js';
+import { hasCallgraphDb } from '../../callgraph/index.js';
+import { sourceStore } from '../../storage/index.js';
+import type { ClassInfo, MethodInfo } from '../../utils/types.js';
+import { getEffectiveVersion, ensureSourceStoreVersion, pageSummary } from './helpers.js';
+import { CallSites, displayParams, simpleName } from './call-sites.js';
+import { ReachabilityMarks } from './reachability-marks.js';
+
+const PACKET = 'net.minecraft.network.protocol.Packet';
+
+export interface PacketFlow {
+  /** "clientbound" (sent by the server, handled by the client) or "serverbound"; null when neither name says. */
+  direction: 'clientbound' | 'serverbound' | null;
+  /** Protocol phase, e.g. "game", "login", "configuration"; "common" packets are shared by configuration and game. */
+  phase: string | null;
+}
+
+/**
+ * Direction and protocol phase of a packet, from the listener its handle()
+ * takes ("ClientGamePacketListener": clientbound, game) or, failing that,
+ * from its own name and package.
+ */
+export function describePacketFlow(packetClass: string, listener: string | null): PacketFlow {
+  const match = listener && simpleName(listener).match(/^(Client|Server)(\w*?)PacketListener$/);
+  if (match) {
+    return {
+      direction: match[1] === 'Client' ? 'clientbound' : 'serverbound',
+      phase: match[2] ? match[2].toLowerCase() : null,
+    };
+  }
+  const name = simpleName(packetClass);
+  const direction = name.startsWith('Clientbound') ? 'clientbound' : name.startsWith('Serverbound') ? 'serverbound' : null;
+  const phase = packetClass.match(/\.network\.protocol\.(\w+)\./)?.[1] ?? null;
+  return { direction, phase };
+}
+
+export const mcPacketFlowTool = {
+  name: 'mc_packet_flow',
+  description: `Report how a network packet flows: who sends it and what handles it.
+
+For a packet class (e.g. "ClientboundSetEntityMotionPacket" or
+"ServerboundUseItemOnPacket", simple or fully qualified) it lists:
+- direction (clientbound = server to client, serverbound = client to server)
+  and protocol phase (game, configuration, login, ...), from the listener
+  interface its handle() method takes
+- its fields
+- the listener method handle() dispatches to and every implementation of it
+  (ClientPacketListener, ServerGamePacketListenerImpl, ...), with lines
+- where it is constructed, directly or through its static factory methods,
+  from the callgraph: usually the senders
+
+Construction sites are paged with offset/limit.`,
+  inputSchema: {
+    type: 'object' as const,
+    properties: {
+      packet: {
+        type: 'string',
+        description: 'Packet class, simple or fully qualified (e.g., "ClientboundSetEntityMotionPacket")',
+      },
+      offset: {
+        type: 'number',
+        description: 'Optional: number of construction sites to skip, for paging (default 0)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Optional: maximum number of construction sites to return (default 50, max 500)',
+      },
+      version: {
+        type: 'string',
+        description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
+      },
+    },
+    required: ['packet'],
+  },
+
+  handler: async (args: {
+    packet: string;
+    offset?: number;
+    limit?: number;
+    version?: string;
+  }) => {
+    const { version, error } = getEffectiveVersion(args.version);
+    if (error) {
+      return { content: [{ type: 'text' as const, text: error }] };
+    }
+
+    await ensureSourceStoreVersion(version);
+
+    const candidates = resolvePackets(args.packet);
+    if (candidates.length === 0) {
+      return { content: [{ type: 'text' as const, text: `No packet class named ${args.packet} (a type implementing ${PACKET})` }] };
+    }
+    if (candidates.length > 1) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `${args.packet} names ${candidates.length} packets; pass one fully qualified:\n${candidates.map(c => `  ${c}`).join('\n')}`,
+        }],
+      };
+    }
+
+    const packet = candidates[0];
+    const info = sourceStore.getClassInfo(packet)!.info;
+    const ancestors = sourceStore.findTypeHierarchy(packet, 'ancestors')?.entries.map(e => e.className) ?? [];
+    const listener = listenerOf([packet, ...ancestors]);
+    const flow = describePacketFlow(packet, listener);
+
+    const lines = [`${packet} [${info.kind}]${info.lineStart ? ` (lines ${info.lineStart}-${info.lineEnd})` : ''}`];
+    lines.push(`Direction: ${flow.direction === 'clientbound'
+      ? 'clientbound (sent by the server, handled by the client)'
+      : flow.direction === 'serverbound' ? 'serverbound (sent by the client, handled by the server)' : 'unknown'}`);
+    lines.push(`Protocol phase: ${flow.phase ?? 'unknown'}${flow.phase === 'common' ? ' (configuration and game)' : ''}${listener ? ` (${simpleName(listener)})` : ''}`);
+
+    const fields = packetFields(info);
+    lines.push('', fields.length ? `Fields:\n${fields.map(f => `  ${f}`).join('\n')}` : 'Fields: none');
+
+    const callgraph = hasCallgraphDb(version);
+    lines.push('', ...(await describeHandlers(version, packet, ancestors, listener, callgraph)));
+
+    lines.push('');
+    const marks = new ReachabilityMarks(version);
+    let note = '';
+    if (!callgraph) {
+      lines.push(`Construction sites: no callgraph for ${version} (ask the USER to run \`node dist/cli.js callgraph -v ${version}\`)`);
+    } else {
+      const sites = new CallSites(version);
+      const paging = { offset: args.offset, limit: args.limit ?? 50 };
+      // Constructors of the packet and its subclasses call <init> through
+      // this(...) and super(...): chained, not constructed.
+      const subtypes = sourceStore.findTypeHierarchy(packet, 'descendants')?.entries.map(e => e.className) ?? [];
+      const exclude = { classNames: [packet, ...subtypes], methodName: '<init>' };
+      lines.push(...renderSites(await findCallers(version, packet, '<init>', { ...paging, exclude }), 'construction sites', sites, marks));
+      for (const factory of info.methods.filter(m => isFactory(m, packet))) {
+        const page = await findCallers(version, packet, factory.name, paging);
+        if (page.total > 0) {
+          lines.push('', ...renderSites(page, `calls to ${simpleName(packet)}.${factory.name}`, sites, marks));
+        }
+      }
+      note = `${sites.note}${marks.note}`;
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `${lines.join('\n')}${note}`,
+      }],
+    };
+  },
+};
+
+/** Binary names of the packet classes `name` may mean. */
+function resolvePackets(name: string): string[] {
+  const exact = sourceStore.getClassInfo(name);
+  if (exact) return isPacket(exact.binaryName) ? [exact.binaryName] : [];
+
+  const innermost = name.slice(name.lastIndexOf('.') + 1);
+  const dotted = name.replace(/\$/g, '.');
+  return sourceStore.search(innermost, 'class', { limit: 500 }).items
+    .filter(r => r.name === innermost && `.${r.className.replace(/\$/g, '.')}`.endsWith(`.${dotted}`))
+    .map(r => r.className)
+    .filter(isPacket);
+}
+
+function isPacket(className: string): boolean {
+  return !!sourceStore.findTypeHierarchy(className, 'ancestors')?.entries.some(e => e.className === PACKET);
+}
+
+/** The listener type taken by the nearest handle(listener), skipping Packet's own erased one. */
+function listenerOf(types: string[]): string | null {
+  for (const type of types) {
+    if (type === PACKET) continue;
+    const handle = sourceStore.getClassInfo(type)?.info.methods.find(m => m.name === 'handle' && m.params.length === 1);
+    if (handle) return handle.params[0].type;
+  }
+  return null;
+}
+
+function packetFields(info: ClassInfo): string[] {
+  const components = (info.recordComponents ?? []).map(c => `${c.typeText ?? c.type} ${c.name}`);
+  const fields = info.fields
+    .filter(f => !f.modifiers.includes('static'))
+    .map(f => `${f.typeText ?? f.type} ${f.name}`);
+  return [...components, ...fields];
+}
+
+/** Static methods returning the packet: factories whose callers send it too. */
+function isFactory(method: MethodInfo, packet: string): boolean {
+  return method.returnType === packet && method.modifiers.includes('static') && !method.name.startsWith('lambda$');
+}
+
+/**
+ * The listener method taking the packet (or a supertype it is handled as),
+ * found on the listener interface, and its implementations. Without one in
+ * the symbol index, the callgraph's callees of handle() are used instead.
+ */
+async function describeHandlers(
+  version: string,
+  packet: string,
+  ancestors: string[],
+  listener: string | null,
+  callgraph: boolean
+): Promise<string[]> {
+  if (!listener) return [`Handler: ${simpleName(packet)} declares no handle(listener) method`];
+
+  const packetTypes = [packet, ...ancestors];
+  const listenerTypes = [listener, ...(sourceStore.findTypeHierarchy(listener, 'ancestors')?.entries.map(e => e.className) ?? [])];
+  let declared: { owner: string; method: MethodInfo } | null = null;
+  for (const type of packetTypes) {
+    for (const owner of listenerTypes) {
+      const method = sourceStore.getClassInfo(owner)?.info.methods.find(m => m.params.length === 1 && m.params[0].type === type);
+      if (method) {
+        declared = { owner, method };
+        break;
+      }
+    }
+    if (declared) break;
+  }
+
+  if (!declared) {
+    if (!callgraph) return [`Handler: no method of ${simpleName(listener)} takes ${simpleName(packet)}`];
+    const callees = await findCallees(version, packet, 'handle');
+    const dispatched = callees.items.filter(r => listenerTypes.includes(r.className));
+    if (dispatched.length === 0) return [`Handler: ${simpleName(packet)}.handle calls no method of ${simpleName(listener)}`];
+    return ['Handle calls (from the callgraph):', ...dispatched.map(r => `  ${r.fullName}${displayParams(r.descriptor)}`)];
+  }
+
+  const { owner, method } = declared;
+  const paramType = method.params[0].type;
+  const lines = [`Handled by ${owner}#${method.name}(${simpleName(paramType)}):`];
+  const implementations = (sourceStore.findTypeHierarchy(owner, 'descendants')?.entries ?? [])
+    .map(e => sourceStore.getClassInfo(e.className))
+    .flatMap(c => {
+      const impl = c?.info.methods.find(m => m.name === method.name && m.params.length === 1 && m.params[0].type === paramType);
+      return c && impl ? [`  ${c.binaryName}#${impl.name} (lines ${impl.lineStart}-${impl.lineEnd})`] : [];
+    });
+  lines.push(...(implementations.length ? implementations : ['  no implementation in the index']));
+  return lines;
+}
+
+function renderSites(page: CallRefs, noun: string, sites: CallSites, marks: ReachabilityMarks): string[] {
+  if (page.total === 0) return [`Construction sites: none in the callgraph`];
+  return [
+    `${pageSummary(page, noun)}:`,
+    ...page.items.map(r =>
+      `  ${r.fullName}${displayParams(r.descriptor)}${sites.describe(r.className, r.lineNumber)}${marks.mark(marks.status(r))}`
+    ),
+  ];
+}
@@ -0,0 +1,47 @@
+import { loadReachability } from '../../callgraph/reachability.js';
+import type { Reachability, ReachabilityStatus } from '../../callgraph/reachability.js';
+import type { MethodNode } from '../../callgraph/traverse.js';
+import type { MethodIdentity } from '../../storage/index.js';
+import { parseMethodDescriptor } from '../../utils/descriptor.js';
+
+/** Marks methods the last `reachability` run of a version found unreachable from its entry points. */
+export class ReachabilityMarks {
+  readonly reachability: Reachability | null;
+  private marked = 0;
+
+  constructor(private readonly version: string) {
+    this.reachability = loadReachability(version);
+  }
+
+  status(node: MethodNode): ReachabilityStatus {
+    return this.reachability?.status(node) ?? 'unknown';
+  }
+
+  /** The status of an indexed method or constructor, matched to the callgraph by its erased parameter types. */
+  statusOfIndexed(method: MethodIdentity): ReachabilityStatus {
+    const paramTypes = parseMethodDescriptor(method.descriptor)?.paramTypes;
+    if (!paramTypes) return 'unknown';
+    return this.status({ className: method.className, methodName: method.name, descriptor: `(${paramTypes.join(',')})` });
+  }
+
+  /** " [unreachable]", or "" for reachable methods and those the analysis doesn't cover. */
+  mark(status: ReachabilityStatus): string {
+    if (status !== 'unreachable') return '';
+    this.marked++;
+    return ' [unreachable]';
+  }
+
+  /** Paragraph explaining the mark, once something was marked. */
+  get note(): string {
+    if (!this.reachability || this.marked === 0) return '';
+    return `\n\n[unreachable]: not reachable from the ${this.reachability.entryPoints.length} entry point(s) of \`mcdev-mcp reachability -v ${this.version}\` (${this.reachability.entryPoints.join(', ')}).`;
+  }
+}
+
+/** Tool text asking for a reachability run, when a filter needs one. */
+export function reachabilityMissing(version: string): string {
+  return `Version ${version} has no reachability analysis, or its callgraph was rebuilt since.
+
+STOP and ask the USER to run this command in their terminal:
+  node dist/cli.js reachability -v ${version}`;
+}
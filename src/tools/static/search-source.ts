@@ -1,5 +1,11 @@
-import { sourceStore } from '../../storage/index.js';
-import { getEffectiveVersion, ensureSourceStoreVersion } from './helpers.js';
+import { SourceStore, sourceStore } from '../../storage/index.js';
+import { loadRenames } from '../../storage/renames.js';
+import type { RenameMatch, Renames } from '../../storage/renames.js';
+import { classPart, membersOf } from '../../storage/version-diff.js';
+import { innermostName } from '../../indexer/symbol-db.js';
+import { SearchResult } from '../../utils/types.js';
+import { getEffectiveVersion, ensureSourceStoreVersion, pageSummary } from './helpers.js';
+import { ReachabilityMarks, reachabilityMissing } from './reachability-marks.js';
 
 export const mcSearchTool = {
   name: 'mc_search',
@@ -7,72 +13,228 @@ export const mcSearchTool = {
 
 Each hit returns enough context to make follow-up mc_get_class / mc_get_method
 calls unnecessary in trivial cases:
-- class hits: kind (class/interface/record/enum), extends, implements, field/method counts
+- class hits: kind (class/interface/record/enum), extends, implements, field/method/constructor counts
 - method hits: full signature including modifiers (public/static/etc.) plus line number
-- field hits: full declaration including modifiers and type
+- field hits: full declaration including modifiers and type; enum constants
+  (with their arguments) and record components are reported as field hits too
+- constructor hits: parameter list plus line number. Searching for a class's
+  exact name also lists its constructors.
 
-Pass type="class"/"method"/"field" to filter; defaults to all three.`,
+Results are ranked by relevance, each with a score (1 = exact name):
+exact name, then name prefix, then CamelHump abbreviations ("CPL" finds
+ClientPacketListener, "BERenderer" BlockEntityRenderer, "getBlkState"
+getBlockState), then near-miss spellings ("getBlokState"). Hits whose
+signature mentions the query (e.g. methods taking a
+ClientboundSetEntityDataPacket) rank last.
+
+Narrow the query with filters inside it:
+- owner:<type>   members declared in that type ("owner:Entity tick", "owner:net.minecraft.world.entity.Entity")
+- pkg:<package>  symbols in that package or its subpackages ("pkg:net.minecraft.client Screen")
+- @<annotation>  symbols carrying that annotation, by simple or qualified name
+                 ("@Deprecated pkg:net.minecraft.world.level" with type="method")
+A query of only filters lists everything they match. Hits list their annotations.
+Pass type="class"/"method"/"field"/"constructor" to filter by kind; defaults to all.
+Results are paged with offset/limit.
+
+Once \`mcdev-mcp reachability\` has been run for the version, methods that
+cannot be reached from the game's entry points are marked [unreachable], and
+reachability="reachable"/"unreachable" keeps only such methods and
+constructors (e.g. live hook points: "owner:LivingEntity" with
+reachability="reachable"). Methods the callgraph doesn't record match neither.
+
+To ask what became of symbols from an older version, pass fromVersion (e.g.
+"1.21.10"): the query runs against that version, and each hit says whether
+it still exists in this version, moved or was renamed (with the likely
+successor and a confidence), or was removed. Needs \`mcdev-mcp renames\`
+for the two versions.`,
   inputSchema: {
     type: 'object' as const,
     properties: {
       query: {
         type: 'string',
-        description: 'The search query - class, method, or field name (or partial name)',
+        description: 'The search query - a class, method, or field name, partial name or CamelHump abbreviation, optionally with owner:<type> / pkg:<package> / @<annotation> filters',
       },
       type: {
         type: 'string',
-        enum: ['class', 'method', 'field'],
-        description: 'Optional: filter by type (class, method, or field)',
+        enum: ['class', 'method', 'field', 'constructor'],
+        description: 'Optional: filter by type (class, method, field, or constructor)',
+      },
+      reachability: {
+        type: 'string',
+        enum: ['reachable', 'unreachable'],
+        description: 'Optional: only methods and constructors reachable (or unreachable) from the game entry points; needs `mcdev-mcp reachability`',
+      },
+      offset: {
+        type: 'number',
+        description: 'Optional: number of results to skip, for paging (default 0)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Optional: maximum number of results to return (default 50, max 500)',
       },
       version: {
         type: 'string',
         description: 'Optional: Minecraft version to use (e.g., "1.21.1"). If not provided, uses the active version set by mc_version.',
       },
+      fromVersion: {
+        type: 'string',
+        description: 'Optional: older version to search instead, reporting what became of each hit in this version (e.g., "1.21.10"); needs `mcdev-mcp renames`',
+      },
     },
     required: ['query'],
   },
 
-  handler: async (args: { query: string; type?: 'class' | 'method' | 'field'; version?: string }) => {
+  handler: async (args: {
+    query: string;
+    type?: 'class' | 'method' | 'field' | 'constructor';
+    reachability?: 'reachable' | 'unreachable';
+    offset?: number;
+    limit?: number;
+    version?: string;
+    fromVersion?: string;
+  }) => {
     const { version, error } = getEffectiveVersion(args.version);
     if (error) {
       return { content: [{ type: 'text' as const, text: error }] };
     }
 
-    ensureSourceStoreVersion(version);
+    await ensureSourceStoreVersion(version);
 
-    const results = sourceStore.search(args.query, args.type);
+    if (args.fromVersion) {
+      return { content: [{ type: 'text' as const, text: await searchFromVersion(args.fromVersion, version, args) }] };
+    }
+
+    const marks = new ReachabilityMarks(version);
+    const wanted = args.reachability;
+    if (wanted && !marks.reachability) {
+      return { content: [{ type: 'text' as const, text: reachabilityMissing(version) }] };
+    }
 
-    if (results.length === 0) {
+    const page = sourceStore.search(
+      args.query,
+      args.type,
+      { offset: args.offset, limit: args.limit },
+      wanted ? method => marks.statusOfIndexed(method) === wanted : undefined
+    );
+
+    if (page.total === 0) {
+      const filters = [args.type && `type: ${args.type}`, wanted && `reachability: ${wanted}`].filter(Boolean);
       return {
         content: [{
           type: 'text' as const,
-          text: `No results found for "${args.query}"${args.type ? ` (type: ${args.type})` : ''}`,
+          text: `No results found for "${args.query}"${filters.length ? ` (${filters.join(', ')})` : ''}`,
         }],
       };
     }
 
-    const output = results.map(r => {
-      if (r.type === 'class') {
-        const ext = r.superClass ? ` extends ${r.superClass}` : '';
-        const impl = r.interfaces && r.interfaces.length
-          ? ` implements ${r.interfaces.slice(0, 3).join(', ')}${r.interfaces.length > 3 ? ` (+${r.interfaces.length - 3})` : ''}`
-          : '';
-        const counts = `(${r.fieldCount ?? 0} fields, ${r.methodCount ?? 0} methods)`;
-        return `[${r.kind ?? 'class'}] ${r.className}${ext}${impl} ${counts}`;
-      } else if (r.type === 'method') {
-        const mods = r.modifiers?.length ? r.modifiers.join(' ') + ' ' : '';
-        return `[method] ${r.className}#${r.name}: ${mods}${r.signature ?? r.name} (line ${r.lineStart})`;
-      } else {
-        const mods = r.modifiers?.length ? r.modifiers.join(' ') + ' ' : '';
-        return `[field] ${r.className}#${r.name}: ${mods}${r.signature ?? r.name}`;
-      }
-    }).join('\n');
+    const output = page.items
+      .map(r => {
+        const status = r.descriptor
+          ? marks.statusOfIndexed({ className: r.className, name: r.type === 'constructor' ? '<init>' : r.name, descriptor: r.descriptor })
+          : 'unknown';
+        return `${renderHit(r)}${r.annotations ? ` ${r.annotations}` : ''} (score ${(r.score ?? 1).toFixed(2)})${marks.mark(status)}`;
+      })
+      .join('\n');
 
     return {
       content: [{
         type: 'text' as const,
-        text: `Found ${results.length} result(s):\n${output}`,
+        text: `${pageSummary(page, 'result(s)')}:\n${output}${marks.note}`,
       }],
     };
   },
 };
+
+/**
+ * Search `fromVersion` and follow each hit into `version`: by name when it
+ * still exists there, else through the saved rename matches.
+ */
+async function searchFromVersion(
+  fromVersion: string,
+  version: string,
+  args: { query: string; type?: 'class' | 'method' | 'field' | 'constructor'; offset?: number; limit?: number }
+): Promise<string> {
+  const from = getEffectiveVersion(fromVersion);
+  if (from.error) return from.error;
+  if (from.version === version) return `fromVersion is the version searched (${version}); pass an older one.`;
+
+  const renames = loadRenames(from.version, version);
+  if (!renames) {
+    return `No rename matches from ${from.version} to ${version}, or either index was rebuilt since they were computed. STOP and ask the USER to run this command in their terminal:\n  node dist/cli.js renames --from ${from.version} --to ${version}`;
+  }
+
+  const old = new SourceStore();
+  try {
+    await ensureSourceStoreVersion(from.version, old);
+    const page = old.search(args.query, args.type, { offset: args.offset, limit: args.limit });
+    if (page.total === 0) {
+      return `No results found for "${args.query}" in ${from.version}${args.type ? ` (type: ${args.type})` : ''}`;
+    }
+    const output = page.items.map(r => `${renderHit(r)}\n    -> ${fateOf(r, old, renames, version)}`).join('\n');
+    return `${pageSummary(page, `result(s) in ${from.version}`)}, followed into ${version}:\n${output}`;
+  } finally {
+    old.close();
+  }
+}
+
+/** What became of a hit from the old version in `version`. */
+function fateOf(r: SearchResult, old: SourceStore, renames: Renames, version: string): string {
+  const classMatch = renames.classMatch(r.className);
+  const owner = sourceStore.getClassInfo(r.className)?.binaryName === r.className ? r.className : classMatch?.to;
+  if (r.type === 'class') {
+    if (owner === r.className) return `still in ${version}`;
+    if (!classMatch) return `removed in ${version}, no likely successor`;
+    return `${movedOrRenamed(classMatch)} to ${classMatch.to} (${describeMatch(classMatch)})`;
+  }
+  if (!owner) return `removed in ${version} with ${r.className}, no likely successor`;
+
+  const oldInfo = old.getClassInfo(r.className)?.info;
+  const name = r.type === 'constructor' ? '<init>' : r.name;
+  const named = oldInfo ? [...membersOf(r.className, oldInfo).values()].filter(m => m.kind === r.type && m.name === name) : [];
+  const member = named.find(m => m.lineStart === r.lineStart) ?? (named.length === 1 ? named[0] : undefined);
+  if (!member) return `not found in the ${r.className} index entry`;
+
+  const newInfo = sourceStore.getClassInfo(owner)?.info;
+  if (newInfo && membersOf(owner, newInfo).has(`${member.kind}:${member.key}`)) {
+    return owner === r.className
+      ? `still in ${version}`
+      : `${owner}#${member.key} (class ${movedOrRenamed(classMatch!)}, ${describeMatch(classMatch!)})`;
+  }
+  const match = renames.memberMatch(r.className, member.key);
+  return match ? `likely ${match.to} (${describeMatch(match)})` : `removed in ${version}, no likely successor`;
+}
+
+function movedOrRenamed(match: RenameMatch): string {
+  return innermostName(classPart(match.from)) === innermostName(classPart(match.to)) ? 'moved' : 'renamed';
+}
+
+/** "confidence 0.87: body 0.92, signature 1, neighborhood 0.7" */
+function describeMatch(match: RenameMatch): string {
+  const signals = Object.entries(match.signals).map(([name, value]) => `${name} ${value}`).join(', ');
+  return `confidence ${match.confidence.toFixed(2)}: ${signals}`;
+}
+
+function renderHit(r: SearchResult): string {
+  if (r.type === 'class') {
+    const ext = r.superClass ? ` extends ${r.superClass}` : '';
+    const impl = r.interfaces && r.interfaces.length
+      ? ` implements ${r.interfaces.slice(0, 3).join(', ')}${r.interfaces.length > 3 ? ` (+${r.interfaces.length - 3})` : ''}`
+      : '';
+    const ctors = r.constructorCount ? `, ${r.constructorCount} constructors` : '';
+    const counts = `(${r.fieldCount ?? 0} fields, ${r.methodCount ?? 0} methods${ctors})`;
+    return `[${r.kind ?? 'class'}] ${r.className}${ext}${impl} ${counts}`;
+  } else if (r.type === 'method') {
+    const mods = r.modifiers?.length ? r.modifiers.join(' ') + ' ' : '';
+    return `[method] ${r.className}#${r.name}: ${mods}${r.signature ?? r.name} (line ${r.lineStart})`;
+  } else if (r.type === 'constructor') {
+    const mods = r.modifiers?.length ? r.modifiers.join(' ') + ' ' : '';
+    return `[constructor] ${r.className}: ${mods}${r.signature ?? r.name} (line ${r.lineStart})`;
+  } else if (r.type === 'enumConstant') {
+    return `[enum constant] ${r.className}#${r.name}: ${r.signature ?? r.name} (line ${r.lineStart})`;
+  } else if (r.type === 'recordComponent') {
+    return `[record component] ${r.className}#${r.name}: ${r.signature ?? r.name} (line ${r.lineStart})`;
+  } else {
+    const mods = r.modifiers?.length ? r.modifiers.join(' ') + ' ' : '';
+    return `[field] ${r.className}#${r.name}: ${mods}${r.signature ?? r.name}`;
+  }
+}
@@ -1,6 +1,6 @@
 import { versionManager } from '../../version-manager.js';
 import { sourceStore } from '../../storage/index.js';
-import { hasCallgraphDb } from '../../callgraph/index.js';
+import { hasCallgraphDb, getCallgraphPoolMetrics, describeDbMetrics, describePoolMetrics } from '../../callgraph/index.js';
 import {
   getAvailableMinecraftVersions,
   getIndexedVersions,
@@ -15,7 +15,8 @@ export const mcVersionTool = {
 
 Actions:
 - "set": Set the active version (required before using other static tools)
-- "list": Show all initialized versions and their status`,
+- "list": Show all initialized versions and their status, with the memory
+  and query latency of the callgraph databases this server has open`,
   inputSchema: {
     type: 'object' as const,
     properties: {
@@ -74,7 +75,7 @@ This will index Minecraft ${args.version} sources.`,
       }
 
       versionManager.setVersion(args.version);
-      sourceStore.setVersion(args.version);
+      await sourceStore.setVersion(args.version);
 
       const hasCallgraph = hasCallgraphDb(args.version);
 
@@ -122,10 +123,15 @@ Example:
 
       const activeVersion = versionManager.getVersion();
 
+      const pool = getCallgraphPoolMetrics();
+      const callgraphs = pool.open.length
+        ? `\n\nOpen callgraph databases (${describePoolMetrics(pool)}):\n${pool.open.map(m => `${m.version}: ${describeDbMetrics(m)}`).join('\n')}`
+        : '';
+
       return {
         content: [{
           type: 'text' as const,
-          text: `Available Minecraft versions:\n${output}${activeVersion ? `\n\nActive version: ${activeVersion}` : '\n\nNo active version set. Use mc_version with action="set".'}`,
+          text: `Available Minecraft versions:\n${output}${activeVersion ? `\n\nActive version: ${activeVersion}` : '\n\nNo active version set. Use mc_version with action="set".'}${callgraphs}`,
         }],
       };
     }
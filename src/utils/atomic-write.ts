@@ -0,0 +1,39 @@
+// Replacing a file through a temporary one beside it, renamed into place once
+// complete: a reader, or the next run after a crash, sees the previous file
+// (or none) rather than a truncated one. The temporary name carries the pid,
+// so two processes writing the same file don't clobber each other's halves.
+
+import * as fs from 'fs';
+
+/** Write `data` to `filePath` atomically. */
+export function writeFileAtomic(filePath: string, data: string | Uint8Array): void {
+  const tempPath = tempPathFor(filePath);
+  try {
+    fs.writeFileSync(tempPath, data);
+    fs.renameSync(tempPath, filePath);
+  } catch (e) {
+    fs.rmSync(tempPath, { force: true });
+    throw e;
+  }
+}
+
+/**
+ * Have `write` produce the file at the temporary path it is given, then move
+ * it to `filePath`; for files written incrementally, like a database.
+ */
+export async function replaceFileAtomic<T>(filePath: string, write: (tempPath: string) => Promise<T>): Promise<T> {
+  const tempPath = tempPathFor(filePath);
+  fs.rmSync(tempPath, { force: true });
+  try {
+    const result = await write(tempPath);
+    fs.renameSync(tempPath, filePath);
+    return result;
+  } catch (e) {
+    fs.rmSync(tempPath, { force: true });
+    throw e;
+  }
+}
+
+function tempPathFor(filePath: string): string {
+  return `${filePath}.${process.pid}.tmp`;
+}
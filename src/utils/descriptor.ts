@@ -0,0 +1,99 @@
+// Conversions between the erased binary type names stored in the index
+// ("java.util.List", "a.b.Outer$Inner", "int[]") and JVM descriptors
+// ("Ljava/util/List;", "La/b/Outer$Inner;", "[I").
+
+const PRIMITIVE_DESCRIPTORS: Record<string, string> = {
+  void: 'V',
+  boolean: 'Z',
+  byte: 'B',
+  char: 'C',
+  short: 'S',
+  int: 'I',
+  long: 'J',
+  float: 'F',
+  double: 'D',
+};
+
+const DESCRIPTOR_PRIMITIVES: Record<string, string> = Object.fromEntries(
+  Object.entries(PRIMITIVE_DESCRIPTORS).map(([name, desc]) => [desc, name])
+);
+
+export function typeToDescriptor(type: string): string {
+  let base = type.trim();
+  let dims = '';
+  while (base.endsWith('[]')) {
+    base = base.slice(0, -2);
+    dims += '[';
+  }
+  return dims + (PRIMITIVE_DESCRIPTORS[base] ?? `L${base.replace(/\./g, '/')};`);
+}
+
+export function methodDescriptor(paramTypes: string[], returnType: string): string {
+  return `(${paramTypes.map(typeToDescriptor).join('')})${typeToDescriptor(returnType)}`;
+}
+
+/**
+ * Split a method descriptor into binary type names. The return type may be
+ * left off ("(IZ)"), in which case `returnType` is null. Returns null for
+ * anything that isn't a descriptor.
+ */
+export function parseMethodDescriptor(descriptor: string): { paramTypes: string[]; returnType: string | null } | null {
+  const match = descriptor.trim().match(/^\(([^)]*)\)(.*)$/);
+  if (!match) return null;
+
+  const paramTypes = parseTypeList(match[1]);
+  if (!paramTypes) return null;
+  if (!match[2]) return { paramTypes, returnType: null };
+
+  const returnType = parseTypeList(match[2]);
+  if (!returnType || returnType.length !== 1) return null;
+  return { paramTypes, returnType: returnType[0] };
+}
+
+function parseTypeList(descriptors: string): string[] | null {
+  const types: string[] = [];
+  let i = 0;
+  while (i < descriptors.length) {
+    let dims = '';
+    while (descriptors[i] === '[') {
+      dims += '[]';
+      i++;
+    }
+    const ch = descriptors[i];
+    if (ch === 'L') {
+      const end = descriptors.indexOf(';', i);
+      if (end === -1) return null;
+      types.push(descriptors.slice(i + 1, end).replace(/\//g, '.') + dims);
+      i = end + 1;
+    } else if (ch && DESCRIPTOR_PRIMITIVES[ch]) {
+      types.push(DESCRIPTOR_PRIMITIVES[ch] + dims);
+      i++;
+    } else {
+      return null;
+    }
+  }
+  return types;
+}
+
+/**
+ * Whether a type name given by a user matches an indexed type. Either side
+ * may be simple ("BlockPos"), source-qualified ("Entity.RemovalReason") or
+ * binary ("net.minecraft.world.entity.Entity$RemovalReason"); generics are
+ * ignored and varargs count as arrays.
+ */
+export function typeNameMatches(query: string, type: string): boolean {
+  const a = normalizeTypeName(query);
+  const b = normalizeTypeName(type);
+  return a === b || a.endsWith('.' + b) || b.endsWith('.' + a);
+}
+
+function normalizeTypeName(name: string): string {
+  let out = '';
+  let depth = 0;
+  for (const ch of name) {
+    if (ch === '<') depth++;
+    else if (ch === '>') depth--;
+    else if (depth === 0 && !/\s/.test(ch)) out += ch;
+  }
+  return out.replace(/\.\.\.$/, '[]').replace(/\$/g, '.');
+}
@@ -48,6 +48,11 @@ export function getObfuscatedJarPath(version: string): string {
   return path.join(getMinecraftCacheDir(version), 'jars', `${version}_obfuscated.jar`);
 }
 
+/** Bytecode-to-decompiled line pairs per class, written after decompiling. */
+export function getLineMapPath(version: string): string {
+  return path.join(getMinecraftCacheDir(version), 'line-map.json');
+}
+
 export function getFabricApiCacheDir(version: string): string {
   return path.join(getCacheDir(), `fabric-api-${version}`);
 }
@@ -124,28 +129,19 @@ export function getVersionedIndexManifestPath(version: string): string {
   return path.join(getVersionedIndexDir(version), 'manifest.json');
 }
 
-export function getVersionedMinecraftIndexPath(version: string): string {
-  return path.join(getVersionedIndexDir(version), 'minecraft');
+export function getVersionedSymbolDbPath(version: string): string {
+  return path.join(getVersionedIndexDir(version), 'symbols.db');
 }
 
-export function getVersionedFabricIndexPath(version: string): string {
-  return path.join(getVersionedIndexDir(version), 'fabric');
-}
-
-export function getVersionedPackageIndexPath(
-  namespace: 'minecraft' | 'fabric',
-  packageName: string,
-  version: string
-): string {
-  const baseDir = namespace === 'minecraft'
-    ? getVersionedMinecraftIndexPath(version)
-    : getVersionedFabricIndexPath(version);
-  return path.join(baseDir, `${packageName}.json`);
+export function getVersionedGrepIndexPath(version: string): string {
+  return path.join(getVersionedIndexDir(version), 'grep.idx');
 }
 
 export function isVersionIndexed(version: string): boolean {
-  const manifestPath = getVersionedIndexManifestPath(version);
-  return fs.existsSync(manifestPath);
+  // Indices from before the symbol database have a manifest but no
+  // symbols.db; treat them as unindexed so `init` rebuilds them.
+  return fs.existsSync(getVersionedIndexManifestPath(version))
+    && fs.existsSync(getVersionedSymbolDbPath(version));
 }
 
 export function getIndexedVersions(): string[] {
@@ -154,11 +150,8 @@ export function getIndexedVersions(): string[] {
   
   const versions: string[] = [];
   for (const entry of fs.readdirSync(indexDir, { withFileTypes: true })) {
-    if (entry.isDirectory()) {
-      const manifestPath = getVersionedIndexManifestPath(entry.name);
-      if (fs.existsSync(manifestPath)) {
-        versions.push(entry.name);
-      }
+    if (entry.isDirectory() && isVersionIndexed(entry.name)) {
+      versions.push(entry.name);
     }
   }
   
@@ -167,6 +160,4 @@ export function getIndexedVersions(): string[] {
 
 export function ensureVersionedIndexDirs(version: string): void {
   ensureDir(getVersionedIndexDir(version));
-  ensureDir(getVersionedMinecraftIndexPath(version));
-  ensureDir(getVersionedFabricIndexPath(version));
 }
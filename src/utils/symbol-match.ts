@@ -0,0 +1,214 @@
+// Relevance scoring for symbol search: exact and prefix matches,
+// CamelHump abbreviations ("CPL" -> ClientPacketListener, "getBlkState" ->
+// getBlockState) and small typos, each mapped to a score in (0, 1].
+
+export interface SearchQuery {
+  /** Name part of the query, with `owner:` / `pkg:` filters removed. */
+  text: string;
+  /** Declaring type, as a simple, nested ("Entity.RemovalReason") or qualified name. */
+  owner?: string;
+  /** Package prefix; subpackages match too. */
+  pkg?: string;
+  /** Annotations the symbol must carry, by simple or qualified name, from `@Name` words. */
+  annotations?: string[];
+}
+
+/** Tier floors; every match in a tier scores at least this and below the tier above. */
+export const SCORE_EXACT = 1;
+export const SCORE_EXACT_IGNORE_CASE = 0.97;
+export const SCORE_PREFIX = 0.9;
+export const SCORE_HUMP = 0.85;
+export const SCORE_TYPO = 0.45;
+
+const HUMP_FLOOR = 0.5;
+const HUMP_STEP = 0.05;
+/** Costs for the CamelHump matcher; each unit takes HUMP_STEP off the score. */
+const GAP_COST = 1;
+const SKIP_COST = 0.5;
+const SPLIT_COST = 1;
+
+/**
+ * Split "owner:Entity pkg:net.minecraft.world @Deprecated tick" into
+ * filters and name text. Several words of text are joined as humps ("block entity" reads as
+ * "blockEntity").
+ */
+export function parseSearchQuery(raw: string): SearchQuery {
+  const query: SearchQuery = { text: '' };
+  const words: string[] = [];
+
+  for (const token of raw.trim().split(/\s+/).filter(Boolean)) {
+    const filter = /^(owner|pkg|package):(.+)$/i.exec(token);
+    if (/^@[\w$.]+$/.test(token)) {
+      (query.annotations ??= []).push(token.slice(1));
+    } else if (!filter) {
+      words.push(token);
+    } else if (filter[1].toLowerCase() === 'owner') {
+      query.owner = filter[2];
+    } else {
+      query.pkg = filter[2];
+    }
+  }
+
+  query.text = words.map((w, i) => (i === 0 ? w : w[0].toUpperCase() + w.slice(1))).join('');
+  return query;
+}
+
+/**
+ * Lower-case words of an identifier, split on case changes, digits and
+ * `$`/`_`: "ClientboundSetEntityDataPacket" -> ["clientbound", "set", "entity", "data", "packet"].
+ */
+export function identifierWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(w => w.toLowerCase());
+}
+
+/**
+ * How well `query` matches the symbol `name`, or 0 for no match. `words`
+ * may be passed when the caller already has `identifierWords(name)`.
+ */
+export function scoreName(query: string, name: string, words: string[] = identifierWords(name)): number {
+  const { chars, starts } = queryChars(query);
+  if (chars.length === 0) return 0;
+
+  const needle = chars.join('');
+  const flatName = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+  if (name === query) return SCORE_EXACT;
+  if (flatName === needle) return SCORE_EXACT_IGNORE_CASE;
+  if (flatName.startsWith(needle)) {
+    return SCORE_PREFIX + (SCORE_EXACT_IGNORE_CASE - SCORE_PREFIX) * (needle.length / flatName.length) * 0.99;
+  }
+
+  const cost = humpCost(chars, starts, words);
+  const humpScore = SCORE_HUMP - cost * HUMP_STEP;
+  if (humpScore >= HUMP_FLOOR) return humpScore;
+
+  // Typos: whole-name first, then against a prefix of the same length
+  // ("ClientPakcet" -> ClientPacketListener).
+  if (needle.length >= 4) {
+    const maxEdits = needle.length >= 8 ? 2 : 1;
+    const whole = editDistance(needle, flatName, maxEdits);
+    if (whole <= maxEdits) return SCORE_TYPO - (whole - 1) * 0.1;
+    const prefix = editDistance(needle, flatName.slice(0, needle.length), maxEdits);
+    if (prefix <= maxEdits) return SCORE_TYPO - 0.05 - (prefix - 1) * 0.1;
+  }
+
+  return 0;
+}
+
+/**
+ * The query split where a character must start a word of the name, lower
+ * case: "getBlkState" -> ["get", "blk", "state"], "CBE" -> ["c", "b", "e"].
+ * A name matches as a CamelHump abbreviation only if it has a word starting
+ * with the first letter of each.
+ */
+export function queryWords(query: string): string[] {
+  const { chars, starts } = queryChars(query);
+  const words: string[] = [];
+  chars.forEach((c, i) => {
+    if (starts[i]) words.push(c);
+    else words[words.length - 1] += c;
+  });
+  return words;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent
+ * transpositions). Gives up early and returns `max + 1` once the distance
+ * is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * Lower-cased query characters, flagging the ones that must start a word of
+ * the name: the first, every upper-case letter, and anything after a
+ * separator.
+ */
+function queryChars(query: string): { chars: string[]; starts: boolean[] } {
+  const chars: string[] = [];
+  const starts: boolean[] = [];
+  let afterSeparator = true;
+
+  for (const c of query) {
+    if (!/[A-Za-z0-9]/.test(c)) {
+      afterSeparator = true;
+      continue;
+    }
+    chars.push(c.toLowerCase());
+    starts.push(afterSeparator || /[A-Z]/.test(c));
+    afterSeparator = false;
+  }
+
+  return { chars, starts };
+}
+
+/**
+ * Cheapest way to match the query against the name's words, where each
+ * character either continues in the current word (a skipped letter costs
+ * GAP_COST) or starts a later word (skipped words cost SKIP_COST each; a
+ * lower-case character starting a word costs SPLIT_COST). Infinity when
+ * the query can't be matched at all.
+ */
+function humpCost(chars: string[], starts: boolean[], words: string[]): number {
+  const memo = new Map<number, number>();
+
+  // `pos` is how far into `words[wi]` the previous character matched; 0 before the first match.
+  const best = (qi: number, wi: number, pos: number): number => {
+    if (qi === chars.length) return 0;
+
+    const key = (qi * 256 + wi) * 256 + pos;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    const c = chars[qi];
+    let result = Infinity;
+
+    if (pos > 0 && !starts[qi]) {
+      const at = words[wi].indexOf(c, pos);
+      if (at >= 0) {
+        result = (at === pos ? 0 : GAP_COST) + best(qi + 1, wi, at + 1);
+      }
+    }
+
+    const firstCandidate = pos > 0 ? wi + 1 : wi;
+    for (let w = firstCandidate; w < words.length; w++) {
+      if (words[w][0] !== c) continue;
+      const cost = (w - firstCandidate) * SKIP_COST + (starts[qi] ? 0 : SPLIT_COST);
+      if (cost >= result) break;
+      result = Math.min(result, cost + best(qi + 1, w, 1));
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  return best(0, 0, 0);
+}
@@ -39,6 +39,8 @@ export interface IndexManifest {
   minecraftVersion: string;
   fabricApiVersion: string | null;
   generated: string;
+  /** PARSER_VERSION of the build; absent in indices from before it was stamped. */
+  parserVersion?: number;
   packages: {
     minecraft: string[];
     fabric: string[];
@@ -50,34 +52,116 @@ export interface PackageIndex {
   classes: Record<string, ClassInfo>;
 }
 
-export type ClassKind = 'class' | 'interface' | 'enum' | 'record';
+export type ClassKind = 'class' | 'interface' | 'enum' | 'record' | 'annotation';
+
+/** Where a type is declared, mirroring javax.lang.model's NestingKind. */
+export type NestingKind = 'top-level' | 'member' | 'local' | 'anonymous';
 
 export interface ClassInfo {
   kind: ClassKind;
+  /** Fully qualified binary name of the superclass (generics erased). */
   super: string | null;
+  /** Fully qualified binary names of the implemented/extended interfaces. */
   interfaces: string[];
+  /** Supertypes as written in source, e.g. "AbstractList<BlockPos>". */
+  superText?: string | null;
+  interfacesText?: string[];
   fields: FieldInfo[];
   methods: MethodInfo[];
+  constructors?: ConstructorInfo[];
+  /** Enum constants in declaration order (enums only). */
+  enumConstants?: EnumConstantInfo[];
+  /** Record header components in declaration order (records only). */
+  recordComponents?: RecordComponentInfo[];
   sourcePath: string;
+  /** Type modifiers (public/abstract/static/final/...). */
+  modifiers?: string[];
+  annotations?: AnnotationInfo[];
+  nesting?: NestingKind;
+  /** Binary name of the enclosing type, e.g. "a.b.Outer" for "a.b.Outer$Inner". */
+  outerClass?: string | null;
+  /** Binary names of the types declared directly inside this one. */
+  nestedClasses?: string[];
+  /** Declaration range in the source file (1-based, inclusive). */
+  lineStart?: number;
+  lineEnd?: number;
+}
+
+/** An annotation on a declaration; absent lists mean none (or an index from before they were recorded). */
+export interface AnnotationInfo {
+  /** As written, e.g. "Nullable" or "Environment". */
+  name: string;
+  /** Fully qualified binary name, e.g. "javax.annotation.Nullable". */
+  type: string;
+  /** Arguments as written, without the parentheses: "EnvType.CLIENT", 'since = "1.21"'. */
+  args?: string;
 }
 
 export interface FieldInfo {
   name: string;
+  /** Erased, fully qualified type, e.g. "java.util.List". */
   type: string;
+  /** Type as written in source, e.g. "List<BlockPos>". */
+  typeText?: string;
   modifiers: string[];
+  annotations?: AnnotationInfo[];
+  /** Declaration range, initializer included (absent in indices built before it was recorded). */
+  lineStart?: number;
+  lineEnd?: number;
+}
+
+export interface ParamInfo {
+  name: string;
+  type: string;
+  typeText?: string;
+  annotations?: AnnotationInfo[];
 }
 
 export interface MethodInfo {
   name: string;
   returnType: string;
-  params: { name: string; type: string }[];
+  returnTypeText?: string;
+  params: ParamInfo[];
   modifiers: string[];
+  annotations?: AnnotationInfo[];
   lineStart: number;
   lineEnd: number;
 }
 
+export interface ConstructorInfo {
+  params: ParamInfo[];
+  modifiers: string[];
+  annotations?: AnnotationInfo[];
+  /** Compact canonical record constructor; its parameters are the record components. */
+  compact?: boolean;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface EnumConstantInfo {
+  name: string;
+  annotations?: AnnotationInfo[];
+  /** Constructor arguments as written, without the parentheses. */
+  args?: string;
+  /** Binary name of the anonymous class generated for a constant with a body. */
+  bodyClass?: string;
+  lineStart: number;
+  lineEnd: number;
+}
+
+export interface RecordComponentInfo {
+  name: string;
+  type: string;
+  typeText?: string;
+  annotations?: AnnotationInfo[];
+  lineStart: number;
+  lineEnd: number;
+}
+
+export type SearchResultType = 'class' | 'method' | 'field' | 'constructor' | 'enumConstant' | 'recordComponent';
+
 export interface SearchResult {
-  type: 'class' | 'method' | 'field';
+  type: SearchResultType;
   className: string;
   name: string;
   signature?: string;
@@ -92,6 +176,13 @@ export interface SearchResult {
   /** Counts for class hits — "(13 fields, 247 methods)" inline. */
   fieldCount?: number;
   methodCount?: number;
+  constructorCount?: number;
+  /** Relevance in (0, 1]; 1 is an exact name match. */
+  score?: number;
+  /** Erased JVM descriptor for method/constructor hits. */
+  descriptor?: string;
   /** Modifiers for method/field hits — public/private/static/final/etc. */
   modifiers?: string[];
+  /** Annotations as written, e.g. "@Deprecated @Environment(EnvType.CLIENT)". */
+  annotations?: string;
 }
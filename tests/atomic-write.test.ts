@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { replaceFileAtomic, writeFileAtomic } from '../src/utils/atomic-write.js';
+
+describe('Atomic file writes', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-atomic-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('replaces the file and leaves nothing beside it', () => {
+    const file = path.join(tempDir, 'data.json');
+    fs.writeFileSync(file, 'old');
+    writeFileAtomic(file, 'new');
+    expect(fs.readFileSync(file, 'utf-8')).toBe('new');
+    expect(fs.readdirSync(tempDir)).toEqual(['data.json']);
+  });
+
+  test('keeps the previous file when writing fails', async () => {
+    const file = path.join(tempDir, 'callgraph.db');
+    fs.writeFileSync(file, 'old');
+    await expect(replaceFileAtomic(file, async tempPath => {
+      fs.writeFileSync(tempPath, 'partial');
+      throw new Error('interrupted');
+    })).rejects.toThrow('interrupted');
+    expect(fs.readFileSync(file, 'utf-8')).toBe('old');
+    expect(fs.readdirSync(tempDir)).toEqual(['callgraph.db']);
+
+    expect(await replaceFileAtomic(file, async tempPath => fs.writeFileSync(tempPath, 'new'))).toBeUndefined();
+    expect(fs.readFileSync(file, 'utf-8')).toBe('new');
+  });
+});
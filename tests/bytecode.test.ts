@@ -0,0 +1,313 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readClassFile, ClassFormatError } from '../src/callgraph/bytecode.js';
+import { buildCallgraphDb, closeDb, getRemappedJarPath, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { findCallees, findCallers, findFieldAccesses, findInstantiations, getCallgraphDir, hasBytecodeSites, openDb } from '../src/callgraph/query.js';
+import { getMinecraftCacheDir } from '../src/utils/paths.js';
+
+/** Just enough of a class-file writer to lay out a constant pool and one method. */
+class ClassBuilder {
+  private readonly pool: Buffer[] = [];
+  private readonly indices = new Map<string, number>();
+  private next = 1;
+
+  utf8(text: string): number {
+    const bytes = Buffer.from(text, 'utf8');
+    return this.constant(`utf8:${text}`, Buffer.concat([u1(1), u2(bytes.length), bytes]));
+  }
+
+  classRef(name: string): number {
+    return this.constant(`class:${name}`, Buffer.concat([u1(7), u2(this.utf8(name))]));
+  }
+
+  memberRef(tag: 9 | 10 | 11, owner: string, name: string, descriptor: string): number {
+    const ownerIndex = this.classRef(owner);
+    const nameAndType = this.constant(`nat:${name}:${descriptor}`, Buffer.concat([u1(12), u2(this.utf8(name)), u2(this.utf8(descriptor))]));
+    return this.constant(`ref:${tag}:${owner}.${name}:${descriptor}`, Buffer.concat([u1(tag), u2(ownerIndex), u2(nameAndType)]));
+  }
+
+  long(value: number): void {
+    const bytes = Buffer.alloc(9);
+    bytes[0] = 5;
+    bytes.writeBigInt64BE(BigInt(value), 1);
+    this.constant(`long:${value}`, bytes, 2);
+  }
+
+  build(name: string, method: { name: string; descriptor: string; code: Buffer; lines: Array<[number, number]> }): Buffer {
+    const thisClass = this.classRef(name);
+    const superClass = this.classRef('java/lang/Object');
+    const methodName = this.utf8(method.name);
+    const methodDescriptor = this.utf8(method.descriptor);
+    const codeName = this.utf8('Code');
+    const linesName = this.utf8('LineNumberTable');
+
+    const lineTable = Buffer.concat([u2(method.lines.length), ...method.lines.map(([pc, line]) => Buffer.concat([u2(pc), u2(line)]))]);
+    const code = Buffer.concat([
+      u2(4), u2(4), u4(method.code.length), method.code,
+      u2(0), // exception table
+      u2(1), u2(linesName), u4(lineTable.length), lineTable,
+    ]);
+
+    return Buffer.concat([
+      u4(0xcafebabe), u2(0), u2(65),
+      u2(this.next), ...this.pool,
+      u2(0x21), u2(thisClass), u2(superClass),
+      u2(0), // interfaces
+      u2(0), // fields
+      u2(1), u2(0x1), u2(methodName), u2(methodDescriptor), u2(1), u2(codeName), u4(code.length), code,
+      u2(0), // attributes
+    ]);
+  }
+
+  private constant(key: string, bytes: Buffer, slots = 1): number {
+    let index = this.indices.get(key);
+    if (index === undefined) {
+      index = this.next;
+      this.next += slots;
+      this.pool.push(bytes);
+      this.indices.set(key, index);
+    }
+    return index;
+  }
+}
+
+function u1(value: number): Buffer {
+  return Buffer.from([value]);
+}
+
+function u2(value: number): Buffer {
+  const b = Buffer.alloc(2);
+  b.writeUInt16BE(value);
+  return b;
+}
+
+function u4(value: number): Buffer {
+  const b = Buffer.alloc(4);
+  b.writeUInt32BE(value >>> 0);
+  return b;
+}
+
+/**
+ * Foo.tick(int): reads this.count, switches, writes Bar.x, constructs a Baz,
+ * reads then writes the static INSTANCE and calls Runnable.run and Util.log.
+ * The tableswitch and wide iinc check that instructions after
+ * variable-length ones are still found. `padPool` shifts every constant pool
+ * index; `logName` renames the method Util.log.
+ */
+function fooClass({ padPool = false, logName = 'log' } = {}): Buffer {
+  const cls = new ClassBuilder();
+  if (padPool) cls.utf8('padding');
+  cls.long(1234);
+  const count = cls.memberRef(9, 'net/minecraft/Foo', 'count', 'I');
+  const x = cls.memberRef(9, 'net/minecraft/Bar', 'x', 'I');
+  const baz = cls.classRef('net/minecraft/Baz');
+  const init = cls.memberRef(10, 'net/minecraft/Baz', '<init>', '()V');
+  const instance = cls.memberRef(9, 'net/minecraft/Foo', 'INSTANCE', 'Lnet/minecraft/Foo;');
+  const run = cls.memberRef(11, 'java/lang/Runnable', 'run', '()V');
+  const log = cls.memberRef(10, 'net/minecraft/Util', logName, '(Ljava/lang/String;[I)V');
+
+  const code = Buffer.concat([
+    Buffer.from([0x2a, 0xb4]), u2(count), Buffer.from([0x57]),   // 0: aload_0; getfield count; pop
+    Buffer.from([0x1b, 0xaa, 0x00]),                              // 5: iload_1; tableswitch (padded to 8)
+    u4(22), u4(0), u4(1), u4(22), u4(22),                         // 8: default, low, high, offsets -> 28
+    Buffer.from([0x2a, 0x04, 0xb5]), u2(x),                       // 28: aload_0; iconst_1; putfield Bar.x
+    Buffer.from([0xc4, 0x84]), u2(1), u2(2),                      // 33: wide iinc 1, 2
+    Buffer.from([0xbb]), u2(baz), Buffer.from([0x59, 0xb7]), u2(init), Buffer.from([0x57]), // 39: new Baz; dup; invokespecial; pop
+    Buffer.from([0xb2]), u2(instance), Buffer.from([0x57]),      // 47: getstatic INSTANCE; pop
+    Buffer.from([0x01, 0xb3]), u2(instance),                      // 51: aconst_null; putstatic INSTANCE
+    Buffer.from([0x01, 0xb9]), u2(run), Buffer.from([1, 0]),     // 55: aconst_null; invokeinterface run
+    Buffer.from([0xb8]), u2(log),                                 // 61: invokestatic Util.log
+    Buffer.from([0xb1]),                                          // 64: return
+  ]);
+
+  return cls.build('net/minecraft/Foo', {
+    name: 'tick',
+    descriptor: '(I)V',
+    code,
+    lines: [[39, 14], [0, 10], [28, 12], [47, 15], [55, 16]],
+  });
+}
+
+/** A stored (uncompressed) zip archive. */
+function writeJar(file: string, entries: Record<string, Buffer>): void {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, data] of Object.entries(entries)) {
+    const nameBytes = Buffer.from(name);
+    // version needed, flags, method (stored), time, date, crc, sizes, name length, extra length
+    const header = Buffer.concat([le2(20), le2(0), le2(0), le2(0), le2(0), le4(crc32(data)), le4(data.length), le4(data.length), le2(nameBytes.length), le2(0)]);
+    const local = Buffer.concat([le4(0x04034b50), header, nameBytes, data]);
+    // version made by, header, comment length, disk, attributes, local header offset
+    central.push(Buffer.concat([le4(0x02014b50), le2(20), header, le2(0), le2(0), le2(0), le4(0), le4(offset), nameBytes]));
+    locals.push(local);
+    offset += local.length;
+  }
+  const directory = Buffer.concat(central);
+  const count = central.length;
+  const end = Buffer.concat([le4(0x06054b50), le2(0), le2(0), le2(count), le2(count), le4(directory.length), le4(offset), le2(0)]);
+  fs.writeFileSync(file, Buffer.concat([...locals, directory, end]));
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function le2(value: number): Buffer {
+  const b = Buffer.alloc(2);
+  b.writeUInt16LE(value);
+  return b;
+}
+
+function le4(value: number): Buffer {
+  const b = Buffer.alloc(4);
+  b.writeUInt32LE(value >>> 0);
+  return b;
+}
+
+describe('Class file reader', () => {
+  test('finds field accesses, new sites and invocations with their lines', () => {
+    const classFile = readClassFile(fooClass());
+    expect(classFile.name).toBe('net.minecraft.Foo');
+    expect(classFile.methods).toHaveLength(1);
+
+    const [tick] = classFile.methods;
+    expect(tick).toMatchObject({ name: 'tick', descriptor: '(I)V' });
+    expect(tick.sites).toEqual([
+      { kind: 'getfield', owner: 'net.minecraft.Foo', name: 'count', descriptor: 'I', line: 10 },
+      { kind: 'putfield', owner: 'net.minecraft.Bar', name: 'x', descriptor: 'I', line: 12 },
+      { kind: 'new', owner: 'net.minecraft.Baz', line: 14 },
+      { kind: 'invokespecial', owner: 'net.minecraft.Baz', name: '<init>', descriptor: '()V', line: 14 },
+      { kind: 'getstatic', owner: 'net.minecraft.Foo', name: 'INSTANCE', descriptor: 'Lnet/minecraft/Foo;', line: 15 },
+      { kind: 'putstatic', owner: 'net.minecraft.Foo', name: 'INSTANCE', descriptor: 'Lnet/minecraft/Foo;', line: 15 },
+      { kind: 'invokeinterface', owner: 'java.lang.Runnable', name: 'run', descriptor: '()V', line: 16 },
+      { kind: 'invokestatic', owner: 'net.minecraft.Util', name: 'log', descriptor: '(Ljava/lang/String;[I)V', line: 16 },
+    ]);
+  });
+
+  test('hashes code by instructions and member names, not constant pool layout', () => {
+    const [tick] = readClassFile(fooClass()).methods;
+    expect(tick.codeHash).toMatch(/^[0-9a-f]{40}$/);
+    expect(readClassFile(fooClass({ padPool: true })).methods[0].codeHash).toBe(tick.codeHash);
+    expect(readClassFile(fooClass({ logName: 'warn' })).methods[0].codeHash).not.toBe(tick.codeHash);
+  });
+
+  test('rejects anything that is not a class file', () => {
+    expect(() => readClassFile(Buffer.from('PK\u0003\u0004'))).toThrow(ClassFormatError);
+    expect(() => readClassFile(fooClass().subarray(0, 40))).toThrow(ClassFormatError);
+  });
+
+  test('rejects switches that would move the reader backwards or past the code', () => {
+    const method = (code: Buffer) => new ClassBuilder().build('net/minecraft/Bad', { name: 'bad', descriptor: '()V', code, lines: [] });
+    // iload_1; tableswitch (padded to 4) with high < low, then a lookupswitch with a negative pair count.
+    const backwardsTable = Buffer.concat([Buffer.from([0x1b, 0xaa, 0x00, 0x00]), u4(0), u4(5), u4(0)]);
+    const negativeLookup = Buffer.concat([Buffer.from([0xab, 0x00, 0x00, 0x00]), u4(0), u4(-2)]);
+    const pastEnd = Buffer.concat([Buffer.from([0x1b, 0xaa, 0x00, 0x00]), u4(0), u4(0), u4(1000)]);
+    for (const code of [backwardsTable, negativeLookup, pastEnd, Buffer.from([0xb4])]) {
+      expect(() => readClassFile(method(code))).toThrow(ClassFormatError);
+    }
+  });
+
+  test('rejects reserved opcodes', () => {
+    const method = (code: Buffer) => new ClassBuilder().build('net/minecraft/Bad', { name: 'bad', descriptor: '()V', code, lines: [] });
+    // breakpoint and impdep2, each followed by return
+    for (const opcode of [0xca, 0xff]) {
+      expect(() => readClassFile(method(Buffer.from([opcode, 0xb1])))).toThrow(/Unknown opcode/);
+    }
+    expect(readClassFile(method(Buffer.from([0xc9, 0, 0, 0, 0]))).methods).toHaveLength(1);
+  });
+});
+
+function writeTestJar(version: string): void {
+  fs.mkdirSync(getCallgraphDir(version), { recursive: true });
+  writeJar(getRemappedJarPath(version), {
+    'META-INF/MANIFEST.MF': Buffer.from('Manifest-Version: 1.0\n'),
+    'net/minecraft/Foo.class': fooClass(),
+    'net/minecraft/Broken.class': Buffer.from([0xca, 0xfe, 0xba, 0xbe, 0, 0]),
+  });
+}
+
+describe('Built-in callgraph extractor', () => {
+  const version = '1.0.0-test-bytecode-builtin';
+
+  beforeAll(async () => {
+    writeTestJar(version);
+    await buildCallgraphDb(version, getRemappedJarPath(version));
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+  });
+
+  test('records calls in java-callgraph2\'s form', async () => {
+    const callees = await findCallees(version, 'net.minecraft.Foo', 'tick');
+    expect(callees.items.map(r => `${r.fullName}${r.descriptor}@${r.lineNumber}`)).toEqual([
+      'java.lang.Runnable.run()@16',
+      'net.minecraft.Baz.<init>()@14',
+      'net.minecraft.Util.log(java.lang.String,int[])@16',
+    ]);
+    expect(callees.overloads).toEqual([{ descriptor: '(int)', count: 3, selected: true }]);
+
+    const callers = await findCallers(version, 'net.minecraft.Util', 'log', { paramTypes: ['String', 'int[]'] });
+    expect(callers.items).toEqual([expect.objectContaining({ fullName: 'net.minecraft.Foo.tick', descriptor: '(int)', lineNumber: 16 })]);
+  });
+
+  test('indexes field accesses and instantiations in the same pass', async () => {
+    expect(await hasBytecodeSites(version)).toBe(true);
+    expect((await findFieldAccesses(version, 'net.minecraft.Foo', 'count', 'read')).total).toBe(1);
+    expect((await findInstantiations(version, 'net.minecraft.Baz')).total).toBe(1);
+  });
+
+  test('records a code hash per method', async () => {
+    const db = await openDb(version);
+    expect(db.all('SELECT class_name, method_name, method_desc, code_hash FROM method_code')).toEqual([
+      { class_name: 'net.minecraft.Foo', method_name: 'tick', method_desc: '(int)', code_hash: readClassFile(fooClass()).methods[0].codeHash },
+    ]);
+  });
+});
+
+describe('Field access and instantiation index', () => {
+  const version = '1.0.0-test-bytecode';
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-bytecode-test-'));
+    writeTestJar(version);
+
+    const callgraphFile = path.join(tempDir, 'method_call.txt');
+    fs.writeFileSync(callgraphFile, '0\t0\tnet.minecraft.Foo:tick(int)\t(SPE)net.minecraft.Baz:<init>()\t14\tvoid');
+    await parseCallgraphAndCreateDb(version, callgraphFile);
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+  });
+
+  test('records readers and writers under the referenced class', async () => {
+    expect(await hasBytecodeSites(version)).toBe(true);
+
+    const writers = await findFieldAccesses(version, 'net.minecraft.Bar', 'x', 'write');
+    expect(writers.total).toBe(1);
+    expect(writers.items[0]).toMatchObject({ className: 'net.minecraft.Foo', methodName: 'tick', descriptor: '(int)', lineNumber: 12 });
+    expect((await findFieldAccesses(version, 'net.minecraft.Bar', 'x', 'read')).total).toBe(0);
+
+    const readers = await findFieldAccesses(version, ['net.minecraft.Foo', 'net.minecraft.Sub'], 'INSTANCE', 'read');
+    expect(readers.items).toEqual([expect.objectContaining({ lineNumber: 15, target: 'net.minecraft.Foo' })]);
+  });
+
+  test('records instantiation sites', async () => {
+    const page = await findInstantiations(version, 'net.minecraft.Baz');
+    expect(page.total).toBe(1);
+    expect(page.items[0]).toMatchObject({ fullName: 'net.minecraft.Foo.tick', descriptor: '(int)', lineNumber: 14 });
+    expect((await findInstantiations(version, 'net.minecraft.Foo')).total).toBe(0);
+  });
+});
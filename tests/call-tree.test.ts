@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildIndex } from '../src/indexer/index.js';
+import { closeDb, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { getCallgraphDir } from '../src/callgraph/query.js';
+import { mcCallTreeTool } from '../src/tools/static/call-tree.js';
+import { getMinecraftCacheDir, getMinecraftSourceDir, getVersionedIndexDir } from '../src/utils/paths.js';
+
+describe('mc_call_tree', () => {
+  const version = '1.0.0-test-call-tree';
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-call-tree-test-'));
+    const sourceDir = getMinecraftSourceDir(version);
+    fs.mkdirSync(path.join(sourceDir, 'net/minecraft'), { recursive: true });
+    fs.writeFileSync(path.join(sourceDir, 'net/minecraft/R.java'), 'package net.minecraft;\npublic class R {\n    public void run() {}\n}\n');
+    await buildIndex({
+      minecraftSourceDir: sourceDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: version,
+      fabricApiVersion: null,
+      workers: 1,
+    });
+
+    // X is expanded where R calls it, one level up from P's call to it but printed after.
+    const calls = [
+      ['net.minecraft.R:run()', '(VIR)net.minecraft.P:prepare()', 1],
+      ['net.minecraft.R:run()', '(VIR)net.minecraft.X:exec()', 2],
+      ['net.minecraft.R:run()', '(VIR)net.minecraft.Z:finish()', 3],
+      ['net.minecraft.P:prepare()', '(VIR)net.minecraft.X:exec()', 4],
+      ['net.minecraft.X:exec()', '(VIR)net.minecraft.Y:done()', 5],
+      ['net.minecraft.Z:finish()', '(VIR)net.minecraft.X:exec()', 6],
+    ];
+    const callgraphFile = path.join(tempDir, 'method_call.txt');
+    fs.writeFileSync(callgraphFile, calls.map(([caller, callee, line], i) => `${i}\t0\t${caller}\t${callee}\t${line}\tvoid`).join('\n'));
+    fs.mkdirSync(getCallgraphDir(version), { recursive: true });
+    await parseCallgraphAndCreateDb(version, callgraphFile);
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+    fs.rmSync(getVersionedIndexDir(version), { recursive: true, force: true });
+  });
+
+  test('points repeats at the expansion, above or below, and expands each method once', async () => {
+    const reply = await mcCallTreeTool.handler({ className: 'net.minecraft.R', methodName: 'run', version });
+    const tree = reply.content[0].text.split('\n').filter(line => line.includes('net.minecraft.') && !line.startsWith('Callees'));
+    expect(tree.map(line => line.replace(/ \(bytecode line \d+\)/, ''))).toEqual([
+      'net.minecraft.R.run()',
+      '  -> net.minecraft.P.prepare()',
+      '    -> net.minecraft.X.exec() [see below]',
+      '  -> net.minecraft.X.exec()',
+      '    -> net.minecraft.Y.done()',
+      '  -> net.minecraft.Z.finish()',
+      '    -> net.minecraft.X.exec() [see above]',
+    ]);
+  });
+});
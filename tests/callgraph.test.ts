@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { closeDb, findCallees, findCallers, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { getCallgraphDir } from '../src/callgraph/query.js';
+import { exportCallGraph } from '../src/callgraph/export.js';
+import { buildCallTree, findCallPaths, findMethodNodes, methodKey } from '../src/callgraph/traverse.js';
+import { getMinecraftCacheDir } from '../src/utils/paths.js';
+
+describe('Callgraph queries', () => {
+  const version = '1.0.0-test-callgraph';
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-callgraph-test-'));
+    const level = 'net.minecraft.world.level.Level';
+    const calls = [
+      ['net.minecraft.A:tick()', `(VIR)${level}:setBlock(net.minecraft.core.BlockPos,int)`, 10],
+      ['net.minecraft.B:place(boolean)', `(VIR)${level}:setBlock(net.minecraft.core.BlockPos,int)`, 20],
+      ['net.minecraft.B:place(boolean)', `(VIR)${level}:setBlock(net.minecraft.core.BlockPos,int,int)`, 21],
+      ['net.minecraft.C$Inner:run()', `(VIR)${level}:setBlock(net.minecraft.core.BlockPos,int)`, 30],
+      ['net.minecraft.B:place(boolean)', '(STA)net.minecraft.Util:log(java.lang.String)', 22],
+      ['net.minecraft.D:save()', '(VIR)net.minecraft.world.level.ServerLevel:setBlock(net.minecraft.core.BlockPos,int)', 40],
+      ['net.minecraft.M:tick()', '(VIR)net.minecraft.M:step(int)', 5],
+      ['net.minecraft.M:tick()', '(VIR)net.minecraft.N:run()', 7],
+      ['net.minecraft.M:step(int)', '(VIR)net.minecraft.B:place(boolean)', 6],
+      ['net.minecraft.M:step(int)', '(VIR)net.minecraft.M:tick()', 9],
+      ['net.minecraft.N:run()', '(VIR)net.minecraft.B:place(boolean)', 8],
+    ];
+    const callgraphFile = path.join(tempDir, 'method_call.txt');
+    fs.writeFileSync(callgraphFile, calls.map(([caller, callee, line], i) => `${i}\t0\t${caller}\t${callee}\t${line}\tvoid`).join('\n'));
+
+    fs.mkdirSync(getCallgraphDir(version), { recursive: true });
+    await parseCallgraphAndCreateDb(version, callgraphFile);
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+  });
+
+  test('groups callers by overload and pages through them', async () => {
+    const all = await findCallers(version, 'net.minecraft.world.level.Level', 'setBlock');
+    expect(all.total).toBe(4);
+    expect(all.overloads).toEqual([
+      { descriptor: '(net.minecraft.core.BlockPos,int)', count: 3, selected: true },
+      { descriptor: '(net.minecraft.core.BlockPos,int,int)', count: 1, selected: true },
+    ]);
+    expect(all.items.map(r => `${r.fullName}@${r.lineNumber}`)).toEqual([
+      'net.minecraft.A.tick@10',
+      'net.minecraft.B.place@20',
+      'net.minecraft.C$Inner.run@30',
+      'net.minecraft.B.place@21',
+    ]);
+
+    const page = await findCallers(version, 'net.minecraft.world.level.Level', 'setBlock', { offset: 1, limit: 2 });
+    expect(page.total).toBe(4);
+    expect(page.items.map(r => r.className)).toEqual(['net.minecraft.B', 'net.minecraft.C$Inner']);
+  });
+
+  test('narrows to one overload by parameter types or descriptor', async () => {
+    const byTypes = await findCallers(version, 'net.minecraft.world.level.Level', 'setBlock', { paramTypes: ['BlockPos', 'int', 'int'] });
+    expect(byTypes.total).toBe(1);
+    expect(byTypes.items[0]).toMatchObject({ className: 'net.minecraft.B', descriptor: '(boolean)', lineNumber: 21 });
+
+    const byDescriptor = await findCallers(version, 'net.minecraft.world.level.Level', 'setBlock', { descriptor: '(Lnet/minecraft/core/BlockPos;I)Z' });
+    expect(byDescriptor.total).toBe(3);
+    expect(byDescriptor.overloads.filter(o => o.selected).map(o => o.descriptor)).toEqual(['(net.minecraft.core.BlockPos,int)']);
+
+    const none = await findCallers(version, 'net.minecraft.world.level.Level', 'setBlock', { paramTypes: [] });
+    expect(none.total).toBe(0);
+    expect(none.overloads).toHaveLength(2);
+
+    const dispatched = await findCallers(version, ['net.minecraft.world.level.Level', 'net.minecraft.world.level.ServerLevel'], 'setBlock');
+    expect(dispatched.total).toBe(5);
+    expect(dispatched.items.filter(r => r.target === 'net.minecraft.world.level.ServerLevel').map(r => r.className))
+      .toEqual(['net.minecraft.D']);
+
+    const callees = await findCallees(version, 'net.minecraft.B', 'place', { paramTypes: ['boolean'] });
+    expect(callees.items.map(r => `${r.methodName}${r.descriptor}`)).toEqual(['log(java.lang.String)', 'setBlock(net.minecraft.core.BlockPos,int)', 'setBlock(net.minecraft.core.BlockPos,int,int)']);
+  });
+
+  test('expands call trees with cycle and repeat detection', async () => {
+    const roots = await findMethodNodes(version, 'net.minecraft.M', 'tick');
+    const { roots: [tick], truncated } = await buildCallTree(version, roots, 'callees', { depth: 3 });
+    expect(truncated).toBe(false);
+
+    const [step, run] = tick.children;
+    expect(tick.children.map(methodKey)).toEqual(['net.minecraft.M.step(int)', 'net.minecraft.N.run()']);
+    expect(step.lineNumber).toBe(5);
+    expect(step.children.map(c => [methodKey(c), !!c.cycle, !!c.seen])).toEqual([
+      ['net.minecraft.B.place(boolean)', false, false],
+      ['net.minecraft.M.tick()', true, false],
+    ]);
+    expect(run.children[0].seen).toBe(true);
+    expect(step.children[0].children.map(c => c.methodName)).toEqual(['log', 'setBlock', 'setBlock']);
+
+    const narrow = await buildCallTree(version, roots, 'callees', { depth: 3, maxChildren: 1 });
+    expect(narrow.roots[0].omitted).toBe(1);
+
+    const callers = await buildCallTree(version, await findMethodNodes(version, 'net.minecraft.B', 'place'), 'callers', { depth: 1 });
+    expect(callers.roots[0].children.map(c => `${methodKey(c)}@${c.lineNumber}`))
+      .toEqual(['net.minecraft.M.step(int)@6', 'net.minecraft.N.run()@8']);
+  });
+
+  test('finds every shortest call chain between two methods', async () => {
+    const from = await findMethodNodes(version, 'net.minecraft.M', 'tick');
+    const to = await findMethodNodes(version, 'net.minecraft.world.level.Level', 'setBlock', { paramTypes: ['BlockPos', 'int', 'int'] });
+    const { paths } = await findCallPaths(version, from, to);
+
+    expect(paths.map(p => p.map(s => `${s.className}.${s.methodName}@${s.lineNumber ?? '-'}`))).toEqual([
+      ['net.minecraft.M.tick@-', 'net.minecraft.M.step@5', 'net.minecraft.B.place@6', 'net.minecraft.world.level.Level.setBlock@21'],
+      ['net.minecraft.M.tick@-', 'net.minecraft.N.run@7', 'net.minecraft.B.place@8', 'net.minecraft.world.level.Level.setBlock@21'],
+    ]);
+
+    expect((await findCallPaths(version, from, to, { maxDepth: 2 })).paths).toEqual([]);
+    expect((await findCallPaths(version, to, from)).paths).toEqual([]);
+  });
+
+  test('exports subgraphs with package filters and collapsing', async () => {
+    const dot = await exportCallGraph(version, { className: 'net.minecraft.M', methodName: 'tick', depth: 2, format: 'dot' });
+    expect(dot).toMatchObject({ nodeCount: 4, edgeCount: 5, truncated: false });
+    expect(dot?.text).toContain('n0 [label="M.tick()", tooltip="net.minecraft.M.tick()", penwidth=2];');
+    expect(dot?.text).toContain('n1 -> n0;');
+
+    const byClass = await exportCallGraph(version, { className: 'net.minecraft.M', methodName: 'tick', depth: 2, collapse: 'class' });
+    expect(byClass).toMatchObject({ nodeCount: 3, edgeCount: 3 });
+    expect(byClass?.text.split('\n')).toEqual(expect.arrayContaining(['flowchart LR', '  n0["M"]', '  n0 --> n2', '  class n0 root']));
+
+    const filtered = await exportCallGraph(version, {
+      className: 'net.minecraft.M',
+      methodName: 'tick',
+      depth: 2,
+      exclude: ['net.minecraft.N'],
+      format: 'graphml',
+    });
+    expect(filtered).toMatchObject({ nodeCount: 3, edgeCount: 3 });
+    expect(filtered?.text).toContain('<data key="name">net.minecraft.B.place(boolean)</data>');
+
+    expect(await exportCallGraph(version, { className: 'net.minecraft.M', methodName: 'missing' })).toBeNull();
+  });
+
+  test('a failed rebuild leaves the previous database in place', async () => {
+    const progress: number[] = [];
+    const callgraphFile = path.join(tempDir, 'method_call.txt');
+    await parseCallgraphAndCreateDb(version, callgraphFile, (_stage, percent) => progress.push(percent));
+    expect(progress[0]).toBe(0);
+    expect(progress[progress.length - 1]).toBe(100);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+
+    await expect(parseCallgraphAndCreateDb(version, path.join(tempDir, 'missing.txt'))).rejects.toThrow();
+    expect(fs.readdirSync(getCallgraphDir(version))).toEqual(['callgraph.db']);
+
+    closeDb();
+    expect((await findCallers(version, 'net.minecraft.world.level.Level', 'setBlock')).total).toBe(4);
+  });
+});
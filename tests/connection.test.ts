@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { closeDb, findCallers, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { getCallgraphPoolMetrics } from '../src/callgraph/connection.js';
+import { acquireDb, getCallgraphDbPath, getCallgraphDir } from '../src/callgraph/query.js';
+import { getMinecraftCacheDir } from '../src/utils/paths.js';
+
+describe('Callgraph connection pool', () => {
+  const versions = ['1.0.0-test-pool-a', '1.0.0-test-pool-b'];
+  let tempDir: string;
+  let callgraphFile: string;
+  const budget = process.env.MCDEV_CALLGRAPH_MEMORY_MB;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-pool-test-'));
+    callgraphFile = path.join(tempDir, 'method_call.txt');
+    fs.writeFileSync(callgraphFile, '0\t0\tnet.minecraft.A:tick()\t(VIR)net.minecraft.B:run()\t10\tvoid');
+    for (const version of versions) {
+      fs.mkdirSync(getCallgraphDir(version), { recursive: true });
+      await parseCallgraphAndCreateDb(version, callgraphFile);
+    }
+  });
+
+  afterEach(() => {
+    closeDb();
+    if (budget === undefined) delete process.env.MCDEV_CALLGRAPH_MEMORY_MB;
+    else process.env.MCDEV_CALLGRAPH_MEMORY_MB = budget;
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    for (const version of versions) fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+  });
+
+  test('keeps versions open within the budget and times their queries', async () => {
+    const [a, b] = versions;
+    await findCallers(a, 'net.minecraft.B', 'run');
+    await findCallers(b, 'net.minecraft.B', 'run');
+    await findCallers(a, 'net.minecraft.B', 'run');
+
+    const metrics = getCallgraphPoolMetrics();
+    expect(metrics.evictions).toBe(0);
+    // Least recently used first.
+    expect(metrics.open.map(m => m.version)).toEqual([b, a]);
+    const [, first] = metrics.open;
+    expect(first.queries).toBe(4);
+    expect(first.maxMs).toBeGreaterThanOrEqual(first.meanMs);
+    expect(first.memoryBytes).toBeGreaterThan(0);
+  });
+
+  test('closes the least recently used version when over budget', async () => {
+    const [a, b] = versions;
+    const before = getCallgraphPoolMetrics().evictions;
+    // Smaller than either database: only the one in use stays open.
+    process.env.MCDEV_CALLGRAPH_MEMORY_MB = '0.001';
+
+    await findCallers(a, 'net.minecraft.B', 'run');
+    await findCallers(b, 'net.minecraft.B', 'run');
+    expect(getCallgraphPoolMetrics().open.map(m => m.version)).toEqual([b]);
+    expect(getCallgraphPoolMetrics().evictions).toBe(before + 1);
+
+    expect((await findCallers(a, 'net.minecraft.B', 'run')).total).toBe(1);
+    expect(getCallgraphPoolMetrics().open.map(m => m.version)).toEqual([a]);
+  });
+
+  test('never closes a held connection, even over budget', async () => {
+    const [a, b] = versions;
+    process.env.MCDEV_CALLGRAPH_MEMORY_MB = '0.001';
+
+    const held = await acquireDb(a);
+    try {
+      await findCallers(b, 'net.minecraft.B', 'run');
+      expect(getCallgraphPoolMetrics().open.map(m => m.version)).toEqual([a, b]);
+      expect(held.all('SELECT COUNT(*) AS count FROM calls')).toEqual([{ count: 1 }]);
+
+      // Closing everything waits for the holder.
+      closeDb();
+      expect(held.all('SELECT COUNT(*) AS count FROM calls')).toEqual([{ count: 1 }]);
+    } finally {
+      held.release();
+    }
+    expect(() => held.all('SELECT COUNT(*) AS count FROM calls')).toThrow();
+
+    // Released, it is evicted like any other.
+    await acquireDb(a).then(db => db.release());
+    await findCallers(b, 'net.minecraft.B', 'run');
+    expect(getCallgraphPoolMetrics().open.map(m => m.version)).toEqual([b]);
+  });
+
+  test('reopens a database that was rebuilt', async () => {
+    const [a] = versions;
+    await findCallers(a, 'net.minecraft.B', 'run');
+    const opens = getCallgraphPoolMetrics().opens;
+
+    fs.writeFileSync(callgraphFile, '0\t0\tnet.minecraft.C:tick()\t(VIR)net.minecraft.B:run()\t20\tvoid');
+    await parseCallgraphAndCreateDb(a, callgraphFile);
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(getCallgraphDbPath(a), later, later);
+
+    const page = await findCallers(a, 'net.minecraft.B', 'run');
+    expect(page.items.map(r => r.className)).toEqual(['net.minecraft.C']);
+    expect(getCallgraphPoolMetrics().opens).toBe(opens + 1);
+  });
+});
@@ -0,0 +1,29 @@
+import { methodDescriptor, parseMethodDescriptor, typeNameMatches, typeToDescriptor } from '../src/utils/descriptor.js';
+
+describe('JVM descriptors', () => {
+  test('converts binary type names to descriptors', () => {
+    expect(typeToDescriptor('int')).toBe('I');
+    expect(typeToDescriptor('java.lang.String[][]')).toBe('[[Ljava/lang/String;');
+    expect(typeToDescriptor('net.minecraft.world.entity.Entity$RemovalReason')).toBe('Lnet/minecraft/world/entity/Entity$RemovalReason;');
+    expect(methodDescriptor(['net.minecraft.core.BlockPos', 'int'], 'boolean')).toBe('(Lnet/minecraft/core/BlockPos;I)Z');
+  });
+
+  test('parses descriptors back into type names', () => {
+    expect(parseMethodDescriptor('(Lnet/minecraft/core/BlockPos;[IJ)V')).toEqual({
+      paramTypes: ['net.minecraft.core.BlockPos', 'int[]', 'long'],
+      returnType: 'void',
+    });
+    expect(parseMethodDescriptor('(DDD)')).toEqual({ paramTypes: ['double', 'double', 'double'], returnType: null });
+    expect(parseMethodDescriptor('(Lfoo')).toBeNull();
+    expect(parseMethodDescriptor('setBlock')).toBeNull();
+  });
+
+  test('matches type names regardless of qualification', () => {
+    expect(typeNameMatches('BlockPos', 'net.minecraft.core.BlockPos')).toBe(true);
+    expect(typeNameMatches('Entity.RemovalReason', 'net.minecraft.world.entity.Entity$RemovalReason')).toBe(true);
+    expect(typeNameMatches('List<String>', 'java.util.List')).toBe(true);
+    expect(typeNameMatches('String...', 'java.lang.String[]')).toBe(true);
+    expect(typeNameMatches('int', 'int[]')).toBe(false);
+    expect(typeNameMatches('Pos', 'net.minecraft.core.BlockPos')).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildIndex } from '../src/indexer/index.js';
+import { closeDb, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { getCallgraphDir } from '../src/callgraph/query.js';
+import { mcFindRefsTool } from '../src/tools/static/find-refs.js';
+import { getMinecraftCacheDir, getMinecraftSourceDir, getVersionedIndexDir } from '../src/utils/paths.js';
+
+describe('mc_find_refs', () => {
+  const version = '1.0.0-test-find-refs';
+  const world = 'net.minecraft.world';
+  let tempDir: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-find-refs-test-'));
+    const sourceDir = getMinecraftSourceDir(version);
+    const sources: Record<string, string> = {
+      'Entity.java': 'public class Entity {\n    public boolean hurt(float amount) { return false; }\n}\n',
+      'LivingEntity.java': 'public class LivingEntity extends Entity {\n    public boolean hurt(float amount) { return true; }\n}\n',
+      // Declares no hurt(): calls through it are recorded against Monster all the same.
+      'Monster.java': 'public class Monster extends LivingEntity {\n}\n',
+      'Zombie.java': 'public class Zombie extends Monster {\n    public boolean hurt(float amount) { return super.hurt(amount); }\n}\n',
+      'Husk.java': 'public class Husk extends Zombie {\n}\n',
+      'Level.java': 'public class Level {\n}\n',
+    };
+    for (const [file, content] of Object.entries(sources)) {
+      fs.mkdirSync(path.join(sourceDir, 'net/minecraft/world'), { recursive: true });
+      fs.writeFileSync(path.join(sourceDir, 'net/minecraft/world', file), `package net.minecraft.world;\n${content}`);
+    }
+    await buildIndex({
+      minecraftSourceDir: sourceDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: version,
+      fabricApiVersion: null,
+      workers: 1,
+    });
+
+    const calls = [
+      [`${world}.Level:explode()`, `(VIR)${world}.Entity:hurt(float)`, 10],
+      [`${world}.Level:spawnMonster()`, `(VIR)${world}.Monster:hurt(float)`, 20],
+      [`${world}.Level:tickZombie()`, `(VIR)${world}.Zombie:hurt(float)`, 30],
+      [`${world}.Level:tickHusk()`, `(VIR)${world}.Husk:hurt(float)`, 40],
+    ];
+    const callgraphFile = path.join(tempDir, 'method_call.txt');
+    fs.writeFileSync(callgraphFile, calls.map(([caller, callee, line], i) => `${i}\t0\t${caller}\t${callee}\t${line}\tboolean`).join('\n'));
+    fs.mkdirSync(getCallgraphDir(version), { recursive: true });
+    await parseCallgraphAndCreateDb(version, callgraphFile);
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+    fs.rmSync(getVersionedIndexDir(version), { recursive: true, force: true });
+  });
+
+  test('with dispatch, finds calls through supertypes that only inherit the method', async () => {
+    const reply = await mcFindRefsTool.handler({ className: `${world}.Zombie`, methodName: 'hurt', direction: 'callers', dispatch: true, version });
+    const lines = reply.content[0].text.split('\n').filter(line => line.startsWith(`${world}.Level.`));
+    expect(lines.map(line => line.replace(/ \(bytecode line \d+\)/, ''))).toEqual([
+      `${world}.Level.explode() [via supertype Entity]`,
+      `${world}.Level.spawnMonster() [via supertype Monster]`,
+      `${world}.Level.tickHusk() [via subtype Husk]`,
+      `${world}.Level.tickZombie() [direct]`,
+    ]);
+
+    const direct = await mcFindRefsTool.handler({ className: `${world}.Zombie`, methodName: 'hurt', direction: 'callers', version });
+    expect(direct.content[0].text).toMatch(/^Total: 1 callers:\n/);
+  });
+});
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildIndex } from '../src/indexer/index.js';
+import { mcGetClassTool } from '../src/tools/static/get-class.js';
+import { getMinecraftCacheDir, getMinecraftSourceDir, getVersionedIndexDir } from '../src/utils/paths.js';
+
+describe('mc_get_class', () => {
+  const version = '1.0.0-test-get-class';
+
+  const text = async (args: Omit<Parameters<typeof mcGetClassTool.handler>[0], 'version'>) =>
+    (await mcGetClassTool.handler({ ...args, version })).content[0].text;
+
+  beforeAll(async () => {
+    const sourceDir = getMinecraftSourceDir(version);
+    const write = (file: string, content: string) => {
+      fs.mkdirSync(path.dirname(path.join(sourceDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(sourceDir, file), content);
+    };
+    write('net/minecraft/world/Outer.java', `package net.minecraft.world;
+
+public class Outer {
+    private int count;
+
+    public Outer(int count) {
+        this.count = count;
+    }
+
+    public void tick() {
+        Runnable r = new Runnable() {
+            public void run() {}
+        };
+    }
+
+    public static class Inner {
+        public void go() {}
+        enum Mode { ON, OFF }
+    }
+
+    public int size() {
+        return count;
+    }
+}
+`);
+    const fields = Array.from({ length: 700 }, (_, i) => `    int f${i};`);
+    write('net/minecraft/world/Big.java', ['package net.minecraft.world;', '', 'public class Big {', ...fields, '}', ''].join('\n'));
+
+    await buildIndex({
+      minecraftSourceDir: sourceDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: version,
+      fabricApiVersion: null,
+      workers: 1,
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+    fs.rmSync(getVersionedIndexDir(version), { recursive: true, force: true });
+  });
+
+  test('outlines members in source order with nested types indented under their owner', async () => {
+    const outline = await text({ className: 'net.minecraft.world.Outer', view: 'outline' });
+    const body = outline.slice(outline.indexOf('// Outline (lines 3-24):\n')).split('\n').slice(1).filter(Boolean);
+    expect(body.map(line => line.trim().replace(/ +/g, ' '))).toEqual([
+      '4-4 field private int count',
+      '6-8 ctor public Outer(int count)',
+      '10-14 method public void tick()',
+      '11-13 class 1 (anonymous)',
+      '12-12 method public void run()',
+      '16-19 class public static Inner (member)',
+      '17-17 method public void go()',
+      '18-18 enum Mode (member)',
+      '18-18 constant ON',
+      '18-18 constant OFF',
+      '21-23 method public int size()',
+    ]);
+    // Two spaces per level: the anonymous class under tick(), its run() and Inner's enum below that.
+    expect(body.map(line => line.length - line.trimStart().length)).toEqual([0, 0, 0, 2, 4, 0, 2, 2, 4, 4, 0]);
+  });
+
+  test('pages through lines, clamping the range and capping its length', async () => {
+    const big = 'net.minecraft.world.Big';
+    const lines = async (startLine?: number, endLine?: number) => {
+      const reply = await text({ className: big, view: 'lines', startLine, endLine });
+      const numbered = reply.split('\n').filter(line => /^ *\d+\|/.test(line)).map(line => parseInt(line, 10));
+      return { first: numbered[0], last: numbered[numbered.length - 1], footer: reply.trimEnd().split('\n').pop() };
+    };
+
+    expect(await lines()).toEqual({ first: 1, last: 200, footer: '// Lines 1-200 of 705; next: startLine=201' });
+    expect(await lines(201, 2000)).toEqual({
+      first: 201,
+      last: 700,
+      footer: '// Lines 201-700 of 705 (capped at 500 lines); next: startLine=701',
+    });
+    expect(await lines(701, 2000)).toEqual({ first: 701, last: 705, footer: '// Lines 701-705 of 705 (end of file)' });
+    expect(await lines(-5, 2)).toMatchObject({ first: 1, last: 2 });
+    expect(await lines(900)).toMatchObject({ first: 705, last: 705 });
+    expect(await lines(10, 3)).toMatchObject({ first: 10, last: 10 });
+  });
+
+  test('defaults a nested type\'s lines to its own slice of the file', async () => {
+    const reply = await text({ className: 'net.minecraft.world.Outer.Inner', view: 'lines' });
+    expect(reply).toContain('16|     public static class Inner {');
+    expect(reply).toContain('19|     }');
+    expect(reply).not.toContain('20|');
+    expect(reply.trimEnd().split('\n').pop()).toBe('// Lines 16-19 of 25; next: startLine=20');
+  });
+});
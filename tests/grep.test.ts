@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readGrepIndex, requiredLiterals, writeGrepIndex } from '../src/indexer/grep-index.js';
+
+describe('Grep index', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-grep-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('extracts the literals a regex requires', () => {
+    expect(requiredLiterals('getGameRules\\(\\)\\.getBoolean\\(')).toEqual(['getGameRules().getBoolean(']);
+    expect(requiredLiterals('textures/gui/sprites/\\w+\\.png')).toEqual(['textures/gui/sprites/', '.png']);
+    expect(requiredLiterals('colou?r')).toEqual(['colo']);
+    expect(requiredLiterals('tick(Entity|Block)Ticks')).toEqual(['tick', 'Ticks']);
+    expect(requiredLiterals('render|draw')).toEqual([]);
+    expect(requiredLiterals('[abc]def{0,2}\\u0041ghi')).toEqual(['ghi']);
+  });
+
+  test('narrows candidate files by trigram', async () => {
+    const srcDir = path.join(tempDir, 'src');
+    fs.mkdirSync(path.join(srcDir, 'net', 'minecraft'), { recursive: true });
+    const files = {
+      'net/minecraft/A.java': 'class A { String s = "textures/gui/sprites/hud"; }',
+      'net/minecraft/B.java': 'class B { void tick() { level.getGameRules().getBoolean(RULE); } }',
+      'net/minecraft/C.java': 'class C { }',
+    };
+    for (const [name, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(srcDir, name), content);
+    }
+
+    const indexPath = path.join(tempDir, 'grep.idx');
+    await writeGrepIndex(indexPath, srcDir, Object.keys(files).map(f => path.join(srcDir, f)));
+    const index = readGrepIndex(indexPath)!;
+
+    const names = (literals: string[]) => index.candidates(literals).map(id => index.files[id]);
+    expect(index.files).toEqual(Object.keys(files));
+    expect(names(['TEXTURES/GUI'])).toEqual(['net/minecraft/A.java']);
+    expect(names(['getGameRules().getBoolean('])).toEqual(['net/minecraft/B.java']);
+    expect(names(['class', 'tick'])).toEqual(['net/minecraft/B.java']);
+    expect(names(['nowhere'])).toEqual([]);
+    expect(names([])).toHaveLength(3);
+  });
+
+  test('treats a missing, empty or truncated index as none', () => {
+    const indexPath = path.join(tempDir, 'broken.idx');
+    expect(readGrepIndex(indexPath)).toBeNull();
+    fs.writeFileSync(indexPath, '');
+    expect(readGrepIndex(indexPath)).toBeNull();
+    fs.writeFileSync(indexPath, Buffer.from([0xff, 0x00]));
+    expect(readGrepIndex(indexPath)).toBeNull();
+    fs.writeFileSync(indexPath, Buffer.concat([Buffer.from([100, 0, 0, 0]), Buffer.from('{"format":1')]));
+    expect(readGrepIndex(indexPath)).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { buildHierarchy, collectAncestors, collectDescendants } from '../src/indexer/hierarchy.js';
+import { ClassInfo, ClassKind } from '../src/utils/types.js';
+
+function cls(kind: ClassKind, superClass: string | null, interfaces: string[] = [], extra: Partial<ClassInfo> = {}): ClassInfo {
+  return {
+    kind,
+    super: superClass,
+    interfaces,
+    fields: [],
+    methods: [],
+    sourcePath: 'Test.java',
+    modifiers: [],
+    nesting: 'top-level',
+    ...extra,
+  };
+}
+
+describe('Type hierarchy', () => {
+  const packages = new Map<string, Record<string, ClassInfo>>([
+    ['a', {
+      ItemLike: cls('interface', null),
+      Nameable: cls('interface', null),
+      Entity: cls('class', 'java.lang.Object', ['a.Nameable'], { modifiers: ['public', 'abstract'] }),
+      LivingEntity: cls('class', 'a.Entity', [], { modifiers: ['public', 'abstract'] }),
+      Player: cls('class', 'a.LivingEntity', ['a.ItemLike']),
+      ServerPlayer: cls('class', 'a.Player'),
+      Boat: cls('class', 'a.Entity', ['a.ItemLike']),
+      Block: cls('interface', null, ['a.ItemLike']),
+      'Boat$1': cls('class', 'a.ItemLike', [], { nesting: 'anonymous' }),
+    }],
+  ]);
+  const hierarchy = buildHierarchy([['minecraft', packages]]);
+
+  test('indexes direct subtypes for both extends and implements', () => {
+    expect(hierarchy.subtypes['a.Entity']).toEqual(['a.Boat', 'a.LivingEntity']);
+    expect(hierarchy.subtypes['a.ItemLike']).toEqual(['a.Block', 'a.Boat', 'a.Boat$1', 'a.Player']);
+  });
+
+  test('treats an anonymous class over an interface as an implementor', () => {
+    expect(hierarchy.types['a.Boat$1'].super).toBe('java.lang.Object');
+    expect(hierarchy.types['a.Boat$1'].interfaces).toEqual(['a.ItemLike']);
+  });
+
+  test('walks every ancestor, including types outside the index', () => {
+    const ancestors = collectAncestors(hierarchy, 'a.ServerPlayer');
+    expect(ancestors.map(a => [a.className, a.depth])).toEqual([
+      ['a.Player', 1],
+      ['a.LivingEntity', 2],
+      ['a.ItemLike', 2],
+      ['a.Entity', 3],
+      ['java.lang.Object', 4],
+      ['a.Nameable', 4],
+    ]);
+    expect(ancestors.find(a => a.className === 'java.lang.Object')?.node).toBeNull();
+  });
+
+  test('walks descendants with a depth limit', () => {
+    expect(collectDescendants(hierarchy, 'a.Entity').map(d => d.className)).toEqual([
+      'a.Boat', 'a.LivingEntity', 'a.Player', 'a.ServerPlayer',
+    ]);
+    expect(collectDescendants(hierarchy, 'a.Entity', 1).map(d => d.className)).toEqual(['a.Boat', 'a.LivingEntity']);
+  });
+
+  test('marks abstract classes and interfaces', () => {
+    const concrete = collectDescendants(hierarchy, 'a.Entity')
+      .filter(d => d.node && !d.node.abstract)
+      .map(d => d.className);
+    expect(concrete).toEqual(['a.Boat', 'a.Player', 'a.ServerPlayer']);
+    expect(collectDescendants(hierarchy, 'a.ItemLike').map(d => d.className)).toContain('a.ServerPlayer');
+  });
+});
@@ -2,6 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { buildIndex, loadPackageIndex } from '../src/indexer/index.js';
+import { SourceStore } from '../src/storage/source-store.js';
+import { getVersionedIndexDir } from '../src/utils/paths.js';
 
 describe('Index Builder', () => {
   const tempDir = path.join(os.tmpdir(), 'mcdev-mcp-test-' + Date.now());
@@ -17,6 +19,12 @@ describe('Index Builder', () => {
       fs.rmSync(tempDir, { recursive: true, force: true });
     }
   });
+
+  afterAll(() => {
+    for (const suffix of ['', '-nested', '-overloads', '-search', '-incremental']) {
+      fs.rmSync(getVersionedIndexDir(`1.0.0-test${suffix}`), { recursive: true, force: true });
+    }
+  });
   
   test('builds index from test sources', async () => {
     const testPackageDir = path.join(tempDir, 'net', 'minecraft', 'test');
@@ -53,11 +61,224 @@ public class TestClass extends BaseClass implements TestInterface {
     expect(result.minecraftPackages).toContain('net.minecraft.test');
     expect(result.totalClasses).toBeGreaterThan(0);
   });
+
+  test('resolves nested classes by source and binary name', async () => {
+    const testPackageDir = path.join(tempDir, 'net', 'minecraft', 'nested');
+    fs.mkdirSync(testPackageDir, { recursive: true });
+
+    fs.writeFileSync(path.join(testPackageDir, 'Outer.java'), `
+package net.minecraft.nested;
+
+public class Outer {
+    public static class Inner {
+        public void innerMethod() {
+        }
+    }
+}
+`);
+
+    const result = await buildIndex({
+      minecraftSourceDir: tempDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: '1.0.0-test-nested',
+      fabricApiVersion: null,
+    });
+    expect(result.totalClasses).toBe(2);
+
+    const store = new SourceStore();
+    await store.setVersion('1.0.0-test-nested');
+
+    const dotted = store.getClass('net.minecraft.nested.Outer.Inner');
+    const binary = store.getClass('net.minecraft.nested.Outer$Inner');
+    expect(dotted?.binaryName).toBe('net.minecraft.nested.Outer$Inner');
+    expect(binary?.info.methods.map(m => m.name)).toEqual(['innerMethod']);
+    expect(store.getClass('net.minecraft.nested.Outer')?.info.methods).toEqual([]);
+  });
+
+  test('selects method overloads by parameter types or descriptor', async () => {
+    const testPackageDir = path.join(tempDir, 'net', 'minecraft', 'overloads');
+    fs.mkdirSync(testPackageDir, { recursive: true });
+
+    fs.writeFileSync(path.join(testPackageDir, 'Level.java'), `
+package net.minecraft.overloads;
+
+import java.util.List;
+
+public class Level {
+    public Level(String name) {
+    }
+
+    public boolean setBlock(BlockPos pos, int state) {
+        return setBlock(pos, state, 3);
+    }
+
+    public boolean setBlock(BlockPos pos, int state, int flags) {
+        return true;
+    }
+
+    public void setBlock(List<BlockPos> positions) {
+    }
+}
+`);
+    fs.writeFileSync(path.join(testPackageDir, 'BlockPos.java'), `
+package net.minecraft.overloads;
+
+public class BlockPos {
+}
+`);
+
+    await buildIndex({
+      minecraftSourceDir: tempDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: '1.0.0-test-overloads',
+      fabricApiVersion: null,
+    });
+
+    const store = new SourceStore();
+    await store.setVersion('1.0.0-test-overloads');
+    const level = 'net.minecraft.overloads.Level';
+
+    const all = store.getMethod(level, 'setBlock');
+    expect(all?.overloads).toHaveLength(3);
+    expect(all?.matches).toHaveLength(3);
+
+    const byTypes = store.getMethod(level, 'setBlock', { paramTypes: ['BlockPos', 'int', 'int'] });
+    expect(byTypes?.matches.map(m => m.method.lineStart)).toEqual([14]);
+    expect(byTypes?.matches[0].source).toContain('return true;');
+
+    const byDescriptor = store.getMethod(level, 'setBlock', { descriptor: '(Lnet/minecraft/overloads/BlockPos;I)Z' });
+    expect(byDescriptor?.matches.map(m => m.method.params.length)).toEqual([2]);
+
+    expect(store.getMethod(level, 'setBlock', { paramTypes: ['java.util.List'] })?.matches).toHaveLength(1);
+    expect(store.getMethod(level, 'setBlock', { paramTypes: [] })?.matches).toHaveLength(0);
+    expect(store.getMethod(level, '<init>')?.matches.map(m => m.method.params[0].type)).toEqual(['java.lang.String']);
+  });
+
+  test('searches and pages through the symbol database', async () => {
+    const testPackageDir = path.join(tempDir, 'net', 'minecraft', 'search');
+    fs.mkdirSync(testPackageDir, { recursive: true });
+
+    fs.writeFileSync(path.join(testPackageDir, 'BlockEntity.java'), `
+package net.minecraft.search;
+
+public class BlockEntity {
+    private int blockState;
+
+    public void setChanged() {
+    }
+
+    @Deprecated
+    public void tickBlock() {
+    }
+}
+`);
+    fs.writeFileSync(path.join(testPackageDir, 'ChestBlockEntity.java'), `
+package net.minecraft.search;
+
+public class ChestBlockEntity extends BlockEntity {
+}
+`);
+
+    await buildIndex({
+      minecraftSourceDir: tempDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: '1.0.0-test-search',
+      fabricApiVersion: null,
+    });
+
+    const store = new SourceStore();
+    await store.setVersion('1.0.0-test-search');
+
+    const blocks = store.search('block');
+    // Name-prefix hits rank ahead of word matches further into the name.
+    expect(blocks.items.map(r => r.name).slice(0, 2).sort()).toEqual(['BlockEntity', 'blockState']);
+    expect(blocks.items.map(r => r.name).slice(2)).toEqual(expect.arrayContaining(['ChestBlockEntity', 'tickBlock']));
+
+    const page = store.search('block', 'class', { offset: 1, limit: 1 });
+    expect(page.total).toBe(2);
+    expect(page.items.map(r => r.className)).toEqual(['net.minecraft.search.ChestBlockEntity']);
+
+    expect(store.search('CBE').items[0]?.className).toBe('net.minecraft.search.ChestBlockEntity');
+    expect(store.search('setChnaged').items.map(r => r.name)).toEqual(['setChanged']);
+    expect(store.search('owner:ChestBlockEntity').items.map(r => r.name)).toEqual([]);
+    expect(store.search('owner:BlockEntity block').items.map(r => r.name).sort()).toEqual(['blockState', 'tickBlock']);
+    expect(store.search('pkg:net.minecraft.search', 'class').total).toBe(2);
+    expect(store.search('pkg:net.minecraft.other block').total).toBe(0);
+    expect(store.search('@Deprecated pkg:net.minecraft.search', 'method').items)
+      .toEqual([expect.objectContaining({ name: 'tickBlock', annotations: '@Deprecated' })]);
+    expect(store.search('@java.lang.Deprecated').total).toBe(1);
+    expect(store.search('@Override').total).toBe(0);
+
+    expect(store.declaresMethod('net.minecraft.search.BlockEntity', 'tickBlock', { paramTypes: [] })).toBe(true);
+    expect(store.declaresMethod('net.minecraft.search.BlockEntity', 'tickBlock', { paramTypes: ['int'] })).toBe(false);
+    expect(store.declaresMethod('net.minecraft.search.ChestBlockEntity', 'tickBlock')).toBe(false);
+
+    expect(store.findHierarchy('net.minecraft.search.BlockEntity', 'subclasses').items)
+      .toEqual([expect.objectContaining({ className: 'net.minecraft.search.ChestBlockEntity' })]);
+    expect(store.listClasses('net.minecraft.search').total).toBe(2);
+  });
+
+  test('reparses only changed files on rebuild', async () => {
+    const testPackageDir = path.join(tempDir, 'net', 'minecraft', 'incremental');
+    fs.mkdirSync(testPackageDir, { recursive: true });
+    fs.writeFileSync(path.join(testPackageDir, 'Stable.java'), `
+package net.minecraft.incremental;
+
+public class Stable {
+    public void keep() {
+    }
+}
+`);
+    fs.writeFileSync(path.join(testPackageDir, 'Edited.java'), `
+package net.minecraft.incremental;
+
+public class Edited {
+    public void before() {
+    }
+}
+`);
+
+    const options = {
+      minecraftSourceDir: tempDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: '1.0.0-test-incremental',
+      fabricApiVersion: null,
+      workers: 1,
+    };
+
+    const first = await buildIndex(options);
+    expect(first.parsedFiles).toBe(2);
+    expect(first.reusedFiles).toBe(0);
+
+    fs.writeFileSync(path.join(testPackageDir, 'Edited.java'), `
+package net.minecraft.incremental;
+
+public class Edited {
+    public void after() {
+    }
+}
+`);
+
+    const second = await buildIndex(options);
+    expect(second.parsedFiles).toBe(1);
+    expect(second.reusedFiles).toBe(1);
+    expect(second.totalClasses).toBe(2);
+
+    const store = new SourceStore();
+    await store.setVersion('1.0.0-test-incremental');
+    expect(store.search('keep', 'method').items.map(r => r.className)).toEqual(['net.minecraft.incremental.Stable']);
+    expect(store.search('after', 'method').total).toBe(1);
+    expect(store.search('before', 'method').total).toBe(0);
+
+    const full = await buildIndex({ ...options, full: true });
+    expect(full.parsedFiles).toBe(2);
+    expect(full.reusedFiles).toBe(0);
+  });
 });
 
 describe('Package Index Loader', () => {
-  test('returns null for non-existent package', () => {
-    const result = loadPackageIndex('minecraft', 'non.existent.package');
+  test('returns null for non-existent package', async () => {
+    const result = await loadPackageIndex('minecraft', 'non.existent.package');
     expect(result).toBeNull();
   });
 });
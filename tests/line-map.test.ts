@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readLineMap, splitLineMapping, writeLineMap } from '../src/decompiler/line-map.js';
+
+describe('Line map', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-line-map-test-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('splits the mapping comment off a decompiled file', () => {
+    const source = 'class A {\n   void tick() {\n      this.run();\n   }\n}\n';
+    expect(splitLineMapping(`${source}// 12 <-> 3 14 <-> 4\n`)).toEqual({ source, pairs: [12, 3, 14, 4] });
+    expect(splitLineMapping(source)).toBeNull();
+    expect(splitLineMapping(`${source}// not a mapping\n`)).toBeNull();
+  });
+
+  test('records the mapping per class and strips it from the sources', async () => {
+    const srcDir = path.join(tempDir, 'src');
+    fs.mkdirSync(path.join(srcDir, 'net', 'minecraft'), { recursive: true });
+    const source = 'package net.minecraft;\n\nclass A {\n   void tick() {\n      this.run();\n      this.run();\n   }\n}\n';
+    fs.writeFileSync(path.join(srcDir, 'net', 'minecraft', 'A.java'), `${source}// 40 <-> 5 41 <-> 6 40 <-> 9\n`);
+    fs.writeFileSync(path.join(srcDir, 'net', 'minecraft', 'B.java'), 'class B {}\n');
+
+    const mapPath = path.join(tempDir, 'line-map.json');
+    expect(await writeLineMap(mapPath, srcDir)).toBe(1);
+    expect(fs.readFileSync(path.join(srcDir, 'net', 'minecraft', 'A.java'), 'utf-8')).toBe(source);
+
+    const lineMap = readLineMap(mapPath)!;
+    expect(lineMap.sourceLine('net.minecraft.A', 41)).toBe(6);
+    expect(lineMap.sourceLine('net.minecraft.A', 40)).toBe(5);
+    expect(lineMap.sourceLine('net.minecraft.A$1', 41)).toBe(6);
+    expect(lineMap.sourceLine('net.minecraft.A', 99)).toBeNull();
+    expect(lineMap.sourceLine('net.minecraft.B', 1)).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildIndex } from '../src/indexer/index.js';
+import { closeDb, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { getCallgraphDir } from '../src/callgraph/query.js';
+import { describePacketFlow, mcPacketFlowTool } from '../src/tools/static/packet-flow.js';
+import { getMinecraftCacheDir, getMinecraftSourceDir, getVersionedIndexDir } from '../src/utils/paths.js';
+
+describe('Packet flow', () => {
+  const protocol = 'net.minecraft.network.protocol';
+
+  test('reads direction and phase from the listener handle() takes', () => {
+    expect(describePacketFlow(`${protocol}.game.ClientboundSetEntityMotionPacket`, `${protocol}.game.ClientGamePacketListener`))
+      .toEqual({ direction: 'clientbound', phase: 'game' });
+    expect(describePacketFlow(`${protocol}.common.ServerboundKeepAlivePacket`, `${protocol}.common.ServerCommonPacketListener`))
+      .toEqual({ direction: 'serverbound', phase: 'common' });
+    expect(describePacketFlow(`${protocol}.login.ClientboundHelloPacket`, `${protocol}.login.ClientLoginPacketListener`))
+      .toEqual({ direction: 'clientbound', phase: 'login' });
+  });
+
+  test('falls back to the packet name and package', () => {
+    expect(describePacketFlow(`${protocol}.configuration.ServerboundFinishConfigurationPacket`, `${protocol}.PacketListener`))
+      .toEqual({ direction: 'serverbound', phase: 'configuration' });
+    expect(describePacketFlow('net.example.CustomPacket', null)).toEqual({ direction: null, phase: null });
+  });
+});
+
+describe('mc_packet_flow', () => {
+  const version = '1.0.0-test-packet-flow';
+  const game = 'net.minecraft.network.protocol.game';
+  let tempDir: string;
+
+  const text = async (packet: string, paging: { offset?: number; limit?: number } = {}) =>
+    (await mcPacketFlowTool.handler({ packet, ...paging, version })).content[0].text;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-packet-flow-test-'));
+    const sourceDir = getMinecraftSourceDir(version);
+    const sources: Record<string, string> = {
+      'net/minecraft/network/PacketListener.java': 'package net.minecraft.network;\npublic interface PacketListener {}\n',
+      'net/minecraft/network/protocol/Packet.java': `package net.minecraft.network.protocol;
+import net.minecraft.network.PacketListener;
+public interface Packet<T extends PacketListener> {
+    void handle(T listener);
+}
+`,
+      'net/minecraft/network/protocol/game/ClientGamePacketListener.java': `package net.minecraft.network.protocol.game;
+import net.minecraft.network.PacketListener;
+public interface ClientGamePacketListener extends PacketListener {
+    void handleSetTime(ClientboundSetTimePacket packet);
+}
+`,
+      'net/minecraft/network/protocol/game/ClientboundSetTimePacket.java': `package net.minecraft.network.protocol.game;
+import net.minecraft.network.protocol.Packet;
+public class ClientboundSetTimePacket implements Packet<ClientGamePacketListener> {
+    private static final int UNUSED = 0;
+    private final long gameTime;
+
+    public ClientboundSetTimePacket(long gameTime) {
+        this.gameTime = gameTime;
+    }
+
+    public static ClientboundSetTimePacket of(long gameTime) {
+        return new ClientboundSetTimePacket(gameTime);
+    }
+
+    public void handle(ClientGamePacketListener listener) {
+        listener.handleSetTime(this);
+    }
+}
+`,
+      'net/minecraft/network/protocol/game/ClientboundSetTimeDeltaPacket.java': `package net.minecraft.network.protocol.game;
+public class ClientboundSetTimeDeltaPacket extends ClientboundSetTimePacket {
+    public ClientboundSetTimeDeltaPacket(long delta) {
+        super(delta);
+    }
+}
+`,
+      'net/minecraft/client/multiplayer/ClientPacketListener.java': `package net.minecraft.client.multiplayer;
+import net.minecraft.network.protocol.game.ClientGamePacketListener;
+import net.minecraft.network.protocol.game.ClientboundSetTimePacket;
+public class ClientPacketListener implements ClientGamePacketListener {
+    public void handleSetTime(ClientboundSetTimePacket packet) {
+    }
+}
+`,
+      'net/minecraft/network/protocol/game/ClientboundPingPacket.java': `package net.minecraft.network.protocol.game;
+import net.minecraft.network.protocol.Packet;
+public class ClientboundPingPacket implements Packet<ClientGamePacketListener> {
+    public void handle(ClientGamePacketListener listener) {}
+}
+`,
+      'net/minecraft/network/protocol/common/ClientboundPingPacket.java': `package net.minecraft.network.protocol.common;
+import net.minecraft.network.protocol.Packet;
+import net.minecraft.network.protocol.game.ClientGamePacketListener;
+public class ClientboundPingPacket implements Packet<ClientGamePacketListener> {
+    public void handle(ClientGamePacketListener listener) {}
+}
+`,
+      'net/minecraft/server/level/ServerLevel.java': `package net.minecraft.server.level;
+import net.minecraft.network.protocol.game.ClientboundSetTimePacket;
+public class ServerLevel {
+    public void tickTime() {
+        send(ClientboundSetTimePacket.of(0L));
+        send(new ClientboundSetTimePacket(1L));
+    }
+    void send(Object packet) {}
+}
+`,
+    };
+    for (const [file, content] of Object.entries(sources)) {
+      fs.mkdirSync(path.dirname(path.join(sourceDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(sourceDir, file), content);
+    }
+    await buildIndex({
+      minecraftSourceDir: sourceDir,
+      fabricApiSourceDir: null,
+      minecraftVersion: version,
+      fabricApiVersion: null,
+      workers: 1,
+    });
+
+    const callgraphFile = path.join(tempDir, 'method_call.txt');
+    fs.writeFileSync(callgraphFile, [
+      `0\t0\tnet.minecraft.server.level.ServerLevel:tickTime()\t(STA)${game}.ClientboundSetTimePacket:of(long)\t5\t${game}.ClientboundSetTimePacket`,
+      `0\t0\tnet.minecraft.server.level.ServerLevel:tickTime()\t(SPE)${game}.ClientboundSetTimePacket:<init>(long)\t6\tvoid`,
+      `0\t0\t${game}.ClientboundSetTimePacket:of(long)\t(SPE)${game}.ClientboundSetTimePacket:<init>(long)\t12\tvoid`,
+      `0\t0\t${game}.ClientboundSetTimeDeltaPacket:<init>(long)\t(SPE)${game}.ClientboundSetTimePacket:<init>(long)\t4\tvoid`,
+    ].join('\n'));
+    fs.mkdirSync(getCallgraphDir(version), { recursive: true });
+    await parseCallgraphAndCreateDb(version, callgraphFile);
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+    fs.rmSync(getVersionedIndexDir(version), { recursive: true, force: true });
+  });
+
+  test('resolves simple, partly and fully qualified packet names', async () => {
+    expect(await text('ClientboundSetTimePacket')).toMatch(/^net\.minecraft\.network\.protocol\.game\.ClientboundSetTimePacket \[class\]/);
+    expect(await text('common.ClientboundPingPacket')).toMatch(/^net\.minecraft\.network\.protocol\.common\.ClientboundPingPacket \[class\]/);
+    expect((await text('ClientboundPingPacket')).split('\n')).toEqual([
+      'ClientboundPingPacket names 2 packets; pass one fully qualified:',
+      `  ${game}.ClientboundPingPacket`,
+      '  net.minecraft.network.protocol.common.ClientboundPingPacket',
+    ]);
+    expect(await text('ServerLevel')).toBe('No packet class named ServerLevel (a type implementing net.minecraft.network.protocol.Packet)');
+    expect(await text('ClientboundMissingPacket')).toMatch(/^No packet class named ClientboundMissingPacket/);
+  });
+
+  test('finds the listener method handle() dispatches to and its implementations', async () => {
+    const reply = await text(`${game}.ClientboundSetTimePacket`);
+    expect(reply).toContain('Direction: clientbound (sent by the server, handled by the client)\nProtocol phase: game (ClientGamePacketListener)');
+    // Static fields are constants, not packet data.
+    expect(reply).toContain('Fields:\n  long gameTime\n\n');
+    expect(reply).toContain([
+      `Handled by ${game}.ClientGamePacketListener#handleSetTime(ClientboundSetTimePacket):`,
+      '  net.minecraft.client.multiplayer.ClientPacketListener#handleSetTime (lines 5-6)',
+    ].join('\n'));
+
+    // No listener method takes it: the callgraph's callees of handle() are tried instead.
+    expect(await text('common.ClientboundPingPacket')).toContain('Handler: ClientboundPingPacket.handle calls no method of ClientGamePacketListener');
+  });
+
+  test('lists construction sites and calls to static factories, paged, leaving out super(...) calls', async () => {
+    const reply = await text('ClientboundSetTimePacket');
+    expect(reply).toContain([
+      'Total: 2 construction sites:',
+      `  ${game}.ClientboundSetTimePacket.of(long) (bytecode line 12)`,
+      '  net.minecraft.server.level.ServerLevel.tickTime() (bytecode line 6)',
+      '',
+      'Total: 1 calls to ClientboundSetTimePacket.of:',
+      '  net.minecraft.server.level.ServerLevel.tickTime() (bytecode line 5)',
+    ].join('\n'));
+
+    const page = await text('ClientboundSetTimePacket', { offset: 1, limit: 1 });
+    expect(page).toContain('Showing 2-2 of 2 construction sites:\n  net.minecraft.server.level.ServerLevel.tickTime() (bytecode line 6)\n');
+    expect(await text('common.ClientboundPingPacket')).toContain('Construction sites: none in the callgraph');
+    expect(reply).not.toContain('ClientboundSetTimeDeltaPacket.<init>');
+  });
+});
@@ -10,8 +10,8 @@ describe('Declaration Parser', () => {
     const result = parseJavaContent(code, 'Foo.java');
     expect(result?.className).toBe('Foo');
     expect(result?.info.kind).toBe('class');
-    expect(result?.info.super).toBe('Bar');
-    expect(result?.info.interfaces).toEqual(['Baz']);
+    expect(result?.info.super).toBe('com.example.Bar');
+    expect(result?.info.interfaces).toEqual(['com.example.Baz']);
   });
 
   test('parses multi-line interface declaration', () => {
@@ -25,7 +25,7 @@ describe('Declaration Parser', () => {
     const result = parseJavaContent(code, 'Component.java');
     expect(result?.className).toBe('Component');
     expect(result?.info.kind).toBe('interface');
-    expect(result?.info.interfaces).toEqual(['Message', 'FormattedText']);
+    expect(result?.info.interfaces).toEqual(['net.minecraft.network.chat.Message', 'net.minecraft.network.chat.FormattedText']);
   });
 
   test('parses record declaration', () => {
@@ -61,7 +61,7 @@ describe('Declaration Parser', () => {
     expect(result?.className).toBe('MyInterface');
     expect(result?.info.kind).toBe('interface');
     expect(result?.info.super).toBe(null);
-    expect(result?.info.interfaces).toEqual(['BaseInterface']);
+    expect(result?.info.interfaces).toEqual(['com.example.BaseInterface']);
   });
 
   test('parses class with multiple implements', () => {
@@ -72,7 +72,7 @@ describe('Declaration Parser', () => {
     `;
     const result = parseJavaContent(code, 'MyClass.java');
     expect(result?.className).toBe('MyClass');
-    expect(result?.info.interfaces).toEqual(['Runnable', 'Serializable', 'Cloneable']);
+    expect(result?.info.interfaces).toEqual(['java.lang.Runnable', 'com.example.Serializable', 'java.lang.Cloneable']);
   });
 
   test('parses enum declaration', () => {
@@ -112,12 +112,16 @@ describe('Declaration Parser', () => {
   test('parses class with generic extends', () => {
     const code = `
       package com.example;
+      import java.util.ArrayList;
+      import java.util.List;
       public class MyList extends ArrayList<String> implements List<String> {
       }
     `;
     const result = parseJavaContent(code, 'MyList.java');
     expect(result?.className).toBe('MyList');
-    expect(result?.info.super).toBe('ArrayList');
-    expect(result?.info.interfaces).toEqual(['List']);
+    expect(result?.info.super).toBe('java.util.ArrayList');
+    expect(result?.info.superText).toBe('ArrayList<String>');
+    expect(result?.info.interfaces).toEqual(['java.util.List']);
+    expect(result?.info.interfacesText).toEqual(['List<String>']);
   });
 });
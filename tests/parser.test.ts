@@ -1,4 +1,6 @@
 import { parseJavaContent } from '../src/indexer/parser.js';
+import type { ParsedClass } from '../src/indexer/parser.js';
+import type { FieldInfo, MethodInfo } from '../src/utils/types.js';
 
 describe('Java Parser', () => {
   test('parses simple class', () => {
@@ -39,8 +41,8 @@ public class PlayerEntity extends LivingEntity implements Attackable {
     const result = parseJavaContent(javaCode, '/test/PlayerEntity.java');
     
     expect(result).not.toBeNull();
-    expect(result?.info.super).toBe('LivingEntity');
-    expect(result?.info.interfaces).toContain('Attackable');
+    expect(result?.info.super).toBe('net.minecraft.entity.LivingEntity');
+    expect(result?.info.interfaces).toContain('net.minecraft.entity.Attackable');
   });
   
   test('extracts fields', () => {
@@ -65,6 +67,29 @@ public class FieldsTest {
     expect(maxField?.modifiers).toContain('static');
     expect(maxField?.modifiers).toContain('final');
   });
+
+  test('records field line ranges including multi-line initializers', () => {
+    const javaCode = `
+package test;
+
+public class Ranges {
+    private int simple;
+    private static final int[] TABLE = {
+        1, 2, 3
+    };
+    private String after = "x;y";
+}
+`;
+
+    const result = parseJavaContent(javaCode, '/test/Ranges.java');
+    const range = (name: string) => {
+      const field = result?.info.fields.find(f => f.name === name);
+      return [field?.lineStart, field?.lineEnd];
+    };
+    expect(range('simple')).toEqual([5, 5]);
+    expect(range('TABLE')).toEqual([6, 8]);
+    expect(range('after')).toEqual([9, 9]);
+  });
   
   test('extracts methods with parameters', () => {
     const javaCode = `
@@ -135,3 +160,347 @@ public class GenericTest {
     expect(result?.className).toBe('GenericTest');
   });
 });
+
+describe('Nested types', () => {
+  const javaCode = `
+package test;
+
+public class Outer extends Base {
+    private int outerField;
+
+    public void outerMethod() {
+        Runnable r = new Runnable() {
+            public void run() {
+                String s = "class Fake {";
+            }
+        };
+        class Local {
+            public void localMethod() {}
+        }
+    }
+
+    public static class Inner implements Comparable<Inner> {
+        private String innerField;
+
+        public int compareTo(Inner other) {
+            return 0;
+        }
+
+        public record Point(int x, int y) {}
+    }
+
+    public enum Mode {
+        A,
+        B {
+            public void special() {}
+        };
+    }
+}
+`;
+
+  const result = parseJavaContent(javaCode, '/test/Outer.java');
+  const byName = new Map<string, ParsedClass>();
+  const walk = (c: ParsedClass) => { byName.set(c.className, c); c.nested.forEach(walk); };
+  if (result) walk(result);
+
+  test('indexes every declared type under its binary name', () => {
+    expect([...byName.keys()].sort()).toEqual([
+      'Outer', 'Outer$1', 'Outer$1Local', 'Outer$Inner', 'Outer$Inner$Point', 'Outer$Mode', 'Outer$Mode$1',
+    ]);
+    expect(byName.get('Outer$Inner')!.fullName).toBe('test.Outer$Inner');
+    expect(byName.get('Outer$Inner')!.info.outerClass).toBe('test.Outer');
+    expect(byName.get('Outer$Inner')!.info.nesting).toBe('member');
+    expect(byName.get('Outer$1')!.info.nesting).toBe('anonymous');
+    expect(byName.get('Outer$1')!.info.super).toBe('java.lang.Runnable');
+    expect(byName.get('Outer$1Local')!.info.nesting).toBe('local');
+    expect(byName.get('Outer$Mode$1')!.info.super).toBe('test.Outer$Mode');
+    expect(result?.info.nestedClasses).toEqual(['test.Outer$1', 'test.Outer$1Local', 'test.Outer$Inner', 'test.Outer$Mode']);
+  });
+
+  test('attributes members to the type that declares them', () => {
+    expect(result?.info.fields.map(f => f.name)).toEqual(['outerField']);
+    expect(result?.info.methods.map(m => m.name)).toEqual(['outerMethod']);
+    expect(byName.get('Outer$Inner')!.info.fields.map((f: FieldInfo) => f.name)).toEqual(['innerField']);
+    expect(byName.get('Outer$Inner')!.info.methods.map((m: MethodInfo) => m.name)).toEqual(['compareTo']);
+    expect(byName.get('Outer$1')!.info.methods.map((m: MethodInfo) => m.name)).toEqual(['run']);
+    expect(byName.get('Outer$Mode$1')!.info.methods.map((m: MethodInfo) => m.name)).toEqual(['special']);
+  });
+
+  test('records line ranges for nested types and their members', () => {
+    const inner = byName.get('Outer$Inner')!.info;
+    expect(inner.lineStart).toBe(18);
+    expect(inner.lineEnd).toBe(26);
+    expect(inner.methods[0].lineStart).toBe(21);
+    expect(inner.methods[0].lineEnd).toBe(23);
+    expect(result?.info.lineStart).toBe(4);
+  });
+});
+
+describe('Type resolution', () => {
+  const javaCode = `
+package net.minecraft.world.entity;
+
+import java.util.List;
+import java.util.Map;
+import net.minecraft.core.BlockPos;
+import net.minecraft.world.level.Level;
+import net.minecraft.world.entity.player.Player.BedSleepingProblem;
+
+public abstract class Entity<T extends Comparable<T>> implements Nameable, Comparable<Entity<T>> {
+    private List<BlockPos> positions;
+    protected Map<String, List<BlockPos>> byName;
+    private Entity.RemovalReason removalReason;
+    private T key;
+    private BedSleepingProblem problem;
+
+    public Level level() {
+        return null;
+    }
+
+    public <E extends Entity<?>> List<E> collect(Class<E> type, BlockPos... at) {
+        return null;
+    }
+
+    public static enum RemovalReason {
+        KILLED;
+    }
+}
+`;
+
+  const result = parseJavaContent(javaCode, '/src/net/minecraft/world/entity/Entity.java', {
+    lookup: fqn => ['net.minecraft.world.entity.Nameable', 'net.minecraft.world.entity.Entity'].includes(fqn),
+  });
+  const field = (name: string) => result?.info.fields.find(f => f.name === name);
+  const method = (name: string) => result?.info.methods.find(m => m.name === name);
+
+  test('resolves supertypes through imports, the package and java.lang', () => {
+    expect(result?.info.interfaces).toEqual(['net.minecraft.world.entity.Nameable', 'java.lang.Comparable']);
+    expect(result?.info.interfacesText).toEqual(['Nameable', 'Comparable<Entity<T>>']);
+  });
+
+  test('keeps generic text alongside the erased fully qualified type', () => {
+    expect(field('positions')?.type).toBe('java.util.List');
+    expect(field('positions')?.typeText).toBe('List<BlockPos>');
+    expect(field('byName')?.type).toBe('java.util.Map');
+    expect(field('byName')?.typeText).toBe('Map<String, List<BlockPos>>');
+  });
+
+  test('resolves nested types, imported nested types and type variables', () => {
+    expect(field('removalReason')?.type).toBe('net.minecraft.world.entity.Entity$RemovalReason');
+    expect(field('problem')?.type).toBe('net.minecraft.world.entity.player.Player$BedSleepingProblem');
+    expect(field('key')?.type).toBe('java.lang.Comparable');
+  });
+
+  test('resolves method return and parameter types', () => {
+    expect(method('level')?.returnType).toBe('net.minecraft.world.level.Level');
+    const collect = method('collect');
+    expect(collect?.returnType).toBe('java.util.List');
+    expect(collect?.params.map(p => p.type)).toEqual(['java.lang.Class', 'net.minecraft.core.BlockPos[]']);
+    expect(collect?.params.map(p => p.typeText)).toEqual(['Class<E>', 'BlockPos...']);
+  });
+});
+
+describe('Constructors, enum constants and record components', () => {
+  const javaCode = `
+package net.minecraft.network.protocol.game;
+
+import java.util.List;
+
+public class ClientboundSetEntityDataPacket {
+    private final int id;
+    private final Object items = new Object() {
+        public String toString() { return "x"; }
+    };
+
+    public ClientboundSetEntityDataPacket(int id, List<String> packedItems) {
+        this.id = id;
+    }
+
+    private ClientboundSetEntityDataPacket(ClientboundSetEntityDataPacket other) {
+        this(other.id, null);
+    }
+
+    public int id() {
+        return id;
+    }
+
+    public enum Action {
+        ADD("add", 1),
+        @Deprecated
+        REMOVE("remove", 2) {
+            public boolean isRemoval() { return true; }
+        },
+        CLEAR;
+
+        Action() {
+            this("clear", 0);
+        }
+
+        Action(String name, int code) {
+        }
+    }
+
+    public record Entry(int index,
+                        List<String> values) {
+        public Entry {
+            values = List.copyOf(values);
+        }
+    }
+}
+`;
+
+  const result = parseJavaContent(javaCode, '/test/ClientboundSetEntityDataPacket.java');
+  const nested = (name: string) => result?.nested.find(n => n.className === name)?.info;
+
+  test('extracts constructors instead of treating them as methods', () => {
+    expect(result?.info.methods.map(m => m.name)).toEqual(['id']);
+    const ctors = result?.info.constructors ?? [];
+    expect(ctors).toHaveLength(2);
+    expect(ctors[0].params.map(p => p.type)).toEqual(['int', 'java.util.List']);
+    expect(ctors[0].modifiers).toEqual(['public']);
+    expect(ctors[0].lineStart).toBe(12);
+    expect(ctors[0].lineEnd).toBe(14);
+    expect(ctors[1].params.map(p => p.typeText)).toEqual(['ClientboundSetEntityDataPacket']);
+    expect(ctors[1].modifiers).toEqual(['private']);
+  });
+
+  test('extracts enum constants with their arguments and bodies', () => {
+    const action = nested('ClientboundSetEntityDataPacket$Action');
+    expect(action?.enumConstants?.map(c => c.name)).toEqual(['ADD', 'REMOVE', 'CLEAR']);
+    expect(action?.enumConstants?.[0].args).toBe('"add", 1');
+    expect(action?.enumConstants?.[1].bodyClass).toBe(
+      'net.minecraft.network.protocol.game.ClientboundSetEntityDataPacket$Action$1'
+    );
+    expect(action?.enumConstants?.[1].lineStart).toBe(27);
+    expect(action?.enumConstants?.[1].lineEnd).toBe(29);
+    expect(action?.enumConstants?.[2].args).toBeUndefined();
+    expect(action?.constructors?.map(c => c.params.length)).toEqual([0, 2]);
+  });
+
+  test('extracts record components and the compact constructor', () => {
+    const entry = nested('ClientboundSetEntityDataPacket$Entry');
+    expect(entry?.recordComponents?.map(c => `${c.typeText} ${c.name}`)).toEqual(['int index', 'List<String> values']);
+    expect(entry?.recordComponents?.[1].type).toBe('java.util.List');
+    expect(entry?.recordComponents?.[1].lineStart).toBe(41);
+    expect(entry?.constructors).toHaveLength(1);
+    expect(entry?.constructors?.[0].compact).toBe(true);
+    expect(entry?.constructors?.[0].params.map(p => p.name)).toEqual(['index', 'values']);
+  });
+});
+
+describe('Declaration syntax', () => {
+  const javaCode = `
+package test;
+
+import java.util.List;
+
+public class Syntax {
+    int packagePrivate;
+    static final char OPEN = '{', CLOSE = '}';
+    private final String text = "}{", lines[] = {};
+
+    @Deprecated(since = "1.0", forRemoval = (1 > 2))
+    <R extends Comparable<R>> R convert(
+        final List<? extends R> items,
+        int... counts
+    ) throws java.io.IOException {
+        String braces = "}}}";
+        char c = '}';
+        return null;
+    }
+
+    void after() {
+    }
+
+    static <T> List<T> empty() {
+        return ImmutableList.<T, String>of();
+    }
+
+    interface Api {
+        int LIMIT = 4;
+        void call();
+        default void run() {
+        }
+    }
+}
+`;
+
+  const result = parseJavaContent(javaCode, '/test/Syntax.java');
+  const field = (name: string) => result?.info.fields.find(f => f.name === name);
+  const method = (name: string) => result?.info.methods.find(m => m.name === name);
+
+  test('indexes package-private members and every variable of a declaration', () => {
+    expect(result?.info.fields.map(f => f.name)).toEqual(['packagePrivate', 'OPEN', 'CLOSE', 'text', 'lines']);
+    expect(field('packagePrivate')?.modifiers).toEqual([]);
+    expect(field('CLOSE')?.modifiers).toEqual(['static', 'final']);
+    expect(field('lines')?.typeText).toBe('String[]');
+    expect(result?.info.methods.map(m => m.name)).toEqual(['convert', 'after', 'empty']);
+  });
+
+  test('parses generic methods with annotations, multi-line parameters and varargs', () => {
+    const convert = method('convert');
+    expect(convert?.returnTypeText).toBe('R');
+    expect(convert?.returnType).toBe('java.lang.Comparable');
+    expect(convert?.params.map(p => p.typeText)).toEqual(['List<? extends R>', 'int...']);
+    expect(convert?.params.map(p => p.type)).toEqual(['java.util.List', 'int[]']);
+    expect(convert?.lineStart).toBe(11);
+    expect(method('empty')?.modifiers).toEqual(['static']);
+    expect(method('empty')?.returnType).toBe('java.util.List');
+  });
+
+  test('is not fooled by braces in string and char literals', () => {
+    expect(method('convert')?.lineEnd).toBe(19);
+    expect(method('after')).toMatchObject({ lineStart: 21, lineEnd: 22 });
+    expect(result?.info.lineEnd).toBe(34);
+  });
+
+  test('indexes interface members without modifiers', () => {
+    const api = result?.nested.find(n => n.className === 'Syntax$Api')?.info;
+    expect(api?.fields.map(f => f.name)).toEqual(['LIMIT']);
+    expect(api?.methods.map(m => `${m.modifiers.join(' ')} ${m.name}`.trim())).toEqual(['call', 'default run']);
+  });
+});
+
+describe('Annotations', () => {
+  const javaCode = `
+package test;
+
+import javax.annotation.Nullable;
+import net.fabricmc.api.Environment;
+
+@Environment(EnvType.CLIENT)
+public final class Annotated {
+    @Nullable
+    private String name;
+
+    @Deprecated(since = "1.21",
+        forRemoval = true)
+    public void rename(@Nullable String name, final int count) {
+    }
+
+    @Override
+    public String toString() {
+        return name;
+    }
+}
+`;
+
+  const result = parseJavaContent(javaCode, '/test/Annotated.java');
+
+  test('records annotations on types, members and parameters with resolved types', () => {
+    expect(result?.info.annotations).toEqual([
+      { name: 'Environment', type: 'net.fabricmc.api.Environment', args: 'EnvType.CLIENT' },
+    ]);
+    expect(result?.info.modifiers).toEqual(['public', 'final']);
+    expect(result?.info.fields[0].annotations).toEqual([{ name: 'Nullable', type: 'javax.annotation.Nullable' }]);
+
+    const rename = result?.info.methods.find(m => m.name === 'rename');
+    expect(rename?.annotations).toEqual([
+      { name: 'Deprecated', type: 'java.lang.Deprecated', args: 'since = "1.21", forRemoval = true' },
+    ]);
+    expect(rename?.params[0].annotations?.map(a => a.type)).toEqual(['javax.annotation.Nullable']);
+    expect(rename?.params[1].annotations).toBeUndefined();
+    expect(result?.info.methods.find(m => m.name === 'toString')?.annotations?.map(a => a.type))
+      .toEqual(['java.lang.Override']);
+  });
+});
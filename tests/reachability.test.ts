@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { closeDb, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { getCallgraphDbPath, getCallgraphDir } from '../src/callgraph/query.js';
+import { computeReachability, loadReachability } from '../src/callgraph/reachability.js';
+import { getMinecraftCacheDir } from '../src/utils/paths.js';
+
+describe('Reachability', () => {
+  const version = '1.0.0-test-reachability';
+  let tempDir: string;
+  let callgraphFile: string;
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-reachability-test-'));
+    const calls = [
+      ['net.minecraft.client.Minecraft:tick()', '(INT)net.minecraft.Api:act()'],
+      ['net.minecraft.client.Minecraft:tick()', '(VIR)net.minecraft.Sub:inherited()'],
+      ['net.minecraft.Impl:act()', '(STA)net.minecraft.Util:help()'],
+      ['net.minecraft.Other:act()', '(STA)net.minecraft.Util:dead()'],
+      ['net.minecraft.Base:inherited()', '(STA)net.minecraft.Util:fromBase()'],
+      ['net.minecraft.client.Minecraft:lambda$tick$0()', '(STA)net.minecraft.Util:inLambda()'],
+      ['net.minecraft.Util:<clinit>()', '(STA)net.minecraft.Util:init()'],
+      ['net.minecraft.Dead:unused()', '(STA)net.minecraft.Util:dead()'],
+    ];
+    callgraphFile = path.join(tempDir, 'method_call.txt');
+    fs.writeFileSync(callgraphFile, calls.map(([caller, callee], i) => `${i}\t0\t${caller}\t${callee}\t${i + 1}\tvoid`).join('\n'));
+
+    fs.mkdirSync(getCallgraphDir(version), { recursive: true });
+    await parseCallgraphAndCreateDb(version, callgraphFile);
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+  });
+
+  test('follows calls through dispatch, lambdas and static initializers', async () => {
+    const supertypes = new Map([
+      ['net.minecraft.Impl', ['net.minecraft.Api']],
+      ['net.minecraft.Sub', ['net.minecraft.Base']],
+    ]);
+    const report = await computeReachability(version, supertypes, ['net.minecraft.client.Minecraft#t*', 'net.minecraft.Missing#run']);
+    expect(report.unmatched).toEqual(['net.minecraft.Missing#run']);
+    expect(report.methods).toBe(14);
+    expect(report.reachable).toBe(11);
+
+    const reachability = loadReachability(version)!;
+    const status = (className: string, methodName: string) =>
+      reachability.status({ className: `net.minecraft.${className}`, methodName, descriptor: '()' });
+
+    // Override of the interface method called on Api.
+    expect(status('Impl', 'act')).toBe('reachable');
+    expect(status('Util', 'help')).toBe('reachable');
+    // Inherited by the type the call was recorded against.
+    expect(status('Base', 'inherited')).toBe('reachable');
+    expect(status('Util', 'fromBase')).toBe('reachable');
+    expect(status('client.Minecraft', 'lambda$tick$0')).toBe('reachable');
+    expect(status('Util', 'init')).toBe('reachable');
+
+    // Same name, but Other is not an Api.
+    expect(status('Other', 'act')).toBe('unreachable');
+    expect(status('Util', 'dead')).toBe('unreachable');
+    expect(status('Dead', 'unused')).toBe('unreachable');
+    expect(status('Util', 'neverRecorded')).toBe('unknown');
+  });
+
+  test('is stale once the callgraph is rebuilt', async () => {
+    await computeReachability(version, new Map(), ['net.minecraft.client.Minecraft#tick']);
+    expect(loadReachability(version)?.entryPoints).toEqual(['net.minecraft.client.Minecraft#tick']);
+
+    await parseCallgraphAndCreateDb(version, callgraphFile);
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(getCallgraphDbPath(version), later, later);
+    expect(loadReachability(version)).toBeNull();
+  });
+});
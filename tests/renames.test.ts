@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildIndex } from '../src/indexer/index.js';
+import { closeDb, parseCallgraphAndCreateDb } from '../src/callgraph/index.js';
+import { getCallgraphDir } from '../src/callgraph/query.js';
+import { loadRenames, matchRenames } from '../src/storage/renames.js';
+import { getMinecraftCacheDir, getVersionedIndexDir, getVersionedSymbolDbPath } from '../src/utils/paths.js';
+
+describe('Rename detection', () => {
+  const versions = ['1.0.0-test-renames-old', '1.0.0-test-renames-new'];
+  let tempDir: string;
+
+  const spawner = (name: string) => `package net.minecraft.world;
+public class ${name} {
+    private int delay = 20;
+    private int spawnCount = 4;
+
+    public ${name}(int delay) {
+        this.delay = delay;
+    }
+
+    public boolean isNearPlayer(Level level, int range) {
+        return level.hasNearbyAlivePlayer(range * 2, delay - spawnCount);
+    }
+
+    public void serverTick(Level level) {
+        if (delay-- > 0 && spawnCount < 8) {
+            level.spawn(spawnCount, delay / 2);
+        }
+    }
+}
+`;
+  const entity = (damage: string) => `package net.minecraft.world;
+public class Entity {
+    public int armor;
+
+    public float ${damage}(float amount, int toughness) {
+        float reduced = amount * (1.0F - Math.min(20.0F, armor - toughness / 4.0F) / 25.0F);
+        return Math.max(reduced, amount * 0.2F);
+    }
+${damage === 'computeDamage' ? `
+    public void gone() {
+        armor = 0;
+    }
+` : ''}}
+`;
+
+  const sources: Array<Record<string, string>> = [
+    {
+      'net/minecraft/world/Spawner.java': spawner('Spawner'),
+      'net/minecraft/world/Mover.java': 'package net.minecraft.world;\npublic class Mover {\n    public void move() {}\n}\n',
+      'net/minecraft/world/Entity.java': entity('computeDamage'),
+      'net/minecraft/world/Old.java': 'package net.minecraft.world;\npublic class Old {\n    public String name() { return "old"; }\n}\n',
+    },
+    {
+      'net/minecraft/world/MobSpawner.java': spawner('MobSpawner'),
+      'net/minecraft/util/Mover.java': 'package net.minecraft.util;\npublic class Mover {\n    public void move() {}\n}\n',
+      'net/minecraft/world/Entity.java': entity('calculateDamage'),
+      'net/minecraft/world/Unrelated.java': 'package net.minecraft.world;\npublic interface Unrelated {\n    void accept(String value);\n}\n',
+    },
+  ];
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-renames-test-'));
+    for (let i = 0; i < versions.length; i++) {
+      const sourceDir = path.join(tempDir, versions[i]);
+      for (const [file, content] of Object.entries(sources[i])) {
+        fs.mkdirSync(path.dirname(path.join(sourceDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(sourceDir, file), content);
+      }
+      await buildIndex({
+        minecraftSourceDir: sourceDir,
+        fabricApiSourceDir: null,
+        minecraftVersion: versions[i],
+        fabricApiVersion: null,
+        workers: 1,
+      });
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    for (const version of versions) fs.rmSync(getVersionedIndexDir(version), { recursive: true, force: true });
+  });
+
+  test('pairs moved and renamed classes and renamed members, leaving removals unmatched', async () => {
+    const report = await matchRenames(versions[0], versions[1]);
+    expect(report.removed).toEqual({ classes: 3, members: 3 });
+
+    const byFrom = new Map(report.matches.map(m => [m.from, m]));
+    expect(byFrom.get('net.minecraft.world.Mover')).toMatchObject({ kind: 'class', to: 'net.minecraft.util.Mover', confidence: 1 });
+    expect(byFrom.get('net.minecraft.world.Spawner')).toMatchObject({ kind: 'class', to: 'net.minecraft.world.MobSpawner' });
+    expect(byFrom.get('net.minecraft.world.Spawner')!.signals.body).toBe(1);
+    expect(byFrom.get('net.minecraft.world.Entity#computeDamage(float,int)')).toMatchObject({
+      kind: 'method',
+      to: 'net.minecraft.world.Entity#calculateDamage(float,int)',
+    });
+    expect(byFrom.has('net.minecraft.world.Old')).toBe(false);
+    expect(byFrom.has('net.minecraft.world.Entity#gone()')).toBe(false);
+    expect(report.matches).toHaveLength(3);
+  });
+
+  test('holds both callgraphs while matching, whatever the memory budget', async () => {
+    const env = { budget: process.env.MCDEV_CALLGRAPH_MEMORY_MB, backend: process.env.MCDEV_CALLGRAPH_BACKEND };
+    const calls = [
+      '0\t0\tnet.minecraft.world.Level:hurt()\t(VIR)net.minecraft.world.Entity:computeDamage(float,int)\t10\tfloat',
+      '0\t0\tnet.minecraft.world.Level:hurt()\t(VIR)net.minecraft.world.Entity:calculateDamage(float,int)\t10\tfloat',
+    ];
+    try {
+      for (let i = 0; i < versions.length; i++) {
+        const callgraphFile = path.join(tempDir, `method_call-${i}.txt`);
+        fs.writeFileSync(callgraphFile, calls[i]);
+        fs.mkdirSync(getCallgraphDir(versions[i]), { recursive: true });
+        await parseCallgraphAndCreateDb(versions[i], callgraphFile);
+      }
+      // sql.js holds whole databases: smaller than either, the pool would close `from` to open `to`.
+      process.env.MCDEV_CALLGRAPH_BACKEND = 'sqljs';
+      process.env.MCDEV_CALLGRAPH_MEMORY_MB = '0.001';
+
+      const report = await matchRenames(versions[0], versions[1]);
+      const damage = report.matches.find(m => m.from === 'net.minecraft.world.Entity#computeDamage(float,int)');
+      expect(damage?.signals.neighborhood).toBe(1);
+    } finally {
+      closeDb();
+      for (const [name, value] of [['MCDEV_CALLGRAPH_MEMORY_MB', env.budget], ['MCDEV_CALLGRAPH_BACKEND', env.backend]] as const) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+      for (const version of versions) fs.rmSync(getMinecraftCacheDir(version), { recursive: true, force: true });
+    }
+  });
+
+  test('saves matches for lookup until either index is rebuilt', async () => {
+    await matchRenames(versions[0], versions[1]);
+    const renames = loadRenames(versions[0], versions[1])!;
+    expect(renames.classMatch('net.minecraft.world.Spawner')?.to).toBe('net.minecraft.world.MobSpawner');
+    expect(renames.memberMatch('net.minecraft.world.Entity', 'computeDamage(float,int)')?.to)
+      .toBe('net.minecraft.world.Entity#calculateDamage(float,int)');
+    expect(renames.memberMatch('net.minecraft.world.Entity', 'gone()')).toBeUndefined();
+    expect(loadRenames(versions[1], versions[0])).toBeNull();
+
+    const symbolsDb = getVersionedSymbolDbPath(versions[0]);
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(symbolsDb, later, later);
+    expect(loadRenames(versions[0], versions[1])).toBeNull();
+  });
+});
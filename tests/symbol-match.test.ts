@@ -0,0 +1,50 @@
+import { editDistance, identifierWords, parseSearchQuery, queryWords, scoreName } from '../src/utils/symbol-match.js';
+
+describe('Symbol matching', () => {
+  test('splits identifiers and parses query filters', () => {
+    expect(identifierWords('ClientboundSetEntityDataPacket')).toEqual(['clientbound', 'set', 'entity', 'data', 'packet']);
+    expect(identifierWords('MAX_STACK_SIZE')).toEqual(['max', 'stack', 'size']);
+    expect(parseSearchQuery('owner:Entity pkg:net.minecraft.world tick')).toEqual({
+      text: 'tick',
+      owner: 'Entity',
+      pkg: 'net.minecraft.world',
+    });
+    expect(parseSearchQuery('block entity').text).toBe('blockEntity');
+    expect(parseSearchQuery('@Deprecated @net.fabricmc.api.Environment tick')).toEqual({
+      text: 'tick',
+      annotations: ['Deprecated', 'net.fabricmc.api.Environment'],
+    });
+  });
+
+  test('ranks exact, prefix, CamelHump and typo matches in that order', () => {
+    const exact = scoreName('tick', 'tick');
+    const prefix = scoreName('tick', 'tickBlock');
+    const hump = scoreName('tick', 'serverTick');
+    const typo = scoreName('tikc', 'tick');
+    expect(exact).toBe(1);
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(hump);
+    expect(hump).toBeGreaterThan(typo);
+    expect(typo).toBeGreaterThan(0);
+    expect(scoreName('tick', 'render')).toBe(0);
+  });
+
+  test('matches CamelHump abbreviations', () => {
+    expect(scoreName('CPL', 'ClientPacketListener')).toBeGreaterThan(0.8);
+    expect(scoreName('BERenderer', 'BlockEntityRenderer')).toBeGreaterThan(0.8);
+    expect(scoreName('getBlkState', 'getBlockState')).toBeGreaterThan(0.5);
+    expect(scoreName('CPL', 'ClientPacketListener')).toBeGreaterThan(scoreName('CPL', 'ClientboundPlayerLoginPacket') - 0.01);
+    expect(scoreName('getBlkState', 'getBlockEntity')).toBe(0);
+    expect(queryWords('getBlkState')).toEqual(['get', 'blk', 'state']);
+    expect(queryWords('CBE')).toEqual(['c', 'b', 'e']);
+    expect(queryWords('set_changed')).toEqual(['set', 'changed']);
+  });
+
+  test('tolerates small typos', () => {
+    expect(editDistance('getblokstate', 'getblockstate')).toBe(1);
+    expect(editDistance('pakcet', 'packet')).toBe(1);
+    expect(editDistance('abc', 'xyz123', 1)).toBe(2);
+    expect(scoreName('getBlokState', 'getBlockState')).toBeGreaterThan(0);
+    expect(scoreName('ClientPakcet', 'ClientPacketListener')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildIndex } from '../src/indexer/index.js';
+import { diffVersions, formatVersionDiff } from '../src/storage/version-diff.js';
+import { getVersionedIndexDir } from '../src/utils/paths.js';
+
+describe('Version diff', () => {
+  const versions = ['1.0.0-test-diff-old', '1.0.0-test-diff-new'];
+  let tempDir: string;
+
+  const sources: Array<Record<string, string>> = [
+    {
+      'net/minecraft/world/Base.java': 'package net.minecraft.world;\npublic class Base {}\n',
+      'net/minecraft/world/Same.java': 'package net.minecraft.world;\npublic class Same {\n    public void run() {}\n}\n',
+      'net/minecraft/world/Old.java': 'package net.minecraft.world;\npublic class Old {}\n',
+      'net/minecraft/world/Mover.java': 'package net.minecraft.world;\npublic class Mover {\n    public void move() {}\n}\n',
+      'net/minecraft/world/Entity.java': `package net.minecraft.world;
+public class Entity extends Base {
+    private int health;
+
+    public void tick() { move(1); } // moves
+
+    public int age() {
+        return 1;
+    }
+
+    public void jump() {
+        y += 1;
+    }
+
+    public void gone() {
+    }
+}
+`,
+    },
+    {
+      'net/minecraft/world/Base.java': 'package net.minecraft.world;\npublic class Base {}\n',
+      'net/minecraft/world/Same.java': 'package net.minecraft.world;\npublic class Same {\n    public void run() {}\n}\n',
+      'net/minecraft/world/Tickable.java': 'package net.minecraft.world;\npublic interface Tickable {}\n',
+      'net/minecraft/util/Mover.java': 'package net.minecraft.util;\npublic class Mover {\n    public void move() {}\n    public void stop() {}\n}\n',
+      'net/minecraft/world/Entity.java': `package net.minecraft.world;
+public class Entity extends Base implements Tickable {
+    private float health;
+
+    public void added() {
+    }
+
+    /* Reformatted, same tokens. */
+    public void tick() {
+        move(1);
+    }
+
+    public long age() {
+        return 1;
+    }
+
+    public void jump() {
+        y += 2;
+    }
+}
+`,
+    },
+  ];
+
+  beforeAll(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcdev-diff-test-'));
+    for (let i = 0; i < versions.length; i++) {
+      const sourceDir = path.join(tempDir, versions[i]);
+      for (const [file, content] of Object.entries(sources[i])) {
+        fs.mkdirSync(path.dirname(path.join(sourceDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(sourceDir, file), content);
+      }
+      await buildIndex({
+        minecraftSourceDir: sourceDir,
+        fabricApiSourceDir: null,
+        minecraftVersion: versions[i],
+        fabricApiVersion: null,
+        workers: 1,
+      });
+    }
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    for (const version of versions) fs.rmSync(getVersionedIndexDir(version), { recursive: true, force: true });
+  });
+
+  test('reports class, supertype, signature and body changes', async () => {
+    const diff = await diffVersions(versions[0], versions[1]);
+    expect(diff.unchanged).toBe(2);
+    expect(diff.missingSources).toEqual([]);
+    expect(diff.classes.map(c => [c.className, c.change])).toEqual([
+      ['net.minecraft.util.Mover', 'moved'],
+      ['net.minecraft.world.Entity', 'changed'],
+      ['net.minecraft.world.Old', 'removed'],
+      ['net.minecraft.world.Tickable', 'added'],
+    ]);
+
+    const [mover, entity] = diff.classes;
+    expect(mover.movedFrom).toBe('net.minecraft.world.Mover');
+    expect(mover.members.map(m => [m.key, m.change])).toEqual([['stop()', 'added']]);
+
+    expect(entity.supertypes).toEqual({ added: ['net.minecraft.world.Tickable'], removed: [] });
+    const changes = Object.fromEntries(entity.members.map(m => [m.key, m.change]));
+    expect(changes).toEqual({
+      'added()': 'added',
+      'age()': 'signature',
+      'jump()': 'body',
+      'gone()': 'removed',
+      health: 'signature',
+    });
+    expect(entity.members.find(m => m.key === 'age()')).toMatchObject({ from: 'public int age()', to: 'public long age()' });
+  });
+
+  test('filters by package and formats summaries and details', async () => {
+    const diff = await diffVersions(versions[0], versions[1], { packages: ['net.minecraft.util'], bodies: false });
+    expect(diff.classes.map(c => c.className)).toEqual(['net.minecraft.util.Mover']);
+
+    const full = await diffVersions(versions[0], versions[1]);
+    const summary = formatVersionDiff(full);
+    expect(summary).toContain('Classes: 1 added, 1 removed, 1 moved, 1 changed, 2 unchanged');
+    expect(summary).toContain('~ net.minecraft.world.Entity: methods +1 -1 ~1 1 body; fields ~1; supertypes +net.minecraft.world.Tickable');
+
+    const details = formatVersionDiff(full, { className: 'net.minecraft.world.Mover' });
+    expect(details).toContain('> net.minecraft.util.Mover (from net.minecraft.world.Mover)');
+    expect(details).toContain('    + method public void stop() (line 4)');
+  });
+});